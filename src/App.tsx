@@ -15,17 +15,29 @@ import Projects from "./pages/Projects";
 import ProjectLayout from "./components/layout/ProjectLayout";
 import ProjectDetail from "./pages/ProjectDetail";
 import BurndownChart from "./pages/BurndownChart";
+import VelocityReport from "./pages/VelocityReport";
+import CumulativeFlow from "./pages/CumulativeFlow";
+import CycleTimeReport from "./pages/CycleTimeReport";
+import ForecastReport from "./pages/ForecastReport";
 import SprintBoard from "./pages/SprintBoard";
 import EditSprint from "./pages/EditSprint";
+import SprintPlanning from "./pages/SprintPlanning";
 import ProjectTimeline from "./pages/ProjectTimeline";
 import NotFound from "./pages/NotFound";
 import ProductBacklog from "./pages/ProductBacklog";
+import Epics from "./pages/Epics";
 import ProjectCollaborators from "./pages/ProjectCollaborators";
 import ProjectTeam from "./pages/ProjectTeam";
 import EditProject from "./pages/EditProject";
 import UserSettings from "./pages/UserSettings";
 
-const queryClient = new QueryClient();
+// The data repository serves cached reads while offline, so queries must run even without a connection
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { networkMode: "always" },
+    mutations: { networkMode: "always" }
+  }
+});
 
 // Protected route component
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
@@ -87,12 +99,18 @@ const App = () => (
               <Route path="/projects/:projectId" element={<ProtectedRoute><ProjectLayout /></ProtectedRoute>}>
                 <Route index element={<ProjectDetail />} />
                 <Route path="backlog" element={<ProductBacklog />} />
+                <Route path="epics" element={<Epics />} />
                 <Route path="timeline" element={<ProjectTimeline />} />
                 <Route path="burndown" element={<BurndownChart />} />
+                <Route path="velocity" element={<VelocityReport />} />
+                <Route path="flow" element={<CumulativeFlow />} />
+                <Route path="cycle-time" element={<CycleTimeReport />} />
+                <Route path="forecast" element={<ForecastReport />} />
                 <Route path="collaborators" element={<ProjectCollaborators />} />
                 <Route path="team" element={<ProjectTeam />} />
                 <Route path="sprint/:sprintId" element={<SprintBoard />} />
                 <Route path="sprint/:sprintId/edit" element={<EditSprint />} />
+                <Route path="sprint/:sprintId/plan" element={<SprintPlanning />} />
                 <Route path="edit" element={<EditProject />} />
               </Route>
               
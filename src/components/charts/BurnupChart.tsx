@@ -0,0 +1,150 @@
+import React from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+} from "recharts";
+import { format, parseISO } from "date-fns";
+import { Burnup } from "@/lib/burnup";
+import { ChartContainer, ChartTooltipContent, ChartLegendContent } from "@/components/ui/chart";
+
+interface BurnupChartProps {
+  burnup: Burnup;
+  today: string;
+}
+
+const config = {
+  scope: { color: "hsl(var(--scrum-chart-scope))", label: "Total Scope" },
+  completed: { color: "hsl(var(--scrum-chart-line-2))", label: "Completed" },
+  projected: { color: "hsl(var(--scrum-chart-line-1))", label: "Projected" }
+};
+
+const BurnupChart: React.FC<BurnupChartProps> = ({ burnup, today }) => {
+  const todayPoint = burnup.points.find(point => point.date === today);
+  const projectedPoint = burnup.points.find(point => point.date === burnup.projectedCompletionDate);
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="scrum-card">
+          <p className="text-sm text-scrum-text-secondary">Completed</p>
+          <p className="text-2xl font-bold">{burnup.completedPoints} SP</p>
+        </div>
+        <div className="scrum-card">
+          <p className="text-sm text-scrum-text-secondary">Total scope</p>
+          <p className="text-2xl font-bold">{burnup.scopePoints} SP</p>
+        </div>
+        <div className="scrum-card">
+          <p className="text-sm text-scrum-text-secondary">Projected completion</p>
+          <p className="text-2xl font-bold">
+            {burnup.scopePoints > 0 && burnup.completedPoints >= burnup.scopePoints
+              ? "Done"
+              : burnup.projectedCompletionDate
+                ? format(parseISO(burnup.projectedCompletionDate), "MMM dd, yyyy")
+                : "Not enough data"}
+          </p>
+        </div>
+      </div>
+
+      <div className="scrum-card h-[500px]">
+        <ChartContainer config={config} className="w-full h-full">
+          <LineChart
+            data={burnup.points}
+            margin={{
+              top: 20,
+              right: 30,
+              left: 20,
+              bottom: 10,
+            }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--scrum-chart-grid))" />
+            <XAxis
+              dataKey="formattedDate"
+              stroke="hsl(var(--scrum-chart-axis))"
+              tick={{ fill: "hsl(var(--scrum-chart-axis))" }}
+              axisLine={{ stroke: "hsl(var(--scrum-chart-grid))" }}
+            />
+            <YAxis
+              label={{
+                value: "Story Points",
+                angle: -90,
+                position: "insideLeft",
+                fill: "hsl(var(--scrum-chart-axis))"
+              }}
+              stroke="hsl(var(--scrum-chart-axis))"
+              tick={{ fill: "hsl(var(--scrum-chart-axis))" }}
+              axisLine={{ stroke: "hsl(var(--scrum-chart-grid))" }}
+            />
+            <Tooltip content={<ChartTooltipContent nameKey="dataKey" indicator="dot" />} />
+            <Legend content={<ChartLegendContent />} verticalAlign="bottom" />
+            {todayPoint && (
+              <ReferenceLine
+                x={todayPoint.formattedDate}
+                stroke="hsl(var(--scrum-chart-reference))"
+                strokeWidth={2}
+                strokeDasharray="5 3"
+                label={{
+                  value: "TODAY",
+                  position: "top",
+                  fill: "hsl(var(--scrum-chart-reference))",
+                  fontSize: 12,
+                  fontWeight: "bold"
+                }}
+              />
+            )}
+            {projectedPoint && (
+              <ReferenceLine
+                x={projectedPoint.formattedDate}
+                stroke="hsl(var(--scrum-chart-line-1))"
+                strokeDasharray="3 3"
+                label={{
+                  value: "PROJECTED",
+                  position: "top",
+                  fill: "hsl(var(--scrum-chart-line-1))",
+                  fontSize: 12
+                }}
+              />
+            )}
+            <Line
+              type="stepAfter"
+              dataKey="scope"
+              stroke="hsl(var(--scrum-chart-scope))"
+              strokeWidth={2}
+              name="scope"
+              dot={false}
+              activeDot={{ r: 8 }}
+            />
+            <Line
+              type="linear"
+              dataKey="completed"
+              stroke="hsl(var(--scrum-chart-line-2))"
+              strokeWidth={2}
+              name="completed"
+              dot={false}
+              activeDot={{ r: 8 }}
+              connectNulls={false}
+            />
+            <Line
+              type="linear"
+              dataKey="projected"
+              stroke="hsl(var(--scrum-chart-line-1))"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              name="projected"
+              dot={false}
+              activeDot={{ r: 6 }}
+              connectNulls={false}
+            />
+          </LineChart>
+        </ChartContainer>
+      </div>
+    </>
+  );
+};
+
+export default BurnupChart;
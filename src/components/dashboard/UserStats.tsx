@@ -3,7 +3,7 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { CheckCircle, Award } from "lucide-react";
 import { useAuth } from "@/context/AuthContext";
-import { supabase } from "@/lib/supabase";
+import { repository } from "@/data";
 import { Skeleton } from "@/components/ui/skeleton";
 
 interface StatsData {
@@ -24,13 +24,7 @@ const UserStats: React.FC = () => {
         setIsLoading(true);
         
         // Fetch completed tasks and their story points
-        const { data, error } = await supabase
-          .from('tasks')
-          .select('id, story_points')
-          .eq('user_id', user.id)
-          .eq('status', 'done');
-          
-        if (error) throw error;
+        const data = await repository.tasks.list({ userId: user.id, status: 'done' });
         
         // Calculate stats
         const completedCount = data?.length || 0;
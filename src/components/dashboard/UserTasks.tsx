@@ -3,7 +3,8 @@ import React, { useState, useEffect } from 'react';
 import { Clock, ArrowUpRight } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useAuth } from "@/context/AuthContext";
-import { supabase, withRetry } from "@/lib/supabase";
+import { repository } from "@/data";
+import { compareByRank } from "@/lib/rank";
 import { Badge } from "@/components/ui/badge";
 import { useNavigate } from "react-router-dom";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -32,32 +33,24 @@ const UserTasks: React.FC = () => {
       try {
         setIsLoading(true);
         
-        const { data, error } = await withRetry(async () => {
-          return await supabase
-            .from('tasks')
-            .select(`
-              id, 
-              title, 
-              status, 
-              project_id, 
-              sprint_id,
-              story_points,
-              priority,
-              projects:project_id (title)
-            `)
-            .eq('assign_to', user.username)
-            .neq('status', 'done')
-            .order('status', { ascending: true });
-        });
+        const assignedTasks = await repository.tasks.list({ assignedTo: user.username });
+        const openTasks = assignedTasks
+          .filter(task => task.status !== 'done')
+          .sort((a, b) => a.status.localeCompare(b.status) || compareByRank(a, b));
         
-        if (error) throw error;
+        // Look up each project title once
+        const projectIds = [...new Set(openTasks.map(task => task.project_id))];
+        const projects = await Promise.all(projectIds.map(id => repository.projects.get(id)));
+        const projectTitles = new Map(
+          projects.filter(Boolean).map(project => [project.id, project.title])
+        );
         
         // Safely transform the data
-        const transformedTasks: ExtendedTask[] = (data || []).map((task: any) => ({
+        const transformedTasks: ExtendedTask[] = openTasks.map(task => ({
           id: task.id,
           title: task.title,
           projectId: task.project_id,
-          projectTitle: task.projects?.title || 'Unknown Project',
+          projectTitle: projectTitles.get(task.project_id) || 'Unknown Project',
           status: task.status,
           sprintId: task.sprint_id,
           storyPoints: task.story_points,
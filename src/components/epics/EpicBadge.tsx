@@ -0,0 +1,19 @@
+import React from "react";
+import { EpicRow } from "@/data";
+
+interface EpicBadgeProps {
+  epic: Pick<EpicRow, "title" | "color">;
+}
+
+// Epic name with its color, for task cards and backlog items
+const EpicBadge: React.FC<EpicBadgeProps> = ({ epic }) => (
+  <span
+    className="text-xs px-2 py-0.5 rounded-full flex items-center gap-1 border"
+    style={{ borderColor: epic.color, color: epic.color }}
+  >
+    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: epic.color }} />
+    {epic.title}
+  </span>
+);
+
+export default EpicBadge;
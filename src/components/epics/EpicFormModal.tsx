@@ -0,0 +1,158 @@
+import React, { useState } from "react";
+import { X } from "lucide-react";
+import { toast } from "sonner";
+import { repository, EpicRow } from "@/data";
+import { EPIC_COLORS } from "@/lib/epics";
+
+interface EpicFormModalProps {
+  projectId: string;
+  // Edits this epic; creates a new one when left out
+  epic?: EpicRow;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const EpicFormModal: React.FC<EpicFormModalProps> = ({ projectId, epic, onClose, onSaved }) => {
+  const [title, setTitle] = useState(epic?.title || "");
+  const [description, setDescription] = useState(epic?.description || "");
+  const [color, setColor] = useState(epic?.color || EPIC_COLORS[0]);
+  const [targetDate, setTargetDate] = useState(epic?.target_date || "");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!title.trim()) {
+      toast.error("Epic title is required");
+      return;
+    }
+
+    const values = {
+      title: title.trim(),
+      description: description.trim() || null,
+      color,
+      target_date: targetDate || null
+    };
+
+    try {
+      setIsSubmitting(true);
+
+      if (epic) {
+        await repository.epics.update(epic.id, values);
+      } else {
+        await repository.epics.create({ ...values, project_id: projectId });
+      }
+
+      toast.success(epic ? "Epic updated" : "Epic created");
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error("Error saving epic:", error);
+      toast.error(`Failed to ${epic ? "update" : "create"} epic`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fade-in">
+      <div className="bg-scrum-card border border-scrum-border rounded-lg p-6 w-full max-w-lg animate-fade-up">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold">{epic ? "Edit Epic" : "Create Epic"}</h2>
+          <button
+            onClick={onClose}
+            className="text-scrum-text-secondary hover:text-white"
+            disabled={isSubmitting}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="mb-4">
+            <label className="block mb-2 text-sm">
+              Epic Title <span className="text-destructive">*</span>
+            </label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="scrum-input"
+              placeholder="e.g. User onboarding"
+              required
+              autoFocus
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="mb-4">
+            <label className="block mb-2 text-sm">
+              Description
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="scrum-input"
+              rows={3}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 mb-6">
+            <div>
+              <label className="block mb-2 text-sm">
+                Color
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {EPIC_COLORS.map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setColor(option)}
+                    className={`h-6 w-6 rounded-full border-2 ${color === option ? "border-white" : "border-transparent"}`}
+                    style={{ backgroundColor: option }}
+                    title={option}
+                    disabled={isSubmitting}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block mb-2 text-sm">
+                Target Date
+              </label>
+              <input
+                type="date"
+                value={targetDate}
+                onChange={(e) => setTargetDate(e.target.value)}
+                className="scrum-input"
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="scrum-button-secondary"
+              disabled={isSubmitting}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="scrum-button"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? "Saving..." : epic ? "Update Epic" : "Create Epic"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EpicFormModal;
@@ -0,0 +1,20 @@
+import React from "react";
+import { Tag } from "lucide-react";
+import { LabelRow } from "@/data";
+
+interface LabelChipProps {
+  label: Pick<LabelRow, "name" | "color">;
+}
+
+// Label name on a chip in the label's color
+const LabelChip: React.FC<LabelChipProps> = ({ label }) => (
+  <span
+    className="text-xs px-2 py-0.5 rounded-full flex items-center gap-1 text-white"
+    style={{ backgroundColor: label.color }}
+  >
+    <Tag className="h-3 w-3" />
+    {label.name}
+  </span>
+);
+
+export default LabelChip;
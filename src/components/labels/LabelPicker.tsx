@@ -0,0 +1,50 @@
+import React from "react";
+import { Check } from "lucide-react";
+import { LabelRow } from "@/data";
+
+interface LabelPickerProps {
+  labels: LabelRow[];
+  // Ids of the selected labels
+  value: string[];
+  onChange: (labelIds: string[]) => void;
+  disabled?: boolean;
+}
+
+// Toggles the project's labels on and off for a task
+const LabelPicker: React.FC<LabelPickerProps> = ({ labels, value, onChange, disabled = false }) => {
+  if (labels.length === 0) {
+    return (
+      <p className="text-xs text-scrum-text-secondary">
+        This project has no labels yet. They are set up in the project settings.
+      </p>
+    );
+  }
+
+  const toggle = (labelId: string) =>
+    onChange(value.includes(labelId) ? value.filter(id => id !== labelId) : [...value, labelId]);
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {labels.map(label => {
+        const isSelected = value.includes(label.id);
+
+        return (
+          <button
+            key={label.id}
+            type="button"
+            onClick={() => toggle(label.id)}
+            className={`text-xs px-2 py-0.5 rounded-full flex items-center gap-1 border ${isSelected ? "text-white" : ""}`}
+            style={{ borderColor: label.color, backgroundColor: isSelected ? label.color : "transparent" }}
+            aria-pressed={isSelected}
+            disabled={disabled}
+          >
+            {isSelected && <Check className="h-3 w-3" />}
+            {label.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LabelPicker;
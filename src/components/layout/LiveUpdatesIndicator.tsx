@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from "react";
+import { Radio } from "lucide-react";
+import { useProjects } from "@/context/ProjectContext";
+
+// How long the "updated by a teammate" note stays visible
+const NOTICE_DURATION_MS = 5000;
+
+const TABLE_LABELS: Record<string, string> = {
+  tasks: "task",
+  sprints: "sprint",
+  board_columns: "board column",
+  collaborators: "team"
+};
+
+const LiveUpdatesIndicator: React.FC = () => {
+  const { remoteChange } = useProjects();
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!remoteChange) return;
+
+    const row = remoteChange.eventType === "DELETE" ? remoteChange.oldRow : remoteChange.newRow;
+    const label = TABLE_LABELS[remoteChange.table] || "project";
+    const name = row?.title ? ` "${row.title}"` : "";
+    const action = remoteChange.eventType === "INSERT" ? "added" :
+                   remoteChange.eventType === "DELETE" ? "removed" : "updated";
+
+    setNotice(`A teammate ${action} ${label}${name}`);
+
+    const timeout = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [remoteChange]);
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-scrum-text-secondary">
+      {notice && <span className="animate-fade-in">{notice}</span>}
+      <span className="flex items-center gap-1" title="Changes made by teammates appear automatically">
+        <Radio className="h-3 w-3 text-green-500" />
+        <span>Live</span>
+      </span>
+    </div>
+  );
+};
+
+export default LiveUpdatesIndicator;
@@ -3,6 +3,7 @@ import React from "react";
 import { Link } from "react-router-dom";
 import { LogOut, Check, Settings } from "lucide-react";
 import { useAuth } from "@/context/AuthContext";
+import PendingChangesIndicator from "@/components/layout/PendingChangesIndicator";
 
 const Navbar: React.FC = () => {
   const { user, logout } = useAuth();
@@ -18,6 +19,7 @@ const Navbar: React.FC = () => {
 
       {user && (
         <div className="flex items-center gap-4">
+          <PendingChangesIndicator />
           <span className="text-sm text-scrum-text-secondary">{user.email}</span>
           <Link 
             to="/settings" 
@@ -0,0 +1,103 @@
+import React from "react";
+import { format, parseISO } from "date-fns";
+import { CloudOff, RefreshCw, AlertTriangle } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { PendingMutationStatus } from "@/data";
+
+const STATUS_LABELS: Record<PendingMutationStatus, string> = {
+  pending: "Waiting to sync",
+  conflict: "Conflict",
+  failed: "Failed"
+};
+
+const STATUS_CLASSES: Record<PendingMutationStatus, string> = {
+  pending: "text-scrum-text-secondary",
+  conflict: "text-yellow-500",
+  failed: "text-destructive"
+};
+
+const PendingChangesIndicator: React.FC = () => {
+  const { mutations, isOnline, isSyncing, pendingCount, problemCount, replay, retry, discard } = useOfflineQueue();
+
+  if (isOnline && mutations.length === 0) return null;
+
+  const label = !isOnline ? "Offline" :
+                isSyncing ? "Syncing..." :
+                problemCount > 0 ? `${problemCount} need attention` :
+                `${pendingCount} pending`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="flex items-center gap-1 text-xs text-scrum-text-secondary hover:text-white transition-colors"
+          title="Changes made while offline"
+        >
+          {!isOnline ? (
+            <CloudOff className="h-4 w-4 text-yellow-500" />
+          ) : problemCount > 0 ? (
+            <AlertTriangle className="h-4 w-4 text-destructive" />
+          ) : (
+            <RefreshCw className={`h-4 w-4 ${isSyncing ? "animate-spin" : ""}`} />
+          )}
+          <span>{label}</span>
+          {!isOnline && pendingCount > 0 && <span>({pendingCount} pending)</span>}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 bg-scrum-card border-scrum-border">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium">Offline changes</h3>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={!isOnline || isSyncing || pendingCount === 0}
+            onClick={() => replay()}
+          >
+            Sync now
+          </Button>
+        </div>
+
+        {mutations.length === 0 ? (
+          <p className="text-xs text-scrum-text-secondary">
+            You are offline. Changes to tasks and sprints are saved on this device and sync when you reconnect.
+          </p>
+        ) : (
+          <ul className="space-y-2 max-h-72 overflow-y-auto">
+            {mutations.map(mutation => (
+              <li key={mutation.id} className="border border-scrum-border rounded-md p-2 text-xs">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium truncate">{mutation.description}</span>
+                  <span className={STATUS_CLASSES[mutation.status]}>{STATUS_LABELS[mutation.status]}</span>
+                </div>
+                <div className="text-scrum-text-secondary mt-1">
+                  {format(parseISO(mutation.queuedAt), "MMM d, HH:mm")}
+                </div>
+                {mutation.error && <p className="mt-1 text-scrum-text-secondary">{mutation.error}</p>}
+                {mutation.status !== "pending" && (
+                  <div className="flex gap-2 mt-2">
+                    {mutation.status === "conflict" ? (
+                      <Button size="sm" variant="outline" disabled={!isOnline} onClick={() => retry(mutation.id, true)}>
+                        Keep mine
+                      </Button>
+                    ) : (
+                      <Button size="sm" variant="outline" disabled={!isOnline} onClick={() => retry(mutation.id)}>
+                        Retry
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" onClick={() => discard(mutation.id)}>
+                      Discard
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PendingChangesIndicator;
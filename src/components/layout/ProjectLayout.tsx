@@ -1,74 +1,33 @@
-import React, { useState, useEffect } from "react";
+import React, { useEffect } from "react";
 import { Outlet, useParams, useNavigate, useLocation } from "react-router-dom";
 import { useProjects } from "@/context/ProjectContext";
-import { useAuth } from "@/context/AuthContext";
 import NavLink from "@/components/ui/NavLink";
-import { ArrowLeft, LayoutGrid, List, LineChart, Edit, Trash, Package, Users } from "lucide-react";
+import LiveUpdatesIndicator from "@/components/layout/LiveUpdatesIndicator";
+import { ArrowLeft, LayoutGrid, List, LineChart, BarChart3, AreaChart, Timer, CalendarClock, Edit, Trash, Package, Users, Flag } from "lucide-react";
 import { toast } from "sonner";
-import { fetchProjectCollaborators } from "@/lib/supabase";
-import { Collaborator, ProjectRole } from "@/types";
+import { useProjectRole } from "@/hooks/use-permission";
+import { can, ROLE_LABELS } from "@/lib/permissions";
 
 const ProjectLayout: React.FC = () => {
   const { projectId } = useParams<{ projectId: string }>();
-  const { getProject, deleteProject } = useProjects();
-  const { user } = useAuth();
+  const { getProject, deleteProject, setActiveProjectId } = useProjects();
   const navigate = useNavigate();
   const location = useLocation();
-  const [isOwner, setIsOwner] = useState(false);
-  const [userRole, setUserRole] = useState<ProjectRole | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  
   const project = getProject(projectId || "");
+  // The role comes from the project list, which refreshes when collaborators change
+  const role = useProjectRole(projectId);
+  const canEditProject = can(role, 'project.edit');
+  const canDeleteProject = can(role, 'project.delete');
+  const canAccessBacklog = can(role, 'backlog.view');
+  const canManageTeam = can(role, 'team.manage');
   
+  // Subscribe to live updates for the project while it is open
   useEffect(() => {
-    const checkProjectAccess = async () => {
-      if (!project || !user) {
-        setIsLoading(false);
-        return;
-      }
-      
-      // Check if user is owner
-      if (project.ownerId === user.id) {
-        setIsOwner(true);
-        setUserRole('scrum_master'); // Owner has admin privileges
-        setIsLoading(false);
-        return;
-      }
-      
-      // Otherwise check collaborator role
-      try {
-        const collaborators = await fetchProjectCollaborators(project.id);
-        const userCollaboration = collaborators.find(c => c.userId === user.id);
-        
-        if (userCollaboration) {
-          setUserRole(userCollaboration.role);
-        }
-        setIsLoading(false);
-      } catch (error) {
-        console.error("Error checking project access:", error);
-        setIsLoading(false);
-      }
-    };
+    if (!projectId) return;
     
-    checkProjectAccess();
-  }, [project, user]);
-  
-  const { setIsOwner: setAuthIsOwner, setUserRole: setAuthUserRole } = useAuth() as any;
-  
-  useEffect(() => {
-    if (setAuthIsOwner && setAuthUserRole) {
-      setAuthIsOwner(isOwner);
-      setAuthUserRole(userRole);
-    }
-  }, [isOwner, userRole, setAuthIsOwner, setAuthUserRole]);
-  
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <div className="animate-pulse">Loading project details...</div>
-      </div>
-    );
-  }
+    setActiveProjectId(projectId);
+    return () => setActiveProjectId(null);
+  }, [projectId, setActiveProjectId]);
   
   if (!project) {
     return (
@@ -99,15 +58,6 @@ const ProjectLayout: React.FC = () => {
     }
   };
   
-  // Only project owners and scrum masters can edit the project
-  const canEditProject = isOwner || userRole === 'scrum_master';
-  
-  // Scrum Masters, Team Members and Product Owners can access backlog
-  const canAccessBacklog = isOwner || userRole === 'scrum_master' || userRole === 'team_member' || userRole === 'product_owner';
-  
-  // Only owners and scrum masters can modify sprints
-  const canModifySprints = isOwner || userRole === 'scrum_master';
-  
   const handleBackToProjects = () => {
     if (project.isCollaboration) {
       navigate("/", { state: { activeTab: "collaborations" } });
@@ -147,17 +97,20 @@ const ProjectLayout: React.FC = () => {
                   >
                     <Edit className="h-4 w-4" />
                   </button>
-                  <button 
-                    onClick={handleDelete}
-                    className="text-scrum-text-secondary hover:text-destructive transition-colors"
-                  >
-                    <Trash className="h-4 w-4" />
-                  </button>
+                  {canDeleteProject && (
+                    <button 
+                      onClick={handleDelete}
+                      className="text-scrum-text-secondary hover:text-destructive transition-colors"
+                    >
+                      <Trash className="h-4 w-4" />
+                    </button>
+                  )}
                 </>
               )}
             </h1>
             <p className="text-scrum-text-secondary">{project.description}</p>
           </div>
+          <LiveUpdatesIndicator />
         </div>
         
         {project.endGoal && (
@@ -180,6 +133,11 @@ const ProjectLayout: React.FC = () => {
             </NavLink>
           )}
           
+          <NavLink to={`/projects/${project.id}/epics`}>
+            <Flag className="h-4 w-4 mr-1" />
+            <span>Epics</span>
+          </NavLink>
+          
           <NavLink to={`/projects/${project.id}/timeline`}>
             <List className="h-4 w-4 mr-1" />
             <span>Timeline</span>
@@ -190,12 +148,32 @@ const ProjectLayout: React.FC = () => {
             <span>Burndown Chart</span>
           </NavLink>
           
+          <NavLink to={`/projects/${project.id}/velocity`}>
+            <BarChart3 className="h-4 w-4 mr-1" />
+            <span>Velocity</span>
+          </NavLink>
+          
+          <NavLink to={`/projects/${project.id}/flow`}>
+            <AreaChart className="h-4 w-4 mr-1" />
+            <span>Cumulative Flow</span>
+          </NavLink>
+          
+          <NavLink to={`/projects/${project.id}/cycle-time`}>
+            <Timer className="h-4 w-4 mr-1" />
+            <span>Cycle Time</span>
+          </NavLink>
+          
+          <NavLink to={`/projects/${project.id}/forecast`}>
+            <CalendarClock className="h-4 w-4 mr-1" />
+            <span>Forecast</span>
+          </NavLink>
+          
           <NavLink to={`/projects/${project.id}/team`}>
             <Users className="h-4 w-4 mr-1" />
             <span>Team</span>
           </NavLink>
           
-          {isOwner && (
+          {canManageTeam && (
             <NavLink to={`/projects/${project.id}/collaborators`}>
               <Users className="h-4 w-4 mr-1" />
               <span>Collaborators</span>
@@ -203,11 +181,9 @@ const ProjectLayout: React.FC = () => {
           )}
         </div>
         
-        {userRole && !isOwner && (
+        {role && role !== 'owner' && (
           <div className="text-xs text-scrum-text-secondary mb-2">
-            You have {userRole === 'product_owner' ? 'Product Owner' : 
-                      userRole === 'team_member' ? 'Team Member' : 
-                      userRole === 'scrum_master' ? 'Scrum Master' : userRole} access to this project
+            You have {ROLE_LABELS[role]} access to this project
           </div>
         )}
       </div>
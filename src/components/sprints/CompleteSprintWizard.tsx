@@ -0,0 +1,267 @@
+import React, { useState, useEffect } from "react";
+import { X, CheckCircle, ArrowRight, ArrowLeft, PlayCircle } from "lucide-react";
+import { toast } from "sonner";
+import { repository, SprintRow, TaskRow } from "@/data";
+import { completeSprint, CarryOverDestination } from "@/lib/supabase";
+import { useProjects } from "@/context/ProjectContext";
+
+interface CompleteSprintWizardProps {
+  sprint: SprintRow;
+  tasks: TaskRow[];
+  onClose: () => void;
+  // startedSprintId is set when the next sprint was started as part of completing
+  onCompleted: (startedSprintId?: string) => void;
+}
+
+type WizardStep = "carry-over" | "review";
+
+const CompleteSprintWizard: React.FC<CompleteSprintWizardProps> = ({
+  sprint,
+  tasks,
+  onClose,
+  onCompleted
+}) => {
+  const { markLocalChange } = useProjects();
+  const unfinishedTasks = tasks.filter(task => task.status !== "done");
+  const deliveredTasks = tasks.filter(task => task.status === "done");
+
+  const [step, setStep] = useState<WizardStep>("carry-over");
+  const [plannedSprints, setPlannedSprints] = useState<SprintRow[]>([]);
+  const [destinations, setDestinations] = useState<Record<string, CarryOverDestination>>(
+    () => Object.fromEntries(unfinishedTasks.map(task => [task.id, "backlog"]))
+  );
+  const [startNextSprint, setStartNextSprint] = useState(false);
+  const [nextSprintId, setNextSprintId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const sumPoints = (list: TaskRow[]) => list.reduce((sum, task) => sum + (task.story_points || 0), 0);
+
+  // Unfinished work can go to any sprint that has not started yet, soonest first
+  useEffect(() => {
+    const fetchPlannedSprints = async () => {
+      try {
+        const sprints = (await repository.sprints.list([sprint.project_id]))
+          .filter(s => s.id !== sprint.id && s.status === "planned")
+          .sort((a, b) => a.start_date.localeCompare(b.start_date));
+
+        setPlannedSprints(sprints);
+        setNextSprintId(sprints[0]?.id || "");
+
+        // Unfinished work rolls into the next sprint by default, if there is one
+        if (sprints[0]) {
+          setDestinations(prev => Object.fromEntries(Object.keys(prev).map(taskId => [taskId, sprints[0].id])));
+        }
+      } catch (error) {
+        console.error("Error fetching planned sprints:", error);
+      }
+    };
+
+    fetchPlannedSprints();
+  }, [sprint.id, sprint.project_id]);
+
+  const moveAllTo = (destination: CarryOverDestination) => {
+    setDestinations(Object.fromEntries(unfinishedTasks.map(task => [task.id, destination])));
+  };
+
+  const destinationLabel = (destination: CarryOverDestination) =>
+    destination === "backlog"
+      ? "Backlog"
+      : plannedSprints.find(s => s.id === destination)?.title || "Next sprint";
+
+  const carriedOverPoints = sumPoints(unfinishedTasks);
+  const nextSprint = plannedSprints.find(s => s.id === nextSprintId);
+
+  const handleComplete = async () => {
+    setIsSaving(true);
+    try {
+      const startSprintId = startNextSprint && nextSprint ? nextSprint.id : undefined;
+
+      [sprint.id, startSprintId, ...unfinishedTasks.map(task => task.id)]
+        .filter(Boolean)
+        .forEach(markLocalChange);
+
+      await completeSprint({
+        sprintId: sprint.id,
+        destinations,
+        startSprintId
+      });
+
+      toast.success(
+        unfinishedTasks.length > 0
+          ? `Sprint completed, ${unfinishedTasks.length} unfinished task(s) carried over`
+          : "Sprint completed!"
+      );
+      onCompleted(startSprintId);
+    } catch (error) {
+      console.error("Error completing sprint:", error);
+      toast.error("Failed to complete sprint");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fade-in">
+      <div className="bg-scrum-card border border-scrum-border rounded-lg p-6 w-full max-w-2xl animate-fade-up">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <CheckCircle className="h-4 w-4" />
+            <span>Complete {sprint.title}</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-scrum-text-secondary hover:text-white"
+            disabled={isSaving}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-scrum-text-secondary mb-4">
+          Step {step === "carry-over" ? 1 : 2} of 2: {step === "carry-over" ? "unfinished work" : "review"}
+        </p>
+
+        {step === "carry-over" && (
+          <>
+            {unfinishedTasks.length === 0 ? (
+              <p className="mb-6">Every task in this sprint is done. Nothing needs to be carried over.</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between gap-2 mb-3">
+                  <p className="text-sm">
+                    {unfinishedTasks.length} task(s) are not done. Choose where each one goes:
+                  </p>
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && moveAllTo(e.target.value)}
+                    className="scrum-input w-48"
+                  >
+                    <option value="">Move all to...</option>
+                    <option value="backlog">Backlog</option>
+                    {plannedSprints.map(s => (
+                      <option key={s.id} value={s.id}>{s.title}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2 mb-6 max-h-[320px] overflow-y-auto pr-1">
+                  {unfinishedTasks.map(task => (
+                    <div key={task.id} className="flex items-center gap-2 border border-scrum-border rounded-md p-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{task.title}</p>
+                        <p className="text-xs text-scrum-text-secondary">
+                          {task.story_points || 0} SP · {task.status}
+                        </p>
+                      </div>
+                      <select
+                        value={destinations[task.id] || "backlog"}
+                        onChange={(e) => setDestinations(prev => ({ ...prev, [task.id]: e.target.value }))}
+                        className="scrum-input w-48"
+                      >
+                        <option value="backlog">Backlog</option>
+                        {plannedSprints.map(s => (
+                          <option key={s.id} value={s.id}>{s.title}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <button onClick={onClose} className="scrum-button-secondary">
+                Cancel
+              </button>
+              <button onClick={() => setStep("review")} className="scrum-button flex items-center gap-1">
+                <span>Next</span>
+                <ArrowRight className="h-4 w-4" />
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === "review" && (
+          <>
+            <div className="grid grid-cols-2 gap-4 mb-4">
+              <div className="border border-scrum-border rounded-md p-3">
+                <p className="text-xs text-scrum-text-secondary">Committed</p>
+                <p className="text-lg font-bold">{sumPoints(tasks)} SP</p>
+                <p className="text-xs text-scrum-text-secondary">{tasks.length} task(s)</p>
+              </div>
+              <div className="border border-scrum-border rounded-md p-3">
+                <p className="text-xs text-scrum-text-secondary">Delivered</p>
+                <p className="text-lg font-bold">{sumPoints(deliveredTasks)} SP</p>
+                <p className="text-xs text-scrum-text-secondary">{deliveredTasks.length} task(s)</p>
+              </div>
+            </div>
+
+            {unfinishedTasks.length > 0 && (
+              <div className="text-sm mb-4">
+                <p className="mb-1">Carrying over {unfinishedTasks.length} task(s), {carriedOverPoints} SP:</p>
+                <ul className="list-disc pl-5 text-scrum-text-secondary">
+                  {[...new Set(Object.values(destinations))].map(destination => (
+                    <li key={destination}>
+                      {Object.values(destinations).filter(d => d === destination).length} to {destinationLabel(destination)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {plannedSprints.length > 0 ? (
+              <div className="border border-scrum-border rounded-md p-3 mb-6">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={startNextSprint}
+                    onChange={(e) => setStartNextSprint(e.target.checked)}
+                    disabled={isSaving}
+                  />
+                  <PlayCircle className="h-4 w-4" />
+                  <span>Start the next sprint now</span>
+                </label>
+                {startNextSprint && (
+                  <select
+                    value={nextSprintId}
+                    onChange={(e) => setNextSprintId(e.target.value)}
+                    className="scrum-input w-full mt-2"
+                    disabled={isSaving}
+                  >
+                    {plannedSprints.map(s => (
+                      <option key={s.id} value={s.id}>{s.title}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-scrum-text-secondary mb-6">
+                There is no planned sprint to start next.
+              </p>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setStep("carry-over")}
+                className="scrum-button-secondary flex items-center gap-1"
+                disabled={isSaving}
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span>Back</span>
+              </button>
+              <button
+                onClick={handleComplete}
+                className="scrum-button-success flex items-center gap-1"
+                disabled={isSaving}
+              >
+                <CheckCircle className="h-4 w-4" />
+                <span>{isSaving ? "Completing..." : "Complete Sprint"}</span>
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompleteSprintWizard;
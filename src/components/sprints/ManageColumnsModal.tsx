@@ -0,0 +1,257 @@
+import React, { useState } from "react";
+import { X, Columns, ArrowUp, ArrowDown, Trash, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { BoardColumn, TaskStatusCategory } from "@/types";
+import { createDefaultColumn, updateColumn, reorderColumns, deleteColumn } from "@/lib/supabase";
+
+interface ManageColumnsModalProps {
+  sprintId: string;
+  userId: string;
+  columns: BoardColumn[];
+  // Task ids currently displayed in each column, so deleted columns can hand them over
+  taskIdsByColumn: Record<string, string[]>;
+  onClose: () => void;
+  onColumnsChanged: () => void;
+}
+
+const STATUS_CATEGORY_LABELS: Record<TaskStatusCategory, string> = {
+  "todo": "To Do",
+  "in-progress": "In Progress",
+  "done": "Done"
+};
+
+const ManageColumnsModal: React.FC<ManageColumnsModalProps> = ({
+  sprintId,
+  userId,
+  columns,
+  taskIdsByColumn,
+  onClose,
+  onColumnsChanged
+}) => {
+  const [titles, setTitles] = useState<Record<string, string>>(
+    Object.fromEntries(columns.map(column => [column.id, column.title]))
+  );
+  const [newTitle, setNewTitle] = useState("");
+  const [newCategory, setNewCategory] = useState<TaskStatusCategory>("in-progress");
+  const [deletingColumnId, setDeletingColumnId] = useState<string | null>(null);
+  const [fallbackColumnId, setFallbackColumnId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const runAction = async (action: () => Promise<boolean>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      const succeeded = await action();
+      if (!succeeded) throw new Error(successMessage);
+
+      toast.success(successMessage);
+      onColumnsChanged();
+    } catch (error) {
+      console.error("Error updating board columns:", error);
+      toast.error("Failed to update board columns");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRename = (column: BoardColumn) => {
+    const title = titles[column.id]?.trim();
+    if (!title) {
+      toast.error("Column title is required");
+      return;
+    }
+    if (title === column.title) return;
+
+    runAction(() => updateColumn(column.id, { title }), "Column renamed");
+  };
+
+  const handleCategoryChange = (column: BoardColumn, statusCategory: TaskStatusCategory) => {
+    runAction(() => updateColumn(column.id, { statusCategory }, taskIdsByColumn[column.id] || []), "Column status updated");
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const targetIndex = index + direction;
+    if (targetIndex < 0 || targetIndex >= columns.length) return;
+
+    const reordered = Array.from(columns);
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(targetIndex, 0, moved);
+
+    runAction(() => reorderColumns(reordered), "Columns reordered");
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const title = newTitle.trim();
+    if (!title) {
+      toast.error("Column title is required");
+      return;
+    }
+
+    runAction(async () => {
+      const created = await createDefaultColumn(sprintId, userId, title, columns.length, newCategory);
+      if (created) setNewTitle("");
+      return !!created;
+    }, "Column added");
+  };
+
+  const startDelete = (column: BoardColumn) => {
+    const fallback = columns.find(c => c.id !== column.id && c.statusCategory === column.statusCategory)
+      || columns.find(c => c.id !== column.id);
+
+    setDeletingColumnId(column.id);
+    setFallbackColumnId(fallback?.id || "");
+  };
+
+  const confirmDelete = () => {
+    const fallbackColumn = columns.find(c => c.id === fallbackColumnId);
+    if (!deletingColumnId || !fallbackColumn) {
+      toast.error("Choose a column to move the tasks to");
+      return;
+    }
+
+    const columnId = deletingColumnId;
+    setDeletingColumnId(null);
+    runAction(
+      () => deleteColumn(columnId, fallbackColumn, taskIdsByColumn[columnId] || []),
+      `Column deleted, tasks moved to ${fallbackColumn.title}`
+    );
+  };
+
+  const deletingColumn = columns.find(c => c.id === deletingColumnId);
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fade-in">
+      <div className="bg-scrum-card border border-scrum-border rounded-lg p-6 w-full max-w-2xl animate-fade-up">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <Columns className="h-4 w-4" />
+            <span>Manage Columns</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-scrum-text-secondary hover:text-white"
+            disabled={isSaving}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-scrum-text-secondary mb-4">
+          Each column counts as To Do, In Progress or Done for burndown and sprint completion.
+        </p>
+
+        <div className="space-y-2 mb-6">
+          {columns.map((column, index) => (
+            <div key={column.id} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={titles[column.id] ?? column.title}
+                onChange={(e) => setTitles(prev => ({ ...prev, [column.id]: e.target.value }))}
+                onBlur={() => handleRename(column)}
+                className="scrum-input flex-1"
+                disabled={isSaving}
+              />
+              <select
+                value={column.statusCategory}
+                onChange={(e) => handleCategoryChange(column, e.target.value as TaskStatusCategory)}
+                className="scrum-input w-40"
+                disabled={isSaving}
+              >
+                {Object.entries(STATUS_CATEGORY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => handleMove(index, -1)}
+                className="text-scrum-text-secondary hover:text-white disabled:opacity-30"
+                disabled={isSaving || index === 0}
+                title="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => handleMove(index, 1)}
+                className="text-scrum-text-secondary hover:text-white disabled:opacity-30"
+                disabled={isSaving || index === columns.length - 1}
+                title="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => startDelete(column)}
+                className="text-scrum-text-secondary hover:text-destructive disabled:opacity-30"
+                disabled={isSaving || columns.length <= 1}
+                title="Delete column"
+              >
+                <Trash className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {deletingColumn && (
+          <div className="border border-scrum-border rounded-md p-4 mb-6">
+            <p className="text-sm mb-2">
+              Move the {(taskIdsByColumn[deletingColumn.id] || []).length} task(s) in "{deletingColumn.title}" to:
+            </p>
+            <div className="flex items-center gap-2">
+              <select
+                value={fallbackColumnId}
+                onChange={(e) => setFallbackColumnId(e.target.value)}
+                className="scrum-input flex-1"
+              >
+                {columns.filter(c => c.id !== deletingColumn.id).map(column => (
+                  <option key={column.id} value={column.id}>{column.title}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setDeletingColumnId(null)}
+                className="scrum-button-secondary"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmDelete}
+                className="scrum-button-warning"
+              >
+                Delete Column
+              </button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleAdd} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            className="scrum-input flex-1"
+            placeholder="e.g. Code Review"
+            disabled={isSaving}
+          />
+          <select
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value as TaskStatusCategory)}
+            className="scrum-input w-40"
+            disabled={isSaving}
+          >
+            {Object.entries(STATUS_CATEGORY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="scrum-button flex items-center gap-1"
+            disabled={isSaving}
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add</span>
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ManageColumnsModal;
@@ -4,8 +4,11 @@ import { useProjects } from "@/context/ProjectContext";
 import { useAuth } from "@/context/AuthContext";
 import { Plus, X } from "lucide-react";
 import { toast } from "sonner";
-import { supabase } from "@/lib/supabase";
-import { format, addWeeks, isBefore, differenceInDays } from "date-fns";
+import { repository } from "@/data";
+import { usePermission } from "@/hooks/use-permission";
+import { useWorkingCalendar } from "@/hooks/use-working-calendar";
+import { countWorkingDays, validateSprintDuration } from "@/lib/calendar";
+import { format, addWeeks, isBefore } from "date-fns";
 
 interface NewSprintButtonProps {
   projectId: string;
@@ -18,16 +21,15 @@ const NewSprintButton: React.FC<NewSprintButtonProps> = ({ projectId }) => {
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const { addSprint } = useProjects();
-  const { user, isOwner, userRole } = useAuth();
+  const { user } = useAuth();
+  const canCreateSprint = usePermission(projectId, 'sprint.manage');
+  const calendar = useWorkingCalendar(projectId);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [validationErrors, setValidationErrors] = useState<{
     startDate?: string;
     endDate?: string;
   }>({});
   
-  // Only owners and scrum masters can create sprints
-  const canCreateSprint = isOwner || userRole === 'scrum_master';
-  
   // If user can't create sprints, don't render the button
   if (!canCreateSprint) {
     return null;
@@ -49,24 +51,14 @@ const NewSprintButton: React.FC<NewSprintButtonProps> = ({ projectId }) => {
     today.setHours(0, 0, 0, 0); // Set to beginning of day for comparison
     
     const startDateObj = new Date(start);
-    const endDateObj = new Date(end);
     
     // Start date validation - must be today or future
     if (isBefore(startDateObj, today)) {
       errors.startDate = "Start date must be today or a future date";
     }
     
-    // Duration validation - max 4 weeks (28 days)
-    if (start && end) {
-      const daysDifference = differenceInDays(endDateObj, startDateObj);
-      if (daysDifference > 28) {
-        errors.endDate = "Sprint duration cannot exceed 4 weeks (28 days)";
-      } else if (daysDifference < 1) {
-        errors.endDate = "End date must be after start date";
-      }
-    }
-    
-    return errors;
+    // Duration validation - max 4 weeks of the project's working days
+    return { ...errors, ...validateSprintDuration(start, end, calendar) };
   };
   
   const handleStartDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -132,25 +124,16 @@ const NewSprintButton: React.FC<NewSprintButtonProps> = ({ projectId }) => {
         status: "in-progress"
       });
       
-      // Direct Supabase insert with clearer error handling
-      const { data, error } = await supabase
-        .from('sprints')
-        .insert({
-          title,
-          description,
-          project_id: projectId,
-          user_id: user.id,
-          start_date: startDate,
-          end_date: endDate,
-          status: "in-progress" // Always set to in-progress
-        })
-        .select();
-      
-      if (error) {
-        console.error("Sprint creation error:", error);
-        toast.error(`Failed to create sprint: ${error.message}`);
-        return;
-      }
+      // Direct insert; failures are reported by the catch below
+      await repository.sprints.create({
+        title,
+        description,
+        project_id: projectId,
+        user_id: user.id,
+        start_date: startDate,
+        end_date: endDate,
+        status: "in-progress" // Always set to in-progress
+      });
       
       toast.success("Sprint created successfully");
       setIsModalOpen(false);
@@ -249,8 +232,12 @@ const NewSprintButton: React.FC<NewSprintButtonProps> = ({ projectId }) => {
                     className={`scrum-input ${validationErrors.endDate ? 'border-red-500' : ''}`}
                     required
                   />
-                  {validationErrors.endDate && (
+                  {validationErrors.endDate ? (
                     <p className="mt-1 text-xs text-red-500">{validationErrors.endDate}</p>
+                  ) : startDate && endDate && (
+                    <p className="mt-1 text-xs text-scrum-text-secondary">
+                      {countWorkingDays(startDate, endDate, calendar)} working days
+                    </p>
                   )}
                 </div>
               </div>
@@ -2,12 +2,14 @@
 import React from "react";
 import { format } from "date-fns";
 import { Sprint } from "@/types";
-import { CalendarDays, Edit } from "lucide-react";
+import { CalendarDays, Edit, ClipboardList } from "lucide-react";
 
 interface SprintCardProps {
   sprint: Sprint;
   onEdit?: () => void;
   onViewBoard?: () => void;
+  // Shown for sprints that are not completed when given
+  onPlan?: () => void;
   isOwnerOrAdmin?: boolean;
   canEdit?: boolean;
 }
@@ -16,6 +18,7 @@ const SprintCard: React.FC<SprintCardProps> = ({
   sprint, 
   onEdit = () => {}, 
   onViewBoard = () => {},
+  onPlan,
   isOwnerOrAdmin = false,
   canEdit = false 
 }) => {
@@ -61,6 +64,16 @@ const SprintCard: React.FC<SprintCardProps> = ({
           </button>
         )}
         
+        {onPlan && sprint.status !== "completed" && (
+          <button
+            onClick={onPlan}
+            className="scrum-button-secondary flex items-center gap-1"
+          >
+            <ClipboardList className="h-4 w-4" />
+            <span>Plan</span>
+          </button>
+        )}
+        
         <button
           onClick={onViewBoard}
           className={`scrum-button ${!canEdit ? 'w-full' : ''}`}
@@ -1,10 +1,22 @@
 
 import React, { useState, useEffect, useMemo } from "react";
 import { useProjects } from "@/context/ProjectContext";
-import { X, Edit, User, Calendar } from "lucide-react";
+import { X, Edit, User, Calendar, Ban, Link2, ListChecks } from "lucide-react";
 import { toast } from "sonner";
-import { supabase } from "@/lib/supabase";
-import { ProjectRole, Collaborator } from "@/types";
+import { useQueryClient } from "@tanstack/react-query";
+import { fetchProjectCollaborators } from "@/lib/supabase";
+import { repository } from "@/data";
+import { Collaborator } from "@/types";
+import { useTaskDependencies } from "@/hooks/use-task-dependencies";
+import { useChecklistItems } from "@/hooks/use-checklist-items";
+import { useEpics } from "@/hooks/use-epics";
+import { useLabels, useTaskLabels } from "@/hooks/use-labels";
+import { getTaskLabelIds } from "@/lib/labels";
+import LabelPicker from "@/components/labels/LabelPicker";
+import TaskComments from "./TaskComments";
+import { projectQueryKeys } from "@/hooks/use-project-queries";
+import { getBlockerIds, wouldCreateCycle } from "@/lib/dependencies";
+import { CHECKLIST_ITEM_KINDS, getChecklistProgress, getTaskChecklist, isChecklistBlockingDone } from "@/lib/checklist";
 import {
   Select,
   SelectContent,
@@ -43,8 +55,29 @@ const EditTaskModal: React.FC<EditTaskModalProps> = ({
   const [status, setStatus] = useState<string>("todo");
   const [isInitialized, setIsInitialized] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [newRelation, setNewRelation] = useState<"blocked-by" | "blocks">("blocked-by");
+  const [newDependencyTaskId, setNewDependencyTaskId] = useState("");
+  const [checklistBlocksDone, setChecklistBlocksDone] = useState(false);
+  const [epicId, setEpicId] = useState("");
+  const [labelIds, setLabelIds] = useState<string[]>([]);
+  const [areLabelsLoaded, setAreLabelsLoaded] = useState(false);
+  const [newItemKind, setNewItemKind] = useState("checklist");
+  const [newItemTitle, setNewItemTitle] = useState("");
   
-  const { getTask, updateTask } = useProjects();
+  const { getTask, updateTask, markLocalChange, tasks } = useProjects();
+  const queryClient = useQueryClient();
+  const { data: dependencies = [] } = useTaskDependencies(projectId || undefined);
+  const { data: checklistItems = [] } = useChecklistItems(projectId || undefined);
+  const { data: epics = [] } = useEpics(projectId || undefined);
+  const { data: labels = [] } = useLabels(projectId || undefined);
+  const { data: taskLabels } = useTaskLabels(projectId || undefined);
+  
+  // Start from the task's labels once they are in, without undoing picks made since
+  useEffect(() => {
+    if (!taskLabels || areLabelsLoaded) return;
+    setLabelIds(getTaskLabelIds(taskLabels, taskId));
+    setAreLabelsLoaded(true);
+  }, [taskId, taskLabels, areLabelsLoaded]);
   
   useEffect(() => {
     async function loadTaskData() {
@@ -63,22 +96,13 @@ const EditTaskModal: React.FC<EditTaskModalProps> = ({
             fetchCollaborators(contextTask.projectId);
           }
         } else {
-          // Fallback to fetching from Supabase
-          console.log("Task not found in context, fetching from Supabase");
+          // Fallback to fetching from the data backend
+          console.log("Task not found in context, fetching from the data backend");
           
-          const { data, error } = await supabase
-            .from('tasks')
-            .select('*')
-            .eq('id', taskId)
-            .single();
-            
-          if (error) {
-            console.error("Error fetching task data:", error);
-            throw error;
-          }
+          const data = await repository.tasks.get(taskId);
           
           if (data) {
-            console.log("Task fetched from Supabase:", data);
+            console.log("Task fetched from the data backend:", data);
             initializeTaskState(data);
             setProjectId(data.project_id);
             
@@ -107,6 +131,8 @@ const EditTaskModal: React.FC<EditTaskModalProps> = ({
     setAssignedTo(taskData.assignedTo || taskData.assign_to || "");
     setStoryPoints(taskData.storyPoints || taskData.story_points || 1);
     setStatus(taskData.status || "todo");
+    setChecklistBlocksDone(!!(taskData.checklistBlocksDone ?? taskData.checklist_blocks_done));
+    setEpicId(taskData.epicId || taskData.epic_id || "");
     
     const dateStr = taskData.completionDate || taskData.completion_date;
     if (dateStr) {
@@ -123,53 +149,16 @@ const EditTaskModal: React.FC<EditTaskModalProps> = ({
   const fetchCollaborators = async (projectId: string) => {
     setIsLoadingCollaborators(true);
     try {
-      const [projectResponse, collaboratorsResponse] = await Promise.all([
-        supabase
-          .from('projects')
-          .select('owner_id, title')
-          .eq('id', projectId)
-          .single(),
-          
-        supabase
-          .from('collaborators')
-          .select(`
-            id,
-            userId:user_id,
-            role,
-            createdAt:created_at,
-            users:user_id (
-              id,
-              username,
-              email
-            )
-          `)
-          .eq('project_id', projectId)
+      const [project, projectCollaborators] = await Promise.all([
+        repository.projects.get(projectId),
+        fetchProjectCollaborators(projectId)
       ]);
       
-      if (!projectResponse.error && projectResponse.data) {
-        const ownerResponse = await supabase
-          .from('users')
-          .select('id, username')
-          .eq('id', projectResponse.data.owner_id)
-          .single();
-          
-        if (!ownerResponse.error && ownerResponse.data) {
-          setProjectOwner(ownerResponse.data);
-        }
+      if (project?.owner) {
+        setProjectOwner({ id: project.owner_id, username: project.owner.username });
       }
       
-      if (!collaboratorsResponse.error && collaboratorsResponse.data) {
-        const formattedCollaborators = collaboratorsResponse.data.map(collab => ({
-          id: collab.id,
-          userId: collab.userId,
-          username: collab.users ? (collab.users as any).username || '' : '',
-          email: collab.users ? (collab.users as any).email || '' : '',
-          role: collab.role as ProjectRole,
-          createdAt: collab.createdAt
-        }));
-        
-        setCollaborators(formattedCollaborators);
-      }
+      setCollaborators(projectCollaborators);
     } catch (error) {
       console.error("Error fetching collaborators:", error);
     } finally {
@@ -192,6 +181,116 @@ const EditTaskModal: React.FC<EditTaskModalProps> = ({
     return options;
   }, [projectOwner, collaborators]);
   
+  const blockedBy = dependencies.filter(dependency => dependency.blocked_task_id === taskId);
+  const blocks = dependencies.filter(dependency => dependency.blocking_task_id === taskId);
+  const linkedTaskIds = [...blockedBy.map(d => d.blocking_task_id), ...blocks.map(d => d.blocked_task_id)];
+  const dependencyOptions = tasks.filter(t =>
+    t.projectId === projectId && t.id !== taskId && !linkedTaskIds.includes(t.id)
+  );
+  
+  // Dependencies are saved straight away rather than with the rest of the form
+  const handleAddDependency = async () => {
+    if (!projectId || !newDependencyTaskId) return;
+    
+    const [blockingId, blockedId] = newRelation === "blocked-by"
+      ? [newDependencyTaskId, taskId]
+      : [taskId, newDependencyTaskId];
+    
+    if (wouldCreateCycle(dependencies, blockingId, blockedId)) {
+      toast.error("That would create a circular dependency");
+      return;
+    }
+    
+    try {
+      await repository.dependencies.create({
+        project_id: projectId,
+        blocking_task_id: blockingId,
+        blocked_task_id: blockedId
+      });
+      setNewDependencyTaskId("");
+      await queryClient.invalidateQueries({ queryKey: projectQueryKeys.dependencies(projectId) });
+    } catch (error) {
+      console.error("Error adding dependency:", error);
+      toast.error("Failed to add dependency");
+    }
+  };
+  
+  const handleRemoveDependency = async (dependencyId: string) => {
+    try {
+      await repository.dependencies.remove(dependencyId);
+      await queryClient.invalidateQueries({ queryKey: projectQueryKeys.dependencies(projectId || undefined) });
+    } catch (error) {
+      console.error("Error removing dependency:", error);
+      toast.error("Failed to remove dependency");
+    }
+  };
+  
+  const renderDependency = (dependencyId: string, otherTaskId: string) => {
+    const otherTask = getTask(otherTaskId);
+    
+    return (
+      <li key={dependencyId} className="flex items-center justify-between gap-2 text-sm">
+        <span className={`truncate ${otherTask?.status === "done" ? "line-through text-scrum-text-secondary" : ""}`}>
+          {otherTask?.title || "Unknown task"}
+        </span>
+        <button
+          type="button"
+          onClick={() => handleRemoveDependency(dependencyId)}
+          className="text-scrum-text-secondary hover:text-destructive"
+          disabled={isSubmitting}
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      </li>
+    );
+  };
+  
+  const checklist = getTaskChecklist(checklistItems, taskId);
+  const checklistProgress = getChecklistProgress(checklistItems, taskId);
+  
+  // Checklist items, like dependencies, are saved straight away
+  const refreshChecklist = () =>
+    queryClient.invalidateQueries({ queryKey: projectQueryKeys.checklistItems(projectId || undefined) });
+  
+  const handleAddChecklistItem = async () => {
+    if (!projectId || !newItemTitle.trim()) return;
+    
+    try {
+      await repository.checklistItems.create({
+        task_id: taskId,
+        project_id: projectId,
+        kind: newItemKind,
+        title: newItemTitle.trim(),
+        order_index: checklist.length > 0 ? checklist[checklist.length - 1].order_index + 1 : 0
+      });
+      setNewItemTitle("");
+      await refreshChecklist();
+    } catch (error) {
+      console.error("Error adding checklist item:", error);
+      toast.error("Failed to add item");
+    }
+  };
+  
+  const handleUpdateChecklistItem = async (itemId: string, values: { is_done?: boolean; assign_to?: string | null }) => {
+    try {
+      await repository.checklistItems.update(itemId, values);
+      await refreshChecklist();
+    } catch (error) {
+      console.error("Error updating checklist item:", error);
+      toast.error("Failed to update item");
+    }
+  };
+  
+  const handleRemoveChecklistItem = async (itemId: string) => {
+    try {
+      await repository.checklistItems.remove(itemId);
+      await refreshChecklist();
+    } catch (error) {
+      console.error("Error removing checklist item:", error);
+      toast.error("Failed to remove item");
+    }
+  };
+  
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -200,6 +299,23 @@ const EditTaskModal: React.FC<EditTaskModalProps> = ({
       return;
     }
     
+    // A task can't be finished while the tasks blocking it are still open, as on the board
+    const openBlockers = status === "done" && task?.status !== "done"
+      ? getBlockerIds(dependencies, taskId)
+          .map(blockerId => getTask(blockerId))
+          .filter(blocker => blocker && blocker.status !== "done")
+          .map(blocker => blocker.title)
+      : [];
+    if (openBlockers.length > 0) {
+      toast.error(`This task is blocked by ${openBlockers.join(", ")}. Finish ${openBlockers.length === 1 ? "it" : "them"} first.`);
+      return;
+    }
+    
+    if (status === "done" && task?.status !== "done" && isChecklistBlockingDone({ checklistBlocksDone }, checklistProgress)) {
+      toast.error(`Complete all subtasks and checklist items first (${checklistProgress.done}/${checklistProgress.total} done)`);
+      return;
+    }
+    
     try {
       setIsSubmitting(true);
       
@@ -210,32 +326,33 @@ const EditTaskModal: React.FC<EditTaskModalProps> = ({
         assignedTo,
         storyPoints,
         status,
+        checklistBlocksDone,
+        epicId: epicId || null,
         completionDate: completionDate ? format(completionDate, "yyyy-MM-dd") : null
       };
       
       console.log("Updating task with data:", updatedData);
       
-      const { data: updatedTask, error } = await supabase
-        .from('tasks')
-        .update({
-          title: updatedData.title,
-          description: updatedData.description,
-          status: updatedData.status,
-          assign_to: updatedData.assignedTo,
-          story_points: updatedData.storyPoints,
-          priority: updatedData.priority,
-          completion_date: updatedData.completionDate
-        })
-        .eq('id', taskId)
-        .select()
-        .single();
-        
-      if (error) {
-        console.error("Error updating task in Supabase:", error);
-        throw error;
-      }
+      markLocalChange(taskId);
+      
+      const updatedTask = await repository.tasks.update(taskId, {
+        title: updatedData.title,
+        description: updatedData.description,
+        status: updatedData.status,
+        assign_to: updatedData.assignedTo,
+        story_points: updatedData.storyPoints,
+        priority: updatedData.priority,
+        checklist_blocks_done: updatedData.checklistBlocksDone,
+        epic_id: updatedData.epicId,
+        completion_date: updatedData.completionDate
+      });
+      
+      console.log("Task updated:", updatedTask);
       
-      console.log("Task updated in Supabase:", updatedTask);
+      if (projectId) {
+        await repository.taskLabels.set(projectId, taskId, labelIds);
+        queryClient.invalidateQueries({ queryKey: projectQueryKeys.taskLabels(projectId) });
+      }
       
       // Also update task in context
       await updateTask(taskId, updatedData);
@@ -317,7 +434,7 @@ const EditTaskModal: React.FC<EditTaskModalProps> = ({
   
   return (
     <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fade-in">
-      <div className="bg-scrum-card border border-scrum-border rounded-lg p-6 w-full max-w-lg animate-fade-up">
+      <div className="bg-scrum-card border border-scrum-border rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto animate-fade-up">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-bold flex items-center gap-2">
             <Edit className="h-4 w-4" />
@@ -444,7 +561,7 @@ const EditTaskModal: React.FC<EditTaskModalProps> = ({
             </div>
           </div>
           
-          <div className="mb-6">
+          <div className="mb-4">
             <label className="block mb-2 text-sm">
               Assigned To
             </label>
@@ -491,6 +608,182 @@ const EditTaskModal: React.FC<EditTaskModalProps> = ({
             )}
           </div>
           
+          <div className="mb-4">
+            <label className="block mb-2 text-sm">
+              Epic
+            </label>
+            <select
+              value={epicId}
+              onChange={(e) => setEpicId(e.target.value)}
+              className="scrum-input"
+              disabled={isSubmitting}
+            >
+              <option value="">No epic</option>
+              {epics.map(epic => (
+                <option key={epic.id} value={epic.id}>{epic.title}</option>
+              ))}
+            </select>
+          </div>
+          
+          <div className="mb-4">
+            <label className="block mb-2 text-sm">
+              Labels
+            </label>
+            <LabelPicker labels={labels} value={labelIds} onChange={setLabelIds} disabled={isSubmitting} />
+          </div>
+          
+          <div className="mb-4">
+            <label className="block mb-2 text-sm">
+              Subtasks &amp; Checklist
+              {checklistProgress.total > 0 && (
+                <span className="ml-2 text-xs text-scrum-text-secondary">
+                  {checklistProgress.done}/{checklistProgress.total} done
+                </span>
+              )}
+            </label>
+            {checklist.length > 0 && (
+              <ul className="space-y-1 mb-2">
+                {checklist.map(item => (
+                  <li key={item.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={item.is_done}
+                      onChange={(e) => handleUpdateChecklistItem(item.id, { is_done: e.target.checked })}
+                      disabled={isSubmitting}
+                    />
+                    <span className={`flex-1 truncate ${item.is_done ? "line-through text-scrum-text-secondary" : ""}`}>
+                      {item.title}
+                    </span>
+                    {item.kind === "subtask" && (
+                      <select
+                        value={item.assign_to || ""}
+                        onChange={(e) => handleUpdateChecklistItem(item.id, { assign_to: e.target.value || null })}
+                        className="scrum-input w-32 py-0.5 text-xs"
+                        disabled={isSubmitting}
+                      >
+                        <option value="">Unassigned</option>
+                        {assigneeOptions.map(option => (
+                          <option key={option.id} value={option.name}>{option.name}</option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveChecklistItem(item.id)}
+                      className="text-scrum-text-secondary hover:text-destructive"
+                      disabled={isSubmitting}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <select
+                value={newItemKind}
+                onChange={(e) => setNewItemKind(e.target.value)}
+                className="scrum-input w-36"
+                disabled={isSubmitting}
+              >
+                {Object.entries(CHECKLIST_ITEM_KINDS).map(([kind, label]) => (
+                  <option key={kind} value={kind}>{label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={newItemTitle}
+                onChange={(e) => setNewItemTitle(e.target.value)}
+                onKeyDown={(e) => {
+                  // Enter adds the item instead of submitting the task form
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleAddChecklistItem();
+                  }
+                }}
+                className="scrum-input flex-1 min-w-0"
+                placeholder="Add an item..."
+                disabled={isSubmitting}
+              />
+              <button
+                type="button"
+                onClick={handleAddChecklistItem}
+                className="scrum-button-secondary"
+                disabled={isSubmitting || !newItemTitle.trim()}
+              >
+                Add
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-sm mt-2">
+              <input
+                type="checkbox"
+                checked={checklistBlocksDone}
+                onChange={(e) => setChecklistBlocksDone(e.target.checked)}
+                disabled={isSubmitting}
+              />
+              <ListChecks className="h-4 w-4" />
+              <span>Don't allow moving to done until every item is complete</span>
+            </label>
+          </div>
+          
+          <div className="mb-6">
+            <label className="block mb-2 text-sm">
+              Dependencies
+            </label>
+            {blockedBy.length > 0 && (
+              <div className="mb-2">
+                <p className="text-xs text-scrum-text-secondary flex items-center gap-1 mb-1">
+                  <Ban className="h-3 w-3" />
+                  Blocked by
+                </p>
+                <ul className="space-y-1">
+                  {blockedBy.map(dependency => renderDependency(dependency.id, dependency.blocking_task_id))}
+                </ul>
+              </div>
+            )}
+            {blocks.length > 0 && (
+              <div className="mb-2">
+                <p className="text-xs text-scrum-text-secondary flex items-center gap-1 mb-1">
+                  <Link2 className="h-3 w-3" />
+                  Blocks
+                </p>
+                <ul className="space-y-1">
+                  {blocks.map(dependency => renderDependency(dependency.id, dependency.blocked_task_id))}
+                </ul>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <select
+                value={newRelation}
+                onChange={(e) => setNewRelation(e.target.value as "blocked-by" | "blocks")}
+                className="scrum-input w-36"
+                disabled={isSubmitting}
+              >
+                <option value="blocked-by">Blocked by</option>
+                <option value="blocks">Blocks</option>
+              </select>
+              <select
+                value={newDependencyTaskId}
+                onChange={(e) => setNewDependencyTaskId(e.target.value)}
+                className="scrum-input flex-1 min-w-0"
+                disabled={isSubmitting}
+              >
+                <option value="">Select a task...</option>
+                {dependencyOptions.map(option => (
+                  <option key={option.id} value={option.id}>{option.title}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleAddDependency}
+                className="scrum-button-secondary"
+                disabled={isSubmitting || !newDependencyTaskId}
+              >
+                Add
+              </button>
+            </div>
+          </div>
+          
           <div className="flex justify-end gap-2">
             <button
               type="button"
@@ -509,6 +802,16 @@ const EditTaskModal: React.FC<EditTaskModalProps> = ({
             </button>
           </div>
         </form>
+        
+        {projectId && (
+          <div className="mt-6 pt-6 border-t border-scrum-border">
+            <TaskComments
+              taskId={taskId}
+              projectId={projectId}
+              usernames={assigneeOptions.map(option => option.name)}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,122 @@
+import React, { useRef, useState } from "react";
+import { User } from "lucide-react";
+import { completeMention, getMentionQuery } from "@/lib/comments";
+
+// Most usernames suggested at once
+const MAX_SUGGESTIONS = 5;
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Usernames offered after typing "@"
+  usernames: string[];
+  // Called on Ctrl/Cmd+Enter
+  onSubmit?: () => void;
+  placeholder?: string;
+  disabled?: boolean;
+  autoFocus?: boolean;
+}
+
+// Textarea that suggests usernames to @mention as they are typed
+const MentionTextarea: React.FC<MentionTextareaProps> = ({
+  value,
+  onChange,
+  usernames,
+  onSubmit,
+  placeholder,
+  disabled = false,
+  autoFocus = false
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  const mention = isDismissed ? null : getMentionQuery(value, caret);
+  const suggestions = mention
+    ? usernames
+        .filter(username => username.toLowerCase().startsWith(mention.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const pickSuggestion = (username: string) => {
+    if (!mention) return;
+    const completed = completeMention(value, caret, mention.start, username);
+    onChange(completed.text);
+    setCaret(completed.caret);
+
+    // Put the caret back after the inserted name once React has updated the value
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(completed.caret, completed.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        pickSuggestion(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setIsDismissed(true);
+        return;
+      }
+    }
+
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey) && onSubmit) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+          setActiveIndex(0);
+          setIsDismissed(false);
+        }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        onKeyDown={handleKeyDown}
+        className="scrum-input"
+        rows={3}
+        placeholder={placeholder}
+        disabled={disabled}
+        autoFocus={autoFocus}
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 z-10 mt-1 w-56 rounded-md border border-scrum-border bg-scrum-card py-1 shadow-lg">
+          {suggestions.map((username, index) => (
+            <li key={username}>
+              <button
+                type="button"
+                // Keep focus in the textarea while picking
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => pickSuggestion(username)}
+                className={`flex w-full items-center gap-2 px-3 py-1 text-left text-sm ${index === activeIndex ? "bg-scrum-accent/20" : ""}`}
+              >
+                <User className="h-3.5 w-3.5 text-scrum-text-secondary" />
+                {username}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MentionTextarea;
@@ -1,8 +1,11 @@
 
 import React from "react";
 import { useProjects } from "@/context/ProjectContext";
-import { Edit, Trash, AlertTriangle, Star, Hash, User, Calendar } from "lucide-react";
+import { Edit, Trash, AlertTriangle, Star, Hash, User, Calendar, Ban, ListChecks, MessageSquare } from "lucide-react";
 import { Task } from "@/types";
+import { ChecklistProgress } from "@/lib/checklist";
+import EpicBadge from "@/components/epics/EpicBadge";
+import LabelChip from "@/components/labels/LabelChip";
 import { toast } from "sonner";
 import { format, parseISO } from "date-fns";
 
@@ -11,13 +14,31 @@ interface TaskCardProps {
   onEdit?: () => void;
   isSprintCompleted?: boolean;
   onTaskDeleted?: (taskId: string) => void;
+  // Briefly set when a teammate just changed this task
+  isHighlighted?: boolean;
+  // Titles of the unfinished tasks blocking this one
+  openBlockers?: string[];
+  // Ticked-off subtasks and checklist items, if the task has any
+  checklistProgress?: ChecklistProgress;
+  // The epic the task belongs to, if any
+  epic?: { title: string; color: string };
+  // Labels the task carries
+  labels?: { id: string; name: string; color: string }[];
+  // Comments and replies on the task
+  commentCount?: number;
 }
 
 const TaskCard: React.FC<TaskCardProps> = ({ 
   task, 
   onEdit, 
   isSprintCompleted = false, 
-  onTaskDeleted 
+  onTaskDeleted,
+  isHighlighted = false,
+  openBlockers = [],
+  checklistProgress,
+  epic,
+  labels = [],
+  commentCount = 0
 }) => {
   const { deleteTask } = useProjects();
 
@@ -94,7 +115,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
   const completionDate = safeTask.completionDate;
   
   return (
-    <div className="bg-scrum-background border border-scrum-border rounded-md p-3 hover:border-scrum-highlight transition-all duration-200 hover:shadow-md">
+    <div className={`bg-scrum-background border border-scrum-border rounded-md p-3 hover:border-scrum-highlight transition-all duration-200 hover:shadow-md ${isHighlighted ? "ring-2 ring-scrum-highlight" : ""}`}>
       <div className="flex items-start justify-between mb-2">
         <h4 className="font-medium text-sm line-clamp-2">{safeTask.title}</h4>
         
@@ -123,6 +144,20 @@ const TaskCard: React.FC<TaskCardProps> = ({
       )}
       
       <div className="flex flex-wrap items-center gap-2 mt-2">
+        {openBlockers.length > 0 && (
+          <span
+            className="bg-destructive/20 text-destructive text-xs px-2 py-0.5 rounded-full flex items-center gap-1"
+            title={`Blocked by ${openBlockers.join(", ")}`}
+          >
+            <Ban className="h-3 w-3" />
+            Blocked
+          </span>
+        )}
+        
+        {epic && <EpicBadge epic={epic} />}
+        
+        {labels.map(label => <LabelChip key={label.id} label={label} />)}
+        
         {getPriorityBadge()}
         
         {/* Display story points if they exist */}
@@ -133,6 +168,23 @@ const TaskCard: React.FC<TaskCardProps> = ({
           </span>
         )}
         
+        {checklistProgress && checklistProgress.total > 0 && (
+          <span
+            className={`text-xs px-2 py-0.5 rounded-full flex items-center gap-1 ${checklistProgress.done === checklistProgress.total ? "bg-green-700/30" : "bg-scrum-card"}`}
+            title="Subtasks and checklist items done"
+          >
+            <ListChecks className="h-3 w-3" />
+            {checklistProgress.done}/{checklistProgress.total}
+          </span>
+        )}
+        
+        {commentCount > 0 && (
+          <span className="bg-scrum-card text-xs px-2 py-0.5 rounded-full flex items-center gap-1" title="Comments">
+            <MessageSquare className="h-3 w-3" />
+            {commentCount}
+          </span>
+        )}
+        
         {/* Display assignee if it exists */}
         {assignee && (
           <span className="bg-scrum-card text-xs px-2 py-0.5 rounded-full flex items-center gap-1">
@@ -0,0 +1,250 @@
+import React, { useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { MessageSquare, Reply, Edit, Trash } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/context/AuthContext";
+import { repository, CommentRow } from "@/data";
+import { useTaskComments } from "@/hooks/use-task-comments";
+import { projectQueryKeys } from "@/hooks/use-project-queries";
+import { countTaskComments, getCommentThreads, highlightMentions, isCommentEdited } from "@/lib/comments";
+import MentionTextarea from "./MentionTextarea";
+
+interface TaskCommentsProps {
+  taskId: string;
+  projectId: string;
+  // Project members who can be @mentioned
+  usernames: string[];
+}
+
+// Discussion thread of a task. Comments are saved straight away, apart from the task form.
+const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, projectId, usernames }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: comments = [] } = useTaskComments(projectId);
+  const [newBody, setNewBody] = useState("");
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const threads = getCommentThreads(comments, taskId);
+  const commentCount = countTaskComments(comments, taskId);
+
+  const refreshComments = () =>
+    queryClient.invalidateQueries({ queryKey: projectQueryKeys.comments(projectId) });
+
+  const save = async (write: () => Promise<unknown>, errorMessage: string) => {
+    try {
+      setIsSaving(true);
+      await write();
+      await refreshComments();
+      return true;
+    } catch (error) {
+      console.error(`${errorMessage}:`, error);
+      toast.error(errorMessage);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async (parentId: string | null) => {
+    const body = (parentId ? replyBody : newBody).trim();
+    if (!body) return;
+
+    const saved = await save(
+      () => repository.comments.create({ task_id: taskId, project_id: projectId, parent_id: parentId, body }),
+      parentId ? "Failed to add the reply" : "Failed to add the comment"
+    );
+    if (!saved) return;
+
+    if (parentId) {
+      setReplyingTo(null);
+      setReplyBody("");
+    } else {
+      setNewBody("");
+    }
+  };
+
+  const handleEdit = async (id: string) => {
+    const body = editBody.trim();
+    if (!body) return;
+
+    if (await save(() => repository.comments.update(id, body), "Failed to update the comment")) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async (comment: CommentRow) => {
+    const hasReplies = comments.some(reply => reply.parent_id === comment.id);
+    if (!window.confirm(hasReplies ? "Delete this comment and its replies?" : "Delete this comment?")) return;
+
+    await save(() => repository.comments.remove(comment.id), "Failed to delete the comment");
+  };
+
+  const renderComment = (comment: CommentRow) => {
+    const isOwn = comment.user_id === user?.id;
+
+    return (
+      <div className="text-sm">
+        <div className="flex items-center gap-2 mb-1">
+          <span className="font-medium">{comment.author?.username || "Unknown user"}</span>
+          <span className="text-xs text-scrum-text-secondary">
+            {formatDistanceToNow(parseISO(comment.created_at), { addSuffix: true })}
+            {isCommentEdited(comment) && " (edited)"}
+          </span>
+          <div className="ml-auto flex items-center gap-2">
+            {!comment.parent_id && (
+              <button
+                type="button"
+                onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                className="text-scrum-text-secondary hover:text-white"
+                title="Reply"
+              >
+                <Reply className="h-3.5 w-3.5" />
+              </button>
+            )}
+            {isOwn && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingId(comment.id);
+                    setEditBody(comment.body);
+                  }}
+                  className="text-scrum-text-secondary hover:text-white"
+                  title="Edit comment"
+                >
+                  <Edit className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(comment)}
+                  className="text-scrum-text-secondary hover:text-destructive"
+                  title="Delete comment"
+                >
+                  <Trash className="h-3.5 w-3.5" />
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {editingId === comment.id ? (
+          <div className="space-y-2">
+            <MentionTextarea
+              value={editBody}
+              onChange={setEditBody}
+              usernames={usernames}
+              onSubmit={() => handleEdit(comment.id)}
+              disabled={isSaving}
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setEditingId(null)} className="scrum-button-secondary" disabled={isSaving}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => handleEdit(comment.id)}
+                className="scrum-button"
+                disabled={isSaving || !editBody.trim()}
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="prose prose-sm prose-invert max-w-none break-words">
+            <ReactMarkdown
+              components={{
+                a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />
+              }}
+            >
+              {highlightMentions(comment.body, usernames)}
+            </ReactMarkdown>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm mb-3 flex items-center gap-1">
+        <MessageSquare className="h-4 w-4" />
+        Comments{commentCount > 0 && ` (${commentCount})`}
+      </h3>
+
+      {threads.length > 0 && (
+        <ul className="space-y-4 mb-4">
+          {threads.map(({ comment, replies }) => (
+            <li key={comment.id}>
+              {renderComment(comment)}
+
+              {(replies.length > 0 || replyingTo === comment.id) && (
+                <ul className="mt-3 ml-4 pl-3 border-l border-scrum-border space-y-3">
+                  {replies.map(reply => (
+                    <li key={reply.id}>{renderComment(reply)}</li>
+                  ))}
+                  {replyingTo === comment.id && (
+                    <li className="space-y-2">
+                      <MentionTextarea
+                        value={replyBody}
+                        onChange={setReplyBody}
+                        usernames={usernames}
+                        onSubmit={() => handleAdd(comment.id)}
+                        placeholder="Write a reply..."
+                        disabled={isSaving}
+                        autoFocus
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button type="button" onClick={() => setReplyingTo(null)} className="scrum-button-secondary" disabled={isSaving}>
+                          Cancel
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleAdd(comment.id)}
+                          className="scrum-button"
+                          disabled={isSaving || !replyBody.trim()}
+                        >
+                          Reply
+                        </button>
+                      </div>
+                    </li>
+                  )}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <MentionTextarea
+          value={newBody}
+          onChange={setNewBody}
+          usernames={usernames}
+          onSubmit={() => handleAdd(null)}
+          placeholder="Add a comment... Markdown is supported, and @ mentions a teammate"
+          disabled={isSaving}
+        />
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={() => handleAdd(null)}
+            className="scrum-button"
+            disabled={isSaving || !newBody.trim()}
+          >
+            Comment
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskComments;
@@ -1,18 +1,14 @@
 
-import React, { createContext, useContext, useState, useEffect } from "react";
-import { User, ProjectRole } from "@/types";
-import { supabase, withRetry } from "@/lib/supabase";
+import React, { createContext, useContext, useState, useEffect, useRef } from "react";
+import { User } from "@/types";
+import { repository } from "@/data";
 import { toast } from "sonner";
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  isOwner: boolean;
-  userRole: ProjectRole | null;
   isDarkMode: boolean;
-  setIsOwner: (isOwner: boolean) => void;
-  setUserRole: (role: ProjectRole | null) => void;
   login: (emailOrUsername: string, password: string) => Promise<void>;
   register: (username: string, email: string, password: string) => Promise<void>;
   logout: () => void;
@@ -26,11 +22,7 @@ const AuthContext = createContext<AuthContextType>({
   user: null,
   isAuthenticated: false,
   isLoading: true,
-  isOwner: false,
-  userRole: null,
   isDarkMode: true,
-  setIsOwner: () => {},
-  setUserRole: () => {},
   login: async () => {},
   register: async () => {},
   logout: () => {},
@@ -45,84 +37,75 @@ export const useAuth = () => useContext(AuthContext);
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [isOwner, setIsOwner] = useState(false);
-  const [userRole, setUserRole] = useState<ProjectRole | null>(null);
   const [isDarkMode, setIsDarkMode] = useState(true);
+  const userIdRef = useRef<string | null>(null);
+  userIdRef.current = user?.id ?? null;
 
   useEffect(() => {
-    const loadUserFromStorage = () => {
+    const loadSession = async () => {
       try {
-        const savedUser = localStorage.getItem("scrumUser");
-        if (savedUser) {
-          setUser(JSON.parse(savedUser));
-        }
+        // Sessions used to be a plain JSON blob; they are now owned by the auth backend
+        localStorage.removeItem("scrumUser");
         
-        // Load theme preference
-        const themePreference = localStorage.getItem("scrumTheme");
-        if (themePreference === "light") {
-          setIsDarkMode(false);
-          document.documentElement.classList.remove("dark");
-        } else {
-          setIsDarkMode(true);
-          document.documentElement.classList.add("dark");
-        }
+        const sessionUser = await repository.auth.getSessionUser();
+        setUser(sessionUser);
       } catch (error) {
-        console.error("Error loading user from storage:", error);
-        localStorage.removeItem("scrumUser");
+        console.error("Error restoring session:", error);
+        setUser(null);
       } finally {
         setIsLoading(false);
       }
     };
     
-    loadUserFromStorage();
+    // Load theme preference
+    const themePreference = localStorage.getItem("scrumTheme");
+    if (themePreference === "light") {
+      setIsDarkMode(false);
+      document.documentElement.classList.remove("dark");
+    } else {
+      setIsDarkMode(true);
+      document.documentElement.classList.add("dark");
+    }
+    
+    loadSession();
+    
+    // Follow sign-outs from other tabs and sessions whose refresh token expired
+    return repository.auth.onSessionChange((userId) => {
+      if (!userId) {
+        setUser(null);
+        return;
+      }
+      
+      // Signed in from another tab
+      if (userId !== userIdRef.current) {
+        repository.auth.getSessionUser()
+          .then(sessionUser => setUser(sessionUser))
+          .catch(error => console.error("Error loading signed-in user:", error));
+      }
+    });
   }, []);
 
   const register = async (username: string, email: string, password: string) => {
     try {
-      const { data: existingEmail } = await withRetry(async () => {
-        return await supabase
-          .from('users')
-          .select('email')
-          .eq('email', email)
-          .single();
-      });
-
-      if (existingEmail) {
+      if (await repository.users.isTaken('email', email)) {
         throw new Error('Email already in use');
       }
 
-      const { data: existingUsername } = await withRetry(async () => {
-        return await supabase
-          .from('users')
-          .select('username')
-          .eq('username', username)
-          .single();
-      });
-
-      if (existingUsername) {
+      if (await repository.users.isTaken('username', username)) {
         throw new Error('Username already taken');
       }
 
-      const { data, error } = await withRetry(async () => {
-        return await supabase
-          .from('users')
-          .insert([{ username, email, password }])
-          .select()
-          .single();
-      });
-
-      if (error) throw error;
+      const data = await repository.auth.signUp(username, email, password);
 
-      if (data) {
-        const newUser: User = {
-          id: data.id,
-          email: data.email,
-          username: data.username,
-        };
-        
-        setUser(newUser);
-        localStorage.setItem("scrumUser", JSON.stringify(newUser));
+      if (!data) {
+        throw new Error('Check your inbox to confirm your email address, then sign in');
       }
+
+      setUser({
+        id: data.id,
+        email: data.email,
+        username: data.username,
+      });
     } catch (error: any) {
       console.error('Registration error:', error);
       throw new Error(error.message || 'Failed to register');
@@ -131,27 +114,13 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
   const login = async (emailOrUsername: string, password: string) => {
     try {
-      const { data, error } = await withRetry(async () => {
-        return await supabase
-          .from('users')
-          .select('*')
-          .or(`email.eq.${emailOrUsername},username.eq.${emailOrUsername}`)
-          .eq('password', password)
-          .single();
-      });
+      const data = await repository.auth.signIn(emailOrUsername, password);
 
-      if (error || !data) {
-        throw new Error('Invalid credentials');
-      }
-
-      const loggedInUser: User = {
+      setUser({
         id: data.id,
         email: data.email,
         username: data.username,
-      };
-      
-      setUser(loggedInUser);
-      localStorage.setItem("scrumUser", JSON.stringify(loggedInUser));
+      });
     } catch (error: any) {
       console.error('Login error:', error);
       throw new Error('Invalid credentials');
@@ -160,9 +129,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
   const logout = () => {
     setUser(null);
-    setIsOwner(false);
-    setUserRole(null);
-    localStorage.removeItem("scrumUser");
+    repository.auth.signOut().catch(error => {
+      console.error('Logout error:', error);
+    });
   };
 
   const updateUsername = async (username: string): Promise<boolean> => {
@@ -170,34 +139,15 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     
     try {
       // Check if username already exists
-      const { data: existingUser } = await withRetry(async () => {
-        return await supabase
-          .from('users')
-          .select('id')
-          .eq('username', username)
-          .neq('id', user.id)
-          .single();
-      });
-
-      if (existingUser) {
+      if (await repository.users.isTaken('username', username, user.id)) {
         toast.error('Username already taken');
         return false;
       }
 
       // Update username
-      const { error } = await withRetry(async () => {
-        return await supabase
-          .from('users')
-          .update({ username })
-          .eq('id', user.id);
-      });
-
-      if (error) throw error;
+      await repository.users.update(user.id, { username });
 
-      // Update user in state and localStorage
-      const updatedUser = { ...user, username };
-      setUser(updatedUser);
-      localStorage.setItem("scrumUser", JSON.stringify(updatedUser));
+      setUser({ ...user, username });
       
       toast.success('Username updated successfully');
       return true;
@@ -213,34 +163,20 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     
     try {
       // Check if email already exists
-      const { data: existingUser } = await withRetry(async () => {
-        return await supabase
-          .from('users')
-          .select('id')
-          .eq('email', email)
-          .neq('id', user.id)
-          .single();
-      });
-
-      if (existingUser) {
+      if (await repository.users.isTaken('email', email, user.id)) {
         toast.error('Email already in use');
         return false;
       }
 
-      // Update email
-      const { error } = await withRetry(async () => {
-        return await supabase
-          .from('users')
-          .update({ email })
-          .eq('id', user.id);
-      });
+      // The sign-in email lives with the auth backend; the profile follows it
+      const { confirmationRequired } = await repository.auth.updateEmail(email);
 
-      if (error) throw error;
+      if (confirmationRequired) {
+        toast.success('Check your new inbox to confirm the change');
+        return true;
+      }
 
-      // Update user in state and localStorage
-      const updatedUser = { ...user, email };
-      setUser(updatedUser);
-      localStorage.setItem("scrumUser", JSON.stringify(updatedUser));
+      setUser({ ...user, email });
       
       toast.success('Email updated successfully');
       return true;
@@ -255,15 +191,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     if (!user) return false;
     
     try {
-      // Update password
-      const { error } = await withRetry(async () => {
-        return await supabase
-          .from('users')
-          .update({ password })
-          .eq('id', user.id);
-      });
-
-      if (error) throw error;
+      await repository.auth.updatePassword(password);
       
       toast.success('Password updated successfully');
       return true;
@@ -293,11 +221,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         user,
         isAuthenticated: !!user,
         isLoading,
-        isOwner,
-        userRole,
         isDarkMode,
-        setIsOwner,
-        setUserRole,
         login,
         register,
         logout,
@@ -1,7 +1,21 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from "react";
-import { Project, Sprint, Task, BurndownData } from "@/types";
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, useMemo } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Project, Sprint, Task, BurndownData, RemoteChange } from "@/types";
 import { useAuth } from "./AuthContext";
-import { supabase, withRetry } from "@/lib/supabase";
+import { subscribeToProjectChanges } from "@/lib/supabase";
+import { repository, SprintRow, TaskRow } from "@/data";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import {
+  projectQueryKeys,
+  formatTaskRow,
+  formatSprintRow,
+  useOwnedProjects,
+  useCollaborativeProjects,
+  useProjectSprints,
+  useProjectTasks
+} from "@/hooks/use-project-queries";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { can, getProjectRole } from "@/lib/permissions";
 import { toast } from "sonner";
 
 interface ProjectContextType {
@@ -27,6 +41,11 @@ interface ProjectContextType {
   getBurndownData: (projectId: string) => BurndownData[];
   fetchCollaborativeProjects: () => Promise<void>;
   refreshProjectData: (projectId?: string) => Promise<void>;
+  activeProjectId: string | null;
+  setActiveProjectId: (projectId: string | null) => void;
+  remoteChange: RemoteChange | null;
+  remotelyChangedTaskIds: string[];
+  markLocalChange: (id: string) => void;
 }
 
 const ProjectContext = createContext<ProjectContextType>({
@@ -52,250 +71,166 @@ const ProjectContext = createContext<ProjectContextType>({
   getBurndownData: () => [],
   fetchCollaborativeProjects: async () => {},
   refreshProjectData: async () => {},
+  activeProjectId: null,
+  setActiveProjectId: () => {},
+  remoteChange: null,
+  remotelyChangedTaskIds: [],
+  markLocalChange: () => {},
 });
 
+// Realtime echoes of our own writes arrive shortly after the write; ignore them for this long
+const LOCAL_CHANGE_WINDOW_MS = 5000;
+// How long a card stays highlighted after a teammate moved it
+const REMOTE_HIGHLIGHT_MS = 4000;
+
 export const useProjects = () => useContext(ProjectContext);
 
 export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user } = useAuth();
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [sprints, setSprints] = useState<Sprint[]>([]);
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const queryClient = useQueryClient();
   const [burndownData, setBurndownData] = useState<Record<string, BurndownData[]>>({});
-  const [isLoading, setIsLoading] = useState(false);
-  const [lastFetchTime, setLastFetchTime] = useState<Record<string, number>>({});
-  const [fetchErrors, setFetchErrors] = useState<Record<string, boolean>>({});
-
-  const shouldRefetch = useCallback((key: string, maxAge = 60000) => {
-    const now = Date.now();
-    const lastFetch = lastFetchTime[key] || 0;
-    return now - lastFetch > maxAge;
-  }, [lastFetchTime]);
-
-  const updateFetchTime = useCallback((key: string) => {
-    setLastFetchTime(prev => ({...prev, [key]: Date.now()}));
-    setFetchErrors(prev => ({...prev, [key]: false}));
-  }, []);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [remoteChange, setRemoteChange] = useState<RemoteChange | null>(null);
+  const [remotelyChangedTaskIds, setRemotelyChangedTaskIds] = useState<string[]>([]);
+  const localChangesRef = useRef<Map<string, number>>(new Map());
+  const { lastSyncedAt, problemCount } = useOfflineQueue();
 
-  const markFetchError = useCallback((key: string) => {
-    setFetchErrors(prev => ({...prev, [key]: true}));
-  }, []);
+  const ownedProjectsQuery = useOwnedProjects(user?.id);
+  const collaborativeProjectsQuery = useCollaborativeProjects(user?.id);
 
-  useEffect(() => {
-    if (user) {
-      fetchProjects();
-      fetchCollaborativeProjects();
-    } else {
-      setProjects([]);
-      setSprints([]);
-      setTasks([]);
-      setBurndownData({});
-    }
-  }, [user]);
+  const projects = useMemo(() => user ? [
+    ...(ownedProjectsQuery.data || []),
+    ...(collaborativeProjectsQuery.data || [])
+  ] : [], [user, ownedProjectsQuery.data, collaborativeProjectsQuery.data]);
 
-  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-  
-  const fetchProjects = async () => {
-    if (!user || isLoading) return;
-    
-    if (!shouldRefetch('projects') && projects.length > 0 && !fetchErrors['projects']) {
-      console.log('Using cached projects data');
-      return;
-    }
-    
-    setIsLoading(true);
-    
-    try {
-      const { data, error } = await withRetry(async () => {
-        return await supabase
-          .from('projects')
-          .select(`*, owner:owner_id (username, email)`)
-          .eq('owner_id', user.id);
-      });
+  // Sorted so the batched sprint/task queries keep the same key across renders
+  const projectIds = useMemo(() => projects.map(p => p.id).sort(), [projects]);
 
-      if (error) throw error;
-
-      if (data) {
-        const formattedProjects: Project[] = data.map(project => ({
-          id: project.id,
-          title: project.title,
-          description: project.description || '',
-          endGoal: project.end_goal,
-          createdAt: project.created_at,
-          updatedAt: project.updated_at,
-          ownerId: project.owner_id,
-          ownerName: project.owner?.username || '',
-          ownerEmail: project.owner?.email || '',
-          isCollaboration: false
-        }));
-
-        setProjects(formattedProjects);
-        updateFetchTime('projects');
-        
-        for (const project of formattedProjects) {
-          await fetchSprints(project.id);
-          await delay(500);
-          await fetchBacklogTasks(project.id);
-          await delay(500);
-        }
-      }
-    } catch (error) {
-      console.error('Error fetching projects:', error);
-      markFetchError('projects');
-      toast.error("Failed to load projects. Please try refreshing the page.");
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const sprintsQuery = useProjectSprints(projectIds);
+  const tasksQuery = useProjectTasks(projectIds);
 
-  const fetchSprints = async (projectId: string, forceRefresh = false) => {
-    if (!user) return;
-    
-    const cacheKey = `sprints-${projectId}`;
-    if (!forceRefresh && !shouldRefetch(cacheKey) && sprints.some(s => s.projectId === projectId) && !fetchErrors[cacheKey]) {
-      console.log(`Using cached sprints data for project ${projectId}`);
-      return;
-    }
+  const sprints = useMemo(() => user ? sprintsQuery.data || [] : [], [user, sprintsQuery.data]);
+  const tasks = useMemo(() => user ? tasksQuery.data || [] : [], [user, tasksQuery.data]);
 
-    try {
-      console.log(`Fetching sprints for project: ${projectId}`);
-      
-      const { data, error } = await withRetry(async () => {
-        return await supabase
-          .from('sprints')
-          .select('*')
-          .eq('project_id', projectId);
-      });
+  // Read by the realtime handler without resubscribing whenever the sprints change
+  const sprintsRef = useRef(sprints);
+  sprintsRef.current = sprints;
 
-      if (error) throw error;
+  // Write-through helpers: apply a local change to every cached list it belongs to
+  const setProjects = useCallback((updater: (prev: Project[]) => Project[]) => {
+    queryClient.setQueryData<Project[]>(projectQueryKeys.ownedProjects(user?.id), prev => updater(prev || []));
+  }, [queryClient, user]);
 
-      console.log(`Fetched sprints:`, data);
+  const setSprints = useCallback((updater: (prev: Sprint[]) => Sprint[]) => {
+    queryClient.setQueriesData<Sprint[]>({ queryKey: projectQueryKeys.sprints() }, prev => updater(prev || []));
+  }, [queryClient]);
 
-      if (data) {
-        const formattedSprints: Sprint[] = data.map(sprint => ({
-          id: sprint.id,
-          title: sprint.title,
-          description: sprint.description || '',
-          projectId: sprint.project_id,
-          startDate: sprint.start_date,
-          endDate: sprint.end_date,
-          status: sprint.status as 'planned' | 'in-progress' | 'completed'
-        }));
+  const setTasks = useCallback((updater: (prev: Task[]) => Task[]) => {
+    queryClient.setQueriesData<Task[]>({ queryKey: projectQueryKeys.tasks() }, prev => updater(prev || []));
+  }, [queryClient]);
 
-        setSprints(prev => {
-          const filtered = prev.filter(s => s.projectId !== projectId);
-          return [...filtered, ...formattedSprints];
-        });
-        updateFetchTime(cacheKey);
-        
-        for (const sprint of formattedSprints) {
-          await fetchTasksBySprint(sprint.id, forceRefresh);
-          await delay(300);
-        }
-      }
-    } catch (error) {
-      console.error('Error fetching sprints:', error);
-      markFetchError(cacheKey);
-    }
+  const invalidateSprintsAndTasks = useCallback(() => Promise.all([
+    queryClient.invalidateQueries({ queryKey: projectQueryKeys.sprints() }),
+    queryClient.invalidateQueries({ queryKey: projectQueryKeys.tasks() })
+  ]), [queryClient]);
+
+  const markLocalChange = useCallback((id: string) => {
+    localChangesRef.current.set(id, Date.now());
+  }, []);
+
+  const isLocalEcho = (id: string) => {
+    const changedAt = localChangesRef.current.get(id);
+    return changedAt !== undefined && Date.now() - changedAt < LOCAL_CHANGE_WINDOW_MS;
   };
 
-  const fetchTasksBySprint = async (sprintId: string, forceRefresh = false) => {
-    if (!user) return;
-    
-    const cacheKey = `tasks-sprint-${sprintId}`;
-    if (!forceRefresh && !shouldRefetch(cacheKey) && tasks.some(t => t.sprintId === sprintId) && !fetchErrors[cacheKey]) {
-      console.log(`Using cached tasks data for sprint ${sprintId}`);
-      return;
+  useEffect(() => {
+    if (ownedProjectsQuery.isError) {
+      console.error('Error fetching projects:', ownedProjectsQuery.error);
+      toast.error("Failed to load projects. Please try refreshing the page.");
     }
+  }, [ownedProjectsQuery.isError, ownedProjectsQuery.error]);
 
-    try {
-      const { data, error } = await withRetry(async () => {
-        return await supabase
-          .from('tasks')
-          .select('*')
-          .eq('sprint_id', sprintId);
-      });
+  useEffect(() => {
+    if (collaborativeProjectsQuery.isError) {
+      console.error('Error fetching collaborative projects:', collaborativeProjectsQuery.error);
+      toast.error("Failed to load collaborative projects. Please try refreshing the page.");
+    }
+  }, [collaborativeProjectsQuery.isError, collaborativeProjectsQuery.error]);
 
-      if (error) throw error;
-
-      if (data) {
-        const formattedTasks: Task[] = data.map(task => ({
-          id: task.id,
-          title: task.title,
-          description: task.description,
-          sprintId: task.sprint_id || '',
-          status: task.status,
-          assignedTo: task.assign_to,
-          storyPoints: task.story_points,
-          priority: task.priority as 'low' | 'medium' | 'high',
-          createdAt: task.created_at,
-          updatedAt: task.created_at,
-          projectId: task.project_id,
-          completionDate: task.completion_date
-        }));
+  // Changes queued while offline reached the server; reload what other people changed meanwhile
+  useEffect(() => {
+    if (!lastSyncedAt || !user) return;
+    toast.success("Offline changes synced");
+    invalidateSprintsAndTasks();
+  }, [lastSyncedAt, user, invalidateSprintsAndTasks]);
 
-        setTasks(prev => {
-          const filtered = prev.filter(t => t.sprintId !== sprintId);
-          return [...filtered, ...formattedTasks];
-        });
-        updateFetchTime(cacheKey);
-      }
-    } catch (error) {
-      console.error('Error fetching tasks:', error);
-      markFetchError(cacheKey);
+  const problemCountRef = useRef(problemCount);
+  useEffect(() => {
+    if (problemCount > problemCountRef.current) {
+      toast.warning("Some offline changes could not be synced. Check the pending changes list.");
     }
-  };
+    problemCountRef.current = problemCount;
+  }, [problemCount]);
 
-  const fetchBacklogTasks = async (projectId: string, forceRefresh = false) => {
-    if (!user) return;
-    
-    const cacheKey = `backlog-${projectId}`;
-    if (!forceRefresh && !shouldRefetch(cacheKey) && tasks.some(t => t.projectId === projectId && t.status === 'backlog' && !t.sprintId) && !fetchErrors[cacheKey]) {
-      console.log(`Using cached backlog data for project ${projectId}`);
-      return;
+  useEffect(() => {
+    if (!user) {
+      queryClient.removeQueries({ queryKey: projectQueryKeys.all });
+      setBurndownData({});
     }
+  }, [user, queryClient]);
 
-    try {
-      const { data, error } = await withRetry(async () => {
-        return await supabase
-          .from('tasks')
-          .select('*')
-          .is('sprint_id', null)
-          .eq('project_id', projectId)
-          .eq('status', 'backlog');
-      });
-
-      if (error) throw error;
-
-      if (data) {
-        const formattedTasks: Task[] = data.map(task => ({
-          id: task.id,
-          title: task.title,
-          description: task.description,
-          sprintId: '',
-          status: 'backlog',
-          assignedTo: task.assign_to,
-          storyPoints: task.story_points,
-          priority: task.priority as 'low' | 'medium' | 'high',
-          createdAt: task.created_at,
-          updatedAt: task.updated_at,
-          projectId: task.project_id,
-          completionDate: task.completion_date
-        }));
-
+  useEffect(() => {
+    if (!user || !activeProjectId) return;
+    
+    const unsubscribe = subscribeToProjectChanges(activeProjectId, (change) => {
+      const row = change.eventType === 'DELETE' ? change.oldRow : change.newRow;
+      if (!row?.id) return;
+
+      // Column changes arrive for every board; keep those of the active project's sprints
+      if (change.table === 'board_columns' && !sprintsRef.current.some(sprint =>
+        sprint.id === row.sprint_id && sprint.projectId === activeProjectId
+      )) return;
+      
+      if (change.table === 'tasks') {
         setTasks(prev => {
-          const filtered = prev.filter(t => 
-            !(t.status === 'backlog' && t.projectId === projectId && !t.sprintId)
-          );
-          return [...filtered, ...formattedTasks];
+          const others = prev.filter(t => t.id !== row.id);
+          return change.eventType === 'DELETE' ? others : [...others, formatTaskRow(row as TaskRow)];
         });
-        updateFetchTime(cacheKey);
+      } else if (change.table === 'sprints') {
+        setSprints(prev => {
+          const others = prev.filter(s => s.id !== row.id);
+          return change.eventType === 'DELETE' ? others : [...others, formatSprintRow(row as SprintRow)];
+        });
+      } else if (change.table === 'collaborators') {
+        queryClient.invalidateQueries({ queryKey: projectQueryKeys.collaborativeProjects(user.id) });
+      } else if (change.table === 'task_dependencies') {
+        queryClient.invalidateQueries({ queryKey: projectQueryKeys.dependencies(activeProjectId) });
+      } else if (change.table === 'task_checklist_items') {
+        queryClient.invalidateQueries({ queryKey: projectQueryKeys.checklistItems(activeProjectId) });
+      } else if (change.table === 'epics') {
+        queryClient.invalidateQueries({ queryKey: projectQueryKeys.epics(activeProjectId) });
+      } else if (change.table === 'labels') {
+        queryClient.invalidateQueries({ queryKey: projectQueryKeys.labels(activeProjectId) });
+      } else if (change.table === 'task_labels') {
+        queryClient.invalidateQueries({ queryKey: projectQueryKeys.taskLabels(activeProjectId) });
+      } else if (change.table === 'task_comments') {
+        queryClient.invalidateQueries({ queryKey: projectQueryKeys.comments(activeProjectId) });
       }
-    } catch (error) {
-      console.error('Error fetching backlog tasks:', error);
-      markFetchError(cacheKey);
-    }
-  };
+      
+      if (isLocalEcho(row.id)) return;
+      
+      setRemoteChange(change);
+      
+      if (change.table === 'tasks' && change.eventType !== 'DELETE') {
+        setRemotelyChangedTaskIds(prev => [...prev.filter(id => id !== row.id), row.id]);
+        setTimeout(() => {
+          setRemotelyChangedTaskIds(prev => prev.filter(id => id !== row.id));
+        }, REMOTE_HIGHLIGHT_MS);
+      }
+    });
+    
+    return unsubscribe;
+  }, [user, activeProjectId, queryClient, setSprints, setTasks]);
 
   const refreshProjectData = async (projectId?: string) => {
     if (!user) return;
@@ -304,30 +239,11 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
     
     try {
       if (projectId) {
-        const projectCacheKeys = [
-          `sprints-${projectId}`,
-          `backlog-${projectId}`
-        ];
-        
-        const newFetchTime = {...lastFetchTime};
-        projectCacheKeys.forEach(key => delete newFetchTime[key]);
-        setLastFetchTime(newFetchTime);
-        
-        await fetchSprints(projectId, true);
-        await fetchBacklogTasks(projectId, true);
-        
-        const projectSprints = sprints.filter(s => s.projectId === projectId);
-        for (const sprint of projectSprints) {
-          const sprintKey = `tasks-sprint-${sprint.id}`;
-          delete newFetchTime[sprintKey];
-          await fetchTasksBySprint(sprint.id, true);
-        }
+        await invalidateSprintsAndTasks();
         
         toast.success("Project data refreshed successfully");
       } else {
-        setLastFetchTime({});
-        await fetchProjects();
-        await fetchCollaborativeProjects();
+        await queryClient.invalidateQueries({ queryKey: projectQueryKeys.all });
         
         toast.success("All data refreshed successfully");
       }
@@ -336,25 +252,18 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
       toast.error("Failed to refresh project data");
     }
   };
-
   const generateId = () => `id-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
   const addProject = async (project: Omit<Project, "id" | "createdAt" | "updatedAt">) => {
     if (!user) throw new Error('User not authenticated');
 
     try {
-      const { data, error } = await supabase
-        .from('projects')
-        .insert([{
-          title: project.title,
-          description: project.description,
-          end_goal: project.endGoal,
-          owner_id: user.id
-        }])
-        .select(`*, owner:owner_id (username, email)`)
-        .single();
-
-      if (error) throw error;
+      const data = await repository.projects.create({
+        title: project.title,
+        description: project.description,
+        end_goal: project.endGoal,
+        owner_id: user.id
+      });
 
       if (!data) throw new Error('Failed to create project');
 
@@ -363,6 +272,7 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         title: data.title,
         description: data.description || '',
         endGoal: data.end_goal,
+        workingDays: data.working_days,
         createdAt: data.created_at,
         updatedAt: data.updated_at,
         ownerId: data.owner_id,
@@ -390,18 +300,18 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
     if (!user) throw new Error('User not authenticated');
 
     try {
-      const { error } = await supabase
-        .from('projects')
-        .update({
-          title: project.title,
-          description: project.description,
-          end_goal: project.endGoal,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', id)
-        .eq('owner_id', user.id);
-
-      if (error) throw error;
+      const existingProject = projects.find((p) => p.id === id);
+      if (!can(getProjectRole(existingProject, user.id), 'project.edit')) {
+        throw new Error('You do not have permission to update this project');
+      }
+      
+      await repository.projects.update(id, {
+        title: project.title,
+        description: project.description,
+        end_goal: project.endGoal,
+        working_days: project.workingDays,
+        updated_at: new Date().toISOString()
+      });
 
       const updatedProject = {
         ...projects.find((p) => p.id === id)!,
@@ -409,7 +319,11 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         updatedAt: new Date().toISOString(),
       };
 
-      setProjects(prev => prev.map(p => p.id === id ? updatedProject : p));
+      if (existingProject.isCollaboration) {
+        queryClient.invalidateQueries({ queryKey: projectQueryKeys.collaborativeProjects(user.id) });
+      } else {
+        setProjects(prev => prev.map(p => p.id === id ? updatedProject : p));
+      }
       
       return updatedProject;
     } catch (error) {
@@ -422,6 +336,11 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
     if (!user) throw new Error('User not authenticated');
 
     try {
+      const targetProject = projects.find(p => p.id === id);
+      if (!can(getProjectRole(targetProject, user.id), 'project.delete')) {
+        throw new Error('Only the project owner can delete the project');
+      }
+      
       const projectSprints = sprints.filter(s => s.projectId === id);
       const sprintIds = projectSprints.map(s => s.id);
       
@@ -436,24 +355,14 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         }
       }
       
-      const { error: backlogTasksError } = await supabase
-        .from('tasks')
-        .delete()
-        .is('sprint_id', null)
-        .eq('project_id', id);
-        
-      if (backlogTasksError) {
+      try {
+        await repository.tasks.removeWhere({ projectIds: [id], sprintId: null });
+      } catch (backlogTasksError) {
         console.error('Error deleting backlog tasks:', backlogTasksError);
         throw backlogTasksError;
       }
       
-      const { error } = await supabase
-        .from('projects')
-        .delete()
-        .eq('id', id)
-        .eq('owner_id', user.id);
-
-      if (error) throw error;
+      await repository.projects.remove(id);
 
       setProjects(prev => prev.filter(p => p.id !== id));
       setSprints(prev => prev.filter(s => s.projectId !== id));
@@ -477,23 +386,19 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
     if (!user) throw new Error('User not authenticated');
 
     try {
-      const { data, error } = await supabase
-        .from('sprints')
-        .insert([{
-          title: sprint.title,
-          description: sprint.description,
-          project_id: sprint.projectId,
-          start_date: sprint.startDate,
-          end_date: sprint.endDate,
-          status: sprint.status,
-          user_id: user.id
-        }])
-        .select()
-        .single();
-
-      if (error) throw error;
+      const data = await repository.sprints.create({
+        title: sprint.title,
+        description: sprint.description,
+        project_id: sprint.projectId,
+        start_date: sprint.startDate,
+        end_date: sprint.endDate,
+        status: sprint.status,
+        user_id: user.id
+      });
 
       if (!data) throw new Error('Failed to create sprint');
+      
+      markLocalChange(data.id);
 
       const newSprint: Sprint = {
         id: data.id,
@@ -525,23 +430,20 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
       const existingSprint = sprints.find(s => s.id === id);
       if (!existingSprint) throw new Error('Sprint not found');
       
+      markLocalChange(id);
+      
       const projectId = existingSprint.projectId;
       
       const isCompletingStatus = existingSprint.status !== 'completed' && sprint.status === 'completed';
 
-      const { error } = await supabase
-        .from('sprints')
-        .update({
-          title: sprint.title,
-          description: sprint.description,
-          start_date: sprint.startDate,
-          end_date: sprint.endDate,
-          status: sprint.status,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', id);
-
-      if (error) throw error;
+      await repository.sprints.update(id, {
+        title: sprint.title,
+        description: sprint.description,
+        start_date: sprint.startDate,
+        end_date: sprint.endDate,
+        status: sprint.status,
+        updated_at: new Date().toISOString()
+      });
 
       const updatedSprint = {
         ...existingSprint,
@@ -571,56 +473,26 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
       const targetSprint = sprints.find(s => s.id === id);
       const projectId = targetSprint?.projectId;
       
+      markLocalChange(id);
+      
       console.log("Deleting board columns for sprint:", id);
-      const { data: columnsData, error: columnsQueryError } = await supabase
-        .from('board_columns')
-        .select('id')
-        .eq('sprint_id', id);
-        
-      if (columnsQueryError) {
-        console.error('Error querying sprint board columns:', columnsQueryError);
-        throw columnsQueryError;
-      }
+      const columnsData = await repository.columns.list(id);
       
-      if (columnsData && columnsData.length > 0) {
+      if (columnsData.length > 0) {
         console.log(`Found ${columnsData.length} board columns to delete`);
         
         for (const column of columnsData) {
-          const { error: columnDeleteError } = await supabase
-            .from('board_columns')
-            .delete()
-            .eq('id', column.id);
-            
-          if (columnDeleteError) {
-            console.error(`Error deleting column ${column.id}:`, columnDeleteError);
-            throw columnDeleteError;
-          }
+          await repository.columns.remove(column.id);
         }
       } else {
         console.log("No board columns found for this sprint");
       }
 
       console.log("Deleting tasks for sprint:", id);
-      const { error: tasksError } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('sprint_id', id);
-        
-      if (tasksError) {
-        console.error('Error deleting sprint tasks:', tasksError);
-        throw tasksError;
-      }
+      await repository.tasks.removeWhere({ sprintId: id });
 
       console.log("Deleting sprint:", id);
-      const { error } = await supabase
-        .from('sprints')
-        .delete()
-        .eq('id', id);
-
-      if (error) {
-        console.error('Error deleting sprint:', error);
-        throw error;
-      }
+      await repository.sprints.remove(id);
 
       setSprints(prev => prev.filter(s => s.id !== id));
       setTasks(prev => prev.filter(t => t.sprintId !== id));
@@ -659,19 +531,16 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         story_points: task.storyPoints,
         priority: task.priority,
         sprint_id: isBacklogTask ? null : task.sprintId,
+        epic_id: task.epicId || null,
         project_id: projectId,
         user_id: user.id
       };
 
-      const { data, error } = await supabase
-        .from('tasks')
-        .insert([taskData])
-        .select()
-        .single();
-
-      if (error) throw error;
+      const data = await repository.tasks.create(taskData);
 
       if (!data) throw new Error('Failed to create task');
+      
+      markLocalChange(data.id);
 
       console.log('Task created in database:', data);
 
@@ -687,16 +556,17 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         createdAt: data.created_at,
         updatedAt: data.created_at,
         projectId: data.project_id,
-        completionDate: data.completion_date
+        completionDate: data.completion_date,
+        startedAt: data.started_at,
+        columnId: data.column_id,
+        rank: data.rank,
+        checklistBlocksDone: data.checklist_blocks_done,
+        epicId: data.epic_id
       };
 
       setTasks(prev => [...prev, newTask]);
       
-      if (isBacklogTask) {
-        await fetchBacklogTasks(projectId, true);
-      } else if (task.sprintId) {
-        await fetchTasksBySprint(task.sprintId, true);
-      }
+      queryClient.invalidateQueries({ queryKey: projectQueryKeys.tasks() });
       
       return newTask;
     } catch (error) {
@@ -713,16 +583,20 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
     try {
       const existingTask = tasks.find(t => t.id === id);
       if (!existingTask) throw new Error('Task not found');
+      
+      markLocalChange(id);
 
       console.log('Updating task with data:', { id, ...task });
 
-      const updateData: any = {
+      const updateData: TablesUpdate<'tasks'> = {
         title: task.title,
         description: task.description,
         status: task.status,
         assign_to: task.assignedTo,
         story_points: task.storyPoints,
-        priority: task.priority
+        priority: task.priority,
+        column_id: task.columnId,
+        rank: task.rank
       };
       
       if ('completionDate' in task) {
@@ -730,13 +604,25 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         console.log('Setting completion_date to:', task.completionDate);
       }
 
-      const { error } = await supabase
-        .from('tasks')
-        .update(updateData)
-        .eq('id', id);
+      if ('checklistBlocksDone' in task) {
+        updateData.checklist_blocks_done = task.checklistBlocksDone;
+      }
 
-      if (error) {
-        console.error('Supabase update error:', error);
+      if ('epicId' in task) {
+        updateData.epic_id = task.epicId || null;
+      }
+
+      // The first move to in-progress starts the task's cycle time
+      if (task.startedAt) {
+        updateData.started_at = task.startedAt;
+      } else if (task.status === 'in-progress' && !existingTask.startedAt) {
+        updateData.started_at = new Date().toISOString();
+      }
+
+      try {
+        await repository.tasks.update(id, updateData);
+      } catch (error) {
+        console.error('Task update error:', error);
         throw error;
       }
 
@@ -749,15 +635,16 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
       if (!('completionDate' in task) && existingTask.completionDate) {
         updatedTask.completionDate = existingTask.completionDate;
       }
+
+      if (updateData.started_at) {
+        updatedTask.startedAt = updateData.started_at;
+      }
       
       if (task.status === 'done' && existingTask.status !== 'done' && !updatedTask.completionDate) {
         const today = new Date().toISOString().split('T')[0];
         updatedTask.completionDate = today;
         
-        await supabase
-          .from('tasks')
-          .update({ completion_date: today })
-          .eq('id', id);
+        await repository.tasks.update(id, { completion_date: today });
       }
 
       setTasks(prev => prev.map(t => t.id === id ? updatedTask : t));
@@ -769,17 +656,7 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
       if (sprintChanged || movedToBacklog || movedFromBacklog) {
         console.log('Task moved between sprint/backlog, refreshing related data');
         
-        if (existingTask.projectId) {
-          if (existingTask.sprintId) {
-            await fetchTasksBySprint(existingTask.sprintId, true);
-          }
-          
-          if (task.sprintId) {
-            await fetchTasksBySprint(task.sprintId, true);
-          }
-          
-          await fetchBacklogTasks(existingTask.projectId, true);
-        }
+        await queryClient.invalidateQueries({ queryKey: projectQueryKeys.tasks() });
       }
       
       return updatedTask;
@@ -795,22 +672,14 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
     try {
       const taskToDelete = tasks.find(t => t.id === id);
       if (!taskToDelete) throw new Error('Task not found');
+      
+      markLocalChange(id);
 
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', id)
-        .eq('user_id', user.id);
-
-      if (error) throw error;
+      await repository.tasks.removeWhere({ ids: [id], userId: user.id });
 
       setTasks(prev => prev.filter(t => t.id !== id));
       
-      if (taskToDelete.sprintId) {
-        await fetchTasksBySprint(taskToDelete.sprintId, true);
-      } else if (taskToDelete.projectId) {
-        await fetchBacklogTasks(taskToDelete.projectId, true);
-      }
+      queryClient.invalidateQueries({ queryKey: projectQueryKeys.tasks() });
     } catch (error) {
       console.error('Error deleting task:', error);
       throw error;
@@ -835,6 +704,8 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         date: date.toISOString().split("T")[0],
         ideal: 0,
         actual: 0,
+        scope: 0,
+        completed: 0,
       });
     }
     
@@ -844,76 +715,11 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
   const getBurndownData = (projectId: string) => 
     burndownData[projectId] || generateDefaultBurndownData();
 
-  const fetchCollaborativeProjects = async () => {
-    if (!user || isLoading) return;
-    
-    if (!shouldRefetch('collaborations') && projects.some(p => p.isCollaboration) && !fetchErrors['collaborations']) {
-      console.log('Using cached collaborative projects data');
-      return;
-    }
+  const fetchCollaborativeProjects = useCallback(async () => {
+    if (!user) return;
     
-    try {
-      const { data, error } = await withRetry(async () => {
-        return await supabase
-          .from('collaborators')
-          .select(`
-            role,
-            projects:project_id (
-              id, 
-              title, 
-              description, 
-              end_goal, 
-              created_at, 
-              updated_at,
-              owner_id,
-              owner:owner_id (username, email)
-            )
-          `)
-          .eq('user_id', user.id);
-      });
-
-      if (error) throw error;
-
-      if (data && data.length > 0) {
-        const collaborativeProjects = data
-          .filter(item => item.projects)
-          .map(item => {
-            const project = item.projects as any;
-            return {
-              id: project.id,
-              title: project.title,
-              description: project.description || '',
-              endGoal: project.end_goal,
-              createdAt: project.created_at,
-              updatedAt: project.updated_at,
-              ownerId: project.owner_id,
-              ownerName: project.owner?.username || '',
-              ownerEmail: project.owner?.email || '',
-              isCollaboration: true,
-              role: item.role
-            };
-          });
-
-        setProjects(prev => {
-          const nonCollabProjects = prev.filter(p => !p.isCollaboration);
-          return [...nonCollabProjects, ...collaborativeProjects];
-        });
-
-        updateFetchTime('collaborations');
-        
-        for (const project of collaborativeProjects) {
-          await fetchSprints(project.id);
-          await delay(500);
-          await fetchBacklogTasks(project.id);
-          await delay(500);
-        }
-      }
-    } catch (error) {
-      console.error('Error fetching collaborative projects:', error);
-      markFetchError('collaborations');
-      toast.error("Failed to load collaborative projects. Please try refreshing the page.");
-    }
-  };
+    await queryClient.refetchQueries({ queryKey: projectQueryKeys.collaborativeProjects(user.id), stale: true });
+  }, [queryClient, user]);
 
   return (
     <ProjectContext.Provider
@@ -940,6 +746,11 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         getBurndownData,
         fetchCollaborativeProjects,
         refreshProjectData,
+        activeProjectId,
+        setActiveProjectId,
+        remoteChange,
+        remotelyChangedTaskIds,
+        markLocalChange,
       }}
     >
       {children}
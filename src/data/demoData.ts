@@ -0,0 +1,371 @@
+import { addDays, eachDayOfInterval, format, parseISO, subDays } from "date-fns";
+import type { MemoryTables } from "./memoryRepository";
+import { rankBetween } from "@/lib/rank";
+import { summarizeStatuses } from "@/lib/cfd";
+
+const DEMO_OWNER_ID = "demo-user";
+const DEMO_TEAMMATE_ID = "demo-teammate";
+const DEMO_PROJECT_ID = "demo-project";
+const PAST_SPRINT_ID = "demo-sprint-1";
+const CURRENT_SPRINT_ID = "demo-sprint-2";
+const BOARD_EPIC_ID = "demo-epic-board";
+const REPORTS_EPIC_ID = "demo-epic-reports";
+
+// Epic each demo task belongs to; the rest belong to none
+const TASK_EPICS: Record<string, string> = {
+  "demo-task-3": REPORTS_EPIC_ID,
+  "demo-task-4": BOARD_EPIC_ID,
+  "demo-task-5": BOARD_EPIC_ID,
+  "demo-task-6": BOARD_EPIC_ID,
+  "demo-task-7": REPORTS_EPIC_ID
+};
+
+// Labels of the demo project, by name, and the demo tasks carrying them
+const LABELS: Record<string, string> = {
+  frontend: "#0ea5e9",
+  backend: "#10b981",
+  ux: "#ec4899"
+};
+const TASK_LABELS: [string, string][] = [
+  ["demo-task-4", "frontend"],
+  ["demo-task-5", "frontend"],
+  ["demo-task-6", "frontend"],
+  ["demo-task-6", "ux"],
+  ["demo-task-8", "backend"],
+  ["demo-task-9", "ux"]
+];
+
+const day = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Seed for the in-memory backend: sign in as "demo" / "demo123" to explore a project
+// with a finished sprint, a sprint in progress and a few backlog items.
+export const createDemoData = (): MemoryTables => {
+  const today = new Date();
+  const createdAt = subDays(today, 21).toISOString();
+  const pastSprintStart = subDays(today, 21);
+  const currentSprintStart = subDays(today, 7);
+
+  const columns = (sprintId: string) => [
+    { id: `${sprintId}-todo`, sprint_id: sprintId, user_id: DEMO_OWNER_ID, title: "TO DO", order_index: 0, status_category: "todo", created_at: createdAt },
+    { id: `${sprintId}-in-progress`, sprint_id: sprintId, user_id: DEMO_OWNER_ID, title: "IN PROGRESS", order_index: 1, status_category: "in-progress", created_at: createdAt },
+    { id: `${sprintId}-done`, sprint_id: sprintId, user_id: DEMO_OWNER_ID, title: "DONE", order_index: 2, status_category: "done", created_at: createdAt }
+  ];
+
+  // Tasks are ranked in the order they are listed below
+  let lastRank: string | null = null;
+
+  const task = (
+    id: string,
+    title: string,
+    sprintId: string | null,
+    status: string,
+    storyPoints: number,
+    priority: string,
+    assignTo: string | null,
+    completionDate: Date | null = null
+  ) => ({
+    id,
+    rank: (lastRank = rankBetween(lastRank, null)),
+    title,
+    description: null,
+    status,
+    priority,
+    story_points: storyPoints,
+    assign_to: assignTo,
+    completion_date: completionDate ? day(completionDate) : null,
+    // Work starts two days before it is done, or two days into the sprint if still going
+    started_at: completionDate
+      ? subDays(completionDate, 2).toISOString()
+      : status === "in-progress" ? addDays(currentSprintStart, 2).toISOString() : null,
+    project_id: DEMO_PROJECT_ID,
+    sprint_id: sprintId,
+    column_id: sprintId ? `${sprintId}-${status}` : null,
+    checklist_blocks_done: false,
+    epic_id: TASK_EPICS[id] || null,
+    user_id: DEMO_OWNER_ID,
+    created_at: createdAt,
+    updated_at: createdAt
+  });
+
+  const checklistItem = (
+    taskId: string,
+    kind: string,
+    title: string,
+    assignTo: string | null,
+    isDone: boolean,
+    orderIndex: number
+  ) => ({
+    id: `${taskId}-item-${orderIndex}`,
+    task_id: taskId,
+    project_id: DEMO_PROJECT_ID,
+    kind,
+    title,
+    assign_to: assignTo,
+    is_done: isDone,
+    order_index: orderIndex,
+    created_at: createdAt,
+    updated_at: createdAt
+  });
+
+  const scopeChange = (
+    taskId: string,
+    title: string,
+    sprintId: string,
+    changeType: string,
+    pointsDelta: number,
+    changedAt: Date
+  ) => ({
+    id: `${taskId}-${changeType}-${day(changedAt)}`,
+    sprint_id: sprintId,
+    project_id: DEMO_PROJECT_ID,
+    task_id: taskId,
+    task_title: title,
+    change_type: changeType,
+    points_delta: pointsDelta,
+    changed_by: DEMO_OWNER_ID,
+    changed_at: changedAt.toISOString()
+  });
+
+  const tasks = [
+    task("demo-task-1", "Set up the repository", PAST_SPRINT_ID, "done", 2, "medium", "demo", addDays(pastSprintStart, 2)),
+    task("demo-task-2", "Sign up and log in", PAST_SPRINT_ID, "done", 5, "high", "alex", addDays(pastSprintStart, 8)),
+    task("demo-task-3", "Project dashboard", PAST_SPRINT_ID, "done", 3, "medium", "demo", addDays(pastSprintStart, 12)),
+    task("demo-task-4", "Drag and drop board", CURRENT_SPRINT_ID, "done", 5, "high", "alex", addDays(currentSprintStart, 3)),
+    // Can't be moved to done until its checklist below is complete
+    { ...task("demo-task-5", "Custom board columns", CURRENT_SPRINT_ID, "in-progress", 3, "medium", "demo"), checklist_blocks_done: true },
+    task("demo-task-6", "Backlog filters", CURRENT_SPRINT_ID, "todo", 2, "low", "alex"),
+    task("demo-task-7", "Burndown chart", CURRENT_SPRINT_ID, "todo", 5, "high", null),
+    task("demo-task-8", "Email notifications", null, "backlog", 3, "low", null),
+    task("demo-task-9", "Dark mode polish", null, "backlog", 1, "low", null)
+  ];
+
+  const taskEvent = (taskId: string, field: string, fromValue: string | null, toValue: string | null, changedAt: Date) => ({
+    id: `${taskId}-${field}-${toValue}`,
+    task_id: taskId,
+    project_id: DEMO_PROJECT_ID,
+    field,
+    from_value: fromValue,
+    to_value: toValue,
+    changed_by: DEMO_OWNER_ID,
+    changed_at: changedAt.toISOString()
+  });
+
+  // History for the tasks above: created when the project was, then moved across the
+  // board, reaching "done" on their completion date
+  const taskEvents = tasks.flatMap(t => {
+    const created = taskEvent(t.id, "created", null, t.sprint_id ? "todo" : "backlog", parseISO(t.created_at));
+    if (!t.started_at) return [created];
+
+    const started = taskEvent(t.id, "status", "todo", "in-progress", parseISO(t.started_at));
+    if (t.status !== "done") return [created, started];
+
+    return [created, started, taskEvent(t.id, "status", "in-progress", "done", parseISO(t.completion_date))];
+  });
+
+  // Status of a task at the end of a day, replayed from its history
+  const statusOn = (taskId: string, date: string) =>
+    taskEvents
+      .filter(e => e.task_id === taskId && (e.field === "created" || e.field === "status") && day(parseISO(e.changed_at)) <= date)
+      .pop()?.to_value;
+
+  // One snapshot per day and sprint (and the backlog), as the database would have captured
+  const taskStatusSnapshots = eachDayOfInterval({ start: parseISO(createdAt), end: today }).flatMap(date => {
+    const snapshotDate = day(date);
+    return [PAST_SPRINT_ID, CURRENT_SPRINT_ID, null].flatMap(sprintId =>
+      summarizeStatuses(
+        tasks
+          .filter(t => t.sprint_id === sprintId)
+          .map(t => ({ status: statusOn(t.id, snapshotDate), story_points: t.story_points }))
+          .filter(t => t.status)
+      ).map(summary => ({
+        id: `snapshot-${sprintId || "backlog"}-${snapshotDate}-${summary.status}`,
+        project_id: DEMO_PROJECT_ID,
+        sprint_id: sprintId,
+        snapshot_date: snapshotDate,
+        ...summary
+      }))
+    );
+  });
+
+  return {
+    users: [
+      { id: DEMO_OWNER_ID, username: "demo", email: "demo@example.com", password: "demo123", created_at: createdAt },
+      { id: DEMO_TEAMMATE_ID, username: "alex", email: "alex@example.com", password: "demo123", created_at: createdAt }
+    ],
+    projects: [
+      {
+        id: DEMO_PROJECT_ID,
+        title: "Demo Project",
+        description: "A sample project to explore sprints, the board and the burndown chart",
+        end_goal: "Ship the first public release",
+        owner_id: DEMO_OWNER_ID,
+        working_days: [1, 2, 3, 4, 5],
+        created_at: createdAt,
+        updated_at: createdAt
+      }
+    ],
+    sprints: [
+      {
+        id: PAST_SPRINT_ID,
+        title: "Sprint 1",
+        description: "Project setup and authentication",
+        goal: null,
+        project_id: DEMO_PROJECT_ID,
+        user_id: DEMO_OWNER_ID,
+        start_date: day(pastSprintStart),
+        end_date: day(subDays(currentSprintStart, 1)),
+        status: "completed",
+        created_at: createdAt,
+        updated_at: createdAt
+      },
+      {
+        id: CURRENT_SPRINT_ID,
+        title: "Sprint 2",
+        description: "Sprint board and backlog",
+        goal: null,
+        project_id: DEMO_PROJECT_ID,
+        user_id: DEMO_OWNER_ID,
+        start_date: day(currentSprintStart),
+        end_date: day(addDays(currentSprintStart, 13)),
+        status: "in-progress",
+        created_at: subDays(today, 7).toISOString(),
+        updated_at: subDays(today, 7).toISOString()
+      }
+    ],
+    board_columns: [...columns(PAST_SPRINT_ID), ...columns(CURRENT_SPRINT_ID)],
+    tasks,
+    collaborators: [
+      { id: "demo-collaborator-1", project_id: DEMO_PROJECT_ID, user_id: DEMO_TEAMMATE_ID, role: "team_member", created_at: createdAt }
+    ],
+    burndown_data: [],
+    sprint_completions: [
+      {
+        id: "demo-completion-1",
+        sprint_id: PAST_SPRINT_ID,
+        project_id: DEMO_PROJECT_ID,
+        committed_points: 10,
+        delivered_points: 10,
+        committed_tasks: 3,
+        delivered_tasks: 3,
+        carried_over_tasks: 0,
+        next_sprint_id: null,
+        completed_by: DEMO_OWNER_ID,
+        completed_at: currentSprintStart.toISOString()
+      }
+    ],
+    // Sprint 2 was planned with three tasks; the burndown chart was pulled in mid-sprint
+    // and the backlog filters were re-estimated, so its burndown shows both markers
+    sprint_scope_changes: [
+      scopeChange("demo-task-1", "Set up the repository", PAST_SPRINT_ID, "added", 2, pastSprintStart),
+      scopeChange("demo-task-2", "Sign up and log in", PAST_SPRINT_ID, "added", 5, pastSprintStart),
+      scopeChange("demo-task-3", "Project dashboard", PAST_SPRINT_ID, "added", 3, pastSprintStart),
+      scopeChange("demo-task-4", "Drag and drop board", CURRENT_SPRINT_ID, "added", 5, currentSprintStart),
+      scopeChange("demo-task-5", "Custom board columns", CURRENT_SPRINT_ID, "added", 3, currentSprintStart),
+      scopeChange("demo-task-6", "Backlog filters", CURRENT_SPRINT_ID, "added", 3, currentSprintStart),
+      scopeChange("demo-task-6", "Backlog filters", CURRENT_SPRINT_ID, "re-estimated", -1, addDays(currentSprintStart, 2)),
+      scopeChange("demo-task-7", "Burndown chart", CURRENT_SPRINT_ID, "added", 5, addDays(currentSprintStart, 4))
+    ],
+    task_events: taskEvents,
+    task_status_snapshots: taskStatusSnapshots,
+    // A team day off in the current sprint keeps its ideal burndown flat for a day
+    project_days_off: [
+      {
+        id: "demo-day-off-1",
+        project_id: DEMO_PROJECT_ID,
+        date: format(addDays(currentSprintStart, 9), "yyyy-MM-dd"),
+        kind: "team",
+        label: "Team offsite",
+        created_at: createdAt
+      }
+    ],
+    // The teammate is off for two days of the current sprint, so its capacity is below full
+    sprint_availability: [
+      {
+        id: "demo-availability-1",
+        sprint_id: CURRENT_SPRINT_ID,
+        project_id: DEMO_PROJECT_ID,
+        user_id: DEMO_TEAMMATE_ID,
+        days_off: 2,
+        allocation: 100,
+        updated_at: createdAt
+      }
+    ],
+    // Backlog filters wait on the custom board columns, so they show up as blocked
+    task_dependencies: [
+      {
+        id: "demo-dependency-1",
+        project_id: DEMO_PROJECT_ID,
+        blocking_task_id: "demo-task-5",
+        blocked_task_id: "demo-task-6",
+        created_by: DEMO_OWNER_ID,
+        created_at: createdAt
+      }
+    ],
+    task_checklist_items: [
+      checklistItem("demo-task-5", "subtask", "Column settings dialog", "demo", true, 0),
+      checklistItem("demo-task-5", "subtask", "Persist column order", "alex", true, 1),
+      checklistItem("demo-task-5", "checklist", "Update the board docs", null, false, 2)
+    ],
+    epics: [
+      {
+        id: BOARD_EPIC_ID,
+        project_id: DEMO_PROJECT_ID,
+        title: "Sprint board",
+        description: "Plan and track sprint work on a drag and drop board",
+        color: "#6366f1",
+        target_date: day(addDays(currentSprintStart, 13)),
+        created_by: DEMO_OWNER_ID,
+        created_at: createdAt,
+        updated_at: createdAt
+      },
+      {
+        id: REPORTS_EPIC_ID,
+        project_id: DEMO_PROJECT_ID,
+        title: "Reporting",
+        description: "Charts that show how the project is going",
+        color: "#f59e0b",
+        target_date: null,
+        created_by: DEMO_OWNER_ID,
+        created_at: createdAt,
+        updated_at: createdAt
+      }
+    ],
+    labels: Object.entries(LABELS).map(([name, color]) => ({
+      id: `demo-label-${name}`,
+      project_id: DEMO_PROJECT_ID,
+      name,
+      color,
+      created_at: createdAt
+    })),
+    task_labels: TASK_LABELS.map(([taskId, name]) => ({
+      id: `${taskId}-label-${name}`,
+      task_id: taskId,
+      label_id: `demo-label-${name}`,
+      project_id: DEMO_PROJECT_ID,
+      created_at: createdAt
+    })),
+    // A short discussion on the blocked task, to show threads and mentions
+    task_comments: [
+      {
+        id: "demo-comment-1",
+        task_id: "demo-task-6",
+        project_id: DEMO_PROJECT_ID,
+        parent_id: null,
+        user_id: DEMO_TEAMMATE_ID,
+        body: "Should the filters live in the URL so a filtered backlog can be shared? @demo",
+        created_at: subDays(today, 1).toISOString(),
+        updated_at: subDays(today, 1).toISOString()
+      },
+      {
+        id: "demo-comment-2",
+        task_id: "demo-task-6",
+        project_id: DEMO_PROJECT_ID,
+        parent_id: "demo-comment-1",
+        user_id: DEMO_OWNER_ID,
+        body: "Yes, let's do that. Start with **priority** and **epic**; labels can follow.",
+        created_at: today.toISOString(),
+        updated_at: today.toISOString()
+      }
+    ]
+  };
+};
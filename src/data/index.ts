@@ -0,0 +1,31 @@
+import { DataRepository } from "./repository";
+import { createSupabaseRepository } from "./supabaseRepository";
+import { createMemoryRepository } from "./memoryRepository";
+import { createOfflineRepository, OfflineQueue } from "./offlineRepository";
+
+export * from "./repository";
+export { createSupabaseRepository } from "./supabaseRepository";
+export { createMemoryRepository, MEMORY_STORAGE_KEY, MEMORY_SESSION_KEY } from "./memoryRepository";
+export { createOfflineRepository } from "./offlineRepository";
+export type {
+  OfflineQueue,
+  OfflineQueueState,
+  PendingMutation,
+  PendingMutationKind,
+  PendingMutationStatus
+} from "./offlineRepository";
+export { createDemoData } from "./demoData";
+
+export type DataBackend = "supabase" | "memory";
+
+// VITE_DATA_BACKEND=memory runs the whole app against seeded in-browser data
+export const dataBackend: DataBackend = import.meta.env.VITE_DATA_BACKEND === "memory" ? "memory" : "supabase";
+
+// The Supabase backend keeps working without a connection: reads come from IndexedDB
+// and task/sprint writes are queued until the browser is back online.
+const offlineRepository = dataBackend === "supabase" ? createOfflineRepository(createSupabaseRepository()) : null;
+
+// null for the in-memory backend, which never goes offline
+export const offlineQueue: OfflineQueue | null = offlineRepository?.queue ?? null;
+
+export const repository: DataRepository = offlineRepository ?? createMemoryRepository();
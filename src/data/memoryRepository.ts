@@ -0,0 +1,1035 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { RealtimeTable, RemoteChange, RemoteRow } from "@/types";
+import {
+  DataRepository,
+  matchesTaskQuery,
+  matchesTaskEventQuery,
+  UserRow,
+  PublicUser,
+  ProjectRow,
+  SprintRow,
+  TaskRow,
+  BoardColumnRow,
+  CollaboratorRow,
+  BurndownRow,
+  SprintCompletionRow,
+  ScopeChangeRow,
+  TaskEventRow,
+  StatusSnapshotRow,
+  DayOffRow,
+  AvailabilityRow,
+  DependencyRow,
+  ChecklistItemRow,
+  EpicRow,
+  LabelRow,
+  TaskLabelRow,
+  CommentRow
+} from "./repository";
+import { createDemoData } from "./demoData";
+import { compareByRank, rankBetween } from "@/lib/rank";
+import { summarizeStatuses } from "@/lib/cfd";
+import { wouldCreateCycle } from "@/lib/dependencies";
+
+// The in-memory backend only ever holds demo accounts, so it keeps their passwords as-is
+export type MemoryUserRow = UserRow & { password: string };
+
+export interface MemoryTables {
+  users: MemoryUserRow[];
+  projects: Omit<ProjectRow, "owner">[];
+  sprints: SprintRow[];
+  tasks: TaskRow[];
+  board_columns: BoardColumnRow[];
+  collaborators: Omit<CollaboratorRow, "user">[];
+  burndown_data: BurndownRow[];
+  sprint_completions: SprintCompletionRow[];
+  sprint_scope_changes: ScopeChangeRow[];
+  task_events: TaskEventRow[];
+  task_status_snapshots: StatusSnapshotRow[];
+  project_days_off: DayOffRow[];
+  sprint_availability: AvailabilityRow[];
+  task_dependencies: DependencyRow[];
+  task_checklist_items: ChecklistItemRow[];
+  epics: EpicRow[];
+  labels: LabelRow[];
+  task_labels: TaskLabelRow[];
+  task_comments: Omit<CommentRow, "author">[];
+}
+
+export const MEMORY_STORAGE_KEY = "scrumMemoryData";
+export const MEMORY_SESSION_KEY = "scrumMemorySession";
+
+const generateId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `id-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+const now = () => new Date().toISOString();
+
+const toPublicUser = ({ id, username, email }: UserRow): PublicUser => ({ id, username, email });
+
+// Title and status category of the columns a new sprint board starts with
+const DEFAULT_BOARD_COLUMNS: [string, string][] = [
+  ["TO DO", "todo"],
+  ["IN PROGRESS", "in-progress"],
+  ["DONE", "done"]
+];
+
+// task_events field names and the task columns they follow
+const TRACKED_TASK_FIELDS: [string, keyof TaskRow][] = [
+  ["status", "status"],
+  ["column", "column_id"],
+  ["sprint", "sprint_id"],
+  ["assignee", "assign_to"]
+];
+
+interface MemoryRepositoryOptions {
+  // Starting rows; defaults to the demo workspace
+  seed?: MemoryTables;
+  // Persist every write to localStorage so data survives reloads (off for tests)
+  persist?: boolean;
+}
+
+// Keeps every table in memory, optionally mirrored to localStorage, so the app runs
+// without a Supabase project: demos, offline development and component tests.
+export const createMemoryRepository = ({ seed, persist = true }: MemoryRepositoryOptions = {}): DataRepository => {
+  const load = (): MemoryTables => {
+    if (persist && typeof localStorage !== "undefined") {
+      try {
+        const saved = localStorage.getItem(MEMORY_STORAGE_KEY);
+        // Tables added since the data was saved start out empty
+        if (saved) return {
+          sprint_completions: [],
+          sprint_scope_changes: [],
+          task_events: [],
+          task_status_snapshots: [],
+          project_days_off: [],
+          sprint_availability: [],
+          task_dependencies: [],
+          task_checklist_items: [],
+          epics: [],
+          labels: [],
+          task_labels: [],
+          task_comments: [],
+          ...JSON.parse(saved)
+        };
+      } catch (error) {
+        console.error("Error loading in-memory data from storage:", error);
+      }
+    }
+    return seed || createDemoData();
+  };
+
+  const db = load();
+  const listeners = new Set<{ projectId: string; onChange: (change: RemoteChange) => void }>();
+  const sessionListeners = new Set<(userId: string | null) => void>();
+
+  const readSession = () => (persist && typeof localStorage !== "undefined" ? localStorage.getItem(MEMORY_SESSION_KEY) : null);
+  let sessionUserId: string | null = readSession();
+
+  const setSession = (userId: string | null) => {
+    sessionUserId = userId;
+    if (persist && typeof localStorage !== "undefined") {
+      if (userId) localStorage.setItem(MEMORY_SESSION_KEY, userId);
+      else localStorage.removeItem(MEMORY_SESSION_KEY);
+    }
+    sessionListeners.forEach(listener => listener(userId));
+  };
+
+  const sessionUser = () => db.users.find(user => user.id === sessionUserId);
+
+  const save = () => {
+    if (!persist || typeof localStorage === "undefined") return;
+    localStorage.setItem(MEMORY_STORAGE_KEY, JSON.stringify(db));
+  };
+
+  const projectIdOf = (table: RealtimeTable, row: RemoteRow) => {
+    if (table !== "board_columns") return row.project_id;
+    return db.sprints.find(sprint => sprint.id === row.sprint_id)?.project_id;
+  };
+
+  const emit = (table: RealtimeTable, eventType: RemoteChange["eventType"], newRow: object, oldRow: object) => {
+    save();
+
+    const row = (eventType === "DELETE" ? oldRow : newRow) as RemoteRow;
+    const projectId = projectIdOf(table, row);
+
+    listeners.forEach(listener => {
+      if (listener.projectId !== projectId) return;
+      listener.onChange({
+        table,
+        eventType,
+        newRow: { ...newRow } as RemoteRow,
+        oldRow: { ...oldRow } as RemoteRow,
+        receivedAt: Date.now()
+      });
+    });
+  };
+
+  const withAuthor = (comment: Omit<CommentRow, "author">): CommentRow => {
+    const author = db.users.find(user => user.id === comment.user_id);
+    return { ...comment, author: author ? { username: author.username } : null };
+  };
+
+  const withOwner = (project: Omit<ProjectRow, "owner">): ProjectRow => {
+    const owner = db.users.find(user => user.id === project.owner_id);
+    return { ...project, owner: owner ? { username: owner.username, email: owner.email } : null };
+  };
+
+  const withUser = (collaborator: Omit<CollaboratorRow, "user">): CollaboratorRow => {
+    const user = db.users.find(u => u.id === collaborator.user_id);
+    return { ...collaborator, user: user ? toPublicUser(user) : null };
+  };
+
+  const findLogin = (emailOrUsername: string) =>
+    db.users.find(user => user.email === emailOrUsername || user.username === emailOrUsername);
+
+  const recordScopeChange = (sprintId: string, task: TaskRow, changeType: string, pointsDelta: number) => {
+    if (!pointsDelta) return;
+    db.sprint_scope_changes.push({
+      id: generateId(),
+      sprint_id: sprintId,
+      project_id: task.project_id,
+      task_id: task.id,
+      task_title: task.title,
+      change_type: changeType,
+      points_delta: pointsDelta,
+      changed_by: sessionUserId,
+      changed_at: now()
+    });
+  };
+
+  // Same bookkeeping as the track_sprint_scope trigger in the database
+  const trackSprintScope = (previous: TaskRow | null, task: TaskRow | null) => {
+    const previousSprintId = previous?.sprint_id || null;
+    const sprintId = task?.sprint_id || null;
+
+    if (previousSprintId !== sprintId) {
+      if (previousSprintId) recordScopeChange(previousSprintId, previous, "removed", -(previous.story_points || 0));
+      if (sprintId) recordScopeChange(sprintId, task, "added", task.story_points || 0);
+    } else if (sprintId && (previous.story_points || 0) !== (task.story_points || 0)) {
+      recordScopeChange(sprintId, task, "re-estimated", (task.story_points || 0) - (previous.story_points || 0));
+    }
+  };
+
+  const recordTaskEvent = (task: TaskRow, field: string, fromValue: string | null, toValue: string | null) => {
+    db.task_events.push({
+      id: generateId(),
+      task_id: task.id,
+      project_id: task.project_id,
+      field,
+      from_value: fromValue,
+      to_value: toValue,
+      changed_by: sessionUserId,
+      changed_at: now()
+    });
+  };
+
+  // Same history as the record_task_events trigger in the database
+  const trackTaskEvents = (previous: TaskRow, task: TaskRow) => {
+    TRACKED_TASK_FIELDS.forEach(([field, column]) => {
+      const from = (previous[column] as string | null) || null;
+      const to = (task[column] as string | null) || null;
+      if (from !== to) recordTaskEvent(task, field, from, to);
+    });
+  };
+
+  // Same as capture_task_status_snapshot in the database: rewrites today's rows of one
+  // sprint, or of the backlog when sprintId is null
+  const captureStatusSnapshot = (projectId: string, sprintId: string | null) => {
+    const today = now().split("T")[0];
+    db.task_status_snapshots = db.task_status_snapshots.filter(row =>
+      !(row.project_id === projectId && (row.sprint_id || null) === sprintId && row.snapshot_date === today)
+    );
+
+    const tasks = db.tasks.filter(task => task.project_id === projectId && (task.sprint_id || null) === sprintId);
+    summarizeStatuses(tasks).forEach(summary => {
+      db.task_status_snapshots.push({
+        id: generateId(),
+        project_id: projectId,
+        sprint_id: sprintId,
+        snapshot_date: today,
+        ...summary
+      });
+    });
+  };
+
+  const trackStatusSnapshots = (previous: TaskRow | null, task: TaskRow | null) => {
+    if (previous) captureStatusSnapshot(previous.project_id, previous.sprint_id || null);
+    if (task && (!previous || (previous.sprint_id || null) !== (task.sprint_id || null))) {
+      captureStatusSnapshot(task.project_id, task.sprint_id || null);
+    }
+  };
+
+  // Same as capture_burndown_snapshot in the database: records one sprint's burndown for today
+  const captureBurndownSnapshot = (sprint: SprintRow) => {
+    const today = now().split("T")[0];
+    const tasks = db.tasks.filter(task => task.sprint_id === sprint.id);
+    const currentPoints = tasks.reduce((sum, task) => sum + (task.story_points || 0), 0);
+    const donePoints = tasks
+      .filter(task => task.status === "done")
+      .reduce((sum, task) => sum + (task.story_points || 0), 0);
+    const committedPoints = currentPoints - db.sprint_scope_changes
+      .filter(change => change.sprint_id === sprint.id && change.changed_at.split("T")[0] > sprint.start_date)
+      .reduce((sum, change) => sum + change.points_delta, 0);
+    const sprintDays = differenceInCalendarDays(parseISO(sprint.end_date), parseISO(sprint.start_date));
+    const elapsedDays = differenceInCalendarDays(parseISO(today), parseISO(sprint.start_date));
+
+    db.burndown_data = db.burndown_data.filter(row => !(row.sprint_id === sprint.id && row.date === today));
+    db.burndown_data.push({
+      id: generateId(),
+      project_id: sprint.project_id,
+      sprint_id: sprint.id,
+      date: today,
+      ideal_points: sprintDays > 0 ? Math.max(0, Math.round(committedPoints * (1 - elapsedDays / sprintDays))) : 0,
+      actual_points: Math.max(0, currentPoints - donePoints),
+      scope_points: currentPoints,
+      completed_points: donePoints,
+      created_at: now(),
+      updated_at: now()
+    });
+  };
+
+  const updateTaskRow = (task: TaskRow, values: Partial<TaskRow>) => {
+    const previous = { ...task };
+    Object.assign(task, values, { updated_at: now() });
+    trackSprintScope(previous, task);
+    trackTaskEvents(previous, task);
+    trackStatusSnapshots(previous, task);
+    emit("tasks", "UPDATE", task, previous);
+  };
+
+  // Like the database trigger: a task can only join an epic of its own project
+  const checkTaskEpic = (task: TaskRow) => {
+    if (task.epic_id && !db.epics.some(epic => epic.id === task.epic_id && epic.project_id === task.project_id)) {
+      throw new Error("Epic belongs to another project");
+    }
+  };
+
+  // Dependencies, checklist items, labels and comments go with their tasks, as the foreign keys cascade
+  const removeTaskDependencies = (taskIds: string[]) => {
+    db.task_dependencies = db.task_dependencies.filter(
+      dependency => !taskIds.includes(dependency.blocking_task_id) && !taskIds.includes(dependency.blocked_task_id)
+    );
+    db.task_checklist_items = db.task_checklist_items.filter(item => !taskIds.includes(item.task_id));
+    db.task_labels = db.task_labels.filter(row => !taskIds.includes(row.task_id));
+    db.task_comments = db.task_comments.filter(row => !taskIds.includes(row.task_id));
+  };
+
+  const removeSprintCascade = (sprintId: string) => {
+    db.board_columns = db.board_columns.filter(column => column.sprint_id !== sprintId);
+    removeTaskDependencies(db.tasks.filter(task => task.sprint_id === sprintId).map(task => task.id));
+    db.tasks = db.tasks.filter(task => task.sprint_id !== sprintId);
+    db.sprint_scope_changes = db.sprint_scope_changes.filter(change => change.sprint_id !== sprintId);
+    db.task_status_snapshots = db.task_status_snapshots.filter(row => row.sprint_id !== sprintId);
+    db.burndown_data = db.burndown_data.filter(row => row.sprint_id !== sprintId);
+    db.sprint_availability = db.sprint_availability.filter(row => row.sprint_id !== sprintId);
+  };
+
+  return {
+    auth: {
+      signUp: async (username, email, password) => {
+        const user: MemoryUserRow = { id: generateId(), username, email, password, created_at: now() };
+        db.users.push(user);
+        save();
+        setSession(user.id);
+        return toPublicUser(user);
+      },
+
+      signIn: async (emailOrUsername, password) => {
+        const user = findLogin(emailOrUsername);
+        if (!user || user.password !== password) throw new Error("Invalid credentials");
+        setSession(user.id);
+        return toPublicUser(user);
+      },
+
+      signOut: async () => setSession(null),
+
+      getSessionUser: async () => {
+        const user = sessionUser();
+        return user ? toPublicUser(user) : null;
+      },
+
+      onSessionChange: (onChange) => {
+        sessionListeners.add(onChange);
+        return () => {
+          sessionListeners.delete(onChange);
+        };
+      },
+
+      updateEmail: async (email) => {
+        const user = sessionUser();
+        if (!user) throw new Error("Not signed in");
+        user.email = email;
+        save();
+        return { confirmationRequired: false };
+      },
+
+      updatePassword: async (password) => {
+        const user = sessionUser();
+        if (!user) throw new Error("Not signed in");
+        user.password = password;
+        save();
+      }
+    },
+
+    users: {
+      // Like find_user_by_login in the database: the email only comes back when it was typed
+      findByLogin: async (emailOrUsername) => {
+        const user = findLogin(emailOrUsername);
+        if (!user) return null;
+        return { ...toPublicUser(user), email: user.email === emailOrUsername ? user.email : null };
+      },
+
+      isTaken: async (field, value, excludeUserId) =>
+        db.users.some(user => user[field] === value && user.id !== excludeUserId),
+
+      update: async (id, values) => {
+        const user = db.users.find(u => u.id === id);
+        if (!user) throw new Error("User not found");
+        Object.assign(user, values);
+        save();
+      }
+    },
+
+    projects: {
+      listOwned: async (ownerId) =>
+        db.projects.filter(project => project.owner_id === ownerId).map(withOwner),
+
+      get: async (id) => {
+        const project = db.projects.find(p => p.id === id);
+        return project ? withOwner(project) : null;
+      },
+
+      create: async (values) => {
+        const project = {
+          id: generateId(),
+          description: null,
+          end_goal: null,
+          working_days: [1, 2, 3, 4, 5],
+          created_at: now(),
+          updated_at: now(),
+          ...values
+        } as Omit<ProjectRow, "owner">;
+        db.projects.push(project);
+        save();
+        return withOwner(project);
+      },
+
+      update: async (id, values) => {
+        const project = db.projects.find(p => p.id === id);
+        if (!project) throw new Error("Project not found");
+        Object.assign(project, values);
+        save();
+      },
+
+      remove: async (id) => {
+        db.sprints.filter(sprint => sprint.project_id === id).forEach(sprint => removeSprintCascade(sprint.id));
+        db.sprints = db.sprints.filter(sprint => sprint.project_id !== id);
+        db.tasks = db.tasks.filter(task => task.project_id !== id);
+        db.task_dependencies = db.task_dependencies.filter(row => row.project_id !== id);
+        db.task_checklist_items = db.task_checklist_items.filter(row => row.project_id !== id);
+        db.epics = db.epics.filter(row => row.project_id !== id);
+        db.labels = db.labels.filter(row => row.project_id !== id);
+        db.task_labels = db.task_labels.filter(row => row.project_id !== id);
+        db.task_comments = db.task_comments.filter(row => row.project_id !== id);
+        db.collaborators = db.collaborators.filter(collaborator => collaborator.project_id !== id);
+        db.burndown_data = db.burndown_data.filter(row => row.project_id !== id);
+        db.sprint_completions = db.sprint_completions.filter(row => row.project_id !== id);
+        db.task_events = db.task_events.filter(row => row.project_id !== id);
+        db.task_status_snapshots = db.task_status_snapshots.filter(row => row.project_id !== id);
+        db.project_days_off = db.project_days_off.filter(row => row.project_id !== id);
+        db.projects = db.projects.filter(project => project.id !== id);
+        save();
+      }
+    },
+
+    sprints: {
+      list: async (projectIds) =>
+        db.sprints
+          .filter(sprint => projectIds.includes(sprint.project_id))
+          .sort((a, b) => (b.created_at || "").localeCompare(a.created_at || "")),
+
+      get: async (id) => db.sprints.find(sprint => sprint.id === id) || null,
+
+      create: async (values) => {
+        const sprint = {
+          id: generateId(),
+          description: null,
+          goal: null,
+          status: "planned",
+          created_at: now(),
+          updated_at: now(),
+          ...values
+        } as SprintRow;
+        db.sprints.push(sprint);
+        emit("sprints", "INSERT", sprint, {});
+
+        // Like the database trigger, every new sprint board starts with the default columns
+        DEFAULT_BOARD_COLUMNS.forEach(([title, statusCategory], index) => {
+          const column = {
+            id: generateId(),
+            sprint_id: sprint.id,
+            user_id: sprint.user_id,
+            title,
+            order_index: index,
+            status_category: statusCategory,
+            created_at: now()
+          } as BoardColumnRow;
+          db.board_columns.push(column);
+          emit("board_columns", "INSERT", column, {});
+        });
+        return sprint;
+      },
+
+      update: async (id, values) => {
+        const sprint = db.sprints.find(s => s.id === id);
+        if (!sprint) throw new Error("Sprint not found");
+        const previous = { ...sprint };
+        Object.assign(sprint, values, { updated_at: now() });
+        emit("sprints", "UPDATE", sprint, previous);
+        return sprint;
+      },
+
+      remove: async (id) => {
+        const sprint = db.sprints.find(s => s.id === id);
+        if (!sprint) return;
+        removeSprintCascade(id);
+        db.sprints = db.sprints.filter(s => s.id !== id);
+        emit("sprints", "DELETE", {}, sprint);
+      }
+    },
+
+    tasks: {
+      list: async (query) => db.tasks.filter(task => matchesTaskQuery(task, query)).sort(compareByRank),
+
+      get: async (id) => db.tasks.find(task => task.id === id) || null,
+
+      create: async (values) => {
+        const task = {
+          id: generateId(),
+          description: null,
+          priority: null,
+          story_points: null,
+          assign_to: null,
+          completion_date: null,
+          started_at: null,
+          sprint_id: null,
+          column_id: null,
+          checklist_blocks_done: false,
+          epic_id: null,
+          status: "todo",
+          created_at: now(),
+          updated_at: now(),
+          ...values
+        } as TaskRow;
+        // Like the database trigger: new tasks go to the bottom of the project's order
+        if (!task.rank) {
+          const lastRank = db.tasks
+            .filter(t => t.project_id === task.project_id && t.rank)
+            .map(t => t.rank)
+            .sort()
+            .pop();
+          task.rank = rankBetween(lastRank, null);
+        }
+        checkTaskEpic(task);
+        db.tasks.push(task);
+        trackSprintScope(null, task);
+        recordTaskEvent(task, "created", null, task.status);
+        trackStatusSnapshots(null, task);
+        emit("tasks", "INSERT", task, {});
+        return task;
+      },
+
+      update: async (id, values) => {
+        const task = db.tasks.find(t => t.id === id);
+        if (!task) throw new Error("Task not found");
+        checkTaskEpic({ ...task, ...values } as TaskRow);
+        updateTaskRow(task, values as Partial<TaskRow>);
+        return task;
+      },
+
+      updateWhere: async (query, values) => {
+        db.tasks
+          .filter(task => matchesTaskQuery(task, query))
+          .forEach(task => updateTaskRow(task, values as Partial<TaskRow>));
+      },
+
+      removeWhere: async (query) => {
+        const removed = db.tasks.filter(task => matchesTaskQuery(task, query));
+        db.tasks = db.tasks.filter(task => !removed.includes(task));
+        removeTaskDependencies(removed.map(task => task.id));
+        removed.forEach(task => {
+          trackSprintScope(task, null);
+          trackStatusSnapshots(task, null);
+          emit("tasks", "DELETE", {}, task);
+        });
+      }
+    },
+
+    columns: {
+      list: async (sprintId) =>
+        db.board_columns
+          .filter(column => column.sprint_id === sprintId)
+          .sort((a, b) => a.order_index - b.order_index),
+
+      create: async (values) => {
+        const column = { id: generateId(), status_category: "todo", created_at: now(), ...values } as BoardColumnRow;
+        db.board_columns.push(column);
+        emit("board_columns", "INSERT", column, {});
+        return column;
+      },
+
+      update: async (id, values) => {
+        const column = db.board_columns.find(c => c.id === id);
+        if (!column) throw new Error("Column not found");
+        const previous = { ...column };
+        Object.assign(column, values);
+        emit("board_columns", "UPDATE", column, previous);
+      },
+
+      remove: async (id) => {
+        const column = db.board_columns.find(c => c.id === id);
+        if (!column) return;
+        db.board_columns = db.board_columns.filter(c => c.id !== id);
+        db.tasks.filter(task => task.column_id === id).forEach(task => { task.column_id = null; });
+        emit("board_columns", "DELETE", {}, column);
+      }
+    },
+
+    collaborators: {
+      listByProject: async (projectId) =>
+        db.collaborators.filter(collaborator => collaborator.project_id === projectId).map(withUser),
+
+      listProjectsForUser: async (userId) =>
+        db.collaborators
+          .filter(collaborator => collaborator.user_id === userId)
+          .map(collaborator => {
+            const project = db.projects.find(p => p.id === collaborator.project_id);
+            return project ? { role: collaborator.role, project: withOwner(project) } : null;
+          })
+          .filter(Boolean),
+
+      add: async (values) => {
+        if (db.collaborators.some(c => c.project_id === values.project_id && c.user_id === values.user_id)) {
+          throw new Error("User is already a collaborator on this project");
+        }
+        const collaborator = {
+          id: generateId(),
+          role: "team_member",
+          created_at: now(),
+          ...values
+        } as Omit<CollaboratorRow, "user">;
+        db.collaborators.push(collaborator);
+        emit("collaborators", "INSERT", collaborator, {});
+        return withUser(collaborator);
+      },
+
+      update: async (id, values) => {
+        const collaborator = db.collaborators.find(c => c.id === id);
+        if (!collaborator) throw new Error("Collaborator not found");
+        const previous = { ...collaborator };
+        Object.assign(collaborator, values);
+        emit("collaborators", "UPDATE", collaborator, previous);
+      },
+
+      remove: async (id) => {
+        const collaborator = db.collaborators.find(c => c.id === id);
+        if (!collaborator) return;
+        db.collaborators = db.collaborators.filter(c => c.id !== id);
+        emit("collaborators", "DELETE", {}, collaborator);
+      }
+    },
+
+    burndown: {
+      // There is no daily job here, so the first read of a running sprint each day captures it
+      list: async (sprintId) => {
+        const today = now().split("T")[0];
+        const sprint = db.sprints.find(s => s.id === sprintId);
+        if (
+          sprint && sprint.status !== "completed" && sprint.start_date <= today && sprint.end_date >= today &&
+          !db.burndown_data.some(row => row.sprint_id === sprintId && row.date === today)
+        ) {
+          captureBurndownSnapshot(sprint);
+          save();
+        }
+
+        return db.burndown_data
+          .filter(row => row.sprint_id === sprintId)
+          .sort((a, b) => a.date.localeCompare(b.date));
+      }
+    },
+
+    sprintCompletions: {
+      list: async (projectIds) =>
+        db.sprint_completions
+          .filter(row => projectIds.includes(row.project_id))
+          .sort((a, b) => a.completed_at.localeCompare(b.completed_at)),
+
+      // Same checks and steps as the complete_sprint database function
+      complete: async ({ sprint_id, destinations, start_sprint_id }) => {
+        const sprint = db.sprints.find(s => s.id === sprint_id);
+        if (!sprint) throw new Error("Sprint not found");
+        if (sprint.status === "completed") throw new Error("Sprint is already completed");
+
+        const isOtherProjectSprint = (id: string) =>
+          db.sprints.some(s => s.id === id && s.project_id === sprint.project_id && s.id !== sprint_id);
+        const nextSprintIds = Object.values(destinations).filter(destination => destination !== "backlog");
+        if (!nextSprintIds.every(isOtherProjectSprint) || (start_sprint_id && !isOtherProjectSprint(start_sprint_id))) {
+          throw new Error("Unfinished work can only go to the backlog or another sprint of the project");
+        }
+
+        // Count before anything moves, so the record reflects the sprint as it ended. The
+        // commitment leaves out scope changed after the start date, as in the burndown.
+        const sprintTasks = db.tasks.filter(task => task.sprint_id === sprint_id);
+        const deliveredTasks = sprintTasks.filter(task => task.status === "done");
+        const carriedOver = sprintTasks.filter(task => task.status !== "done" && destinations[task.id]);
+        const sumPoints = (tasks: TaskRow[]) => tasks.reduce((sum, task) => sum + (task.story_points || 0), 0);
+
+        const completion: SprintCompletionRow = {
+          id: generateId(),
+          sprint_id,
+          project_id: sprint.project_id,
+          committed_points: sumPoints(sprintTasks) - db.sprint_scope_changes
+            .filter(change => change.sprint_id === sprint_id && change.changed_at.split("T")[0] > sprint.start_date)
+            .reduce((sum, change) => sum + change.points_delta, 0),
+          delivered_points: sumPoints(deliveredTasks),
+          committed_tasks: sprintTasks.length,
+          delivered_tasks: deliveredTasks.length,
+          carried_over_tasks: carriedOver.length,
+          next_sprint_id: start_sprint_id || nextSprintIds[0] || null,
+          completed_by: sessionUserId,
+          completed_at: now()
+        };
+        db.sprint_completions.push(completion);
+
+        carriedOver.forEach(task => {
+          const destination = destinations[task.id];
+          updateTaskRow(task, destination === "backlog"
+            ? { sprint_id: null, status: "backlog", column_id: null }
+            : { sprint_id: destination, status: "todo", column_id: null });
+        });
+
+        const setSprintStatus = (target: SprintRow, status: string) => {
+          const previous = { ...target };
+          Object.assign(target, { status, updated_at: now() });
+          emit("sprints", "UPDATE", target, previous);
+        };
+        setSprintStatus(sprint, "completed");
+        const nextSprint = db.sprints.find(s => s.id === start_sprint_id);
+        if (nextSprint) setSprintStatus(nextSprint, "in-progress");
+
+        save();
+        return completion;
+      }
+    },
+
+    scopeChanges: {
+      list: async (sprintId) =>
+        db.sprint_scope_changes
+          .filter(change => change.sprint_id === sprintId)
+          .sort((a, b) => a.changed_at.localeCompare(b.changed_at))
+    },
+
+    taskEvents: {
+      list: async (query) =>
+        db.task_events
+          .filter(event => matchesTaskEventQuery(event, query))
+          .sort((a, b) => a.changed_at.localeCompare(b.changed_at))
+    },
+
+    statusSnapshots: {
+      list: async (projectId, from, to) =>
+        db.task_status_snapshots
+          .filter(row => row.project_id === projectId)
+          .filter(row => (!from || row.snapshot_date >= from) && (!to || row.snapshot_date <= to))
+          .sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date))
+    },
+
+    daysOff: {
+      list: async (projectId) =>
+        db.project_days_off
+          .filter(row => row.project_id === projectId)
+          .sort((a, b) => a.date.localeCompare(b.date)),
+
+      create: async (values) => {
+        if (db.project_days_off.some(row => row.project_id === values.project_id && row.date === values.date)) {
+          throw new Error("That date is already a day off");
+        }
+        const dayOff = {
+          id: generateId(),
+          kind: "holiday",
+          label: null,
+          created_at: now(),
+          ...values
+        } as DayOffRow;
+        db.project_days_off.push(dayOff);
+        save();
+        return dayOff;
+      },
+
+      remove: async (id) => {
+        db.project_days_off = db.project_days_off.filter(row => row.id !== id);
+        save();
+      }
+    },
+
+    epics: {
+      list: async (projectIds) =>
+        db.epics
+          .filter(row => projectIds.includes(row.project_id))
+          .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+
+      create: async (values) => {
+        const epic = {
+          id: generateId(),
+          description: null,
+          color: "#6366f1",
+          target_date: null,
+          created_by: sessionUserId,
+          created_at: now(),
+          updated_at: now(),
+          ...values
+        } as EpicRow;
+        db.epics.push(epic);
+        emit("epics", "INSERT", epic, {});
+        return epic;
+      },
+
+      update: async (id, values) => {
+        const epic = db.epics.find(row => row.id === id);
+        if (!epic) throw new Error("Epic not found");
+        const previous = { ...epic };
+        Object.assign(epic, values, { updated_at: now() });
+        emit("epics", "UPDATE", epic, previous);
+        return epic;
+      },
+
+      // Like the foreign key: the epic's tasks stay, without an epic
+      remove: async (id) => {
+        const epic = db.epics.find(row => row.id === id);
+        if (!epic) return;
+        db.epics = db.epics.filter(row => row.id !== id);
+        db.tasks.filter(task => task.epic_id === id).forEach(task => updateTaskRow(task, { epic_id: null }));
+        emit("epics", "DELETE", {}, epic);
+      }
+    },
+
+    labels: {
+      list: async (projectIds) =>
+        db.labels
+          .filter(row => projectIds.includes(row.project_id))
+          .sort((a, b) => a.name.localeCompare(b.name)),
+
+      create: async (values) => {
+        if (db.labels.some(row => row.project_id === values.project_id && row.name === values.name)) {
+          throw new Error("A label with this name already exists");
+        }
+
+        const label = {
+          id: generateId(),
+          color: "#64748b",
+          created_at: now(),
+          ...values
+        } as LabelRow;
+        db.labels.push(label);
+        emit("labels", "INSERT", label, {});
+        return label;
+      },
+
+      remove: async (id) => {
+        const label = db.labels.find(row => row.id === id);
+        if (!label) return;
+        db.labels = db.labels.filter(row => row.id !== id);
+        db.task_labels = db.task_labels.filter(row => row.label_id !== id);
+        emit("labels", "DELETE", {}, label);
+      }
+    },
+
+    taskLabels: {
+      list: async (projectIds) => db.task_labels.filter(row => projectIds.includes(row.project_id)),
+
+      set: async (projectId, taskId, labelIds) => {
+        const task = db.tasks.find(t => t.id === taskId);
+        if (!task || task.project_id !== projectId) throw new Error("Task not found");
+        if (labelIds.some(labelId => !db.labels.some(label => label.id === labelId && label.project_id === projectId))) {
+          throw new Error("Label belongs to another project");
+        }
+
+        db.task_labels
+          .filter(row => row.task_id === taskId && !labelIds.includes(row.label_id))
+          .forEach(row => {
+            db.task_labels = db.task_labels.filter(r => r.id !== row.id);
+            emit("task_labels", "DELETE", {}, row);
+          });
+
+        labelIds
+          .filter(labelId => !db.task_labels.some(row => row.task_id === taskId && row.label_id === labelId))
+          .forEach(labelId => {
+            const row = {
+              id: generateId(),
+              project_id: projectId,
+              task_id: taskId,
+              label_id: labelId,
+              created_at: now()
+            };
+            db.task_labels.push(row);
+            emit("task_labels", "INSERT", row, {});
+          });
+      }
+    },
+
+    comments: {
+      list: async (projectIds) =>
+        db.task_comments
+          .filter(row => projectIds.includes(row.project_id))
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map(withAuthor),
+
+      create: async (values) => {
+        if (!sessionUserId) throw new Error("Not signed in");
+        const task = db.tasks.find(t => t.id === values.task_id);
+        if (!task || task.project_id !== values.project_id) throw new Error("Task belongs to another project");
+        if (values.parent_id && !db.task_comments.some(row =>
+          row.id === values.parent_id && row.task_id === values.task_id && !row.parent_id
+        )) {
+          throw new Error("Replies must answer a top-level comment on the same task");
+        }
+
+        const comment = {
+          id: generateId(),
+          parent_id: null,
+          created_at: now(),
+          updated_at: now(),
+          ...values,
+          user_id: sessionUserId
+        } as Omit<CommentRow, "author">;
+        db.task_comments.push(comment);
+        emit("task_comments", "INSERT", comment, {});
+        return withAuthor(comment);
+      },
+
+      update: async (id, body) => {
+        const comment = db.task_comments.find(row => row.id === id);
+        if (!comment || comment.user_id !== sessionUserId) throw new Error("Comment not found");
+        const previous = { ...comment };
+        Object.assign(comment, { body, updated_at: now() });
+        emit("task_comments", "UPDATE", comment, previous);
+        return withAuthor(comment);
+      },
+
+      remove: async (id) => {
+        const comment = db.task_comments.find(row => row.id === id);
+        if (!comment || comment.user_id !== sessionUserId) return;
+        db.task_comments = db.task_comments.filter(row => row.id !== id && row.parent_id !== id);
+        emit("task_comments", "DELETE", {}, comment);
+      }
+    },
+
+    dependencies: {
+      list: async (projectIds) => db.task_dependencies.filter(row => projectIds.includes(row.project_id)),
+
+      create: async (values) => {
+        const tasks = db.tasks.filter(task => task.id === values.blocking_task_id || task.id === values.blocked_task_id);
+        if (tasks.length !== 2 || tasks.some(task => task.project_id !== values.project_id)) {
+          throw new Error("Dependent tasks must belong to the same project");
+        }
+        if (db.task_dependencies.some(row =>
+          row.blocking_task_id === values.blocking_task_id && row.blocked_task_id === values.blocked_task_id
+        )) {
+          throw new Error("These tasks are already linked");
+        }
+        if (wouldCreateCycle(db.task_dependencies, values.blocking_task_id, values.blocked_task_id)) {
+          throw new Error("Circular task dependency");
+        }
+
+        const dependency = {
+          id: generateId(),
+          created_by: sessionUserId,
+          created_at: now(),
+          ...values
+        } as DependencyRow;
+        db.task_dependencies.push(dependency);
+        emit("task_dependencies", "INSERT", dependency, {});
+        return dependency;
+      },
+
+      remove: async (id) => {
+        const dependency = db.task_dependencies.find(row => row.id === id);
+        if (!dependency) return;
+        db.task_dependencies = db.task_dependencies.filter(row => row.id !== id);
+        emit("task_dependencies", "DELETE", {}, dependency);
+      }
+    },
+
+    checklistItems: {
+      list: async (projectIds) =>
+        db.task_checklist_items
+          .filter(row => projectIds.includes(row.project_id))
+          .sort((a, b) => a.order_index - b.order_index),
+
+      create: async (values) => {
+        const task = db.tasks.find(t => t.id === values.task_id);
+        if (!task || task.project_id !== values.project_id) throw new Error("Task not found");
+
+        const item = {
+          id: generateId(),
+          kind: "checklist",
+          assign_to: null,
+          is_done: false,
+          order_index: db.task_checklist_items.filter(row => row.task_id === values.task_id).length,
+          created_at: now(),
+          updated_at: now(),
+          ...values
+        } as ChecklistItemRow;
+        db.task_checklist_items.push(item);
+        emit("task_checklist_items", "INSERT", item, {});
+        return item;
+      },
+
+      update: async (id, values) => {
+        const item = db.task_checklist_items.find(row => row.id === id);
+        if (!item) throw new Error("Checklist item not found");
+        const previous = { ...item };
+        Object.assign(item, values, { updated_at: now() });
+        emit("task_checklist_items", "UPDATE", item, previous);
+        return item;
+      },
+
+      remove: async (id) => {
+        const item = db.task_checklist_items.find(row => row.id === id);
+        if (!item) return;
+        db.task_checklist_items = db.task_checklist_items.filter(row => row.id !== id);
+        emit("task_checklist_items", "DELETE", {}, item);
+      }
+    },
+
+    availability: {
+      list: async (sprintId) => db.sprint_availability.filter(row => row.sprint_id === sprintId),
+
+      save: async (values) => {
+        const existing = db.sprint_availability.find(
+          row => row.sprint_id === values.sprint_id && row.user_id === values.user_id
+        );
+        const row = {
+          id: existing?.id || generateId(),
+          days_off: 0,
+          allocation: 100,
+          ...existing,
+          ...values,
+          updated_at: now()
+        } as AvailabilityRow;
+        db.sprint_availability = [...db.sprint_availability.filter(r => r.id !== row.id), row];
+        save();
+        return row;
+      }
+    },
+
+    subscribe: (projectId, onChange) => {
+      const listener = { projectId, onChange };
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
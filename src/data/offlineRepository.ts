@@ -0,0 +1,663 @@
+import type { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { DataRepository, TaskQuery, SprintRow, TaskRow, matchesTaskQuery } from "./repository";
+import { offlineStore } from "./offlineStore";
+import { compareByRank } from "@/lib/rank";
+
+export type PendingMutationKind = "createTask" | "updateTask" | "removeTasks" | "updateSprint";
+
+// pending: waiting to be sent; conflict: the row changed on the server since it was edited
+// offline; failed: the server rejected the change
+export type PendingMutationStatus = "pending" | "conflict" | "failed";
+
+export interface PendingMutation {
+  id?: number;
+  kind: PendingMutationKind;
+  // Signed-in user who made the change; only their session sends it
+  userId: string;
+  // Task or sprint the change applies to
+  rowId: string;
+  values?: TablesInsert<"tasks"> | TablesUpdate<"tasks"> | TablesUpdate<"sprints">;
+  query?: TaskQuery;
+  // updated_at of the row as the user last saw it
+  baseUpdatedAt?: string | null;
+  description: string;
+  queuedAt: string;
+  status: PendingMutationStatus;
+  error?: string;
+}
+
+export interface OfflineQueueState {
+  mutations: PendingMutation[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  // Set whenever a replay wrote at least one change, so views can refetch
+  lastSyncedAt: number | null;
+}
+
+export interface OfflineQueue {
+  getState: () => OfflineQueueState;
+  subscribe: (listener: () => void) => () => void;
+  replay: () => Promise<void>;
+  // Sends a conflicting or failed change again; force skips the updated_at check
+  retry: (id: number, force?: boolean) => Promise<void>;
+  discard: (id: number) => Promise<void>;
+}
+
+export type OfflineRepository = DataRepository & { queue: OfflineQueue };
+
+class ConflictError extends Error {}
+
+// Thrown by supabase-js / fetch when the request never reached the server
+const NETWORK_ERROR_PATTERN = /Failed to fetch|NetworkError|Network request failed|Load failed|aborted/i;
+
+// Unique violation: the row was already inserted by an earlier, interrupted replay
+const DUPLICATE_KEY_ERROR_CODE = "23505";
+
+// Key in the "reads" store recording whose data the offline cache holds
+const CACHE_OWNER_KEY = "owner";
+
+const isOnline = () => typeof navigator === "undefined" || navigator.onLine !== false;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : (error as { message?: string })?.message || String(error);
+
+const isNetworkError = (error: unknown) => !isOnline() || NETWORK_ERROR_PATTERN.test(errorMessage(error));
+
+// Callers pass partial rows with undefined fields, which the server ignores; do the same
+// when merging queued values into cached rows.
+const definedValues = <T extends object>(values: T): T =>
+  Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as T;
+
+const generateId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `offline-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+// Wraps another repository so reads fall back to their last result cached in IndexedDB and
+// task/sprint writes made without a connection are queued and replayed, in order, once the
+// browser is back online.
+export const createOfflineRepository = (inner: DataRepository): OfflineRepository => {
+  let state: OfflineQueueState = {
+    mutations: [],
+    isOnline: isOnline(),
+    isSyncing: false,
+    lastSyncedAt: null
+  };
+  const listeners = new Set<() => void>();
+  // Last known version of every task and sprint row, used as the base for conflict checks
+  const knownRows = new Map<string, { updated_at?: string | null }>();
+  // Signed-in user the cache and the queue belong to; nothing is cached without one
+  let cacheUserId: string | null = null;
+
+  const setState = (changes: Partial<OfflineQueueState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach(listener => listener());
+  };
+
+  const rowKey = (table: "tasks" | "sprints", id: string) => `${table}:${id}`;
+
+  const remember = (table: "tasks" | "sprints", rows: (TaskRow | SprintRow | null)[]) => {
+    rows.forEach(row => {
+      if (row) knownRows.set(rowKey(table, row.id), row);
+    });
+  };
+
+  const pendingMutations = () => state.mutations.filter(mutation => mutation.status === "pending");
+
+  // Apply queued changes to rows read from the server or the cache so the UI shows them
+  const overlayTasks = (rows: TaskRow[], query?: TaskQuery): TaskRow[] => {
+    let result = [...rows];
+
+    pendingMutations().forEach(mutation => {
+      if (mutation.kind === "createTask") {
+        const row = knownRows.get(rowKey("tasks", mutation.rowId)) as TaskRow;
+        if (row && (!query || matchesTaskQuery(row, query)) && !result.some(task => task.id === row.id)) {
+          result.push(row);
+        }
+      } else if (mutation.kind === "updateTask") {
+        // The edit may move a task into this query, e.g. from the backlog into a sprint
+        const known = knownRows.get(rowKey("tasks", mutation.rowId)) as TaskRow;
+        if (known && !result.some(task => task.id === known.id)) result.push(known);
+        result = result.map(task => task.id === mutation.rowId ? { ...task, ...mutation.values } as TaskRow : task);
+        if (query) result = result.filter(task => matchesTaskQuery(task, query));
+      } else if (mutation.kind === "removeTasks") {
+        result = result.filter(task => !matchesTaskQuery(task, mutation.query));
+      }
+    });
+
+    return result;
+  };
+
+  const overlaySprints = (rows: SprintRow[]): SprintRow[] =>
+    pendingMutations()
+      .filter(mutation => mutation.kind === "updateSprint")
+      .reduce(
+        (result, mutation) =>
+          result.map(sprint => sprint.id === mutation.rowId ? { ...sprint, ...mutation.values } as SprintRow : sprint),
+        rows
+      );
+
+  // Serve the server result when reachable and remember it; otherwise the cached copy
+  const cachedRead = async <T>(readKey: string, read: () => Promise<T>): Promise<T> => {
+    const userId = cacheUserId;
+    if (!userId) return read();
+
+    const key = `${userId}:${readKey}`;
+    if (isOnline()) {
+      try {
+        const result = await read();
+        offlineStore.put("reads", result, key).catch(error => {
+          console.error("Error caching offline data:", error);
+        });
+        return result;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        console.log(`Read ${key} failed, using offline cache:`, error);
+      }
+    }
+
+    const cached = await offlineStore.get<T>("reads", key).catch(() => undefined);
+    if (cached === undefined) {
+      throw new Error("You are offline and this data has not been loaded before");
+    }
+    return cached;
+  };
+
+  const saveMutation = async (mutation: PendingMutation) => {
+    const id = await offlineStore.put("mutations", mutation);
+    return { ...mutation, id: id as number };
+  };
+
+  const replaceMutation = (mutation: PendingMutation) => {
+    setState({ mutations: state.mutations.map(m => m.id === mutation.id ? mutation : m) });
+    offlineStore.put("mutations", mutation).catch(error => {
+      console.error("Error saving offline change:", error);
+    });
+  };
+
+  const removeMutation = (id: number) => {
+    setState({ mutations: state.mutations.filter(m => m.id !== id) });
+    offlineStore.remove("mutations", id).catch(error => {
+      console.error("Error removing offline change:", error);
+    });
+  };
+
+  const enqueue = async (mutation: Omit<PendingMutation, "userId" | "queuedAt" | "status">) => {
+    if (!cacheUserId) throw new Error("Sign in to save changes while offline");
+    const saved = await saveMutation({
+      ...mutation,
+      userId: cacheUserId,
+      queuedAt: new Date().toISOString(),
+      status: "pending"
+    });
+    setState({ mutations: [...state.mutations, saved] });
+    console.log("Queued offline change:", saved.description);
+  };
+
+  const checkBase = (current: { updated_at?: string | null } | null, mutation: PendingMutation, label: string) => {
+    if (!current) {
+      throw new ConflictError(`The ${label} was deleted while you were offline`);
+    }
+    if (mutation.baseUpdatedAt && current.updated_at && current.updated_at !== mutation.baseUpdatedAt) {
+      throw new ConflictError(`The ${label} was changed by someone else while you were offline`);
+    }
+  };
+
+  // Sends one queued change; returns the row's new updated_at when there is one
+  const apply = async (mutation: PendingMutation, force: boolean): Promise<string | null> => {
+    switch (mutation.kind) {
+      case "createTask": {
+        try {
+          const row = await inner.tasks.create(mutation.values as TablesInsert<"tasks">);
+          remember("tasks", [row]);
+          return row.updated_at;
+        } catch (error) {
+          if ((error as { code?: string })?.code === DUPLICATE_KEY_ERROR_CODE) return null;
+          throw error;
+        }
+      }
+
+      case "updateTask": {
+        if (!force) checkBase(await inner.tasks.get(mutation.rowId), mutation, "task");
+        const row = await inner.tasks.update(mutation.rowId, mutation.values as TablesUpdate<"tasks">);
+        remember("tasks", [row]);
+        return row.updated_at;
+      }
+
+      case "removeTasks": {
+        if (!force) {
+          const current = await inner.tasks.get(mutation.rowId);
+          // Already gone is fine for a delete
+          if (current) checkBase(current, mutation, "task");
+        }
+        await inner.tasks.removeWhere(mutation.query);
+        return null;
+      }
+
+      case "updateSprint": {
+        if (!force) checkBase(await inner.sprints.get(mutation.rowId), mutation, "sprint");
+        const row = await inner.sprints.update(mutation.rowId, mutation.values as TablesUpdate<"sprints">);
+        remember("sprints", [row]);
+        return row.updated_at;
+      }
+    }
+  };
+
+  // Later changes to the same row were made on top of this one, so they now expect its result
+  const rebase = (rowId: string, appliedId: number, updatedAt: string | null) => {
+    if (!updatedAt) return;
+    state.mutations
+      .filter(mutation => mutation.rowId === rowId && mutation.id !== appliedId)
+      .forEach(mutation => replaceMutation({ ...mutation, baseUpdatedAt: updatedAt }));
+  };
+
+  // Returns true when the change reached the server
+  const send = async (mutation: PendingMutation, force = false): Promise<boolean> => {
+    try {
+      const updatedAt = await apply(mutation, force);
+      removeMutation(mutation.id);
+      rebase(mutation.rowId, mutation.id, updatedAt);
+      return true;
+    } catch (error) {
+      if (isNetworkError(error)) throw error;
+
+      console.error("Error replaying offline change:", error);
+      replaceMutation({
+        ...mutation,
+        status: error instanceof ConflictError ? "conflict" : "failed",
+        error: errorMessage(error)
+      });
+      return false;
+    }
+  };
+
+  const replay = async () => {
+    if (state.isSyncing || !isOnline() || pendingMutations().length === 0) return;
+
+    setState({ isSyncing: true });
+    let synced = 0;
+
+    try {
+      // Rows with an unresolved change are held so their edits still land in order
+      const blockedRows = new Set(
+        state.mutations.filter(mutation => mutation.status !== "pending").map(mutation => mutation.rowId)
+      );
+
+      for (const { id } of pendingMutations()) {
+        // Re-read: an earlier change to the same row may have rebased this one
+        const mutation = state.mutations.find(m => m.id === id);
+        if (!mutation || mutation.status !== "pending" || blockedRows.has(mutation.rowId)) continue;
+
+        if (await send(mutation)) {
+          synced++;
+        } else {
+          blockedRows.add(mutation.rowId);
+        }
+      }
+    } catch (error) {
+      console.log("Connection lost while replaying offline changes:", error);
+    } finally {
+      setState({ isSyncing: false, ...(synced > 0 ? { lastSyncedAt: Date.now() } : {}) });
+    }
+  };
+
+  const retry = async (id: number, force = false) => {
+    const mutation = state.mutations.find(m => m.id === id);
+    if (!mutation) return;
+
+    try {
+      if (await send({ ...mutation, status: "pending", error: undefined }, force)) {
+        setState({ lastSyncedAt: Date.now() });
+        await replay();
+      }
+    } catch (error) {
+      replaceMutation({ ...mutation, status: "pending", error: undefined });
+      console.log("Still offline, change stays queued:", error);
+    }
+  };
+
+  // Writes go straight through unless offline or queued changes for the same row must land first
+  const mustQueue = (rowId: string) =>
+    !isOnline() ||
+    state.mutations.some(mutation => mutation.status === "pending" || mutation.rowId === rowId);
+
+  // Rows written directly must be remembered by the caller, so a later offline edit of them
+  // starts from their new updated_at
+  const queueOrRun = async <T>(
+    mutation: Omit<PendingMutation, "userId" | "queuedAt" | "status">,
+    run: () => Promise<T>,
+    optimistic: () => T
+  ): Promise<T> => {
+    if (!mustQueue(mutation.rowId)) {
+      try {
+        return await run();
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    const result = optimistic();
+    await enqueue(mutation);
+    void replay();
+    return result;
+  };
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("online", () => {
+      setState({ isOnline: true });
+      void replay();
+    });
+    window.addEventListener("offline", () => setState({ isOnline: false }));
+  }
+
+  const clearStores = () =>
+    Promise.all([offlineStore.clear("reads"), offlineStore.clear("mutations")]).catch(error => {
+      console.error("Error clearing offline data:", error);
+    });
+
+  // Scopes the cache and the queue to whoever is signed in. Signing out, or someone else
+  // signing in, wipes what the previous user left behind instead of showing or sending it.
+  const switchUser = async (userId: string | null) => {
+    if (userId && userId === cacheUserId) return;
+
+    cacheUserId = userId;
+    knownRows.clear();
+    setState({ mutations: [] });
+
+    try {
+      const owner = await offlineStore.get<string>("reads", CACHE_OWNER_KEY);
+      if (!userId || owner !== userId) {
+        await clearStores();
+        if (userId) await offlineStore.put("reads", userId, CACHE_OWNER_KEY);
+        return;
+      }
+
+      const mutations = (await offlineStore.getAll<PendingMutation>("mutations"))
+        .filter(mutation => mutation.userId === userId);
+      if (mutations.length === 0 || cacheUserId !== userId) return;
+      setState({ mutations: mutations.sort((a, b) => a.id - b.id) });
+      void replay();
+    } catch (error) {
+      console.error("Error loading offline changes:", error);
+    }
+  };
+
+  return {
+    auth: {
+      ...inner.auth,
+
+      signUp: async (username, email, password) => {
+        const user = await inner.auth.signUp(username, email, password);
+        if (user) await switchUser(user.id);
+        return user;
+      },
+
+      signIn: async (emailOrUsername, password) => {
+        const user = await inner.auth.signIn(emailOrUsername, password);
+        await switchUser(user.id);
+        return user;
+      },
+
+      signOut: async () => {
+        try {
+          await inner.auth.signOut();
+        } finally {
+          await switchUser(null);
+        }
+      },
+
+      getSessionUser: async () => {
+        const user = await inner.auth.getSessionUser();
+        await switchUser(user?.id ?? null);
+        return user;
+      },
+
+      onSessionChange: (onChange) =>
+        inner.auth.onSessionChange(userId => {
+          void switchUser(userId).then(() => onChange(userId));
+        })
+    },
+    users: inner.users,
+
+    projects: {
+      ...inner.projects,
+      listOwned: (ownerId) => cachedRead(`projects:owned:${ownerId}`, () => inner.projects.listOwned(ownerId)),
+      get: (id) => cachedRead(`projects:${id}`, () => inner.projects.get(id))
+    },
+
+    sprints: {
+      ...inner.sprints,
+
+      list: async (projectIds) => {
+        const rows = await cachedRead(`sprints:${[...projectIds].sort().join(",")}`, () => inner.sprints.list(projectIds));
+        remember("sprints", rows);
+        return overlaySprints(rows);
+      },
+
+      get: async (id) => {
+        const row = await cachedRead(`sprints:${id}`, () => inner.sprints.get(id));
+        remember("sprints", [row]);
+        return row ? overlaySprints([row])[0] : null;
+      },
+
+      update: (id, rawValues) => {
+        const values = definedValues(rawValues);
+        return queueOrRun(
+          {
+            kind: "updateSprint",
+            rowId: id,
+            values,
+            baseUpdatedAt: knownRows.get(rowKey("sprints", id))?.updated_at,
+            description: `Edit sprint${values.title ? ` "${values.title}"` : ""}`
+          },
+          async () => {
+            const row = await inner.sprints.update(id, values);
+            remember("sprints", [row]);
+            return row;
+          },
+          () => {
+            const row = { ...knownRows.get(rowKey("sprints", id)), id, ...values } as SprintRow;
+            knownRows.set(rowKey("sprints", id), row);
+            return row;
+          }
+        );
+      }
+    },
+
+    tasks: {
+      ...inner.tasks,
+
+      list: async (query) => {
+        const rows = await cachedRead(`tasks:${JSON.stringify(query)}`, () => inner.tasks.list(query));
+        remember("tasks", rows);
+        return overlayTasks(rows, query).sort(compareByRank);
+      },
+
+      get: async (id) => {
+        let row: TaskRow | null = null;
+        try {
+          row = await cachedRead(`tasks:${id}`, () => inner.tasks.get(id));
+        } catch (error) {
+          // Tasks created offline exist only locally until they are replayed
+          if (!knownRows.has(rowKey("tasks", id))) throw error;
+        }
+        remember("tasks", [row]);
+        return overlayTasks(row ? [row] : [], { ids: [id] })[0]
+          || (knownRows.get(rowKey("tasks", id)) as TaskRow)
+          || null;
+      },
+
+      create: (rawValues) => {
+        const values = definedValues(rawValues);
+        const id = values.id || generateId();
+        return queueOrRun(
+          {
+            kind: "createTask",
+            rowId: id,
+            values: { ...values, id },
+            description: `Create task "${values.title}"`
+          },
+          async () => {
+            const row = await inner.tasks.create(values);
+            remember("tasks", [row]);
+            return row;
+          },
+          () => {
+            const row = {
+              description: null,
+              priority: null,
+              story_points: null,
+              assign_to: null,
+              completion_date: null,
+              sprint_id: null,
+              column_id: null,
+              status: "todo",
+              created_at: new Date().toISOString(),
+              updated_at: null,
+              ...values,
+              id
+            } as TaskRow;
+            knownRows.set(rowKey("tasks", id), row);
+            return row;
+          }
+        );
+      },
+
+      update: (id, rawValues) => {
+        const values = definedValues(rawValues);
+        const known = knownRows.get(rowKey("tasks", id)) as TaskRow | undefined;
+        return queueOrRun(
+          {
+            kind: "updateTask",
+            rowId: id,
+            values,
+            baseUpdatedAt: known?.updated_at,
+            description: values.column_id || values.status
+              ? `Move task "${values.title || known?.title || id}"`
+              : `Edit task "${values.title || known?.title || id}"`
+          },
+          async () => {
+            const row = await inner.tasks.update(id, values);
+            remember("tasks", [row]);
+            return row;
+          },
+          () => {
+            const row = { ...known, id, ...values } as TaskRow;
+            knownRows.set(rowKey("tasks", id), row);
+            return row;
+          }
+        );
+      },
+
+      // Only single-task deletes are queued; bulk deletes need the server
+      removeWhere: (query) => {
+        if (query.ids?.length !== 1) return inner.tasks.removeWhere(query);
+
+        const id = query.ids[0];
+        const known = knownRows.get(rowKey("tasks", id)) as TaskRow | undefined;
+        return queueOrRun(
+          {
+            kind: "removeTasks",
+            rowId: id,
+            query,
+            baseUpdatedAt: known?.updated_at,
+            description: `Delete task "${known?.title || id}"`
+          },
+          () => inner.tasks.removeWhere(query),
+          () => undefined
+        );
+      }
+    },
+
+    columns: {
+      ...inner.columns,
+      list: (sprintId) => cachedRead(`columns:${sprintId}`, () => inner.columns.list(sprintId))
+    },
+
+    collaborators: {
+      ...inner.collaborators,
+      listByProject: (projectId) =>
+        cachedRead(`collaborators:${projectId}`, () => inner.collaborators.listByProject(projectId)),
+      listProjectsForUser: (userId) =>
+        cachedRead(`collaborations:${userId}`, () => inner.collaborators.listProjectsForUser(userId))
+    },
+
+    burndown: {
+      list: (sprintId) => cachedRead(`burndown:${sprintId}`, () => inner.burndown.list(sprintId))
+    },
+
+    sprintCompletions: {
+      ...inner.sprintCompletions,
+      list: (projectIds) =>
+        cachedRead(`sprintCompletions:${projectIds.join(",")}`, () => inner.sprintCompletions.list(projectIds))
+    },
+
+    scopeChanges: {
+      list: (sprintId) => cachedRead(`scopeChanges:${sprintId}`, () => inner.scopeChanges.list(sprintId))
+    },
+
+    taskEvents: {
+      list: (query) => cachedRead(`taskEvents:${JSON.stringify(query)}`, () => inner.taskEvents.list(query))
+    },
+
+    statusSnapshots: {
+      list: (projectId, from, to) =>
+        cachedRead(`statusSnapshots:${projectId}:${from || ""}:${to || ""}`, () => inner.statusSnapshots.list(projectId, from, to))
+    },
+
+    daysOff: {
+      ...inner.daysOff,
+      list: (projectId) => cachedRead(`daysOff:${projectId}`, () => inner.daysOff.list(projectId))
+    },
+
+    epics: {
+      ...inner.epics,
+      list: (projectIds) => cachedRead(`epics:${[...projectIds].sort().join(",")}`, () => inner.epics.list(projectIds))
+    },
+
+    labels: {
+      ...inner.labels,
+      list: (projectIds) => cachedRead(`labels:${[...projectIds].sort().join(",")}`, () => inner.labels.list(projectIds))
+    },
+
+    taskLabels: {
+      ...inner.taskLabels,
+      list: (projectIds) => cachedRead(`taskLabels:${[...projectIds].sort().join(",")}`, () => inner.taskLabels.list(projectIds))
+    },
+
+    comments: {
+      ...inner.comments,
+      list: (projectIds) => cachedRead(`comments:${[...projectIds].sort().join(",")}`, () => inner.comments.list(projectIds))
+    },
+
+    dependencies: {
+      ...inner.dependencies,
+      list: (projectIds) => cachedRead(`dependencies:${[...projectIds].sort().join(",")}`, () => inner.dependencies.list(projectIds))
+    },
+
+    checklistItems: {
+      ...inner.checklistItems,
+      list: (projectIds) => cachedRead(`checklistItems:${[...projectIds].sort().join(",")}`, () => inner.checklistItems.list(projectIds))
+    },
+
+    availability: {
+      ...inner.availability,
+      list: (sprintId) => cachedRead(`availability:${sprintId}`, () => inner.availability.list(sprintId))
+    },
+
+    subscribe: inner.subscribe,
+
+    queue: {
+      getState: () => state,
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+      replay,
+      retry,
+      discard: async (id) => removeMutation(id)
+    }
+  };
+};
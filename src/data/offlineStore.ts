@@ -0,0 +1,76 @@
+// Minimal promise wrapper around IndexedDB. Two stores: "reads" caches the last
+// result of every repository read, "mutations" holds the offline write queue. Both only
+// ever hold the data of one signed-in user.
+const DATABASE_NAME = "scrum-offline";
+const DATABASE_VERSION = 1;
+
+export type OfflineStoreName = "reads" | "mutations";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains("reads")) {
+          database.createObjectStore("reads");
+        }
+        if (!database.objectStoreNames.contains("mutations")) {
+          database.createObjectStore("mutations", { keyPath: "id", autoIncrement: true });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Let a later call try again instead of caching the failure
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+
+  return databasePromise;
+};
+
+const run = async <T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const database = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const offlineStore = {
+  get: <T>(storeName: OfflineStoreName, key: IDBValidKey) =>
+    run<T | undefined>(storeName, "readonly", store => store.get(key)),
+
+  getAll: <T>(storeName: OfflineStoreName) =>
+    run<T[]>(storeName, "readonly", store => store.getAll()),
+
+  // Returns the key, which is generated for auto-increment stores
+  put: <T>(storeName: OfflineStoreName, value: T, key?: IDBValidKey) =>
+    run<IDBValidKey>(storeName, "readwrite", store => store.put(value, key)),
+
+  remove: (storeName: OfflineStoreName, key: IDBValidKey) =>
+    run<void>(storeName, "readwrite", store => store.delete(key)),
+
+  clear: (storeName: OfflineStoreName) =>
+    run<void>(storeName, "readwrite", store => store.clear())
+};
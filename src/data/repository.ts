@@ -0,0 +1,217 @@
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { ProjectRole, RemoteChange } from "@/types";
+
+// Rows are exchanged in their database (snake_case) shape; mapping to the app's
+// camelCase types stays with the callers, exactly as it did with direct queries.
+export type UserRow = Tables<"users">;
+export type PublicUser = Pick<UserRow, "id" | "username" | "email">;
+export type ProjectRow = Tables<"projects"> & { owner?: Pick<UserRow, "username" | "email"> | null };
+export type SprintRow = Tables<"sprints">;
+export type TaskRow = Tables<"tasks">;
+export type BoardColumnRow = Tables<"board_columns">;
+export type CollaboratorRow = Tables<"collaborators"> & { user?: PublicUser | null };
+export type BurndownRow = Tables<"burndown_data">;
+export type SprintCompletionRow = Tables<"sprint_completions">;
+export type ScopeChangeRow = Tables<"sprint_scope_changes">;
+export type TaskEventRow = Tables<"task_events">;
+export type StatusSnapshotRow = Tables<"task_status_snapshots">;
+export type DayOffRow = Tables<"project_days_off">;
+export type AvailabilityRow = Tables<"sprint_availability">;
+export type DependencyRow = Tables<"task_dependencies">;
+export type ChecklistItemRow = Tables<"task_checklist_items">;
+export type EpicRow = Tables<"epics">;
+export type LabelRow = Tables<"labels">;
+export type TaskLabelRow = Tables<"task_labels">;
+export type CommentRow = Tables<"task_comments"> & { author?: Pick<UserRow, "username"> | null };
+
+// Completing a sprint, applied by the backend all at once
+export interface CompleteSprintValues {
+  sprint_id: string;
+  // Destination per unfinished task id: "backlog" or another sprint's id
+  destinations: Record<string, string>;
+  // Planned sprint to start once this one is completed
+  start_sprint_id: string | null;
+}
+
+export interface CollaborationRow {
+  role: ProjectRole;
+  project: ProjectRow;
+}
+
+// Filters shared by task reads, bulk updates and deletes. All given fields must match.
+export interface TaskQuery {
+  ids?: string[];
+  projectIds?: string[];
+  // null selects backlog items, which belong to no sprint
+  sprintId?: string | null;
+  columnId?: string;
+  status?: string;
+  userId?: string;
+  assignedTo?: string;
+  withoutCompletionDate?: boolean;
+}
+
+// Client-side equivalent of the TaskQuery filters, for backends and caches that hold rows locally
+export const matchesTaskQuery = (task: TaskRow, query: TaskQuery) =>
+  (!query.ids || query.ids.includes(task.id)) &&
+  (!query.projectIds || query.projectIds.includes(task.project_id)) &&
+  (query.sprintId === undefined || (task.sprint_id || null) === query.sprintId) &&
+  (!query.columnId || task.column_id === query.columnId) &&
+  (!query.status || task.status === query.status) &&
+  (!query.userId || task.user_id === query.userId) &&
+  (!query.assignedTo || task.assign_to === query.assignedTo) &&
+  (!query.withoutCompletionDate || !task.completion_date);
+
+// Filters for task history reads. All given fields must match.
+export interface TaskEventQuery {
+  taskIds?: string[];
+  projectIds?: string[];
+  // Only events at or after this timestamp
+  since?: string;
+}
+
+export const matchesTaskEventQuery = (event: TaskEventRow, query: TaskEventQuery) =>
+  (!query.taskIds || query.taskIds.includes(event.task_id)) &&
+  (!query.projectIds || query.projectIds.includes(event.project_id)) &&
+  (!query.since || event.changed_at >= query.since);
+
+export interface DataRepository {
+  // Sign-in and sessions. The backend owns the session and keeps its tokens fresh.
+  auth: {
+    // Resolves to null when the account still has to be confirmed by email
+    signUp: (username: string, email: string, password: string) => Promise<PublicUser | null>;
+    signIn: (emailOrUsername: string, password: string) => Promise<PublicUser>;
+    signOut: () => Promise<void>;
+    getSessionUser: () => Promise<PublicUser | null>;
+    // Called with the signed-in user id, or null once the session ends (sign-out, expired refresh)
+    onSessionChange: (onChange: (userId: string | null) => void) => () => void;
+    updateEmail: (email: string) => Promise<{ confirmationRequired: boolean }>;
+    updatePassword: (password: string) => Promise<void>;
+  };
+  users: {
+    // The email comes back only when it is what was looked up
+    findByLogin: (emailOrUsername: string) => Promise<PublicUser | null>;
+    isTaken: (field: "email" | "username", value: string, excludeUserId?: string) => Promise<boolean>;
+    // The email follows auth.updateEmail and can't be set on the profile
+    update: (id: string, values: Pick<TablesUpdate<"users">, "username">) => Promise<void>;
+  };
+  projects: {
+    listOwned: (ownerId: string) => Promise<ProjectRow[]>;
+    get: (id: string) => Promise<ProjectRow | null>;
+    create: (values: TablesInsert<"projects">) => Promise<ProjectRow>;
+    update: (id: string, values: TablesUpdate<"projects">) => Promise<void>;
+    remove: (id: string) => Promise<void>;
+  };
+  sprints: {
+    list: (projectIds: string[]) => Promise<SprintRow[]>;
+    get: (id: string) => Promise<SprintRow | null>;
+    create: (values: TablesInsert<"sprints">) => Promise<SprintRow>;
+    update: (id: string, values: TablesUpdate<"sprints">) => Promise<SprintRow>;
+    remove: (id: string) => Promise<void>;
+  };
+  tasks: {
+    list: (query: TaskQuery) => Promise<TaskRow[]>;
+    get: (id: string) => Promise<TaskRow | null>;
+    create: (values: TablesInsert<"tasks">) => Promise<TaskRow>;
+    update: (id: string, values: TablesUpdate<"tasks">) => Promise<TaskRow>;
+    updateWhere: (query: TaskQuery, values: TablesUpdate<"tasks">) => Promise<void>;
+    removeWhere: (query: TaskQuery) => Promise<void>;
+  };
+  columns: {
+    list: (sprintId: string) => Promise<BoardColumnRow[]>;
+    create: (values: TablesInsert<"board_columns">) => Promise<BoardColumnRow>;
+    update: (id: string, values: TablesUpdate<"board_columns">) => Promise<void>;
+    remove: (id: string) => Promise<void>;
+  };
+  collaborators: {
+    listByProject: (projectId: string) => Promise<CollaboratorRow[]>;
+    listProjectsForUser: (userId: string) => Promise<CollaborationRow[]>;
+    add: (values: TablesInsert<"collaborators">) => Promise<CollaboratorRow>;
+    update: (id: string, values: TablesUpdate<"collaborators">) => Promise<void>;
+    remove: (id: string) => Promise<void>;
+  };
+  // Daily burndown snapshots of a sprint, oldest first. Captured by the backend once a day
+  // for every running sprint and shared by all members; read-only for the app.
+  burndown: {
+    list: (sprintId: string) => Promise<BurndownRow[]>;
+  };
+  // Committed-vs-delivered records written when sprints are completed
+  sprintCompletions: {
+    list: (projectIds: string[]) => Promise<SprintCompletionRow[]>;
+    // Records the completion, carries unfinished tasks over and starts the next sprint,
+    // or does nothing when any of it fails
+    complete: (values: CompleteSprintValues) => Promise<SprintCompletionRow>;
+  };
+  // Points moved into or out of a sprint, oldest first. Recorded by the backend whenever
+  // a task joins, leaves or is re-estimated in a sprint; read-only for the app.
+  scopeChanges: {
+    list: (sprintId: string) => Promise<ScopeChangeRow[]>;
+  };
+  // Task creations and status, column, sprint and assignee changes, oldest first.
+  // Recorded by the backend on every task write; read-only for the app.
+  taskEvents: {
+    list: (query: TaskEventQuery) => Promise<TaskEventRow[]>;
+  };
+  // Per-day task counts and points in each status, per sprint and for the backlog, oldest
+  // first. Kept up to date by the backend on every task write; read-only for the app.
+  // from and to are inclusive yyyy-MM-dd dates.
+  statusSnapshots: {
+    list: (projectId: string, from?: string, to?: string) => Promise<StatusSnapshotRow[]>;
+  };
+  // Holidays and team days off of a project, by date
+  daysOff: {
+    list: (projectId: string) => Promise<DayOffRow[]>;
+    create: (values: TablesInsert<"project_days_off">) => Promise<DayOffRow>;
+    remove: (id: string) => Promise<void>;
+  };
+  // Epics of projects; removing one leaves its tasks without an epic
+  epics: {
+    list: (projectIds: string[]) => Promise<EpicRow[]>;
+    create: (values: TablesInsert<"epics">) => Promise<EpicRow>;
+    update: (id: string, values: TablesUpdate<"epics">) => Promise<EpicRow>;
+    remove: (id: string) => Promise<void>;
+  };
+  // Labels projects define for their tasks, by name; removing one takes it off its tasks
+  labels: {
+    list: (projectIds: string[]) => Promise<LabelRow[]>;
+    create: (values: TablesInsert<"labels">) => Promise<LabelRow>;
+    remove: (id: string) => Promise<void>;
+  };
+  // Which labels each task carries
+  taskLabels: {
+    list: (projectIds: string[]) => Promise<TaskLabelRow[]>;
+    // Makes the task carry exactly the given labels
+    set: (projectId: string, taskId: string, labelIds: string[]) => Promise<void>;
+  };
+  // Comments on tasks, oldest first, with their author's username. Authors alone edit
+  // and delete their comments; removing a comment removes its replies.
+  comments: {
+    list: (projectIds: string[]) => Promise<CommentRow[]>;
+    create: (values: TablesInsert<"task_comments">) => Promise<CommentRow>;
+    update: (id: string, body: string) => Promise<CommentRow>;
+    remove: (id: string) => Promise<void>;
+  };
+  // "Blocks / blocked by" links between tasks. Creating a link that would make a task
+  // block itself, directly or through other tasks, is rejected.
+  dependencies: {
+    list: (projectIds: string[]) => Promise<DependencyRow[]>;
+    create: (values: TablesInsert<"task_dependencies">) => Promise<DependencyRow>;
+    remove: (id: string) => Promise<void>;
+  };
+  // Subtasks and checklist items of tasks, in their order within each task
+  checklistItems: {
+    list: (projectIds: string[]) => Promise<ChecklistItemRow[]>;
+    create: (values: TablesInsert<"task_checklist_items">) => Promise<ChecklistItemRow>;
+    update: (id: string, values: TablesUpdate<"task_checklist_items">) => Promise<ChecklistItemRow>;
+    remove: (id: string) => Promise<void>;
+  };
+  // Days off and allocation of team members in a sprint, one row per member at most.
+  // Members without a row are available full time.
+  availability: {
+    list: (sprintId: string) => Promise<AvailabilityRow[]>;
+    // Inserts or replaces the member's row for the sprint
+    save: (values: TablesInsert<"sprint_availability">) => Promise<AvailabilityRow>;
+  };
+  // Push row changes of one project to the caller; returns the unsubscribe function
+  subscribe: (projectId: string, onChange: (change: RemoteChange) => void) => () => void;
+}
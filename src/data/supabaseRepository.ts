@@ -0,0 +1,539 @@
+import { supabase, withRetry } from "@/lib/supabaseClient";
+import { RealtimeTable, RemoteRow } from "@/types";
+import {
+  DataRepository,
+  TaskQuery,
+  PublicUser,
+  ProjectRow,
+  SprintRow,
+  TaskRow,
+  BoardColumnRow,
+  CollaboratorRow,
+  CollaborationRow,
+  BurndownRow,
+  SprintCompletionRow,
+  ScopeChangeRow,
+  TaskEventRow,
+  StatusSnapshotRow,
+  DayOffRow,
+  AvailabilityRow,
+  DependencyRow,
+  ChecklistItemRow,
+  EpicRow,
+  LabelRow,
+  TaskLabelRow,
+  CommentRow
+} from "./repository";
+
+const PUBLIC_USER_COLUMNS = "id, username, email";
+const PROJECT_COLUMNS = "*, owner:owner_id (username, email)";
+const COMMENT_COLUMNS = "*, author:user_id (username)";
+
+const REALTIME_TABLES: RealtimeTable[] = ["tasks", "sprints", "board_columns", "collaborators", "task_dependencies", "task_checklist_items", "epics", "labels", "task_labels", "task_comments"];
+
+// PostgREST reports "no rows" for .single() lookups as an error; treat it as a miss
+const NO_ROWS_ERROR_CODE = "PGRST116";
+
+const unwrap = <T>({ data, error }: { data: unknown; error: unknown }): T => {
+  if (error) throw error;
+  return data as T;
+};
+
+const unwrapOptional = <T>({ data, error }: { data: unknown; error: { code?: string } | null }): T | null => {
+  if (error) {
+    if (error.code === NO_ROWS_ERROR_CODE) return null;
+    throw error;
+  }
+  return (data as T) || null;
+};
+
+// PostgREST silently cuts a response off at its max-rows limit (1000 by default), so
+// reads that can grow past it fetch page by page until a short page comes back
+const PAGE_SIZE = 1000;
+
+const fetchAllPages = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const page = unwrap<T[]>(await withRetry(async () => await fetchPage(from, from + PAGE_SIZE - 1))) || [];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+};
+
+// Every select/update/delete builder on "tasks" shares these filter methods
+type TaskFilterBuilder = ReturnType<ReturnType<typeof supabase.from>["select"]>;
+
+const filterTasks = <Q extends TaskFilterBuilder>(builder: Q, query: TaskQuery): Q => {
+  let filtered = builder;
+
+  if (query.ids) filtered = filtered.in("id", query.ids) as Q;
+  if (query.projectIds) filtered = filtered.in("project_id", query.projectIds) as Q;
+  if (query.sprintId === null) filtered = filtered.is("sprint_id", null) as Q;
+  else if (query.sprintId !== undefined) filtered = filtered.eq("sprint_id", query.sprintId) as Q;
+  if (query.columnId) filtered = filtered.eq("column_id", query.columnId) as Q;
+  if (query.status) filtered = filtered.eq("status", query.status) as Q;
+  if (query.userId) filtered = filtered.eq("user_id", query.userId) as Q;
+  if (query.assignedTo) filtered = filtered.eq("assign_to", query.assignedTo) as Q;
+  if (query.withoutCompletionDate) filtered = filtered.is("completion_date", null) as Q;
+
+  return filtered;
+};
+
+const fetchProfile = async (userId: string) =>
+  unwrapOptional<PublicUser>(await withRetry(async () => await supabase
+    .from("users")
+    .select(PUBLIC_USER_COLUMNS)
+    .eq("id", userId)
+    .single()));
+
+// Supabase Auth signs in by email. A username is checked by the sign-in edge function,
+// which keeps the account's email on the server and hands back the session.
+const signInWithPassword = async (emailOrUsername: string, password: string) => {
+  if (emailOrUsername.includes("@")) {
+    const { data, error } = await supabase.auth.signInWithPassword({ email: emailOrUsername, password });
+    if (error) throw error;
+    return data.session;
+  }
+
+  const { data: tokens, error: invokeError } = await supabase.functions.invoke<{
+    access_token: string;
+    refresh_token: string;
+  }>("sign-in", { body: { username: emailOrUsername, password } });
+  if (invokeError || !tokens) throw new Error("Invalid credentials");
+
+  const { data, error } = await supabase.auth.setSession(tokens);
+  if (error) throw error;
+  return data.session;
+};
+
+export const createSupabaseRepository = (): DataRepository => ({
+  auth: {
+    signUp: async (username, email, password) => {
+      const { data, error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: { data: { username } }
+      });
+      if (error) throw error;
+      if (!data.session) return null;
+
+      // The profile row is created by a trigger on auth.users
+      return { id: data.user.id, username, email };
+    },
+
+    signIn: async (emailOrUsername, password) => {
+      const session = await signInWithPassword(emailOrUsername, password);
+      if (!session) throw new Error("Invalid credentials");
+
+      const profile = await fetchProfile(session.user.id);
+      if (!profile) throw new Error("Profile not found");
+      return profile;
+    },
+
+    signOut: async () => {
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+    },
+
+    getSessionUser: async () => {
+      const { data, error } = await supabase.auth.getSession();
+      if (error) throw error;
+      return data.session ? fetchProfile(data.session.user.id) : null;
+    },
+
+    onSessionChange: (onChange) => {
+      const { data } = supabase.auth.onAuthStateChange((event, session) => {
+        // Token refreshes keep the same user; only report sign-ins and sign-outs
+        if (event === "TOKEN_REFRESHED" || event === "INITIAL_SESSION") return;
+        onChange(session?.user.id ?? null);
+      });
+      return () => data.subscription.unsubscribe();
+    },
+
+    updateEmail: async (email) => {
+      const { data, error } = await supabase.auth.updateUser({ email });
+      if (error) throw error;
+      // With email confirmation on, the address only changes once the link is followed
+      return { confirmationRequired: data.user.email !== email };
+    },
+
+    updatePassword: async (password) => {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+    }
+  },
+
+  users: {
+    // Profiles outside the user's projects are hidden, so the lookup runs as a database function
+    findByLogin: async (emailOrUsername) =>
+      unwrapOptional<PublicUser>(await withRetry(async () => await supabase
+        .rpc("find_user_by_login", { login: emailOrUsername })
+        .single())),
+
+    // Runs as a database function so registration can check before a session exists
+    isTaken: async (field, value, excludeUserId) =>
+      unwrap<boolean>(await withRetry(async () => await supabase.rpc("is_login_taken", {
+        field,
+        value,
+        exclude_user_id: excludeUserId ?? null
+      }))),
+
+    update: async (id, values) => {
+      unwrap(await withRetry(async () => await supabase.from("users").update(values).eq("id", id)));
+    }
+  },
+
+  projects: {
+    listOwned: async (ownerId) =>
+      unwrap<ProjectRow[]>(await withRetry(async () => await supabase
+        .from("projects")
+        .select(PROJECT_COLUMNS)
+        .eq("owner_id", ownerId))) || [],
+
+    get: async (id) =>
+      unwrapOptional<ProjectRow>(await supabase.from("projects").select(PROJECT_COLUMNS).eq("id", id).single()),
+
+    create: async (values) =>
+      unwrap<ProjectRow>(await supabase.from("projects").insert([values]).select(PROJECT_COLUMNS).single()),
+
+    update: async (id, values) => {
+      unwrap(await supabase.from("projects").update(values).eq("id", id));
+    },
+
+    remove: async (id) => {
+      unwrap(await supabase.from("projects").delete().eq("id", id));
+    }
+  },
+
+  sprints: {
+    list: async (projectIds) =>
+      unwrap<SprintRow[]>(await withRetry(async () => await supabase
+        .from("sprints")
+        .select("*")
+        .in("project_id", projectIds)
+        .order("created_at", { ascending: false }))) || [],
+
+    get: async (id) =>
+      unwrapOptional<SprintRow>(await supabase.from("sprints").select("*").eq("id", id).single()),
+
+    create: async (values) =>
+      unwrap<SprintRow>(await supabase.from("sprints").insert([values]).select().single()),
+
+    update: async (id, values) =>
+      unwrap<SprintRow>(await supabase.from("sprints").update(values).eq("id", id).select().single()),
+
+    remove: async (id) => {
+      unwrap(await supabase.from("sprints").delete().eq("id", id));
+    }
+  },
+
+  tasks: {
+    // Pages need a total order, hence the id as the last tie-breaker
+    list: (query) =>
+      fetchAllPages<TaskRow>((from, to) =>
+        filterTasks(supabase.from("tasks").select("*"), query)
+          .order("rank", { ascending: true, nullsFirst: false })
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)),
+
+    get: async (id) =>
+      unwrapOptional<TaskRow>(await supabase.from("tasks").select("*").eq("id", id).single()),
+
+    create: async (values) =>
+      unwrap<TaskRow>(await supabase.from("tasks").insert([values]).select().single()),
+
+    update: async (id, values) =>
+      unwrap<TaskRow>(await supabase.from("tasks").update(values).eq("id", id).select().single()),
+
+    updateWhere: async (query, values) => {
+      unwrap(await filterTasks(supabase.from("tasks").update(values), query));
+    },
+
+    removeWhere: async (query) => {
+      unwrap(await filterTasks(supabase.from("tasks").delete(), query));
+    }
+  },
+
+  columns: {
+    list: async (sprintId) =>
+      unwrap<BoardColumnRow[]>(await withRetry(async () => await supabase
+        .from("board_columns")
+        .select("*")
+        .eq("sprint_id", sprintId)
+        .order("order_index", { ascending: true }))) || [],
+
+    create: async (values) =>
+      unwrap<BoardColumnRow>(await supabase.from("board_columns").insert(values).select().single()),
+
+    update: async (id, values) => {
+      unwrap(await supabase.from("board_columns").update(values).eq("id", id));
+    },
+
+    remove: async (id) => {
+      unwrap(await supabase.from("board_columns").delete().eq("id", id));
+    }
+  },
+
+  collaborators: {
+    listByProject: async (projectId) =>
+      unwrap<CollaboratorRow[]>(await supabase
+        .from("collaborators")
+        .select(`*, user:user_id (${PUBLIC_USER_COLUMNS})`)
+        .eq("project_id", projectId)) || [],
+
+    listProjectsForUser: async (userId) =>
+      unwrap<CollaborationRow[]>(await withRetry(async () => await supabase
+        .from("collaborators")
+        .select(`role, project:project_id (${PROJECT_COLUMNS})`)
+        .eq("user_id", userId))) || [],
+
+    add: async (values) =>
+      unwrap<CollaboratorRow>(await supabase.from("collaborators").insert(values).select().single()),
+
+    update: async (id, values) => {
+      unwrap(await supabase.from("collaborators").update(values).eq("id", id));
+    },
+
+    remove: async (id) => {
+      unwrap(await supabase.from("collaborators").delete().eq("id", id));
+    }
+  },
+
+  burndown: {
+    list: async (sprintId) =>
+      unwrap<BurndownRow[]>(await withRetry(async () => await supabase
+        .from("burndown_data")
+        .select("*")
+        .eq("sprint_id", sprintId)
+        .order("date", { ascending: true }))) || []
+  },
+
+  sprintCompletions: {
+    list: async (projectIds) =>
+      unwrap<SprintCompletionRow[]>(await withRetry(async () => await supabase
+        .from("sprint_completions")
+        .select("*")
+        .in("project_id", projectIds)
+        .order("completed_at", { ascending: true }))) || [],
+
+    complete: async (values) =>
+      unwrap<SprintCompletionRow>(await supabase.rpc("complete_sprint", {
+        p_sprint_id: values.sprint_id,
+        p_destinations: values.destinations,
+        p_start_sprint_id: values.start_sprint_id
+      }))
+  },
+
+  scopeChanges: {
+    list: async (sprintId) =>
+      unwrap<ScopeChangeRow[]>(await withRetry(async () => await supabase
+        .from("sprint_scope_changes")
+        .select("*")
+        .eq("sprint_id", sprintId)
+        .order("changed_at", { ascending: true }))) || []
+  },
+
+  taskEvents: {
+    list: async (query) =>
+      unwrap<TaskEventRow[]>(await withRetry(async () => {
+        let request = supabase.from("task_events").select("*");
+        if (query.taskIds) request = request.in("task_id", query.taskIds);
+        if (query.projectIds) request = request.in("project_id", query.projectIds);
+        if (query.since) request = request.gte("changed_at", query.since);
+        return await request.order("changed_at", { ascending: true });
+      })) || []
+  },
+
+  statusSnapshots: {
+    list: async (projectId, from, to) =>
+      unwrap<StatusSnapshotRow[]>(await withRetry(async () => {
+        let request = supabase.from("task_status_snapshots").select("*").eq("project_id", projectId);
+        if (from) request = request.gte("snapshot_date", from);
+        if (to) request = request.lte("snapshot_date", to);
+        return await request.order("snapshot_date", { ascending: true });
+      })) || []
+  },
+
+  daysOff: {
+    list: async (projectId) =>
+      unwrap<DayOffRow[]>(await withRetry(async () => await supabase
+        .from("project_days_off")
+        .select("*")
+        .eq("project_id", projectId)
+        .order("date", { ascending: true }))) || [],
+
+    create: async (values) =>
+      unwrap<DayOffRow>(await supabase.from("project_days_off").insert(values).select().single()),
+
+    remove: async (id) => {
+      unwrap(await supabase.from("project_days_off").delete().eq("id", id));
+    }
+  },
+
+  epics: {
+    list: async (projectIds) =>
+      unwrap<EpicRow[]>(await withRetry(async () => await supabase
+        .from("epics")
+        .select("*")
+        .in("project_id", projectIds)
+        .order("created_at", { ascending: true }))) || [],
+
+    create: async (values) =>
+      unwrap<EpicRow>(await supabase.from("epics").insert(values).select().single()),
+
+    update: async (id, values) =>
+      unwrap<EpicRow>(await supabase.from("epics").update(values).eq("id", id).select().single()),
+
+    remove: async (id) => {
+      unwrap(await supabase.from("epics").delete().eq("id", id));
+    }
+  },
+
+  labels: {
+    list: async (projectIds) =>
+      unwrap<LabelRow[]>(await withRetry(async () => await supabase
+        .from("labels")
+        .select("*")
+        .in("project_id", projectIds)
+        .order("name", { ascending: true }))) || [],
+
+    create: async (values) =>
+      unwrap<LabelRow>(await supabase.from("labels").insert(values).select().single()),
+
+    remove: async (id) => {
+      unwrap(await supabase.from("labels").delete().eq("id", id));
+    }
+  },
+
+  taskLabels: {
+    list: async (projectIds) =>
+      unwrap<TaskLabelRow[]>(await withRetry(async () => await supabase
+        .from("task_labels")
+        .select("*")
+        .in("project_id", projectIds))) || [],
+
+    set: async (projectId, taskId, labelIds) => {
+      let removal = supabase.from("task_labels").delete().eq("task_id", taskId);
+      if (labelIds.length > 0) removal = removal.not("label_id", "in", `(${labelIds.join(",")})`);
+      unwrap(await removal);
+
+      if (labelIds.length === 0) return;
+      unwrap(await supabase
+        .from("task_labels")
+        .upsert(
+          labelIds.map(labelId => ({ project_id: projectId, task_id: taskId, label_id: labelId })),
+          { onConflict: "task_id,label_id", ignoreDuplicates: true }
+        ));
+    }
+  },
+
+  comments: {
+    list: async (projectIds) =>
+      unwrap<CommentRow[]>(await withRetry(async () => await supabase
+        .from("task_comments")
+        .select(COMMENT_COLUMNS)
+        .in("project_id", projectIds)
+        .order("created_at", { ascending: true }))) || [],
+
+    create: async (values) =>
+      unwrap<CommentRow>(await supabase.from("task_comments").insert(values).select(COMMENT_COLUMNS).single()),
+
+    update: async (id, body) =>
+      unwrap<CommentRow>(await supabase.from("task_comments").update({ body }).eq("id", id).select(COMMENT_COLUMNS).single()),
+
+    remove: async (id) => {
+      unwrap(await supabase.from("task_comments").delete().eq("id", id));
+    }
+  },
+
+  dependencies: {
+    list: async (projectIds) =>
+      unwrap<DependencyRow[]>(await withRetry(async () => await supabase
+        .from("task_dependencies")
+        .select("*")
+        .in("project_id", projectIds))) || [],
+
+    create: async (values) =>
+      unwrap<DependencyRow>(await supabase.from("task_dependencies").insert(values).select().single()),
+
+    remove: async (id) => {
+      unwrap(await supabase.from("task_dependencies").delete().eq("id", id));
+    }
+  },
+
+  checklistItems: {
+    list: async (projectIds) =>
+      unwrap<ChecklistItemRow[]>(await withRetry(async () => await supabase
+        .from("task_checklist_items")
+        .select("*")
+        .in("project_id", projectIds)
+        .order("order_index", { ascending: true }))) || [],
+
+    create: async (values) =>
+      unwrap<ChecklistItemRow>(await supabase.from("task_checklist_items").insert(values).select().single()),
+
+    update: async (id, values) =>
+      unwrap<ChecklistItemRow>(await supabase.from("task_checklist_items").update(values).eq("id", id).select().single()),
+
+    remove: async (id) => {
+      unwrap(await supabase.from("task_checklist_items").delete().eq("id", id));
+    }
+  },
+
+  availability: {
+    list: async (sprintId) =>
+      unwrap<AvailabilityRow[]>(await withRetry(async () => await supabase
+        .from("sprint_availability")
+        .select("*")
+        .eq("sprint_id", sprintId))) || [],
+
+    save: async (values) =>
+      unwrap<AvailabilityRow>(await supabase
+        .from("sprint_availability")
+        .upsert(values, { onConflict: "sprint_id,user_id" })
+        .select()
+        .single())
+  },
+
+  // board_columns rows only carry a sprint_id, so they are delivered unfiltered and
+  // callers match them against the project's sprints.
+  subscribe: (projectId, onChange) => {
+    let channel = supabase.channel(`project-changes-${projectId}`);
+
+    for (const table of REALTIME_TABLES) {
+      channel = channel.on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table,
+          ...(table === "board_columns" ? {} : { filter: `project_id=eq.${projectId}` })
+        },
+        (payload) => {
+          onChange({
+            table,
+            eventType: payload.eventType,
+            newRow: payload.new as RemoteRow,
+            oldRow: payload.old as RemoteRow,
+            receivedAt: Date.now()
+          });
+        }
+      );
+    }
+
+    channel.subscribe((status, error) => {
+      if (error) {
+        console.error(`Realtime subscription for project ${projectId} failed:`, error);
+      } else {
+        console.log(`Realtime subscription for project ${projectId}: ${status}`);
+      }
+    });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+});
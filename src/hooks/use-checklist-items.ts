@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { repository } from "@/data";
+import { projectQueryKeys, PROJECT_DATA_STALE_TIME } from "@/hooks/use-project-queries";
+
+// Subtasks and checklist items of the project's tasks; refreshed live by ProjectContext
+export const useChecklistItems = (projectId?: string) =>
+  useQuery({
+    queryKey: projectQueryKeys.checklistItems(projectId),
+    queryFn: () => repository.checklistItems.list([projectId!]),
+    enabled: !!projectId,
+    staleTime: PROJECT_DATA_STALE_TIME
+  });
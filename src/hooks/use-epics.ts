@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { repository } from "@/data";
+import { projectQueryKeys, PROJECT_DATA_STALE_TIME } from "@/hooks/use-project-queries";
+
+// The project's epics, oldest first; refreshed live by ProjectContext
+export const useEpics = (projectId?: string) =>
+  useQuery({
+    queryKey: projectQueryKeys.epics(projectId),
+    queryFn: () => repository.epics.list([projectId!]),
+    enabled: !!projectId,
+    staleTime: PROJECT_DATA_STALE_TIME
+  });
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { repository } from "@/data";
+import { projectQueryKeys, PROJECT_DATA_STALE_TIME } from "@/hooks/use-project-queries";
+
+// The project's labels, by name; refreshed live by ProjectContext
+export const useLabels = (projectId?: string) =>
+  useQuery({
+    queryKey: projectQueryKeys.labels(projectId),
+    queryFn: () => repository.labels.list([projectId!]),
+    enabled: !!projectId,
+    staleTime: PROJECT_DATA_STALE_TIME
+  });
+
+// Which labels the project's tasks carry; refreshed live by ProjectContext
+export const useTaskLabels = (projectId?: string) =>
+  useQuery({
+    queryKey: projectQueryKeys.taskLabels(projectId),
+    queryFn: () => repository.taskLabels.list([projectId!]),
+    enabled: !!projectId,
+    staleTime: PROJECT_DATA_STALE_TIME
+  });
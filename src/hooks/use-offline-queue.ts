@@ -0,0 +1,29 @@
+import { useSyncExternalStore } from "react";
+import { offlineQueue, OfflineQueueState } from "@/data";
+
+const IDLE_STATE: OfflineQueueState = {
+  mutations: [],
+  isOnline: true,
+  isSyncing: false,
+  lastSyncedAt: null
+};
+
+const subscribe = (listener: () => void) => offlineQueue ? offlineQueue.subscribe(listener) : () => {};
+const getSnapshot = () => offlineQueue ? offlineQueue.getState() : IDLE_STATE;
+
+const noop = async () => {};
+
+// Changes made while offline and their sync state. The in-memory backend has no queue,
+// so it always reports an empty, online queue.
+export const useOfflineQueue = () => {
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  return {
+    ...state,
+    pendingCount: state.mutations.filter(mutation => mutation.status === "pending").length,
+    problemCount: state.mutations.filter(mutation => mutation.status !== "pending").length,
+    replay: offlineQueue?.replay ?? noop,
+    retry: offlineQueue?.retry ?? noop,
+    discard: offlineQueue?.discard ?? noop
+  };
+};
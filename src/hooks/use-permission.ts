@@ -0,0 +1,15 @@
+import { useAuth } from "@/context/AuthContext";
+import { useProjects } from "@/context/ProjectContext";
+import { can, getProjectRole, ProjectAction } from "@/lib/permissions";
+
+// The signed-in user's role in a project: "owner", their collaborator role, or null
+export const useProjectRole = (projectId?: string) => {
+  const { user } = useAuth();
+  const { getProject } = useProjects();
+
+  return getProjectRole(projectId ? getProject(projectId) : undefined, user?.id);
+};
+
+// Whether the signed-in user may perform an action in a project, per the permission matrix
+export const usePermission = (projectId: string | undefined, action: ProjectAction) =>
+  can(useProjectRole(projectId), action);
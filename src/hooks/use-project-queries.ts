@@ -0,0 +1,135 @@
+import { useQuery } from "@tanstack/react-query";
+import { Project, Sprint, Task } from "@/types";
+import { repository, ProjectRow, SprintRow, TaskRow } from "@/data";
+
+// Cached data is served immediately and refetched in the background once older than this
+export const PROJECT_DATA_STALE_TIME = 60000;
+
+// Query keys for everything ProjectContext reads. Sprint and task lists are keyed by
+// the set of project ids so a single batched query covers every visible project.
+export const projectQueryKeys = {
+  all: ["project-data"] as const,
+  ownedProjects: (userId?: string) => ["project-data", "projects", "owned", userId] as const,
+  collaborativeProjects: (userId?: string) => ["project-data", "projects", "collaborations", userId] as const,
+  sprints: (projectIds?: string[]) =>
+    (projectIds ? ["project-data", "sprints", projectIds] : ["project-data", "sprints"]) as readonly unknown[],
+  tasks: (projectIds?: string[]) =>
+    (projectIds ? ["project-data", "tasks", projectIds] : ["project-data", "tasks"]) as readonly unknown[],
+  daysOff: (projectId?: string) => ["project-data", "days-off", projectId] as const,
+  team: (projectId?: string) => ["project-data", "team", projectId] as const,
+  velocities: (projectId?: string) => ["project-data", "velocities", projectId] as const,
+  availability: (sprintId?: string) => ["project-data", "availability", sprintId] as const,
+  dependencies: (projectId?: string) => ["project-data", "dependencies", projectId] as const,
+  checklistItems: (projectId?: string) => ["project-data", "checklist-items", projectId] as const,
+  epics: (projectId?: string) => ["project-data", "epics", projectId] as const,
+  labels: (projectId?: string) => ["project-data", "labels", projectId] as const,
+  taskLabels: (projectId?: string) => ["project-data", "task-labels", projectId] as const,
+  comments: (projectId?: string) => ["project-data", "comments", projectId] as const,
+};
+
+export const formatSprintRow = (sprint: SprintRow): Sprint => ({
+  id: sprint.id,
+  title: sprint.title,
+  description: sprint.description || "",
+  projectId: sprint.project_id,
+  startDate: sprint.start_date,
+  endDate: sprint.end_date,
+  status: sprint.status as "planned" | "in-progress" | "completed"
+});
+
+export const formatTaskRow = (task: TaskRow): Task => ({
+  id: task.id,
+  title: task.title,
+  description: task.description,
+  sprintId: task.sprint_id || "",
+  status: task.status,
+  assignedTo: task.assign_to,
+  storyPoints: task.story_points,
+  priority: task.priority as "low" | "medium" | "high",
+  createdAt: task.created_at,
+  updatedAt: task.updated_at || task.created_at,
+  projectId: task.project_id,
+  completionDate: task.completion_date,
+  startedAt: task.started_at,
+  columnId: task.column_id,
+  rank: task.rank,
+  checklistBlocksDone: task.checklist_blocks_done,
+  epicId: task.epic_id
+});
+
+const formatProjectRow = (project: ProjectRow): Project => ({
+  id: project.id,
+  title: project.title,
+  description: project.description || "",
+  endGoal: project.end_goal,
+  workingDays: project.working_days,
+  createdAt: project.created_at,
+  updatedAt: project.updated_at,
+  ownerId: project.owner_id,
+  ownerName: project.owner?.username || "",
+  ownerEmail: project.owner?.email || "",
+  isCollaboration: false
+});
+
+const fetchOwnedProjects = async (userId: string): Promise<Project[]> => {
+  const projects = await repository.projects.listOwned(userId);
+  return projects.map(formatProjectRow);
+};
+
+const fetchCollaborativeProjects = async (userId: string): Promise<Project[]> => {
+  const collaborations = await repository.collaborators.listProjectsForUser(userId);
+
+  return collaborations
+    .filter(item => item.project)
+    .map(item => ({
+      ...formatProjectRow(item.project),
+      isCollaboration: true,
+      role: item.role
+    }));
+};
+
+// One query for the sprints of every project instead of one request per project
+const fetchSprintsForProjects = async (projectIds: string[]): Promise<Sprint[]> => {
+  const sprints = await repository.sprints.list(projectIds);
+  return sprints.map(formatSprintRow);
+};
+
+// Sprint tasks and backlog items of every project in a single request
+const fetchTasksForProjects = async (projectIds: string[]): Promise<Task[]> => {
+  const tasks = await repository.tasks.list({ projectIds });
+  return tasks.map(formatTaskRow);
+};
+
+export const useOwnedProjects = (userId?: string) =>
+  useQuery({
+    queryKey: projectQueryKeys.ownedProjects(userId),
+    queryFn: () => fetchOwnedProjects(userId!),
+    enabled: !!userId,
+    staleTime: PROJECT_DATA_STALE_TIME
+  });
+
+export const useCollaborativeProjects = (userId?: string) =>
+  useQuery({
+    queryKey: projectQueryKeys.collaborativeProjects(userId),
+    queryFn: () => fetchCollaborativeProjects(userId!),
+    enabled: !!userId,
+    staleTime: PROJECT_DATA_STALE_TIME
+  });
+
+export const useProjectSprints = (projectIds: string[]) =>
+  useQuery({
+    queryKey: projectQueryKeys.sprints(projectIds),
+    queryFn: () => fetchSprintsForProjects(projectIds),
+    enabled: projectIds.length > 0,
+    staleTime: PROJECT_DATA_STALE_TIME,
+    placeholderData: previous => previous
+  });
+
+export const useProjectTasks = (projectIds: string[]) =>
+  useQuery({
+    queryKey: projectQueryKeys.tasks(projectIds),
+    queryFn: () => fetchTasksForProjects(projectIds),
+    enabled: projectIds.length > 0,
+    staleTime: PROJECT_DATA_STALE_TIME,
+    placeholderData: previous => previous
+  });
@@ -0,0 +1,63 @@
+import { useQuery } from "@tanstack/react-query";
+import { repository, SprintRow } from "@/data";
+import { fetchProjectCollaboratorsOptimized } from "@/lib/supabase";
+import { countWorkingDays } from "@/lib/calendar";
+import { getMemberCapacities, getSprintCapacity, getTeamMembers } from "@/lib/capacity";
+import { getSprintVelocities } from "@/lib/velocity";
+import { useWorkingCalendar } from "@/hooks/use-working-calendar";
+import { projectQueryKeys, PROJECT_DATA_STALE_TIME } from "@/hooks/use-project-queries";
+
+// Owner and collaborators who work on sprint tasks
+export const useTeamMembers = (projectId?: string) =>
+  useQuery({
+    queryKey: projectQueryKeys.team(projectId),
+    queryFn: async () => getTeamMembers(await fetchProjectCollaboratorsOptimized(projectId!)),
+    enabled: !!projectId,
+    staleTime: PROJECT_DATA_STALE_TIME
+  });
+
+export const useSprintAvailability = (sprintId?: string) =>
+  useQuery({
+    queryKey: projectQueryKeys.availability(sprintId),
+    queryFn: () => repository.availability.list(sprintId!),
+    enabled: !!sprintId,
+    staleTime: PROJECT_DATA_STALE_TIME
+  });
+
+// Committed and delivered points of the project's completed sprints, oldest first
+export const useSprintVelocities = (projectId?: string) =>
+  useQuery({
+    queryKey: projectQueryKeys.velocities(projectId),
+    queryFn: async () => {
+      const [sprints, completions, tasks] = await Promise.all([
+        repository.sprints.list([projectId!]),
+        repository.sprintCompletions.list([projectId!]),
+        repository.tasks.list({ projectIds: [projectId!] })
+      ]);
+      return getSprintVelocities(sprints, completions, tasks);
+    },
+    enabled: !!projectId,
+    staleTime: PROJECT_DATA_STALE_TIME
+  });
+
+// Each member's availability in the sprint and what the team can take on in total, given
+// the commitment suggested from velocity
+export const useSprintCapacity = (
+  projectId: string | undefined,
+  sprint: Pick<SprintRow, "id" | "start_date" | "end_date"> | null,
+  suggestedPoints: number | null
+) => {
+  const calendar = useWorkingCalendar(projectId);
+  const { data: members = [], isLoading: isLoadingTeam } = useTeamMembers(projectId);
+  const { data: availability = [], isLoading: isLoadingAvailability } = useSprintAvailability(sprint?.id);
+
+  const workingDays = sprint ? countWorkingDays(sprint.start_date, sprint.end_date, calendar) : 0;
+  const memberCapacities = getMemberCapacities(members, availability, workingDays);
+
+  return {
+    workingDays,
+    members: memberCapacities,
+    capacity: getSprintCapacity(memberCapacities, workingDays, suggestedPoints),
+    isLoading: isLoadingTeam || isLoadingAvailability
+  };
+};
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { repository } from "@/data";
+import { projectQueryKeys, PROJECT_DATA_STALE_TIME } from "@/hooks/use-project-queries";
+
+// Comments on the project's tasks, oldest first; refreshed live by ProjectContext
+export const useTaskComments = (projectId?: string) =>
+  useQuery({
+    queryKey: projectQueryKeys.comments(projectId),
+    queryFn: () => repository.comments.list([projectId!]),
+    enabled: !!projectId,
+    staleTime: PROJECT_DATA_STALE_TIME
+  });
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { repository } from "@/data";
+import { projectQueryKeys, PROJECT_DATA_STALE_TIME } from "@/hooks/use-project-queries";
+
+// "Blocks / blocked by" links between the project's tasks; refreshed live by ProjectContext
+export const useTaskDependencies = (projectId?: string) =>
+  useQuery({
+    queryKey: projectQueryKeys.dependencies(projectId),
+    queryFn: () => repository.dependencies.list([projectId!]),
+    enabled: !!projectId,
+    staleTime: PROJECT_DATA_STALE_TIME
+  });
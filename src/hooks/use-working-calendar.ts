@@ -0,0 +1,29 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useProjects } from "@/context/ProjectContext";
+import { repository } from "@/data";
+import { DEFAULT_WORKING_DAYS, WorkingCalendar } from "@/lib/calendar";
+import { projectQueryKeys, PROJECT_DATA_STALE_TIME } from "@/hooks/use-project-queries";
+
+// Holidays and team days off of a project, by date
+export const useProjectDaysOff = (projectId?: string) =>
+  useQuery({
+    queryKey: projectQueryKeys.daysOff(projectId),
+    queryFn: () => repository.daysOff.list(projectId!),
+    enabled: !!projectId,
+    staleTime: PROJECT_DATA_STALE_TIME
+  });
+
+// The project's workweek and days off, for everything that counts working days. The
+// result only changes when either does, so it is safe to use as an effect dependency.
+export const useWorkingCalendar = (projectId?: string): WorkingCalendar => {
+  const { getProject } = useProjects();
+  const { data: daysOff } = useProjectDaysOff(projectId);
+  const project = projectId ? getProject(projectId) : undefined;
+  const workingDays = project?.workingDays?.length ? project.workingDays : DEFAULT_WORKING_DAYS;
+
+  return useMemo(
+    () => ({ workingDays, daysOff: (daysOff || []).map(dayOff => dayOff.date) }),
+    [workingDays, daysOff]
+  );
+};
@@ -15,6 +15,7 @@ export type Database = {
           id: string
           order_index: number
           sprint_id: string
+          status_category: string
           title: string
           user_id: string
         }
@@ -23,6 +24,7 @@ export type Database = {
           id?: string
           order_index: number
           sprint_id: string
+          status_category?: string
           title: string
           user_id: string
         }
@@ -31,6 +33,7 @@ export type Database = {
           id?: string
           order_index?: number
           sprint_id?: string
+          status_category?: string
           title?: string
           user_id?: string
         }
@@ -54,33 +57,39 @@ export type Database = {
       burndown_data: {
         Row: {
           actual_points: number
+          completed_points: number
           created_at: string | null
           date: string
           id: string
           ideal_points: number
           project_id: string
+          scope_points: number
+          sprint_id: string
           updated_at: string | null
-          user_id: string
         }
         Insert: {
           actual_points?: number
+          completed_points?: number
           created_at?: string | null
           date: string
           id?: string
           ideal_points?: number
           project_id: string
+          scope_points?: number
+          sprint_id: string
           updated_at?: string | null
-          user_id: string
         }
         Update: {
           actual_points?: number
+          completed_points?: number
           created_at?: string | null
           date?: string
           id?: string
           ideal_points?: number
           project_id?: string
+          scope_points?: number
+          sprint_id?: string
           updated_at?: string | null
-          user_id?: string
         }
         Relationships: [
           {
@@ -90,6 +99,13 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "burndown_data_sprint_id_fkey"
+            columns: ["sprint_id"]
+            isOneToOne: false
+            referencedRelation: "sprints"
+            referencedColumns: ["id"]
+          },
         ]
       }
       chat_messages: {
@@ -166,6 +182,139 @@ export type Database = {
           },
         ]
       }
+      epics: {
+        Row: {
+          color: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          project_id: string
+          target_date: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          project_id: string
+          target_date?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          project_id?: string
+          target_date?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "epics_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "epics_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      labels: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          name: string
+          project_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          name: string
+          project_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "labels_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_days_off: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          kind: string
+          label: string | null
+          project_id: string
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          id?: string
+          kind?: string
+          label?: string | null
+          project_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          kind?: string
+          label?: string | null
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_days_off_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_permissions: {
+        Row: {
+          action: string
+          role: string
+        }
+        Insert: {
+          action: string
+          role: string
+        }
+        Update: {
+          action?: string
+          role?: string
+        }
+        Relationships: []
+      }
       projects: {
         Row: {
           created_at: string | null
@@ -175,6 +324,7 @@ export type Database = {
           owner_id: string
           title: string
           updated_at: string | null
+          working_days: number[]
         }
         Insert: {
           created_at?: string | null
@@ -184,6 +334,7 @@ export type Database = {
           owner_id: string
           title: string
           updated_at?: string | null
+          working_days?: number[]
         }
         Update: {
           created_at?: string | null
@@ -193,6 +344,7 @@ export type Database = {
           owner_id?: string
           title?: string
           updated_at?: string | null
+          working_days?: number[]
         }
         Relationships: [
           {
@@ -204,6 +356,173 @@ export type Database = {
           },
         ]
       }
+      sprint_availability: {
+        Row: {
+          allocation: number
+          days_off: number
+          id: string
+          project_id: string
+          sprint_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          allocation?: number
+          days_off?: number
+          id?: string
+          project_id: string
+          sprint_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          allocation?: number
+          days_off?: number
+          id?: string
+          project_id?: string
+          sprint_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sprint_availability_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sprint_availability_sprint_id_fkey"
+            columns: ["sprint_id"]
+            isOneToOne: false
+            referencedRelation: "sprints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sprint_availability_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sprint_completions: {
+        Row: {
+          carried_over_tasks: number
+          committed_points: number
+          committed_tasks: number
+          completed_at: string
+          completed_by: string | null
+          delivered_points: number
+          delivered_tasks: number
+          id: string
+          next_sprint_id: string | null
+          project_id: string
+          sprint_id: string
+        }
+        Insert: {
+          carried_over_tasks?: number
+          committed_points?: number
+          committed_tasks?: number
+          completed_at?: string
+          completed_by?: string | null
+          delivered_points?: number
+          delivered_tasks?: number
+          id?: string
+          next_sprint_id?: string | null
+          project_id: string
+          sprint_id: string
+        }
+        Update: {
+          carried_over_tasks?: number
+          committed_points?: number
+          committed_tasks?: number
+          completed_at?: string
+          completed_by?: string | null
+          delivered_points?: number
+          delivered_tasks?: number
+          id?: string
+          next_sprint_id?: string | null
+          project_id?: string
+          sprint_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sprint_completions_sprint_id_fkey"
+            columns: ["sprint_id"]
+            isOneToOne: true
+            referencedRelation: "sprints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sprint_completions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sprint_scope_changes: {
+        Row: {
+          change_type: string
+          changed_at: string
+          changed_by: string | null
+          id: string
+          points_delta: number
+          project_id: string
+          sprint_id: string
+          task_id: string
+          task_title: string | null
+        }
+        Insert: {
+          change_type: string
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          points_delta: number
+          project_id: string
+          sprint_id: string
+          task_id: string
+          task_title?: string | null
+        }
+        Update: {
+          change_type?: string
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          points_delta?: number
+          project_id?: string
+          sprint_id?: string
+          task_id?: string
+          task_title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sprint_scope_changes_sprint_id_fkey"
+            columns: ["sprint_id"]
+            isOneToOne: false
+            referencedRelation: "sprints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sprint_scope_changes_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sprint_scope_changes_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sprints: {
         Row: {
           created_at: string | null
@@ -261,50 +580,376 @@ export type Database = {
           },
         ]
       }
+      task_checklist_items: {
+        Row: {
+          assign_to: string | null
+          created_at: string
+          id: string
+          is_done: boolean
+          kind: string
+          order_index: number
+          project_id: string
+          task_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          assign_to?: string | null
+          created_at?: string
+          id?: string
+          is_done?: boolean
+          kind?: string
+          order_index?: number
+          project_id: string
+          task_id: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          assign_to?: string | null
+          created_at?: string
+          id?: string
+          is_done?: boolean
+          kind?: string
+          order_index?: number
+          project_id?: string
+          task_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_checklist_items_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_checklist_items_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_comments: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          parent_id: string | null
+          project_id: string
+          task_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          parent_id?: string | null
+          project_id: string
+          task_id: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          parent_id?: string | null
+          project_id?: string
+          task_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "task_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comments_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_comments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_dependencies: {
+        Row: {
+          blocked_task_id: string
+          blocking_task_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          project_id: string
+        }
+        Insert: {
+          blocked_task_id: string
+          blocking_task_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          project_id: string
+        }
+        Update: {
+          blocked_task_id?: string
+          blocking_task_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_dependencies_blocked_task_id_fkey"
+            columns: ["blocked_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_blocking_task_id_fkey"
+            columns: ["blocking_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_events: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          field: string
+          from_value: string | null
+          id: string
+          project_id: string
+          task_id: string
+          to_value: string | null
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          field: string
+          from_value?: string | null
+          id?: string
+          project_id: string
+          task_id: string
+          to_value?: string | null
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          field?: string
+          from_value?: string | null
+          id?: string
+          project_id?: string
+          task_id?: string
+          to_value?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_events_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_events_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_labels: {
+        Row: {
+          created_at: string
+          id: string
+          label_id: string
+          project_id: string
+          task_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          label_id: string
+          project_id: string
+          task_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          label_id?: string
+          project_id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_labels_label_id_fkey"
+            columns: ["label_id"]
+            isOneToOne: false
+            referencedRelation: "labels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_labels_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_labels_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_status_snapshots: {
+        Row: {
+          id: string
+          points: number
+          project_id: string
+          snapshot_date: string
+          sprint_id: string | null
+          status: string
+          task_count: number
+        }
+        Insert: {
+          id?: string
+          points?: number
+          project_id: string
+          snapshot_date?: string
+          sprint_id?: string | null
+          status: string
+          task_count?: number
+        }
+        Update: {
+          id?: string
+          points?: number
+          project_id?: string
+          snapshot_date?: string
+          sprint_id?: string | null
+          status?: string
+          task_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_status_snapshots_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_status_snapshots_sprint_id_fkey"
+            columns: ["sprint_id"]
+            isOneToOne: false
+            referencedRelation: "sprints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
           assign_to: string | null
+          checklist_blocks_done: boolean
           column_id: string | null
           completion_date: string | null
           created_at: string | null
           description: string | null
+          epic_id: string | null
           id: string
           priority: string | null
           project_id: string
+          rank: string | null
           sprint_id: string | null
+          started_at: string | null
           status: string
           story_points: number | null
           title: string
+          updated_at: string | null
           user_id: string
         }
         Insert: {
           assign_to?: string | null
+          checklist_blocks_done?: boolean
           column_id?: string | null
           completion_date?: string | null
           created_at?: string | null
           description?: string | null
+          epic_id?: string | null
           id?: string
           priority?: string | null
           project_id: string
+          rank?: string | null
           sprint_id?: string | null
+          started_at?: string | null
           status?: string
           story_points?: number | null
           title: string
+          updated_at?: string | null
           user_id: string
         }
         Update: {
           assign_to?: string | null
+          checklist_blocks_done?: boolean
           column_id?: string | null
           completion_date?: string | null
           created_at?: string | null
           description?: string | null
+          epic_id?: string | null
           id?: string
           priority?: string | null
           project_id?: string
+          rank?: string | null
           sprint_id?: string | null
+          started_at?: string | null
           status?: string
           story_points?: number | null
           title?: string
+          updated_at?: string | null
           user_id?: string
         }
         Relationships: [
@@ -315,6 +960,13 @@ export type Database = {
             referencedRelation: "board_columns"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_epic_id_fkey"
+            columns: ["epic_id"]
+            isOneToOne: false
+            referencedRelation: "epics"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_project_id_fkey"
             columns: ["project_id"]
@@ -343,21 +995,18 @@ export type Database = {
           created_at: string | null
           email: string
           id: string
-          password: string
           username: string
         }
         Insert: {
           created_at?: string | null
           email: string
-          id?: string
-          password: string
+          id: string
           username: string
         }
         Update: {
           created_at?: string | null
           email?: string
           id?: string
-          password?: string
           username?: string
         }
         Relationships: []
@@ -367,21 +1016,72 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      count_project_working_days: {
+        Args: {
+          target_project_id: string
+          from_date: string
+          to_date: string
+        }
+        Returns: number
+      }
+      find_user_by_login: {
+        Args: {
+          login: string
+        }
+        Returns: {
+          id: string
+          username: string
+          email: string
+        }[]
+      }
       get_user_id_from_email: {
         Args: {
           user_email: string
         }
         Returns: string
       }
-      insert_chat_message: {
+      complete_sprint: {
+        Args: {
+          p_sprint_id: string
+          p_destinations?: Json
+          p_start_sprint_id?: string
+        }
+        Returns: Database["public"]["Tables"]["sprint_completions"]["Row"]
+      }
+      is_login_taken: {
+        Args: {
+          field: string
+          value: string
+          exclude_user_id?: string
+        }
+        Returns: boolean
+      }
+      is_project_working_day: {
+        Args: {
+          target_project_id: string
+          day: string
+        }
+        Returns: boolean
+      }
+      next_task_rank: {
+        Args: {
+          last: string
+        }
+        Returns: string
+      }
+      sprint_project_id: {
         Args: {
-          p_project_id: string
-          p_user_id: string
-          p_username: string
-          p_message: string
+          sprint_id: string
         }
         Returns: string
       }
+      user_can: {
+        Args: {
+          project_id: string
+          action: string
+        }
+        Returns: boolean
+      }
       user_can_access_project: {
         Args: {
           project_id: string
@@ -395,6 +1095,18 @@ export type Database = {
         }
         Returns: boolean
       }
+      user_owns_project: {
+        Args: {
+          project_id: string
+        }
+        Returns: boolean
+      }
+      user_project_role: {
+        Args: {
+          project_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       project_role: "product_owner" | "team_member" | "scrum_master"
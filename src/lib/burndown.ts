@@ -0,0 +1,102 @@
+import { eachDayOfInterval, format, parseISO, startOfDay } from 'date-fns';
+import type { ScopeChangeRow } from '@/data';
+import type { BurndownData, Sprint, Task } from '@/types';
+import { DEFAULT_CALENDAR, isWorkingDay, WorkingCalendar } from '@/lib/calendar';
+
+export interface SprintBurndownPoint {
+  date: string;
+  formattedDate: string;
+  ideal: number;
+  // Weekends, holidays and days off keep the ideal line flat
+  workingDay: boolean;
+  // Points still to do at the end of the day; null for days that have not happened yet
+  actual: number | null;
+  // Points done by the end of the day; null for days that have not happened yet
+  completed: number | null;
+  // Points the sprint held at the end of the day
+  scope: number;
+  // Net points added (positive) or removed (negative) that day, null when scope did not change
+  scopeChange: number | null;
+}
+
+export interface SprintBurndown {
+  committedPoints: number;
+  currentPoints: number;
+  points: SprintBurndownPoint[];
+  // Changes made after the start date up to the end date, oldest first
+  scopeChanges: ScopeChangeRow[];
+}
+
+// Calendar day a scope change happened on, in local time like the sprint dates
+export const scopeChangeDay = (change: Pick<ScopeChangeRow, 'changed_at'>) =>
+  format(parseISO(change.changed_at), 'yyyy-MM-dd');
+
+const sumDeltas = (changes: ScopeChangeRow[]) => changes.reduce((sum, change) => sum + change.points_delta, 0);
+
+const roundPoints = (points: number) => Math.round(points * 10) / 10;
+
+// Day-by-day burndown of one sprint. Changes made up to and including the start date count
+// as planning, so the commitment is the sprint's current points minus everything that
+// changed after it started. The ideal line burns that commitment down to zero over the
+// sprint's working days; the actual line is the scope at the end of each day minus the
+// points done by then. Past days the backend captured a snapshot for show that snapshot
+// instead, so every member sees the series as it was recorded rather than as the tasks
+// look now.
+export const buildSprintBurndown = (
+  sprint: Pick<Sprint, 'startDate' | 'endDate'>,
+  tasks: Pick<Task, 'storyPoints' | 'status' | 'completionDate'>[],
+  scopeChanges: ScopeChangeRow[],
+  today: Date = new Date(),
+  snapshots: BurndownData[] = [],
+  calendar: WorkingCalendar = DEFAULT_CALENDAR
+): SprintBurndown => {
+  const startDate = sprint.startDate.split('T')[0];
+  const endDate = sprint.endDate.split('T')[0];
+  const start = parseISO(startDate);
+  const end = parseISO(endDate);
+  const days = end < start ? [] : eachDayOfInterval({ start, end });
+  const todayStr = format(startOfDay(today), 'yyyy-MM-dd');
+
+  const midSprintChanges = scopeChanges.filter(change => scopeChangeDay(change) > startDate);
+  const currentPoints = tasks.reduce((sum, task) => sum + (task.storyPoints || 0), 0);
+  const committedPoints = currentPoints - sumDeltas(midSprintChanges);
+
+  const doneTasks = tasks.filter(task => task.status === 'done' && task.completionDate);
+
+  // The start date is the sprint's first morning, so burning starts with the next working day
+  const burnDays = days.map((day, index) => index > 0 && isWorkingDay(day, calendar));
+  const totalBurnDays = burnDays.filter(Boolean).length;
+  let burnedDays = 0;
+
+  const points = days.map((day, index) => {
+    if (burnDays[index]) burnedDays++;
+    const date = format(day, 'yyyy-MM-dd');
+    const changesThatDay = midSprintChanges.filter(change => scopeChangeDay(change) === date);
+    const scope = committedPoints + sumDeltas(midSprintChanges.filter(change => scopeChangeDay(change) <= date));
+    const donePoints = doneTasks
+      .filter(task => task.completionDate.split('T')[0] <= date)
+      .reduce((sum, task) => sum + (task.storyPoints || 0), 0);
+    // Today is still changing, so it always comes from the tasks
+    const snapshot = date < todayStr ? snapshots.find(s => s.date === date) : undefined;
+
+    return {
+      date,
+      formattedDate: format(day, 'MMM dd'),
+      ideal: totalBurnDays > 0 ? roundPoints(committedPoints * (1 - burnedDays / totalBurnDays)) : 0,
+      workingDay: isWorkingDay(day, calendar),
+      actual: snapshot ? snapshot.actual : date <= todayStr ? Math.max(0, scope - donePoints) : null,
+      completed: snapshot ? snapshot.completed : date <= todayStr ? donePoints : null,
+      scope: snapshot ? snapshot.scope : scope,
+      scopeChange: changesThatDay.length > 0 ? sumDeltas(changesThatDay) : null
+    };
+  });
+
+  // Work carried over after the end date still counts towards the commitment above,
+  // but happened outside the chart
+  return {
+    committedPoints,
+    currentPoints,
+    points,
+    scopeChanges: midSprintChanges.filter(change => scopeChangeDay(change) <= endDate)
+  };
+};
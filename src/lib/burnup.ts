@@ -0,0 +1,125 @@
+import { addDays, eachDayOfInterval, format, parseISO, startOfDay } from 'date-fns';
+import type { ScopeChangeRow } from '@/data';
+import type { BurndownData, Sprint, Task } from '@/types';
+import { buildSprintBurndown } from './burndown';
+
+// How far past the last day the projection may extend the chart
+const MAX_PROJECTION_DAYS = 180;
+
+export interface BurnupPoint {
+  date: string;
+  formattedDate: string;
+  // Total points in scope at the end of the day
+  scope: number;
+  // Points done by the end of the day; null for days that have not happened yet
+  completed: number | null;
+  // Where completed work is heading at the average rate so far; null before today
+  projected: number | null;
+}
+
+export interface Burnup {
+  points: BurnupPoint[];
+  scopePoints: number;
+  completedPoints: number;
+  // Day the projection reaches the current scope; null when there is no rate to project from
+  projectedCompletionDate: string | null;
+}
+
+type BurnupTask = Pick<Task, 'storyPoints' | 'status' | 'completionDate'>;
+
+const toDay = (date: string) => date.split('T')[0];
+
+const sumPoints = (tasks: BurnupTask[]) => tasks.reduce((sum, task) => sum + (task.storyPoints || 0), 0);
+
+// Extends completed work from today at the average daily rate since the first day, until it
+// meets today's scope. Charts that do not include today get no projection.
+const withProjection = (points: Omit<BurnupPoint, 'projected'>[], today: string): Burnup => {
+  const todayIndex = points.findIndex(point => point.date === today);
+  const last = points[points.length - 1];
+  const current = todayIndex >= 0 ? points[todayIndex] : null;
+
+  const result: Burnup = {
+    points: points.map(point => ({ ...point, projected: null })),
+    scopePoints: current ? current.scope : last?.scope || 0,
+    completedPoints: current ? current.completed : [...points].reverse().find(p => p.completed !== null)?.completed || 0,
+    projectedCompletionDate: null
+  };
+
+  if (!current) return result;
+
+  const remaining = current.scope - current.completed;
+  const rate = current.completed / Math.max(1, todayIndex);
+  if (remaining <= 0 || rate <= 0) return result;
+
+  const daysNeeded = Math.ceil(remaining / rate);
+  result.projectedCompletionDate = format(addDays(parseISO(today), daysNeeded), 'yyyy-MM-dd');
+
+  // Days past the end of the chart keep today's scope so the lines can meet
+  const extraDays = Math.min(MAX_PROJECTION_DAYS, todayIndex + daysNeeded - (points.length - 1));
+  for (let i = 1; i <= extraDays; i++) {
+    const day = addDays(parseISO(last.date), i);
+    result.points.push({
+      date: format(day, 'yyyy-MM-dd'),
+      formattedDate: format(day, 'MMM dd'),
+      scope: current.scope,
+      completed: null,
+      projected: null
+    });
+  }
+
+  result.points.forEach((point, index) => {
+    if (index < todayIndex) return;
+    point.projected = Math.round(Math.min(current.scope, current.completed + rate * (index - todayIndex)) * 10) / 10;
+  });
+
+  return result;
+};
+
+// Completed points against the sprint's scope, which moves with the same scope changes
+// the burndown marks, and the same daily snapshots for past days
+export const buildSprintBurnup = (
+  sprint: Pick<Sprint, 'startDate' | 'endDate'>,
+  tasks: BurnupTask[],
+  scopeChanges: ScopeChangeRow[],
+  today: Date = new Date(),
+  snapshots: BurndownData[] = []
+): Burnup => {
+  const { points } = buildSprintBurndown(sprint, tasks, scopeChanges, today, snapshots);
+  return withProjection(
+    points.map(({ date, formattedDate, scope, completed }) => ({ date, formattedDate, scope, completed })),
+    format(startOfDay(today), 'yyyy-MM-dd')
+  );
+};
+
+// Completed points against every task in the project, backlog included, from the first
+// sprint (or task) to the last sprint's end or today, whichever is later. Scope grows on
+// the day each task was created.
+export const buildProjectBurnup = (
+  sprints: Pick<Sprint, 'startDate' | 'endDate'>[],
+  tasks: (BurnupTask & Pick<Task, 'createdAt'>)[],
+  today: Date = new Date()
+): Burnup => {
+  const todayStr = format(startOfDay(today), 'yyyy-MM-dd');
+  const startDates = [...sprints.map(s => toDay(s.startDate)), ...tasks.map(t => toDay(t.createdAt))];
+  const endDates = [...sprints.map(s => toDay(s.endDate)), todayStr];
+
+  if (startDates.length === 0) return withProjection([], todayStr);
+
+  const start = parseISO(startDates.sort()[0]);
+  const end = parseISO(endDates.sort().pop());
+  const days = end < start ? [] : eachDayOfInterval({ start, end });
+
+  const points = days.map(day => {
+    const date = format(day, 'yyyy-MM-dd');
+    return {
+      date,
+      formattedDate: format(day, 'MMM dd'),
+      scope: sumPoints(tasks.filter(task => toDay(task.createdAt) <= date)),
+      completed: date <= todayStr
+        ? sumPoints(tasks.filter(task => task.status === 'done' && task.completionDate && toDay(task.completionDate) <= date))
+        : null
+    };
+  });
+
+  return withProjection(points, todayStr);
+};
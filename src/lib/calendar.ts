@@ -0,0 +1,70 @@
+import { eachDayOfInterval, format, getISODay, parseISO } from 'date-fns';
+
+// ISO weekdays (1 = Monday, 7 = Sunday) a project works unless told otherwise
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+
+export const WEEKDAYS = [
+  { day: 1, label: 'Mon' },
+  { day: 2, label: 'Tue' },
+  { day: 3, label: 'Wed' },
+  { day: 4, label: 'Thu' },
+  { day: 5, label: 'Fri' },
+  { day: 6, label: 'Sat' },
+  { day: 7, label: 'Sun' }
+];
+
+export const DAY_OFF_KINDS: Record<string, string> = {
+  holiday: 'Public holiday',
+  team: 'Team day off'
+};
+
+// Longest sprint allowed, in weeks of the project's workweek
+export const MAX_SPRINT_WEEKS = 4;
+
+export interface WorkingCalendar {
+  workingDays: number[];
+  // yyyy-MM-dd dates nobody works on, such as holidays
+  daysOff: string[];
+}
+
+export const DEFAULT_CALENDAR: WorkingCalendar = { workingDays: DEFAULT_WORKING_DAYS, daysOff: [] };
+
+export const isWorkingDay = (day: Date, calendar: WorkingCalendar = DEFAULT_CALENDAR) =>
+  calendar.workingDays.includes(getISODay(day)) && !calendar.daysOff.includes(format(day, 'yyyy-MM-dd'));
+
+const daysBetween = (startDate: string, endDate: string) => {
+  const start = parseISO(startDate.split('T')[0]);
+  const end = parseISO(endDate.split('T')[0]);
+  return end < start ? [] : eachDayOfInterval({ start, end });
+};
+
+// Working days from start to end date, both included
+export const countWorkingDays = (startDate: string, endDate: string, calendar: WorkingCalendar = DEFAULT_CALENDAR) =>
+  daysBetween(startDate, endDate).filter(day => isWorkingDay(day, calendar)).length;
+
+// Weekends, holidays and days off from start to end date, both included, as yyyy-MM-dd dates
+export const getNonWorkingDays = (startDate: string, endDate: string, calendar: WorkingCalendar = DEFAULT_CALENDAR) =>
+  daysBetween(startDate, endDate)
+    .filter(day => !isWorkingDay(day, calendar))
+    .map(day => format(day, 'yyyy-MM-dd'));
+
+// End date after the start date, with at least one working day in between but no more
+// than MAX_SPRINT_WEEKS weeks' worth of them
+export const validateSprintDuration = (
+  startDate: string,
+  endDate: string,
+  calendar: WorkingCalendar = DEFAULT_CALENDAR
+): { endDate?: string } => {
+  if (!startDate || !endDate) return {};
+  if (endDate <= startDate) return { endDate: 'End date must be after start date' };
+
+  const maxDays = MAX_SPRINT_WEEKS * calendar.workingDays.length;
+  const workingDays = countWorkingDays(startDate, endDate, calendar);
+  if (workingDays > maxDays) {
+    return { endDate: `Sprint duration cannot exceed ${MAX_SPRINT_WEEKS} weeks (${maxDays} working days)` };
+  }
+  if (workingDays === 0) {
+    return { endDate: 'Sprint must include at least one working day' };
+  }
+  return {};
+};
@@ -0,0 +1,74 @@
+import type { AvailabilityRow } from '@/data';
+import { can } from '@/lib/permissions';
+import { Collaborator } from '@/types';
+
+// Hours of sprint work a full-time member puts in on a working day, after meetings
+// and other overhead
+export const FOCUS_HOURS_PER_DAY = 6;
+
+export interface TeamMember {
+  userId: string;
+  username: string;
+}
+
+export interface MemberCapacity extends TeamMember {
+  daysOff: number;
+  // Share of their time spent on this project, in percent
+  allocation: number;
+  availableDays: number;
+}
+
+export interface SprintCapacity {
+  availableDays: number;
+  // Person-days if everybody were around full time
+  fullDays: number;
+  hours: number;
+  // The suggested commitment scaled to the share of the team that is around, or null
+  // without one
+  points: number | null;
+}
+
+// The people who work on sprint tasks: the owner and collaborators allowed to edit them
+export const getTeamMembers = (team: { collaborators: Collaborator[]; owner: { id: string; username: string } | null }): TeamMember[] => [
+  ...(team.owner ? [{ userId: team.owner.id, username: team.owner.username }] : []),
+  ...team.collaborators
+    .filter(collaborator => can(collaborator.role, 'task.edit'))
+    .map(collaborator => ({ userId: collaborator.userId, username: collaborator.username }))
+];
+
+// Each member's days off and allocation in the sprint; members without a row are there full time
+export const getMemberCapacities = (
+  members: TeamMember[],
+  availability: AvailabilityRow[],
+  workingDays: number
+): MemberCapacity[] =>
+  members.map(member => {
+    const row = availability.find(a => a.user_id === member.userId);
+    const daysOff = Math.min(row?.days_off ?? 0, workingDays);
+    const allocation = row?.allocation ?? 100;
+
+    return {
+      ...member,
+      daysOff,
+      allocation,
+      availableDays: ((workingDays - daysOff) * allocation) / 100
+    };
+  });
+
+export const getSprintCapacity = (
+  members: MemberCapacity[],
+  workingDays: number,
+  suggestedPoints: number | null
+): SprintCapacity => {
+  const availableDays = members.reduce((sum, member) => sum + member.availableDays, 0);
+  const fullDays = members.length * workingDays;
+
+  return {
+    availableDays,
+    fullDays,
+    hours: Math.round(availableDays * FOCUS_HOURS_PER_DAY),
+    points: suggestedPoints === null || !fullDays
+      ? suggestedPoints
+      : Math.round(suggestedPoints * (availableDays / fullDays))
+  };
+};
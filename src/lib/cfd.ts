@@ -0,0 +1,78 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import type { StatusSnapshotRow } from '@/data';
+
+// Statuses every snapshot covers, from the start of the flow to its end
+export const FLOW_STATUSES = ['backlog', 'todo', 'in-progress', 'done'];
+
+export type FlowMetric = 'count' | 'points';
+
+export interface FlowPoint {
+  date: string;
+  formattedDate: string;
+  // Tasks or points per status, keyed by status
+  [status: string]: string | number;
+}
+
+// Task counts and points per status of one sprint (or the backlog) at the end of the day
+export const summarizeStatuses = (
+  tasks: { status: string; story_points: number | null }[]
+): { status: string; task_count: number; points: number }[] => {
+  const statuses = [...new Set([...FLOW_STATUSES, ...tasks.map(task => task.status)])];
+  return statuses.map(status => {
+    const inStatus = tasks.filter(task => task.status === status);
+    return {
+      status,
+      task_count: inStatus.length,
+      points: inStatus.reduce((sum, task) => sum + (task.story_points || 0), 0)
+    };
+  });
+};
+
+// Day-by-day totals per status between two dates (inclusive). Snapshots are only written on
+// days something changed, so each sprint carries its last snapshot forward until the next
+// one. sprintId limits the flow to one sprint; without it every sprint and the backlog add up.
+export const buildCumulativeFlow = (
+  snapshots: StatusSnapshotRow[],
+  from: string,
+  to: string,
+  metric: FlowMetric,
+  sprintId?: string
+): FlowPoint[] => {
+  const start = parseISO(from);
+  const end = parseISO(to);
+  if (end < start) return [];
+
+  const relevant = snapshots
+    .filter(row => !sprintId || row.sprint_id === sprintId)
+    .sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date));
+  const statuses = [...new Set([...FLOW_STATUSES, ...relevant.map(row => row.status)])];
+
+  // Latest known rows of each sprint (or the backlog, keyed "backlog")
+  const latest = new Map<string, StatusSnapshotRow[]>();
+  let next = 0;
+
+  return eachDayOfInterval({ start, end }).map(day => {
+    const date = format(day, 'yyyy-MM-dd');
+
+    const todays = new Map<string, StatusSnapshotRow[]>();
+    while (next < relevant.length && relevant[next].snapshot_date <= date) {
+      const row = relevant[next++];
+      const key = row.sprint_id || 'backlog';
+      // A newer day replaces everything known about the sprint so far
+      if (!todays.has(key) || todays.get(key)[0].snapshot_date !== row.snapshot_date) todays.set(key, []);
+      todays.get(key).push(row);
+    }
+    todays.forEach((rows, key) => latest.set(key, rows));
+
+    const point: FlowPoint = { date, formattedDate: format(day, 'MMM dd') };
+    statuses.forEach(status => {
+      point[status] = 0;
+    });
+    latest.forEach(rows => {
+      rows.forEach(row => {
+        point[row.status] = (point[row.status] as number) + (metric === 'points' ? row.points : row.task_count);
+      });
+    });
+    return point;
+  });
+};
@@ -0,0 +1,29 @@
+import type { ChecklistItemRow } from '@/data';
+
+export const CHECKLIST_ITEM_KINDS: Record<string, string> = {
+  subtask: 'Subtask',
+  checklist: 'Checklist item'
+};
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+// Items of one task, in their order
+export const getTaskChecklist = (items: ChecklistItemRow[], taskId: string) =>
+  items
+    .filter(item => item.task_id === taskId)
+    .sort((a, b) => a.order_index - b.order_index);
+
+export const getChecklistProgress = (items: ChecklistItemRow[], taskId: string): ChecklistProgress => {
+  const checklist = getTaskChecklist(items, taskId);
+  return { done: checklist.filter(item => item.is_done).length, total: checklist.length };
+};
+
+// Whether a task has to stay out of done: it asks for its checklist to be complete first,
+// and some items are still open
+export const isChecklistBlockingDone = (
+  task: { checklist_blocks_done?: boolean; checklistBlocksDone?: boolean },
+  progress: ChecklistProgress
+) => !!(task.checklist_blocks_done || task.checklistBlocksDone) && progress.done < progress.total;
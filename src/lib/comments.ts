@@ -0,0 +1,52 @@
+import type { CommentRow } from '@/data';
+
+export interface CommentThread {
+  comment: CommentRow;
+  // Replies in the order they were written
+  replies: CommentRow[];
+}
+
+// Top-level comments on a task, oldest first, each with its replies
+export const getCommentThreads = (comments: CommentRow[], taskId: string): CommentThread[] => {
+  const taskComments = comments.filter(comment => comment.task_id === taskId);
+
+  return taskComments
+    .filter(comment => !comment.parent_id)
+    .map(comment => ({
+      comment,
+      replies: taskComments.filter(reply => reply.parent_id === comment.id)
+    }));
+};
+
+// Comments and replies on a task
+export const countTaskComments = (comments: Pick<CommentRow, 'task_id'>[], taskId: string) =>
+  comments.filter(comment => comment.task_id === taskId).length;
+
+export const isCommentEdited = (comment: Pick<CommentRow, 'created_at' | 'updated_at'>) =>
+  comment.updated_at > comment.created_at;
+
+// The "@name" being typed right before the caret, if any: where its "@" is and the part
+// of the name typed so far
+export const getMentionQuery = (text: string, caret: number): { start: number; query: string } | null => {
+  const match = /(^|\s)@([\w.-]*)$/.exec(text.slice(0, caret));
+  return match ? { start: caret - match[2].length - 1, query: match[2] } : null;
+};
+
+// Completes the mention starting at start with a username, moving the caret past it
+export const completeMention = (text: string, caret: number, start: number, username: string) => {
+  const mention = `@${username} `;
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret),
+    caret: start + mention.length
+  };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Makes @mentions of the given usernames bold in a markdown comment body
+export const highlightMentions = (body: string, usernames: string[]) => {
+  if (usernames.length === 0) return body;
+
+  const names = usernames.map(escapeRegExp).join('|');
+  return body.replace(new RegExp(`(^|\\s)@(${names})(?=$|[\\s.,;:!?)])`, 'g'), '$1**@$2**');
+};
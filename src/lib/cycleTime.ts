@@ -0,0 +1,62 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { TaskRow } from '@/data';
+
+// Percentiles the report marks on the chart and summarises in cards
+export const FLOW_TIME_PERCENTILES = [50, 85, 95];
+
+export type FlowTimeMetric = 'lead' | 'cycle';
+
+export interface TaskFlowTime {
+  taskId: string;
+  title: string;
+  priority: string | null;
+  assignee: string | null;
+  storyPoints: number | null;
+  completedAt: string;
+  // Completion day as a timestamp, so the chart can place tasks on a time axis
+  completedTime: number;
+  formattedDate: string;
+  // Days from creation to completion
+  leadTime: number | null;
+  // Days from the first move to in-progress to completion
+  cycleTime: number | null;
+}
+
+// completion_date is a plain date, so count calendar days from the day the task started;
+// a task finished the day it started took 0 days
+const daysBetween = (from: string | null, to: string): number | null => {
+  if (!from) return null;
+  const days = differenceInCalendarDays(parseISO(to), parseISO(from));
+  // Clock skew or backfilled dates can put the start after the end
+  return days < 0 ? null : days;
+};
+
+// Lead and cycle time of every done task, oldest completion first. Tasks finished before
+// started_at was tracked have a lead time but no cycle time.
+export const getTaskFlowTimes = (tasks: TaskRow[]): TaskFlowTime[] =>
+  tasks
+    .filter(task => task.status === 'done' && task.completion_date)
+    .map(task => {
+      const completedAt = parseISO(task.completion_date);
+      return {
+        taskId: task.id,
+        title: task.title,
+        priority: task.priority,
+        assignee: task.assign_to,
+        storyPoints: task.story_points,
+        completedAt: task.completion_date,
+        completedTime: completedAt.getTime(),
+        formattedDate: format(completedAt, 'MMM dd'),
+        leadTime: daysBetween(task.created_at, task.completion_date),
+        cycleTime: daysBetween(task.started_at, task.completion_date)
+      };
+    })
+    .sort((a, b) => a.completedTime - b.completedTime);
+
+// Nearest-rank percentile: the smallest value at least p% of the values are at or below
+export const percentile = (values: number[], p: number): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+};
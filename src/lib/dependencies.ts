@@ -0,0 +1,31 @@
+import type { DependencyRow } from '@/data';
+
+type DependencyLink = Pick<DependencyRow, 'blocking_task_id' | 'blocked_task_id'>;
+
+// Whether making blockingId block blockedId closes a loop: that is, blockedId already
+// blocks blockingId, directly or through other tasks. A task blocking itself counts too.
+export const wouldCreateCycle = (dependencies: DependencyLink[], blockingId: string, blockedId: string) => {
+  const visited = new Set<string>();
+  const pending = [blockedId];
+
+  while (pending.length > 0) {
+    const taskId = pending.pop()!;
+    if (taskId === blockingId) return true;
+    if (visited.has(taskId)) continue;
+    visited.add(taskId);
+
+    dependencies
+      .filter(dependency => dependency.blocking_task_id === taskId)
+      .forEach(dependency => pending.push(dependency.blocked_task_id));
+  }
+
+  return false;
+};
+
+// Ids of the tasks blocking the given one
+export const getBlockerIds = (dependencies: DependencyLink[], taskId: string) =>
+  dependencies.filter(dependency => dependency.blocked_task_id === taskId).map(dependency => dependency.blocking_task_id);
+
+// Ids of the tasks the given one blocks
+export const getBlockedIds = (dependencies: DependencyLink[], taskId: string) =>
+  dependencies.filter(dependency => dependency.blocking_task_id === taskId).map(dependency => dependency.blocked_task_id);
@@ -0,0 +1,61 @@
+import { Sprint, Task } from '@/types';
+
+// Colors offered when creating an epic
+export const EPIC_COLORS = ['#6366f1', '#0ea5e9', '#10b981', '#f59e0b', '#ef4444', '#ec4899', '#8b5cf6', '#64748b'];
+
+// Epic filter values besides an epic id
+export const ALL_EPICS = 'all';
+export const NO_EPIC = 'none';
+
+export const matchesEpicFilter = (epicId: string | null | undefined, filter: string) =>
+  filter === ALL_EPICS || (filter === NO_EPIC ? !epicId : epicId === filter);
+
+export interface EpicSprintProgress {
+  // null for the part of the epic still in the backlog
+  sprintId: string | null;
+  title: string;
+  totalPoints: number;
+  donePoints: number;
+}
+
+export interface EpicProgress {
+  totalPoints: number;
+  donePoints: number;
+  totalTasks: number;
+  doneTasks: number;
+  // Where the epic's points sit: its sprints in start order, then the backlog
+  sprints: EpicSprintProgress[];
+}
+
+const sumPoints = (tasks: Task[]) => tasks.reduce((sum, task) => sum + (task.storyPoints || 0), 0);
+
+// Points and tasks of an epic done so far, overall and per sprint
+export const getEpicProgress = (epicId: string, tasks: Task[], sprints: Sprint[]): EpicProgress => {
+  const epicTasks = tasks.filter(task => task.epicId === epicId);
+  const doneTasks = epicTasks.filter(task => task.status === 'done');
+
+  const toProgress = (sprintId: string | null, title: string, sprintTasks: Task[]): EpicSprintProgress => ({
+    sprintId,
+    title,
+    totalPoints: sumPoints(sprintTasks),
+    donePoints: sumPoints(sprintTasks.filter(task => task.status === 'done'))
+  });
+
+  const sprintProgress = [...sprints]
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .filter(sprint => epicTasks.some(task => task.sprintId === sprint.id))
+    .map(sprint => toProgress(sprint.id, sprint.title, epicTasks.filter(task => task.sprintId === sprint.id)));
+
+  const backlogTasks = epicTasks.filter(task => !task.sprintId);
+  if (backlogTasks.length > 0) {
+    sprintProgress.push(toProgress(null, 'Backlog', backlogTasks));
+  }
+
+  return {
+    totalPoints: sumPoints(epicTasks),
+    donePoints: sumPoints(doneTasks),
+    totalTasks: epicTasks.length,
+    doneTasks: doneTasks.length,
+    sprints: sprintProgress
+  };
+};
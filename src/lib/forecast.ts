@@ -0,0 +1,109 @@
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import type { SprintVelocity } from '@/lib/velocity';
+
+// Simulated futures per forecast; enough for stable percentiles without slowing the page
+export const FORECAST_TRIALS = 10000;
+
+// Confidence levels the forecast reports a completion date for
+export const FORECAST_CONFIDENCES = [50, 85, 95];
+
+// A trial that needs more sprints than this is counted as not finishing
+export const MAX_FORECAST_SPRINTS = 100;
+
+export interface ForecastOutcome {
+  sprints: number;
+  // Share of trials that needed exactly this many sprints
+  probability: number;
+  // Share of trials that finished within this many sprints
+  cumulativeProbability: number;
+  completionDate: Date;
+}
+
+export interface BacklogForecast {
+  trials: number;
+  outcomes: ForecastOutcome[];
+  // Sprints needed at each confidence level, or null if too few trials finished
+  confidences: { confidence: number; sprints: number | null; completionDate: Date | null }[];
+}
+
+// Sprints needed to burn through the remaining points in each trial. Every simulated sprint
+// delivers the velocity of a completed sprint picked at random, so the spread of the
+// forecast follows the spread of the team's history.
+export const simulateSprintsNeeded = (
+  remainingPoints: number,
+  velocities: number[],
+  trials = FORECAST_TRIALS,
+  random: () => number = Math.random
+): number[] => {
+  if (remainingPoints <= 0) return new Array(trials).fill(0);
+  if (!velocities.some(velocity => velocity > 0)) return new Array(trials).fill(Infinity);
+
+  const results: number[] = [];
+  for (let trial = 0; trial < trials; trial++) {
+    let delivered = 0;
+    let sprints = 0;
+    while (delivered < remainingPoints && sprints < MAX_FORECAST_SPRINTS) {
+      delivered += velocities[Math.floor(random() * velocities.length)];
+      sprints++;
+    }
+    results.push(delivered >= remainingPoints ? sprints : Infinity);
+  }
+  return results;
+};
+
+// Average length of the sampled sprints in calendar days, both ends included
+export const averageSprintLength = (velocities: SprintVelocity[]) => {
+  if (velocities.length === 0) return null;
+  const total = velocities.reduce(
+    (sum, sprint) => sum + differenceInCalendarDays(parseISO(sprint.endDate), parseISO(sprint.startDate)) + 1,
+    0
+  );
+  return Math.max(1, Math.round(total / velocities.length));
+};
+
+// Probability of finishing after each number of sprints, with the date each would end on.
+// Simulated sprints follow each other back to back from `start`.
+export const forecastBacklogCompletion = (
+  remainingPoints: number,
+  velocities: SprintVelocity[],
+  start: Date,
+  trials = FORECAST_TRIALS
+): BacklogForecast | null => {
+  const sprintLength = averageSprintLength(velocities);
+  if (sprintLength === null) return null;
+
+  const results = simulateSprintsNeeded(
+    remainingPoints,
+    velocities.map(velocity => velocity.deliveredPoints),
+    trials
+  );
+  const completionDate = (sprints: number) =>
+    sprints === 0 ? start : addDays(start, sprints * sprintLength - 1);
+
+  const counts = new Map<number, number>();
+  results.filter(Number.isFinite).forEach(sprints => counts.set(sprints, (counts.get(sprints) || 0) + 1));
+
+  let finished = 0;
+  const outcomes = [...counts.keys()]
+    .sort((a, b) => a - b)
+    .map(sprints => {
+      finished += counts.get(sprints);
+      return {
+        sprints,
+        probability: counts.get(sprints) / trials,
+        cumulativeProbability: finished / trials,
+        completionDate: completionDate(sprints)
+      };
+    });
+
+  const confidences = FORECAST_CONFIDENCES.map(confidence => {
+    const outcome = outcomes.find(o => o.cumulativeProbability * 100 >= confidence);
+    return {
+      confidence,
+      sprints: outcome ? outcome.sprints : null,
+      completionDate: outcome ? outcome.completionDate : null
+    };
+  });
+
+  return { trials, outcomes, confidences };
+};
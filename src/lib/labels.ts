@@ -0,0 +1,20 @@
+import type { LabelRow, TaskLabelRow } from '@/data';
+
+// Colors offered when creating a label
+export const LABEL_COLORS = ['#64748b', '#ef4444', '#f97316', '#eab308', '#10b981', '#0ea5e9', '#6366f1', '#ec4899'];
+
+// Label filter value that matches every task
+export const ALL_LABELS = 'all';
+
+// Ids of the labels a task carries
+export const getTaskLabelIds = (taskLabels: Pick<TaskLabelRow, 'task_id' | 'label_id'>[], taskId: string) =>
+  taskLabels.filter(row => row.task_id === taskId).map(row => row.label_id);
+
+// The labels a task carries, in the project's label order
+export const getTaskLabels = (labels: LabelRow[], taskLabels: Pick<TaskLabelRow, 'task_id' | 'label_id'>[], taskId: string) => {
+  const labelIds = getTaskLabelIds(taskLabels, taskId);
+  return labels.filter(label => labelIds.includes(label.id));
+};
+
+export const matchesLabelFilter = (labelIds: string[], filter: string) =>
+  filter === ALL_LABELS || labelIds.includes(filter);
@@ -0,0 +1,48 @@
+import { Project, ProjectRole } from '@/types';
+
+// The project owner is not a collaborator row, but gets a column in the matrix of its own
+export type ProjectAccessRole = ProjectRole | 'owner';
+
+export type ProjectAction =
+  | 'project.edit'      // title, description, end goal, working days and days off
+  | 'project.delete'
+  | 'team.manage'       // invite collaborators, change their roles, remove them
+  | 'backlog.view'
+  | 'backlog.manage'    // create, edit and delete backlog items and epics
+  | 'backlog.plan'      // move backlog items into a sprint
+  | 'sprint.manage'     // create, edit, complete and delete sprints, set team availability
+  | 'board.configure'   // add, rename, reorder and delete board columns
+  | 'task.move'         // drag sprint tasks between board columns
+  | 'task.edit';        // edit sprint tasks
+
+// Who may do what in a project. The database enforces the same matrix through
+// public.project_permissions and public.user_can(); change both together.
+export const PERMISSION_MATRIX: Record<ProjectAction, ProjectAccessRole[]> = {
+  'project.edit': ['owner', 'scrum_master'],
+  'project.delete': ['owner'],
+  'team.manage': ['owner'],
+  'backlog.view': ['owner', 'scrum_master', 'team_member', 'product_owner'],
+  'backlog.manage': ['owner', 'product_owner'],
+  'backlog.plan': ['owner', 'scrum_master'],
+  'sprint.manage': ['owner', 'scrum_master'],
+  'board.configure': ['owner', 'scrum_master'],
+  'task.move': ['owner', 'scrum_master', 'team_member'],
+  'task.edit': ['owner', 'scrum_master', 'team_member']
+};
+
+export const ROLE_LABELS: Record<ProjectAccessRole, string> = {
+  owner: 'Owner',
+  product_owner: 'Product Owner',
+  team_member: 'Team Member',
+  scrum_master: 'Scrum Master'
+};
+
+// The signed-in user's role in a project, or null without access
+export const getProjectRole = (project: Project | undefined, userId: string | undefined): ProjectAccessRole | null => {
+  if (!project || !userId) return null;
+  if (project.ownerId === userId) return 'owner';
+  return project.role || null;
+};
+
+export const can = (role: ProjectAccessRole | null, action: ProjectAction) =>
+  !!role && PERMISSION_MATRIX[action].includes(role);
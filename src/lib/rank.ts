@@ -0,0 +1,56 @@
+// Fractional ranks order tasks in board columns and the backlog. A rank is a string of
+// base-36 digits read as a fraction (0.xyz), so a task can always get a rank between
+// its two neighbours and moving one card never renumbers the others. Ranks never end
+// in "0", which keeps a gap open below every rank.
+// The database assigns the same ranks to new tasks (see public.next_task_rank); change both together.
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+const midpoint = (lower: string, upper: string | null): string => {
+  // Keep the prefix both ranks share
+  if (upper !== null) {
+    let prefixLength = 0;
+    while ((lower[prefixLength] || '0') === upper[prefixLength]) {
+      prefixLength++;
+    }
+    if (prefixLength > 0) {
+      return upper.slice(0, prefixLength) + midpoint(lower.slice(prefixLength), upper.slice(prefixLength));
+    }
+  }
+
+  const lowerDigit = lower ? DIGITS.indexOf(lower[0]) : 0;
+  const upperDigit = upper !== null ? DIGITS.indexOf(upper[0]) : DIGITS.length;
+
+  if (upperDigit - lowerDigit > 1) {
+    // At either end of the list step by one digit, so adding to the top or bottom keeps ranks short
+    if (upper === null) return lower ? DIGITS[lowerDigit + 1] : DIGITS[DIGITS.length / 2];
+    if (!lower) return DIGITS[upperDigit - 1];
+    return DIGITS[Math.round((lowerDigit + upperDigit) / 2)];
+  }
+
+  // Adjacent digits: take the upper one if that is still below upper, otherwise go one digit deeper
+  if (upper !== null && upper.length > 1) {
+    return upper.slice(0, 1);
+  }
+  return DIGITS[lowerDigit] + midpoint(lower.slice(1), null);
+};
+
+// A rank between two neighbours; leave a side empty at the start or end of the list
+export const rankBetween = (before?: string | null, after?: string | null): string => {
+  const lower = before || '';
+  // Neighbours out of order (e.g. two teammates ranked the same spot) fall back to "after before"
+  const upper = after && after > lower ? after : null;
+  return midpoint(lower, upper);
+};
+
+// Orders rows by rank. Rows without one (created before ranking existed) go last, oldest first.
+export const compareByRank = (
+  a: { rank?: string | null; created_at?: string | null },
+  b: { rank?: string | null; created_at?: string | null }
+) => {
+  if (a.rank && b.rank) {
+    if (a.rank !== b.rank) return a.rank < b.rank ? -1 : 1;
+  } else if (a.rank || b.rank) {
+    return a.rank ? -1 : 1;
+  }
+  return (a.created_at || '').localeCompare(b.created_at || '');
+};
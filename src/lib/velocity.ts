@@ -0,0 +1,89 @@
+import type { SprintCompletionRow, SprintRow, TaskRow } from '@/data';
+import { countWorkingDays, DEFAULT_CALENDAR, WorkingCalendar } from '@/lib/calendar';
+
+// How many recent sprints the velocity average looks at unless told otherwise
+export const DEFAULT_VELOCITY_WINDOW = 3;
+
+// Windows offered wherever the team picks how much history to average over
+export const VELOCITY_WINDOWS = [3, 5, 10];
+
+export interface SprintVelocity {
+  sprintId: string;
+  title: string;
+  startDate: string;
+  endDate: string;
+  committedPoints: number;
+  deliveredPoints: number;
+}
+
+const sumPoints = (tasks: TaskRow[]) => tasks.reduce((sum, task) => sum + (task.story_points || 0), 0);
+
+// Committed and delivered points of every completed sprint, oldest first. Sprints completed
+// before completion records existed fall back to the tasks still assigned to them.
+export const getSprintVelocities = (
+  sprints: SprintRow[],
+  completions: SprintCompletionRow[],
+  tasks: TaskRow[]
+): SprintVelocity[] =>
+  sprints
+    .filter(sprint => sprint.status === 'completed')
+    .sort((a, b) => a.end_date.localeCompare(b.end_date))
+    .map(sprint => {
+      const completion = completions.find(c => c.sprint_id === sprint.id);
+      const sprintTasks = tasks.filter(task => task.sprint_id === sprint.id);
+
+      return {
+        sprintId: sprint.id,
+        title: sprint.title,
+        startDate: sprint.start_date,
+        endDate: sprint.end_date,
+        committedPoints: completion ? completion.committed_points : sumPoints(sprintTasks),
+        deliveredPoints: completion
+          ? completion.delivered_points
+          : sumPoints(sprintTasks.filter(task => task.status === 'done'))
+      };
+    });
+
+// Average delivered points over the last `window` completed sprints, or null without history
+export const averageVelocity = (velocities: SprintVelocity[], window = DEFAULT_VELOCITY_WINDOW) => {
+  const recent = velocities.slice(-window);
+  if (recent.length === 0) return null;
+  return recent.reduce((sum, sprint) => sum + sprint.deliveredPoints, 0) / recent.length;
+};
+
+// Sample standard deviation of delivered points over the last `window` completed sprints,
+// or null until there are two sprints to compare
+export const velocityStandardDeviation = (velocities: SprintVelocity[], window = DEFAULT_VELOCITY_WINDOW) => {
+  const recent = velocities.slice(-window);
+  if (recent.length < 2) return null;
+
+  const average = averageVelocity(recent, recent.length);
+  const variance = recent.reduce((sum, sprint) => sum + (sprint.deliveredPoints - average) ** 2, 0) / (recent.length - 1);
+  return Math.sqrt(variance);
+};
+
+// Each sprint's velocity next to the average of the `window` sprints up to and including it
+export const getRollingVelocities = (velocities: SprintVelocity[], window = DEFAULT_VELOCITY_WINDOW) =>
+  velocities.map((velocity, index) => ({
+    ...velocity,
+    rollingAverage: averageVelocity(velocities.slice(0, index + 1), window)
+  }));
+
+// Points to commit to: the recent average velocity, scaled by how many working days this
+// sprint has compared to the sprints the average came from
+export const suggestCommitment = (
+  velocities: SprintVelocity[],
+  sprint: Pick<SprintRow, 'start_date' | 'end_date'>,
+  window = DEFAULT_VELOCITY_WINDOW,
+  calendar: WorkingCalendar = DEFAULT_CALENDAR
+) => {
+  const average = averageVelocity(velocities, window);
+  if (average === null) return null;
+
+  const recent = velocities.slice(-window);
+  const averageDays = recent.reduce((sum, v) => sum + countWorkingDays(v.startDate, v.endDate, calendar), 0) / recent.length;
+  const sprintDays = countWorkingDays(sprint.start_date, sprint.end_date, calendar);
+
+  if (!averageDays || !sprintDays) return Math.round(average);
+  return Math.round(average * (sprintDays / averageDays));
+};
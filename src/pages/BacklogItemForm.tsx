@@ -1,5 +1,6 @@
 
 import React, { useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
@@ -24,14 +25,21 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
-import { supabase } from "@/lib/supabase";
+import { repository } from "@/data";
 import { useAuth } from "@/context/AuthContext";
+import { useEpics } from "@/hooks/use-epics";
+import { NO_EPIC } from "@/lib/epics";
+import { useLabels, useTaskLabels } from "@/hooks/use-labels";
+import { projectQueryKeys } from "@/hooks/use-project-queries";
+import { getTaskLabelIds } from "@/lib/labels";
+import LabelPicker from "@/components/labels/LabelPicker";
 
 const formSchema = z.object({
   title: z.string().min(3, "Title must be at least 3 characters"),
   description: z.string().min(10, "Description must be at least 10 characters"),
   priority: z.enum(["low", "medium", "high"]),
   storyPoints: z.coerce.number().min(1, "At least 1 story point is required").max(100),
+  epicId: z.string(),
 });
 
 interface BacklogItemFormProps {
@@ -43,7 +51,13 @@ interface BacklogItemFormProps {
 const BacklogItemForm: React.FC<BacklogItemFormProps> = ({ taskId, onClose, projectId }) => {
   const { getTask, addTask, updateTask } = useProjects();
   const { user } = useAuth();
+  const { data: epics = [] } = useEpics(projectId);
+  const { data: labels = [] } = useLabels(projectId);
+  const { data: taskLabels } = useTaskLabels(projectId);
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(false);
+  const [labelIds, setLabelIds] = useState<string[]>([]);
+  const [areLabelsLoaded, setAreLabelsLoaded] = useState(false);
   const isEditMode = !!taskId;
   
   // Initialize form with default values
@@ -54,6 +68,7 @@ const BacklogItemForm: React.FC<BacklogItemFormProps> = ({ taskId, onClose, proj
       description: "",
       priority: "medium",
       storyPoints: 1,
+      epicId: NO_EPIC,
     },
   });
 
@@ -67,18 +82,13 @@ const BacklogItemForm: React.FC<BacklogItemFormProps> = ({ taskId, onClose, proj
           description: taskToEdit.description || "",
           priority: (taskToEdit.priority as "low" | "medium" | "high") || "medium",
           storyPoints: taskToEdit.storyPoints || 1,
+          epicId: taskToEdit.epicId || NO_EPIC,
         });
       } else {
         // If task not found in context, try fetching directly
         const fetchTask = async () => {
           try {
-            const { data, error } = await supabase
-              .from('tasks')
-              .select('*')
-              .eq('id', taskId)
-              .single();
-              
-            if (error) throw error;
+            const data = await repository.tasks.get(taskId);
             
             if (data) {
               form.reset({
@@ -86,6 +96,7 @@ const BacklogItemForm: React.FC<BacklogItemFormProps> = ({ taskId, onClose, proj
                 description: data.description || "",
                 priority: (data.priority as "low" | "medium" | "high") || "medium",
                 storyPoints: data.story_points || 1,
+                epicId: data.epic_id || NO_EPIC,
               });
             }
           } catch (error) {
@@ -99,8 +110,22 @@ const BacklogItemForm: React.FC<BacklogItemFormProps> = ({ taskId, onClose, proj
     }
   }, [taskId, getTask, form, isEditMode]);
 
+  // Start from the item's labels once they are in, without undoing picks made since
+  useEffect(() => {
+    if (!taskId || !taskLabels || areLabelsLoaded) return;
+    setLabelIds(getTaskLabelIds(taskLabels, taskId));
+    setAreLabelsLoaded(true);
+  }, [taskId, taskLabels, areLabelsLoaded]);
+
+  const saveLabels = async (savedTaskId: string) => {
+    if (!projectId) return;
+    await repository.taskLabels.set(projectId, savedTaskId, labelIds);
+    queryClient.invalidateQueries({ queryKey: projectQueryKeys.taskLabels(projectId) });
+  };
+
   const onSubmit = async (data: z.infer<typeof formSchema>) => {
     setLoading(true);
+    const epicId = data.epicId === NO_EPIC ? null : data.epicId;
     
     try {
       if (!user) {
@@ -115,7 +140,9 @@ const BacklogItemForm: React.FC<BacklogItemFormProps> = ({ taskId, onClose, proj
           description: data.description,
           priority: data.priority,
           storyPoints: data.storyPoints,
+          epicId,
         });
+        await saveLabels(taskId);
         toast.success("Backlog item updated successfully");
       } else {
         // Create new task
@@ -125,8 +152,9 @@ const BacklogItemForm: React.FC<BacklogItemFormProps> = ({ taskId, onClose, proj
         }
         
         // Prefer the context method first
+        let newTaskId: string;
         try {
-          await addTask({
+          const newTask = await addTask({
             title: data.title,
             description: data.description,
             status: "backlog",
@@ -134,31 +162,29 @@ const BacklogItemForm: React.FC<BacklogItemFormProps> = ({ taskId, onClose, proj
             priority: data.priority,
             storyPoints: data.storyPoints,
             sprintId: "",
+            epicId,
           });
-          toast.success("Backlog item created successfully");
+          newTaskId = newTask.id;
         } catch (contextError) {
           console.error("Context error:", contextError);
           
-          // Fallback to direct Supabase insert if context method fails
-          const { error } = await supabase
-            .from('tasks')
-            .insert([{
-              title: data.title,
-              description: data.description,
-              status: "backlog",
-              sprint_id: null,
-              project_id: projectId,
-              priority: data.priority,
-              story_points: data.storyPoints,
-              user_id: user.id
-            }]);
-            
-          if (error) {
-            throw error;
-          } else {
-            toast.success("Backlog item created successfully");
-          }
+          // Fallback to a direct insert if context method fails
+          const newTask = await repository.tasks.create({
+            title: data.title,
+            description: data.description,
+            status: "backlog",
+            sprint_id: null,
+            project_id: projectId,
+            priority: data.priority,
+            story_points: data.storyPoints,
+            epic_id: epicId,
+            user_id: user.id
+          });
+          newTaskId = newTask.id;
         }
+        
+        await saveLabels(newTaskId);
+        toast.success("Backlog item created successfully");
       }
       
       onClose();
@@ -263,6 +289,35 @@ const BacklogItemForm: React.FC<BacklogItemFormProps> = ({ taskId, onClose, proj
               />
             </div>
 
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Labels</span>
+              <LabelPicker labels={labels} value={labelIds} onChange={setLabelIds} disabled={loading} />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="epicId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Epic</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select epic" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_EPIC}>No epic</SelectItem>
+                      {epics.map(epic => (
+                        <SelectItem key={epic.id} value={epic.id}>{epic.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="flex justify-end space-x-2 pt-4">
               <Button type="button" variant="outline" onClick={onClose} disabled={loading}>
                 Cancel
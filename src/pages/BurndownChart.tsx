@@ -1,9 +1,7 @@
-
-import React, { useEffect, useState, useRef } from "react";
+import React, { useEffect, useState } from "react";
 import { useParams } from "react-router-dom";
 import { useProjects } from "@/context/ProjectContext";
-import { useAuth } from "@/context/AuthContext";
-import { supabase, fetchBurndownData, upsertBurndownData } from "@/lib/supabase";
+import { useWorkingCalendar } from "@/hooks/use-working-calendar";
 import {
   LineChart,
   Line,
@@ -12,295 +10,135 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
-  ResponsiveContainer,
   ReferenceLine,
-  TooltipProps,
+  ReferenceDot,
 } from "recharts";
-import { format, parseISO, startOfDay, addDays, isBefore, isAfter, isToday, differenceInDays } from "date-fns";
+import { format, parseISO, startOfDay } from "date-fns";
 import { toast } from "sonner";
-import { Task, Sprint } from "@/types";
+import { repository, ScopeChangeRow } from "@/data";
+import { fetchBurndownData } from "@/lib/supabase";
+import { BurndownData } from "@/types";
+import { buildSprintBurndown, scopeChangeDay } from "@/lib/burndown";
+import { buildProjectBurnup, buildSprintBurnup } from "@/lib/burnup";
+import BurnupChart from "@/components/charts/BurnupChart";
 import { ChartContainer, ChartTooltipContent, ChartLegendContent } from "@/components/ui/chart";
 import { Skeleton } from "@/components/ui/skeleton";
 
-interface BurndownDataPoint {
-  date: string;
-  ideal: number;
-  actual: number | null;
-  formattedDate: string;
-}
+const SCOPE_CHANGE_LABELS: Record<string, string> = {
+  added: "Added",
+  removed: "Removed",
+  "re-estimated": "Re-estimated"
+};
+
+const formatDelta = (points: number) => (points > 0 ? `+${points}` : `${points}`);
+
+type ChartType = "burndown" | "burnup";
+type BurnupRange = "sprint" | "project";
 
 const BurndownChart: React.FC = () => {
   const { projectId } = useParams<{ projectId: string }>();
-  const { getProject, getTasksBySprint, getSprintsByProject, tasks, sprints } = useProjects();
-  const { user } = useAuth();
-  const [chartData, setChartData] = useState<BurndownDataPoint[]>([]);
+  const { getProject, getTasksBySprint, getSprintsByProject, tasks } = useProjects();
+  const [chartType, setChartType] = useState<ChartType>("burndown");
+  const [burnupRange, setBurnupRange] = useState<BurnupRange>("sprint");
+  const [selectedSprintId, setSelectedSprintId] = useState("");
+  const [scopeChanges, setScopeChanges] = useState<ScopeChangeRow[]>([]);
+  const [snapshots, setSnapshots] = useState<BurndownData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [isUpdating, setIsUpdating] = useState(false);
-  const [lastTasksLength, setLastTasksLength] = useState(0);
-  const [lastSprintsLength, setLastSprintsLength] = useState(0);
-  const dataFetchedRef = useRef(false);
-  const loadingTimeoutRef = useRef<number | null>(null);
-  
+  const calendar = useWorkingCalendar(projectId);
+
   const project = getProject(projectId || "");
-  const projectSprints = projectId ? getSprintsByProject(projectId) : [];
-  
+  const projectSprints = (projectId ? getSprintsByProject(projectId) : [])
+    .slice()
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  // The sprint in progress, otherwise the latest one that has started, otherwise the first
+  const todayStr = format(startOfDay(new Date()), "yyyy-MM-dd");
+  const defaultSprint =
+    projectSprints.find(sprint => sprint.status === "in-progress") ||
+    projectSprints.filter(sprint => sprint.startDate <= todayStr).pop() ||
+    projectSprints[0];
+  const sprint = projectSprints.find(s => s.id === selectedSprintId) || defaultSprint;
+
+  const sprintId = sprint?.id;
+  const sprintTasks = sprintId ? getTasksBySprint(sprintId) : [];
+  // Scope changes are recorded by the backend whenever tasks move or are re-estimated,
+  // so they are read again whenever the sprint's points change
+  const scopeKey = sprintTasks.map(task => `${task.id}:${task.storyPoints || 0}`).join(",");
+
   useEffect(() => {
-    if (!projectId || !user) return;
-    
-    const loadBurndownData = async () => {
-      setIsLoading(true);
-      dataFetchedRef.current = false;
-      
+    if (!sprintId) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadScopeChanges = async () => {
       try {
-        const availableSprints = getSprintsByProject(projectId);
-        
-        if (availableSprints.length === 0) {
-          setIsLoading(false);
-          dataFetchedRef.current = true;
-          return;
-        }
-        
-        const existingData = await fetchBurndownData(projectId, user.id);
-        
-        if (existingData && existingData.length > 0) {
-          const formattedData = existingData.map(item => ({
-            ...item,
-            formattedDate: format(parseISO(item.date), "MMM dd")
-          }));
-          setChartData(formattedData);
-        } else {
-          await generateAndSaveBurndownData();
+        // Daily snapshots are captured by the backend; the chart only reads them
+        const [changes, sprintSnapshots] = await Promise.all([
+          repository.scopeChanges.list(sprintId),
+          fetchBurndownData(sprintId)
+        ]);
+        if (!cancelled) {
+          setScopeChanges(changes);
+          setSnapshots(sprintSnapshots);
         }
       } catch (error) {
-        console.error("Error loading burndown data:", error);
-        const availableSprints = getSprintsByProject(projectId);
-        if (availableSprints.length > 0) {
-          await generateAndSaveBurndownData();
-        }
+        console.error("Error loading sprint scope changes:", error);
+        toast.error("Failed to load scope changes for this sprint");
       } finally {
-        if (loadingTimeoutRef.current) window.clearTimeout(loadingTimeoutRef.current);
-        loadingTimeoutRef.current = window.setTimeout(() => {
-          setIsLoading(false);
-          dataFetchedRef.current = true;
-        }, 500);
+        if (!cancelled) setIsLoading(false);
       }
     };
-    
-    loadBurndownData();
-    
+
+    loadScopeChanges();
+
     return () => {
-      if (loadingTimeoutRef.current) {
-        window.clearTimeout(loadingTimeoutRef.current);
-      }
+      cancelled = true;
     };
-  }, [projectId, user, getSprintsByProject]);
-  
-  useEffect(() => {
-    if (!projectId || !user || isLoading || !dataFetchedRef.current) return;
-    
-    const projectSprints = getSprintsByProject(projectId);
-    if (projectSprints.length === 0) return;
-    
-    const currentTasksCount = tasks.filter(t => t.projectId === projectId).length;
-    const currentSprintsCount = projectSprints.length;
-    
-    const shouldUpdate = 
-      currentTasksCount !== lastTasksLength || 
-      currentSprintsCount !== lastSprintsLength;
-    
-    if (shouldUpdate && !isUpdating) {
-      const updateBurndownData = async () => {
-        try {
-          setIsUpdating(true);
-          await generateAndSaveBurndownData();
-          
-          setLastTasksLength(currentTasksCount);
-          setLastSprintsLength(currentSprintsCount);
-        } catch (error) {
-          console.error("Error updating burndown data:", error);
-        } finally {
-          setIsUpdating(false);
-        }
-      };
-      
-      updateBurndownData();
-    }
-  }, [tasks, sprints, projectId, user, isLoading, lastTasksLength, lastSprintsLength, isUpdating, getSprintsByProject]);
-  
-  const generateAndSaveBurndownData = async () => {
-    try {
-      if (!projectId || !user) return [];
-      
-      const burndownData = await generateBurndownData();
-      setChartData(burndownData);
-      
-      if (burndownData.length > 0) {
-        const saved = await upsertBurndownData(projectId, user.id, burndownData);
-        if (!saved) {
-          console.warn("Failed to save burndown data to database");
-        }
-      }
-      
-      return burndownData;
-    } catch (error) {
-      console.error("Error generating burndown data:", error);
-      toast.error("Failed to generate burndown chart data");
-      return [];
-    }
-  };
-  
-  const generateBurndownData = async (): Promise<BurndownDataPoint[]> => {
-    const data: BurndownDataPoint[] = [];
-    const today = startOfDay(new Date());
-    
-    const projectSprints = getSprintsByProject(projectId || "");
-    
-    if (projectSprints.length === 0) {
-      return [];
-    }
-    
-    const projectTasks: Task[] = [];
-    for (const sprint of projectSprints) {
-      const sprintTasks = getTasksBySprint(sprint.id);
-      projectTasks.push(...sprintTasks);
-    }
-    
-    const tasksWithPoints = projectTasks.filter(task => 
-      task.storyPoints !== undefined && task.storyPoints > 0
-    );
-    
-    if (tasksWithPoints.length === 0) {
-      return [];
-    }
-    
-    let earliestStartDate: Date | null = null;
-    let latestEndDate: Date | null = null;
-    
-    for (const sprint of projectSprints) {
-      const startDate = parseISO(sprint.startDate);
-      const endDate = parseISO(sprint.endDate);
-      
-      if (!earliestStartDate || isBefore(startDate, earliestStartDate)) {
-        earliestStartDate = startDate;
-      }
-      
-      if (!latestEndDate || isAfter(endDate, latestEndDate)) {
-        latestEndDate = endDate;
-      }
-    }
-    
-    if (!earliestStartDate || !latestEndDate) {
-      return [];
-    }
-    
-    const daysInProject = differenceInDays(latestEndDate, earliestStartDate) + 1;
-    const timeframeDays = Math.max(daysInProject, 7);
-    
-    const totalStoryPoints = tasksWithPoints.reduce((sum, task) => 
-      sum + (task.storyPoints || 0), 0
-    );
-    
-    if (totalStoryPoints === 0) {
-      return [];
-    }
-    
-    const completedTasksByDate = new Map<string, Task[]>();
-    tasksWithPoints.forEach(task => {
-      if (task.status === 'done' && task.completionDate) {
-        const dateKey = task.completionDate.split('T')[0];
-        if (!completedTasksByDate.has(dateKey)) {
-          completedTasksByDate.set(dateKey, []);
-        }
-        const tasks = completedTasksByDate.get(dateKey);
-        if (tasks) {
-          tasks.push(task);
-        }
-      }
-    });
-    
-    const uniqueData = new Map<string, BurndownDataPoint>();
-    
-    let remainingPoints = totalStoryPoints;
-    const pointsPerDay = totalStoryPoints / timeframeDays;
-    
-    for (let i = 0; i < timeframeDays; i++) {
-      const date = addDays(earliestStartDate, i);
-      const dateStr = date.toISOString().split('T')[0];
-      const formattedDate = format(date, "MMM dd");
-      
-      const idealRemaining = Math.max(0, totalStoryPoints - (i * pointsPerDay));
-      
-      let actualPoints: number | null = null;
-      
-      if (isBefore(date, today) || isToday(date)) {
-        let completedPoints = 0;
-        
-        for (let j = 0; j <= i; j++) {
-          const checkDate = addDays(earliestStartDate, j);
-          const checkDateStr = checkDate.toISOString().split('T')[0];
-          
-          if (completedTasksByDate.has(checkDateStr)) {
-            const tasksCompletedOnDate = completedTasksByDate.get(checkDateStr) || [];
-            
-            for (const task of tasksCompletedOnDate) {
-              completedPoints += (task.storyPoints || 0);
-            }
-          }
-        }
-        
-        actualPoints = Math.max(0, totalStoryPoints - completedPoints);
-      }
-      
-      uniqueData.set(dateStr, {
-        date: dateStr,
-        ideal: Math.round(idealRemaining),
-        actual: actualPoints !== null ? Math.round(actualPoints) : null,
-        formattedDate
-      });
-    }
-    
-    return Array.from(uniqueData.values());
-  };
-  
-  const calculateTotalStoryPoints = (sprints: Sprint[]): number => {
-    let totalPoints = 0;
-    
-    for (const sprint of sprints) {
-      const sprintTasks = getTasksBySprint(sprint.id);
-      totalPoints += sprintTasks.reduce((sum, task) => {
-        return sum + (task.storyPoints || 0);
-      }, 0);
-    }
-    
-    return totalPoints;
-  };
-  
-  const groupCompletedSprintsByEndDate = (sprints: Sprint[]): Map<string, Sprint[]> => {
-    const sprintsByEndDate = new Map<string, Sprint[]>();
-    
-    for (const sprint of sprints) {
-      if (sprint.status === 'completed') {
-        const endDateStr = sprint.endDate.split('T')[0];
-        
-        if (!sprintsByEndDate.has(endDateStr)) {
-          sprintsByEndDate.set(endDateStr, []);
-        }
-        
-        const sprints = sprintsByEndDate.get(endDateStr);
-        if (sprints) {
-          sprints.push(sprint);
-        }
-      }
-    }
-    
-    return sprintsByEndDate;
+  }, [sprintId, scopeKey]);
+
+  const burndown = sprint ? buildSprintBurndown(sprint, sprintTasks, scopeChanges, new Date(), snapshots, calendar) : null;
+
+  const handleSprintChange = (id: string) => {
+    setIsLoading(true);
+    setScopeChanges([]);
+    setSnapshots([]);
+    setSelectedSprintId(id);
   };
-  
+
+  const toggleButton = (active: boolean, label: string, onClick: () => void) => (
+    <button
+      key={label}
+      onClick={onClick}
+      className={`${active ? "scrum-button" : "scrum-button-secondary"} text-sm px-3 py-1`}
+    >
+      {label}
+    </button>
+  );
+
+  const showsProject = chartType === "burnup" && burnupRange === "project";
+
+  const sprintSelector = (
+    <select
+      value={sprintId || ""}
+      onChange={(e) => handleSprintChange(e.target.value)}
+      className="scrum-input w-56"
+    >
+      {projectSprints.map(s => (
+        <option key={s.id} value={s.id}>
+          {s.title} ({s.status})
+        </option>
+      ))}
+    </select>
+  );
+
   if (isLoading) {
     return (
       <div className="animate-fade-in">
         <div className="scrum-card mb-6">
-          <h2 className="text-xl font-bold mb-2">Project Burndown Chart</h2>
+          <h2 className="text-xl font-bold mb-2">Sprint Burndown Chart</h2>
           <p className="text-scrum-text-secondary">
             Loading chart data...
           </p>
@@ -376,32 +214,99 @@ const BurndownChart: React.FC = () => {
   if (projectSprints.length === 0) {
     return (
       <div className="text-center py-12 bg-scrum-card border border-scrum-border rounded-lg animate-fade-in">
-        <h2 className="text-xl font-bold mb-4">Project Burndown Chart</h2>
+        <h2 className="text-xl font-bold mb-4">Sprint Burndown Chart</h2>
         <p className="text-scrum-text-secondary mb-4">
           No sprints available. Create sprints to view the burndown chart.
         </p>
       </div>
     );
   }
-  
-  if (chartData.length === 0) {
-    return (
-      <div className="text-center py-12 bg-scrum-card border border-scrum-border rounded-lg animate-fade-in">
-        <h2 className="text-xl font-bold mb-4">Project Burndown Chart</h2>
-        <p className="text-scrum-text-secondary mb-4">
-          Unable to generate burndown chart. Make sure your sprints have tasks with story points.
+
+  const header = (
+    <div className="scrum-card mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+      <div>
+        <h2 className="text-xl font-bold mb-2">
+          {showsProject ? "Project Burnup Chart" : chartType === "burnup" ? "Sprint Burnup Chart" : "Sprint Burndown Chart"}
+        </h2>
+        <p className="text-scrum-text-secondary">
+          {showsProject
+            ? `Completed work against total scope across ${project?.title || "this project"}, backlog included`
+            : `${sprint.title} in ${project?.title || "this project"}, ${format(parseISO(sprint.startDate), "MMM dd")} to ${format(parseISO(sprint.endDate), "MMM dd")}`}
         </p>
       </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {toggleButton(chartType === "burndown", "Burndown", () => setChartType("burndown"))}
+        {toggleButton(chartType === "burnup", "Burnup", () => setChartType("burnup"))}
+        {chartType === "burnup" && (
+          <>
+            <span className="mx-1 h-6 border-l border-scrum-border" />
+            {toggleButton(burnupRange === "sprint", "Sprint", () => setBurnupRange("sprint"))}
+            {toggleButton(burnupRange === "project", "Project", () => setBurnupRange("project"))}
+          </>
+        )}
+        {!showsProject && sprintSelector}
+      </div>
+    </div>
+  );
+
+  if (chartType === "burnup") {
+    const burnup = showsProject
+      ? buildProjectBurnup(projectSprints, tasks.filter(task => task.projectId === projectId))
+      : buildSprintBurnup(sprint, sprintTasks, scopeChanges, new Date(), snapshots);
+
+    return (
+      <div className="animate-fade-in">
+        {header}
+
+        {burnup.points.length === 0 || burnup.scopePoints === 0 ? (
+          <div className="text-center py-12 bg-scrum-card border border-scrum-border rounded-lg">
+            <p className="text-scrum-text-secondary mb-4">
+              Unable to generate a burnup chart. Make sure {showsProject ? "the project" : "this sprint"} has tasks with story points.
+            </p>
+          </div>
+        ) : (
+          <BurnupChart burnup={burnup} today={todayStr} />
+        )}
+
+        <div className="scrum-card mt-6 p-4">
+          <h3 className="text-lg font-medium mb-3">How to Read the Burnup Chart</h3>
+          <ul className="list-disc pl-5 space-y-2 text-sm text-scrum-text-secondary">
+            <li>
+              <strong>Total Scope</strong>: All story points {showsProject ? "in the project, backlog included" : "in the sprint"}. It steps up when work is added and down when it is removed.
+            </li>
+            <li>
+              <strong>Completed</strong>: Story points of tasks done by each day, based on their completion date.
+            </li>
+            <li>
+              <strong>Projected</strong>: Continues the completed line at the average daily rate so far. Where it meets the scope line is the projected completion date.
+            </li>
+            <li>
+              A gap that keeps growing between the two lines means scope is being added faster than work is finished.
+            </li>
+          </ul>
+        </div>
+      </div>
     );
   }
-  
-  const today = startOfDay(new Date());
-  const todayStr = today.toISOString().split('T')[0];
-  const todayIndex = chartData.findIndex(d => d.date === todayStr);
-  const todayLabel = todayIndex >= 0 && chartData[todayIndex] 
-    ? chartData[todayIndex].formattedDate 
-    : format(today, "MMM dd");
-  
+
+  const chartData = burndown?.points || [];
+
+  if (chartData.length === 0 || (burndown.committedPoints === 0 && burndown.currentPoints === 0)) {
+    return (
+      <div className="animate-fade-in">
+        {header}
+        <div className="text-center py-12 bg-scrum-card border border-scrum-border rounded-lg">
+          <p className="text-scrum-text-secondary mb-4">
+            Unable to generate a burndown chart. Make sure this sprint has tasks with story points.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const todayPoint = chartData.find(d => d.date === todayStr);
+  const scopeChangePoints = chartData.filter(d => d.scopeChange !== null);
+
   const lastActualIndex = chartData.reduce((lastIdx, point, idx) => {
     return point.actual !== null ? idx : lastIdx;
   }, -1);
@@ -410,16 +315,28 @@ const BurndownChart: React.FC = () => {
     ideal: { color: "hsl(var(--scrum-chart-line-1))", label: "Ideal Burndown" },
     actual: { color: "hsl(var(--scrum-chart-line-2))", label: "Actual Burndown" }
   };
-  
+
   return (
     <div className="animate-fade-in">
-      <div className="scrum-card mb-6">
-        <h2 className="text-xl font-bold mb-2">Project Burndown Chart</h2>
-        <p className="text-scrum-text-secondary">
-          Tracking progress across all sprints in {project?.title || "this project"}
-        </p>
+      {header}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="scrum-card">
+          <p className="text-sm text-scrum-text-secondary">Committed at start</p>
+          <p className="text-2xl font-bold">{burndown.committedPoints} SP</p>
+        </div>
+        <div className="scrum-card">
+          <p className="text-sm text-scrum-text-secondary">Scope change since</p>
+          <p className="text-2xl font-bold" style={{ color: "hsl(var(--scrum-chart-scope))" }}>
+            {formatDelta(burndown.currentPoints - burndown.committedPoints)} SP
+          </p>
+        </div>
+        <div className="scrum-card">
+          <p className="text-sm text-scrum-text-secondary">Current scope</p>
+          <p className="text-2xl font-bold">{burndown.currentPoints} SP</p>
+        </div>
       </div>
-      
+
       <div className="scrum-card h-[500px]">
         <ChartContainer config={config} className="w-full h-full">
           <LineChart
@@ -439,11 +356,11 @@ const BurndownChart: React.FC = () => {
               axisLine={{ stroke: "hsl(var(--scrum-chart-grid))" }}
             />
             <YAxis
-              label={{ 
-                value: "Story Points Remaining", 
-                angle: -90, 
-                position: "insideLeft", 
-                fill: "hsl(var(--scrum-chart-axis))" 
+              label={{
+                value: "Story Points Remaining",
+                angle: -90,
+                position: "insideLeft",
+                fill: "hsl(var(--scrum-chart-axis))"
               }}
               stroke="hsl(var(--scrum-chart-axis))"
               tick={{ fill: "hsl(var(--scrum-chart-axis))" }}
@@ -470,21 +387,38 @@ const BurndownChart: React.FC = () => {
               }
               verticalAlign="bottom"
             />
-            {todayLabel && (
-              <ReferenceLine 
-                x={todayLabel} 
-                stroke="hsl(var(--scrum-chart-reference))" 
+            {todayPoint && (
+              <ReferenceLine
+                x={todayPoint.formattedDate}
+                stroke="hsl(var(--scrum-chart-reference))"
                 strokeWidth={2}
-                strokeDasharray="5 3" 
-                label={{ 
-                  value: "TODAY", 
-                  position: "top", 
+                strokeDasharray="5 3"
+                label={{
+                  value: "TODAY",
+                  position: "top",
                   fill: "hsl(var(--scrum-chart-reference))",
                   fontSize: 12,
                   fontWeight: "bold"
-                }} 
+                }}
               />
             )}
+            {scopeChangePoints.map(point => (
+              <ReferenceDot
+                key={`scope-${point.date}`}
+                x={point.formattedDate}
+                y={point.actual ?? point.scope}
+                r={6}
+                fill="hsl(var(--scrum-chart-scope))"
+                stroke="none"
+                label={{
+                  value: `${formatDelta(point.scopeChange)} SP`,
+                  position: "top",
+                  fill: "hsl(var(--scrum-chart-scope))",
+                  fontSize: 12,
+                  fontWeight: "bold"
+                }}
+              />
+            ))}
             <Line
               type="monotone"
               dataKey="ideal"
@@ -495,7 +429,7 @@ const BurndownChart: React.FC = () => {
               activeDot={{ r: 8 }}
             />
             <Line
-              type="monotone"
+              type="linear"
               dataKey="actual"
               stroke="hsl(var(--scrum-chart-line-2))"
               strokeWidth={2}
@@ -503,7 +437,7 @@ const BurndownChart: React.FC = () => {
               dot={(props) => {
                 const { cx, cy, payload, index } = props;
                 if (!payload || payload.actual === null || payload.actual === undefined) return null;
-                
+
                 if (index === lastActualIndex) {
                   return (
                     <svg x={cx - 5} y={cy - 5} width={10} height={10}>
@@ -511,7 +445,7 @@ const BurndownChart: React.FC = () => {
                     </svg>
                   );
                 }
-                
+
                 return null;
               }}
               activeDot={{ r: 8 }}
@@ -520,27 +454,56 @@ const BurndownChart: React.FC = () => {
           </LineChart>
         </ChartContainer>
       </div>
-      
+
+      <div className="scrum-card mt-6 p-4">
+        <h3 className="text-lg font-medium mb-3">Scope Changes</h3>
+        {burndown.scopeChanges.length === 0 ? (
+          <p className="text-sm text-scrum-text-secondary">
+            No work was added, removed or re-estimated since the sprint started.
+          </p>
+        ) : (
+          <ul className="space-y-2 text-sm">
+            {burndown.scopeChanges.map(change => (
+              <li key={change.id} className="flex items-center justify-between gap-4 border-b border-scrum-border pb-2 last:border-0">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{change.task_title || "Deleted task"}</p>
+                  <p className="text-xs text-scrum-text-secondary">
+                    {SCOPE_CHANGE_LABELS[change.change_type] || change.change_type} on{" "}
+                    {format(parseISO(scopeChangeDay(change)), "MMM dd")}
+                  </p>
+                </div>
+                <span className="font-bold whitespace-nowrap" style={{ color: "hsl(var(--scrum-chart-scope))" }}>
+                  {formatDelta(change.points_delta)} SP
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
       <div className="scrum-card mt-6 p-4">
         <h3 className="text-lg font-medium mb-3">How to Read the Burndown Chart</h3>
         <ul className="list-disc pl-5 space-y-2 text-sm text-scrum-text-secondary">
           <li>
-            <strong>Ideal Burndown</strong>: Shows the theoretical perfect progress where work is completed at a constant rate.
+            <strong>Ideal Burndown</strong>: Burns the points committed at sprint start down to zero at a constant rate per working day. It stays flat over weekends, holidays and team days off set in the project settings.
+          </li>
+          <li>
+            <strong>Actual Burndown</strong>: Shows the remaining work based on completed tasks and the sprint's scope that day.
           </li>
           <li>
-            <strong>Actual Burndown</strong>: Shows the actual remaining work based on completed tasks.
+            When the Actual line is <strong>above</strong> the Ideal line, the sprint is <strong>behind schedule</strong>.
           </li>
           <li>
-            When the Actual line is <strong>above</strong> the Ideal line, the project is <strong>behind schedule</strong>.
+            When the Actual line is <strong>below</strong> the Ideal line, the sprint is <strong>ahead of schedule</strong>.
           </li>
           <li>
-            When the Actual line is <strong>below</strong> the Ideal line, the project is <strong>ahead of schedule</strong>.
+            <strong style={{ color: "hsl(var(--scrum-chart-scope))" }}>Scope markers</strong> show days when tasks were moved into or out of the sprint or re-estimated after it started. They explain jumps in the Actual line that are not completed work.
           </li>
           <li>
             The <strong style={{ color: "hsl(var(--scrum-chart-reference))" }}>TODAY</strong> line marks the current date on the timeline.
           </li>
           <li>
-            Progress is calculated based on the <strong>completion date of tasks</strong> in the DONE column of their respective SprintBoard.
+            Progress is calculated based on the <strong>completion date of tasks</strong> in the DONE column of the SprintBoard.
           </li>
         </ul>
       </div>
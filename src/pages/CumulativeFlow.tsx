@@ -0,0 +1,277 @@
+import React, { useState, useEffect } from "react";
+import { useParams } from "react-router-dom";
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from "recharts";
+import { format, parseISO, startOfDay, subDays } from "date-fns";
+import { toast } from "sonner";
+import { useProjects } from "@/context/ProjectContext";
+import { repository, StatusSnapshotRow } from "@/data";
+import { buildCumulativeFlow, FlowMetric, FLOW_STATUSES } from "@/lib/cfd";
+import { ChartContainer, ChartTooltipContent, ChartLegendContent } from "@/components/ui/chart";
+
+// How far back the whole-project flow looks by default
+const DEFAULT_PROJECT_RANGE_DAYS = 30;
+
+const STATUS_STYLES: Record<string, { label: string; color: string }> = {
+  backlog: { label: "Backlog", color: "hsl(var(--scrum-chart-axis))" },
+  todo: { label: "To Do", color: "hsl(var(--scrum-chart-line-1))" },
+  "in-progress": { label: "In Progress", color: "hsl(var(--scrum-chart-scope))" },
+  done: { label: "Done", color: "hsl(var(--scrum-chart-line-2))" }
+};
+
+const statusStyle = (status: string) =>
+  STATUS_STYLES[status] || { label: status, color: "hsl(var(--scrum-chart-reference))" };
+
+const CumulativeFlow: React.FC = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const { getProject, getSprintsByProject, remoteChange } = useProjects();
+  const [snapshots, setSnapshots] = useState<StatusSnapshotRow[]>([]);
+  const [selectedSprintId, setSelectedSprintId] = useState("");
+  const [metric, setMetric] = useState<FlowMetric>("count");
+  const [range, setRange] = useState<{ from: string; to: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [lastRefreshTime, setLastRefreshTime] = useState<number>(Date.now());
+
+  const project = getProject(projectId || "");
+  const projectSprints = (projectId ? getSprintsByProject(projectId) : [])
+    .slice()
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const sprint = projectSprints.find(s => s.id === selectedSprintId);
+  const todayStr = format(startOfDay(new Date()), "yyyy-MM-dd");
+
+  // A sprint shows from its start to its end (or today, if it is still running);
+  // the whole project shows the last few weeks
+  const defaultRange = sprint
+    ? {
+        from: sprint.startDate.split("T")[0],
+        to: sprint.startDate <= todayStr && sprint.endDate > todayStr ? todayStr : sprint.endDate.split("T")[0]
+      }
+    : { from: format(subDays(parseISO(todayStr), DEFAULT_PROJECT_RANGE_DAYS - 1), "yyyy-MM-dd"), to: todayStr };
+  const { from, to } = range || defaultRange;
+
+  // Snapshots are rewritten whenever a task changes, so task changes refresh the diagram
+  useEffect(() => {
+    if (remoteChange && remoteChange.table === "tasks") {
+      setLastRefreshTime(remoteChange.receivedAt);
+    }
+  }, [remoteChange]);
+
+  useEffect(() => {
+    const fetchSnapshots = async () => {
+      if (!projectId) return;
+
+      try {
+        // Earlier snapshots are needed too: they carry forward into the selected range
+        setSnapshots(await repository.statusSnapshots.list(projectId));
+      } catch (error) {
+        console.error("Error fetching task status snapshots:", error);
+        toast.error("Failed to load the cumulative flow diagram");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSnapshots();
+  }, [projectId, lastRefreshTime]);
+
+  const handleScopeChange = (sprintId: string) => {
+    setSelectedSprintId(sprintId);
+    setRange(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-pulse">Loading cumulative flow...</div>
+      </div>
+    );
+  }
+
+  const flow = buildCumulativeFlow(snapshots, from, to, metric, sprint?.id);
+
+  // Done at the bottom, work not yet started at the top; statuses never used stay hidden
+  const statuses = [...new Set([...FLOW_STATUSES, ...snapshots.map(row => row.status)])]
+    .filter(status => flow.some(point => (point[status] as number) > 0))
+    .reverse();
+
+  const config = Object.fromEntries(statuses.map(status => [status, statusStyle(status)]));
+  const unit = metric === "points" ? "SP" : "tasks";
+
+  const first = flow[0];
+  const last = flow[flow.length - 1];
+  const averageInProgress = flow.length > 0
+    ? flow.reduce((sum, point) => sum + ((point["in-progress"] as number) || 0), 0) / flow.length
+    : 0;
+
+  const toggleButton = (active: boolean, label: string, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      className={`${active ? "scrum-button" : "scrum-button-secondary"} text-sm px-3 py-1`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="animate-fade-in">
+      <div className="scrum-card mb-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-xl font-bold mb-2">Cumulative Flow Diagram</h2>
+            <p className="text-scrum-text-secondary">
+              {sprint ? `${sprint.title} in ${project?.title || "this project"}` : `Every sprint and the backlog of ${project?.title || "this project"}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {toggleButton(metric === "count", "Tasks", () => setMetric("count"))}
+            {toggleButton(metric === "points", "Story Points", () => setMetric("points"))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-sm">
+            <span className="block text-scrum-text-secondary mb-1">Show</span>
+            <select
+              value={selectedSprintId}
+              onChange={(e) => handleScopeChange(e.target.value)}
+              className="scrum-input w-56"
+            >
+              <option value="">Whole project</option>
+              {projectSprints.map(s => (
+                <option key={s.id} value={s.id}>
+                  {s.title} ({s.status})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <span className="block text-scrum-text-secondary mb-1">From</span>
+            <input
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => e.target.value && setRange({ from: e.target.value, to })}
+              className="scrum-input"
+            />
+          </label>
+          <label className="text-sm">
+            <span className="block text-scrum-text-secondary mb-1">To</span>
+            <input
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => e.target.value && setRange({ from, to: e.target.value })}
+              className="scrum-input"
+            />
+          </label>
+          {range && (
+            <button onClick={() => setRange(null)} className="text-sm text-scrum-text-secondary hover:underline pb-2">
+              Reset range
+            </button>
+          )}
+        </div>
+      </div>
+
+      {statuses.length === 0 ? (
+        <div className="text-center py-12 bg-scrum-card border border-scrum-border rounded-lg">
+          <p className="text-scrum-text-secondary mb-4">
+            No task history in this range yet. Snapshots are captured every day tasks change.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="scrum-card">
+              <p className="text-sm text-scrum-text-secondary">In progress on {last.formattedDate}</p>
+              <p className="text-2xl font-bold">{last["in-progress"] || 0} {unit}</p>
+            </div>
+            <div className="scrum-card">
+              <p className="text-sm text-scrum-text-secondary">Average in progress</p>
+              <p className="text-2xl font-bold">{averageInProgress.toFixed(1)} {unit}</p>
+            </div>
+            <div className="scrum-card">
+              <p className="text-sm text-scrum-text-secondary">Finished in range</p>
+              <p className="text-2xl font-bold">
+                {Math.max(0, ((last.done as number) || 0) - ((first.done as number) || 0))} {unit}
+              </p>
+            </div>
+          </div>
+
+          <div className="scrum-card h-[500px]">
+            <ChartContainer config={config} className="w-full h-full">
+              <AreaChart
+                data={flow}
+                margin={{
+                  top: 20,
+                  right: 30,
+                  left: 20,
+                  bottom: 10,
+                }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--scrum-chart-grid))" />
+                <XAxis
+                  dataKey="formattedDate"
+                  stroke="hsl(var(--scrum-chart-axis))"
+                  tick={{ fill: "hsl(var(--scrum-chart-axis))" }}
+                  axisLine={{ stroke: "hsl(var(--scrum-chart-grid))" }}
+                />
+                <YAxis
+                  allowDecimals={false}
+                  label={{
+                    value: metric === "points" ? "Story Points" : "Tasks",
+                    angle: -90,
+                    position: "insideLeft",
+                    fill: "hsl(var(--scrum-chart-axis))"
+                  }}
+                  stroke="hsl(var(--scrum-chart-axis))"
+                  tick={{ fill: "hsl(var(--scrum-chart-axis))" }}
+                  axisLine={{ stroke: "hsl(var(--scrum-chart-grid))" }}
+                />
+                <Tooltip content={<ChartTooltipContent indicator="dot" />} />
+                <Legend content={<ChartLegendContent />} verticalAlign="bottom" />
+                {statuses.map(status => (
+                  <Area
+                    key={status}
+                    type="linear"
+                    dataKey={status}
+                    stackId="flow"
+                    stroke={statusStyle(status).color}
+                    fill={statusStyle(status).color}
+                    fillOpacity={0.6}
+                  />
+                ))}
+              </AreaChart>
+            </ChartContainer>
+          </div>
+        </>
+      )}
+
+      <div className="scrum-card mt-6 p-4">
+        <h3 className="text-lg font-medium mb-3">How to Read the Cumulative Flow Diagram</h3>
+        <ul className="list-disc pl-5 space-y-2 text-sm text-scrum-text-secondary">
+          <li>
+            Each band shows how many {metric === "points" ? "story points" : "tasks"} were in that status at the end of each day.
+          </li>
+          <li>
+            A <strong>widening In Progress band</strong> means work is started faster than it is finished: a bottleneck.
+          </li>
+          <li>
+            A <strong>flat Done band</strong> means nothing was finished during those days.
+          </li>
+          <li>
+            The overall height grows when work is added and shrinks when it is removed.
+          </li>
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CumulativeFlow;
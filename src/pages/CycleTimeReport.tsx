@@ -0,0 +1,280 @@
+import React, { useState, useEffect } from "react";
+import { useParams } from "react-router-dom";
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  TooltipProps,
+} from "recharts";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { useProjects } from "@/context/ProjectContext";
+import { repository, TaskRow } from "@/data";
+import { getTaskFlowTimes, percentile, FlowTimeMetric, TaskFlowTime, FLOW_TIME_PERCENTILES } from "@/lib/cycleTime";
+import { ChartContainer } from "@/components/ui/chart";
+
+const config = {
+  leadTime: { color: "hsl(var(--scrum-chart-line-1))", label: "Lead Time" },
+  cycleTime: { color: "hsl(var(--scrum-chart-line-2))", label: "Cycle Time" }
+};
+
+const PERCENTILE_COLORS: Record<number, string> = {
+  50: "hsl(var(--scrum-chart-line-2))",
+  85: "hsl(var(--scrum-chart-scope))",
+  95: "hsl(var(--scrum-chart-reference))"
+};
+
+// Filter value for tasks without an assignee or estimate
+const NONE = "__none__";
+
+const formatDays = (days: number | null) => (days === null ? "–" : `${days} ${days === 1 ? "day" : "days"}`);
+
+const FlowTimeTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+  if (!active || !payload || payload.length === 0) return null;
+  const task = payload[0].payload as TaskFlowTime;
+
+  return (
+    <div className="rounded-lg border border-scrum-border bg-scrum-card px-3 py-2 text-xs shadow-xl">
+      <p className="font-medium mb-1">{task.title}</p>
+      <p className="text-scrum-text-secondary">Completed {format(new Date(task.completedTime), "MMM d, yyyy")}</p>
+      <p>Lead time: {formatDays(task.leadTime)}</p>
+      <p>Cycle time: {formatDays(task.cycleTime)}</p>
+    </div>
+  );
+};
+
+const CycleTimeReport: React.FC = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const { getProject, remoteChange } = useProjects();
+  const [tasks, setTasks] = useState<TaskRow[]>([]);
+  const [metric, setMetric] = useState<FlowTimeMetric>("cycle");
+  const [priorityFilter, setPriorityFilter] = useState("");
+  const [assigneeFilter, setAssigneeFilter] = useState("");
+  const [pointsFilter, setPointsFilter] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [lastRefreshTime, setLastRefreshTime] = useState<number>(Date.now());
+
+  const project = getProject(projectId || "");
+
+  useEffect(() => {
+    if (remoteChange && remoteChange.table === "tasks") {
+      setLastRefreshTime(remoteChange.receivedAt);
+    }
+  }, [remoteChange]);
+
+  useEffect(() => {
+    const fetchTasks = async () => {
+      if (!projectId) return;
+
+      try {
+        setTasks(await repository.tasks.list({ projectIds: [projectId] }));
+      } catch (error) {
+        console.error("Error fetching tasks for cycle time:", error);
+        toast.error("Failed to load the cycle time report");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTasks();
+  }, [projectId, lastRefreshTime]);
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-pulse">Loading cycle time report...</div>
+      </div>
+    );
+  }
+
+  const flowTimes = getTaskFlowTimes(tasks);
+  const assignees = [...new Set(flowTimes.map(task => task.assignee).filter(Boolean))].sort();
+  const storyPoints = [...new Set(flowTimes.map(task => task.storyPoints).filter(points => points !== null))]
+    .sort((a, b) => a - b);
+
+  const matchesFilter = (filter: string, value: string | number | null) =>
+    !filter || (filter === NONE ? value === null || value === "" : String(value) === filter);
+
+  const dataKey = metric === "lead" ? "leadTime" : "cycleTime";
+  const filtered = flowTimes.filter(task =>
+    matchesFilter(priorityFilter, task.priority) &&
+    matchesFilter(assigneeFilter, task.assignee) &&
+    matchesFilter(pointsFilter, task.storyPoints)
+  );
+  const measured = filtered.filter(task => task[dataKey] !== null);
+  const unmeasured = filtered.length - measured.length;
+  const percentiles = FLOW_TIME_PERCENTILES.map(p => ({
+    p,
+    days: percentile(measured.map(task => task[dataKey]), p)
+  }));
+
+  const toggleButton = (active: boolean, label: string, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      className={`${active ? "scrum-button" : "scrum-button-secondary"} text-sm px-3 py-1`}
+    >
+      {label}
+    </button>
+  );
+
+  const filterSelect = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    options: { value: string; label: string }[]
+  ) => (
+    <label className="text-sm">
+      <span className="block text-scrum-text-secondary mb-1">{label}</span>
+      <select value={value} onChange={(e) => onChange(e.target.value)} className="scrum-input w-44">
+        <option value="">All</option>
+        {options.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="animate-fade-in">
+      <div className="scrum-card mb-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-xl font-bold mb-2">Cycle Time &amp; Lead Time</h2>
+            <p className="text-scrum-text-secondary">
+              How long finished tasks in {project?.title || "this project"} took
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {toggleButton(metric === "cycle", "Cycle Time", () => setMetric("cycle"))}
+            {toggleButton(metric === "lead", "Lead Time", () => setMetric("lead"))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          {filterSelect("Priority", priorityFilter, setPriorityFilter, [
+            { value: "high", label: "High" },
+            { value: "medium", label: "Medium" },
+            { value: "low", label: "Low" },
+            { value: NONE, label: "No priority" }
+          ])}
+          {filterSelect("Assignee", assigneeFilter, setAssigneeFilter, [
+            ...assignees.map(assignee => ({ value: assignee, label: assignee })),
+            { value: NONE, label: "Unassigned" }
+          ])}
+          {filterSelect("Story points", pointsFilter, setPointsFilter, [
+            ...storyPoints.map(points => ({ value: String(points), label: `${points} SP` })),
+            { value: NONE, label: "Not estimated" }
+          ])}
+        </div>
+      </div>
+
+      {measured.length === 0 ? (
+        <div className="text-center py-12 bg-scrum-card border border-scrum-border rounded-lg">
+          <p className="text-scrum-text-secondary mb-4">
+            {flowTimes.length === 0
+              ? "No finished tasks yet. Tasks show up here once they are done."
+              : "No finished tasks match these filters."}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+            {percentiles.map(({ p, days }) => (
+              <div key={p} className="scrum-card">
+                <p className="text-sm text-scrum-text-secondary">{p}th percentile</p>
+                <p className="text-2xl font-bold">{formatDays(days)}</p>
+                <p className="text-xs text-scrum-text-secondary">{p}% of tasks took this long or less</p>
+              </div>
+            ))}
+            <div className="scrum-card">
+              <p className="text-sm text-scrum-text-secondary">Tasks measured</p>
+              <p className="text-2xl font-bold">{measured.length}</p>
+              <p className="text-xs text-scrum-text-secondary">
+                {unmeasured > 0
+                  ? `${unmeasured} finished before start times were tracked`
+                  : "Every matching finished task"}
+              </p>
+            </div>
+          </div>
+
+          <div className="scrum-card h-[500px]">
+            <ChartContainer config={config} className="w-full h-full">
+              <ScatterChart
+                margin={{
+                  top: 20,
+                  right: 30,
+                  left: 20,
+                  bottom: 10,
+                }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--scrum-chart-grid))" />
+                <XAxis
+                  type="number"
+                  dataKey="completedTime"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={(time: number) => format(new Date(time), "MMM dd")}
+                  stroke="hsl(var(--scrum-chart-axis))"
+                  tick={{ fill: "hsl(var(--scrum-chart-axis))" }}
+                  axisLine={{ stroke: "hsl(var(--scrum-chart-grid))" }}
+                />
+                <YAxis
+                  type="number"
+                  dataKey={dataKey}
+                  label={{
+                    value: "Days",
+                    angle: -90,
+                    position: "insideLeft",
+                    fill: "hsl(var(--scrum-chart-axis))"
+                  }}
+                  stroke="hsl(var(--scrum-chart-axis))"
+                  tick={{ fill: "hsl(var(--scrum-chart-axis))" }}
+                  axisLine={{ stroke: "hsl(var(--scrum-chart-grid))" }}
+                />
+                <Tooltip content={<FlowTimeTooltip />} />
+                {percentiles.map(({ p, days }) => days !== null && (
+                  <ReferenceLine
+                    key={p}
+                    y={days}
+                    stroke={PERCENTILE_COLORS[p]}
+                    strokeDasharray="5 5"
+                    label={{
+                      value: `P${p}`,
+                      position: "right",
+                      fill: PERCENTILE_COLORS[p],
+                      fontSize: 12
+                    }}
+                  />
+                ))}
+                <Scatter data={measured} fill={config[dataKey].color} />
+              </ScatterChart>
+            </ChartContainer>
+          </div>
+        </>
+      )}
+
+      <div className="scrum-card mt-6 p-4">
+        <h3 className="text-lg font-medium mb-3">How to Read the Cycle Time Report</h3>
+        <ul className="list-disc pl-5 space-y-2 text-sm text-scrum-text-secondary">
+          <li>
+            <strong>Lead Time</strong>: Days from when a task was created to when it was done, including time waiting in the backlog.
+          </li>
+          <li>
+            <strong>Cycle Time</strong>: Days from when a task was first moved to In Progress on the sprint board to when it was done.
+          </li>
+          <li>
+            Each dot is a finished task, placed on the day it was completed. Dots far above the <strong>P85</strong> line are worth a closer look.
+          </li>
+          <li>
+            Use the percentiles for forecasts: at P85, 85% of similar tasks were finished within that many days.
+          </li>
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CycleTimeReport;
@@ -2,20 +2,31 @@ import React, { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useProjects } from "@/context/ProjectContext";
 import { useAuth } from "@/context/AuthContext";
+import { usePermission } from "@/hooks/use-permission";
 import { toast } from "sonner";
-import { ArrowLeft, Save, FileEdit } from "lucide-react";
+import { ArrowLeft, Save, FileEdit, CalendarOff, Trash, Plus, Tag } from "lucide-react";
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage, FormDescription } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
+import { useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
 import { Button } from "@/components/ui/button";
+import { repository } from "@/data";
+import { useProjectDaysOff } from "@/hooks/use-working-calendar";
+import { projectQueryKeys } from "@/hooks/use-project-queries";
+import { DAY_OFF_KINDS, DEFAULT_WORKING_DAYS, WEEKDAYS } from "@/lib/calendar";
+import { useLabels } from "@/hooks/use-labels";
+import { LABEL_COLORS } from "@/lib/labels";
+import LabelChip from "@/components/labels/LabelChip";
 
 const formSchema = z.object({
   title: z.string().min(1, "Project title is required").max(100),
   description: z.string().optional(),
   endGoal: z.string().optional(),
+  workingDays: z.array(z.number()).min(1, "Pick at least one working day"),
 });
 
 const EditProject: React.FC = () => {
@@ -24,8 +35,14 @@ const EditProject: React.FC = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
+  const [newDayOff, setNewDayOff] = useState({ date: "", kind: "holiday", label: "" });
+  const [newLabel, setNewLabel] = useState({ name: "", color: LABEL_COLORS[0] });
+  const queryClient = useQueryClient();
 
   const project = getProject(projectId || "");
+  const canEditProject = usePermission(projectId, 'project.edit');
+  const { data: daysOff = [] } = useProjectDaysOff(projectId);
+  const { data: labels = [] } = useLabels(projectId);
   
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -33,6 +50,7 @@ const EditProject: React.FC = () => {
       title: project?.title || "",
       description: project?.description || "",
       endGoal: project?.endGoal || "",
+      workingDays: project?.workingDays || DEFAULT_WORKING_DAYS,
     },
   });
 
@@ -42,6 +60,7 @@ const EditProject: React.FC = () => {
         title: project.title,
         description: project.description || "",
         endGoal: project.endGoal || "",
+        workingDays: project.workingDays || DEFAULT_WORKING_DAYS,
       });
     }
   }, [project, form]);
@@ -62,6 +81,22 @@ const EditProject: React.FC = () => {
     );
   }
 
+  if (!canEditProject) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-4">You don't have permission to edit this project</h2>
+          <Button 
+            onClick={() => navigate(`/projects/${project.id}`)}
+            variant="default"
+          >
+            Back to Project
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   const onSubmit = async (values: z.infer<typeof formSchema>) => {
     if (!user || !project) return;
     
@@ -71,6 +106,7 @@ const EditProject: React.FC = () => {
         title: values.title,
         description: values.description || "",
         endGoal: values.endGoal || "",
+        workingDays: [...values.workingDays].sort((a, b) => a - b),
       });
       
       toast.success("Project updated successfully");
@@ -83,6 +119,67 @@ const EditProject: React.FC = () => {
     }
   };
 
+  const handleAddDayOff = async () => {
+    if (!newDayOff.date) {
+      toast.error("Pick the date of the day off");
+      return;
+    }
+
+    try {
+      await repository.daysOff.create({
+        project_id: project.id,
+        date: newDayOff.date,
+        kind: newDayOff.kind,
+        label: newDayOff.label.trim() || null
+      });
+      setNewDayOff({ date: "", kind: newDayOff.kind, label: "" });
+      queryClient.invalidateQueries({ queryKey: projectQueryKeys.daysOff(project.id) });
+    } catch (error) {
+      console.error("Error adding day off:", error);
+      toast.error("Failed to add the day off. Is that date already listed?");
+    }
+  };
+
+  const handleRemoveDayOff = async (id: string) => {
+    try {
+      await repository.daysOff.remove(id);
+      queryClient.invalidateQueries({ queryKey: projectQueryKeys.daysOff(project.id) });
+    } catch (error) {
+      console.error("Error removing day off:", error);
+      toast.error("Failed to remove the day off");
+    }
+  };
+
+  const handleAddLabel = async () => {
+    const name = newLabel.name.trim();
+    if (!name) {
+      toast.error("Enter a name for the label");
+      return;
+    }
+
+    try {
+      await repository.labels.create({ project_id: project.id, name, color: newLabel.color });
+      setNewLabel({ name: "", color: newLabel.color });
+      queryClient.invalidateQueries({ queryKey: projectQueryKeys.labels(project.id) });
+    } catch (error) {
+      console.error("Error adding label:", error);
+      toast.error("Failed to add the label. Is that name already taken?");
+    }
+  };
+
+  const handleRemoveLabel = async (id: string, name: string) => {
+    if (!window.confirm(`Delete the label "${name}"? It is taken off every task carrying it.`)) return;
+
+    try {
+      await repository.labels.remove(id);
+      queryClient.invalidateQueries({ queryKey: projectQueryKeys.labels(project.id) });
+      queryClient.invalidateQueries({ queryKey: projectQueryKeys.taskLabels(project.id) });
+    } catch (error) {
+      console.error("Error removing label:", error);
+      toast.error("Failed to remove the label");
+    }
+  };
+
   return (
     <div className="pt-16 min-h-screen animate-fade-in bg-gradient-to-b from-background to-background/80">
       <div className="container px-4 py-8 max-w-3xl mx-auto">
@@ -165,6 +262,38 @@ const EditProject: React.FC = () => {
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="workingDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-base font-medium">Working Days</FormLabel>
+                    <div className="flex flex-wrap gap-2">
+                      {WEEKDAYS.map(({ day, label }) => {
+                        const selected = field.value.includes(day);
+                        return (
+                          <Button
+                            key={day}
+                            type="button"
+                            variant={selected ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => field.onChange(
+                              selected ? field.value.filter(d => d !== day) : [...field.value, day]
+                            )}
+                          >
+                            {label}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                    <FormDescription>
+                      Burndown ideal lines, sprint lengths and the timeline only count these days
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <div className="flex gap-4 pt-2">
                 <Button 
                   type="submit" 
@@ -196,6 +325,138 @@ const EditProject: React.FC = () => {
             </form>
           </Form>
         </div>
+
+        <div className="bg-card border border-border rounded-xl p-6 shadow-md mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <CalendarOff className="h-6 w-6 text-primary/80" />
+            <h2 className="text-xl font-bold">Holidays &amp; Days Off</h2>
+          </div>
+          <p className="text-sm text-muted-foreground mb-6">
+            Dates nobody on the team works, on top of the days outside the working week.
+          </p>
+
+          <div className="flex flex-wrap items-end gap-3 mb-6">
+            <label className="text-sm">
+              <span className="block text-muted-foreground mb-1">Date</span>
+              <Input
+                type="date"
+                value={newDayOff.date}
+                onChange={(e) => setNewDayOff({ ...newDayOff, date: e.target.value })}
+              />
+            </label>
+            <label className="text-sm">
+              <span className="block text-muted-foreground mb-1">Type</span>
+              <select
+                value={newDayOff.kind}
+                onChange={(e) => setNewDayOff({ ...newDayOff, kind: e.target.value })}
+                className="scrum-input"
+              >
+                {Object.entries(DAY_OFF_KINDS).map(([kind, label]) => (
+                  <option key={kind} value={kind}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm flex-1 min-w-[160px]">
+              <span className="block text-muted-foreground mb-1">Name</span>
+              <Input
+                placeholder="e.g. New Year's Day"
+                value={newDayOff.label}
+                onChange={(e) => setNewDayOff({ ...newDayOff, label: e.target.value })}
+              />
+            </label>
+            <Button type="button" onClick={handleAddDayOff}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+
+          {daysOff.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No holidays or days off yet.</p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {daysOff.map(dayOff => (
+                <li key={dayOff.id} className="flex items-center justify-between py-2 text-sm">
+                  <div>
+                    <p className="font-medium">{dayOff.label || DAY_OFF_KINDS[dayOff.kind] || dayOff.kind}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(parseISO(dayOff.date), "EEEE, MMMM d, yyyy")} · {DAY_OFF_KINDS[dayOff.kind] || dayOff.kind}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemoveDayOff(dayOff.id)}
+                    aria-label="Remove day off"
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-card border border-border rounded-xl p-6 shadow-md mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <Tag className="h-6 w-6 text-primary/80" />
+            <h2 className="text-xl font-bold">Labels</h2>
+          </div>
+          <p className="text-sm text-muted-foreground mb-6">
+            Tags the team can put on backlog items and sprint tasks, and filter them by.
+          </p>
+
+          <div className="flex flex-wrap items-end gap-3 mb-6">
+            <label className="text-sm flex-1 min-w-[160px]">
+              <span className="block text-muted-foreground mb-1">Name</span>
+              <Input
+                placeholder="e.g. frontend"
+                value={newLabel.name}
+                onChange={(e) => setNewLabel({ ...newLabel, name: e.target.value })}
+              />
+            </label>
+            <div className="text-sm">
+              <span className="block text-muted-foreground mb-1">Color</span>
+              <div className="flex gap-2 h-10 items-center">
+                {LABEL_COLORS.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setNewLabel({ ...newLabel, color })}
+                    className={`h-6 w-6 rounded-full border-2 ${newLabel.color === color ? "border-white" : "border-transparent"}`}
+                    style={{ backgroundColor: color }}
+                    title={color}
+                  />
+                ))}
+              </div>
+            </div>
+            <Button type="button" onClick={handleAddLabel}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+
+          {labels.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No labels yet.</p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {labels.map(label => (
+                <li key={label.id} className="flex items-center justify-between py-2 text-sm">
+                  <LabelChip label={label} />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemoveLabel(label.id, label.name)}
+                    aria-label="Remove label"
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
       </div>
     </div>
   );
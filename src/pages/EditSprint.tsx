@@ -1,10 +1,13 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useProjects } from "@/context/ProjectContext";
+import { usePermission } from "@/hooks/use-permission";
+import { useWorkingCalendar } from "@/hooks/use-working-calendar";
+import { countWorkingDays, validateSprintDuration } from "@/lib/calendar";
 import { ArrowLeft, Save, Calendar } from "lucide-react";
 import { toast } from "sonner";
-import { format, differenceInDays, isBefore } from "date-fns";
+import { format, isBefore } from "date-fns";
 
 const EditSprint: React.FC = () => {
   const { projectId, sprintId } = useParams<{ projectId: string, sprintId: string }>();
@@ -24,6 +27,8 @@ const EditSprint: React.FC = () => {
   }>({});
   
   const sprint = getSprint(sprintId || "");
+  const canManageSprint = usePermission(projectId, 'sprint.manage');
+  const calendar = useWorkingCalendar(projectId);
   
   useEffect(() => {
     if (sprint) {
@@ -36,29 +41,13 @@ const EditSprint: React.FC = () => {
   }, [sprint]);
   
   // Validate date changes for existing sprints
-  const validateDates = (start: string, end: string) => {
-    const errors: { startDate?: string; endDate?: string } = {};
-    const today = new Date();
-    today.setHours(0, 0, 0, 0); // Set to beginning of day for comparison
-    
-    const startDateObj = new Date(start);
-    const endDateObj = new Date(end);
-    
-    // For an existing sprint, we only enforce the 4-week duration rule,
-    // not the "start date must be today or future" rule
-    
-    // Duration validation - max 4 weeks (28 days)
-    if (start && end) {
-      const daysDifference = differenceInDays(endDateObj, startDateObj);
-      if (daysDifference > 28) {
-        errors.endDate = "Sprint duration cannot exceed 4 weeks (28 days)";
-      } else if (daysDifference < 1) {
-        errors.endDate = "End date must be after start date";
-      }
-    }
-    
-    return errors;
-  };
+  // For an existing sprint, we only enforce the 4-week duration rule,
+  // not the "start date must be today or future" rule
+  const validateDates = useCallback(
+    (start: string, end: string): { startDate?: string; endDate?: string } =>
+      validateSprintDuration(start, end, calendar),
+    [calendar]
+  );
   
   useEffect(() => {
     // Check if end date has changed
@@ -74,7 +63,7 @@ const EditSprint: React.FC = () => {
       const errors = validateDates(startDate, endDate);
       setValidationErrors(errors);
     }
-  }, [endDate, originalEndDate, startDate]);
+  }, [endDate, originalEndDate, startDate, validateDates]);
   
   const handleStartDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newStartDate = e.target.value;
@@ -158,6 +147,20 @@ const EditSprint: React.FC = () => {
     );
   }
   
+  if (!canManageSprint) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-bold mb-4">You don't have permission to edit this sprint</h2>
+        <button
+          onClick={() => navigate(`/projects/${projectId}`)}
+          className="scrum-button"
+        >
+          Go Back
+        </button>
+      </div>
+    );
+  }
+  
   return (
     <div>
       <button 
@@ -229,8 +232,12 @@ const EditSprint: React.FC = () => {
                 required
               />
               <Calendar className="absolute top-1/2 left-3 transform -translate-y-1/2 text-scrum-text-secondary h-4 w-4" />
-              {validationErrors.endDate && (
+              {validationErrors.endDate ? (
                 <p className="mt-1 text-xs text-red-500">{validationErrors.endDate}</p>
+              ) : startDate && endDate && (
+                <p className="mt-1 text-xs text-scrum-text-secondary">
+                  {countWorkingDays(startDate, endDate, calendar)} working days
+                </p>
               )}
             </div>
           </div>
@@ -0,0 +1,168 @@
+import React, { useState } from "react";
+import { useParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Flag, Plus, Edit, Trash, CalendarClock } from "lucide-react";
+import { toast } from "sonner";
+import { useProjects } from "@/context/ProjectContext";
+import { repository, EpicRow } from "@/data";
+import { useEpics } from "@/hooks/use-epics";
+import { usePermission } from "@/hooks/use-permission";
+import { projectQueryKeys } from "@/hooks/use-project-queries";
+import { getEpicProgress } from "@/lib/epics";
+import EpicFormModal from "@/components/epics/EpicFormModal";
+
+const ProgressBar: React.FC<{ done: number; total: number; color: string }> = ({ done, total, color }) => (
+  <div className="h-2 bg-scrum-border rounded-full overflow-hidden">
+    <div
+      className="h-full rounded-full"
+      style={{ width: `${total ? Math.round((done / total) * 100) : 0}%`, backgroundColor: color }}
+    />
+  </div>
+);
+
+const Epics: React.FC = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const { getProject, getSprintsByProject, tasks } = useProjects();
+  const queryClient = useQueryClient();
+  const { data: epics = [], isLoading } = useEpics(projectId);
+  const canManage = usePermission(projectId, 'backlog.manage');
+  const [editingEpic, setEditingEpic] = useState<EpicRow | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const project = getProject(projectId || "");
+  const projectSprints = projectId ? getSprintsByProject(projectId) : [];
+  const projectTasks = tasks.filter(task => task.projectId === projectId);
+
+  const refreshEpics = () => queryClient.invalidateQueries({ queryKey: projectQueryKeys.epics(projectId) });
+
+  const handleDelete = async (epic: EpicRow) => {
+    if (!window.confirm(`Delete the epic "${epic.title}"? Its tasks stay, without an epic.`)) return;
+
+    try {
+      await repository.epics.remove(epic.id);
+      await Promise.all([
+        refreshEpics(),
+        queryClient.invalidateQueries({ queryKey: projectQueryKeys.tasks() })
+      ]);
+      toast.success("Epic deleted");
+    } catch (error) {
+      console.error("Error deleting epic:", error);
+      toast.error("Failed to delete epic");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-pulse">Loading epics...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-fade-in">
+      <div className="scrum-card mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold mb-2">Epics</h2>
+          <p className="text-scrum-text-secondary">
+            Story points done against the total for each epic in {project?.title || "this project"}, across sprints and the backlog
+          </p>
+        </div>
+        {canManage && (
+          <button onClick={() => setIsCreating(true)} className="scrum-button flex items-center gap-1 w-fit">
+            <Plus className="h-4 w-4" />
+            <span>New Epic</span>
+          </button>
+        )}
+      </div>
+
+      {epics.length === 0 ? (
+        <div className="text-center py-12 bg-scrum-card border border-scrum-border rounded-lg">
+          <Flag className="h-10 w-10 mx-auto mb-4 text-scrum-text-secondary" />
+          <p className="text-scrum-text-secondary">
+            No epics yet. Epics group backlog items and sprint tasks that deliver a larger feature together.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {epics.map(epic => {
+            const progress = getEpicProgress(epic.id, projectTasks, projectSprints);
+            const percent = progress.totalPoints ? Math.round((progress.donePoints / progress.totalPoints) * 100) : 0;
+
+            return (
+              <div key={epic.id} className="scrum-card border-l-4" style={{ borderLeftColor: epic.color }}>
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <div>
+                    <h3 className="text-lg font-semibold">{epic.title}</h3>
+                    {epic.description && (
+                      <p className="text-sm text-scrum-text-secondary">{epic.description}</p>
+                    )}
+                    {epic.target_date && (
+                      <p className="text-xs text-scrum-text-secondary flex items-center gap-1 mt-1">
+                        <CalendarClock className="h-3 w-3" />
+                        <span>Target {format(parseISO(epic.target_date), "MMM d, yyyy")}</span>
+                      </p>
+                    )}
+                  </div>
+                  {canManage && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setEditingEpic(epic)}
+                        className="text-scrum-text-secondary hover:text-white"
+                        title="Edit epic"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(epic)}
+                        className="text-scrum-text-secondary hover:text-destructive"
+                        title="Delete epic"
+                      >
+                        <Trash className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span>{progress.donePoints} / {progress.totalPoints} SP done</span>
+                  <span className="text-scrum-text-secondary">
+                    {percent}% · {progress.doneTasks} of {progress.totalTasks} task(s)
+                  </span>
+                </div>
+                <ProgressBar done={progress.donePoints} total={progress.totalPoints} color={epic.color} />
+
+                {progress.sprints.length > 0 && (
+                  <div className="mt-4 space-y-2">
+                    {progress.sprints.map(sprint => (
+                      <div key={sprint.sprintId || "backlog"} className="grid grid-cols-[10rem_1fr_5rem] items-center gap-3 text-xs">
+                        <span className="truncate text-scrum-text-secondary">{sprint.title}</span>
+                        <ProgressBar done={sprint.donePoints} total={sprint.totalPoints} color={epic.color} />
+                        <span className="text-right">{sprint.donePoints} / {sprint.totalPoints} SP</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {(isCreating || editingEpic) && projectId && (
+        <EpicFormModal
+          projectId={projectId}
+          epic={editingEpic || undefined}
+          onClose={() => {
+            setIsCreating(false);
+            setEditingEpic(null);
+          }}
+          onSaved={refreshEpics}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Epics;
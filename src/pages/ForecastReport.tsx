@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { useParams } from "react-router-dom";
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from "recharts";
+import { format, parseISO, startOfDay } from "date-fns";
+import { CalendarClock, Layers, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+import { useProjects } from "@/context/ProjectContext";
+import { repository, SprintRow, SprintCompletionRow, TaskRow } from "@/data";
+import { getSprintVelocities, DEFAULT_VELOCITY_WINDOW, VELOCITY_WINDOWS } from "@/lib/velocity";
+import { forecastBacklogCompletion, FORECAST_TRIALS } from "@/lib/forecast";
+import { ChartContainer, ChartTooltipContent, ChartLegendContent } from "@/components/ui/chart";
+
+const config = {
+  probability: { color: "hsl(var(--scrum-chart-line-1))", label: "Finishes in this sprint" },
+  cumulativeProbability: { color: "hsl(var(--scrum-chart-line-2))", label: "Finished by this sprint" }
+};
+
+// Window value that samples every completed sprint
+const ALL_SPRINTS = 0;
+
+const ForecastReport: React.FC = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const { getProject, getBacklogTasks, getSprintsByProject, tasks, remoteChange } = useProjects();
+  const [sprintRows, setSprintRows] = useState<SprintRow[]>([]);
+  const [completions, setCompletions] = useState<SprintCompletionRow[]>([]);
+  const [taskRows, setTaskRows] = useState<TaskRow[]>([]);
+  const [velocityWindow, setVelocityWindow] = useState(DEFAULT_VELOCITY_WINDOW);
+  const [isLoading, setIsLoading] = useState(true);
+  const [lastRefreshTime, setLastRefreshTime] = useState<number>(Date.now());
+
+  const project = getProject(projectId || "");
+  const projectSprints = projectId ? getSprintsByProject(projectId) : [];
+  const openSprintIds = projectSprints.filter(s => s.status !== "completed").map(s => s.id);
+  const activeSprint = projectSprints.find(s => s.status === "in-progress");
+
+  // Remaining work: the product backlog plus everything not yet done in open sprints
+  const remainingTasks = [
+    ...(projectId ? getBacklogTasks(projectId) : []),
+    ...tasks.filter(t => t.sprintId && openSprintIds.includes(t.sprintId) && t.status !== "done")
+  ];
+  const remainingPoints = remainingTasks.reduce((sum, t) => sum + (t.storyPoints || 0), 0);
+  const unestimatedTasks = remainingTasks.filter(t => !t.storyPoints).length;
+
+  // The current sprint counts as the first simulated sprint; without one the forecast starts today
+  const forecastStart = activeSprint ? activeSprint.startDate.split("T")[0] : format(startOfDay(new Date()), "yyyy-MM-dd");
+
+  useEffect(() => {
+    if (remoteChange && (remoteChange.table === "sprints" || remoteChange.table === "tasks")) {
+      setLastRefreshTime(remoteChange.receivedAt);
+    }
+  }, [remoteChange]);
+
+  useEffect(() => {
+    const fetchVelocityData = async () => {
+      if (!projectId) return;
+
+      try {
+        const [sprints, completionRows, projectTasks] = await Promise.all([
+          repository.sprints.list([projectId]),
+          repository.sprintCompletions.list([projectId]),
+          repository.tasks.list({ projectIds: [projectId] })
+        ]);
+
+        setSprintRows(sprints);
+        setCompletions(completionRows);
+        setTaskRows(projectTasks);
+      } catch (error) {
+        console.error("Error fetching forecast data:", error);
+        toast.error("Failed to load the forecast");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchVelocityData();
+  }, [projectId, lastRefreshTime]);
+
+  // Only re-run the simulation when its inputs change, so the numbers don't shift on every render
+  const sampled = useMemo(() => {
+    const velocities = getSprintVelocities(sprintRows, completions, taskRows);
+    return velocityWindow === ALL_SPRINTS ? velocities : velocities.slice(-velocityWindow);
+  }, [sprintRows, completions, taskRows, velocityWindow]);
+
+  const forecast = useMemo(
+    () => forecastBacklogCompletion(remainingPoints, sampled, parseISO(forecastStart)),
+    [remainingPoints, sampled, forecastStart]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-pulse">Loading forecast...</div>
+      </div>
+    );
+  }
+
+  if (!forecast) {
+    return (
+      <div className="text-center py-12 bg-scrum-card border border-scrum-border rounded-lg animate-fade-in">
+        <h2 className="text-xl font-bold mb-4">Backlog Forecast</h2>
+        <p className="text-scrum-text-secondary mb-4">
+          No completed sprints yet. The forecast needs at least one completed sprint to learn the team's velocity from.
+        </p>
+      </div>
+    );
+  }
+
+  const chartData = forecast.outcomes.map(outcome => ({
+    label: `${outcome.sprints} (${format(outcome.completionDate, "MMM d")})`,
+    probability: Math.round(outcome.probability * 1000) / 10,
+    cumulativeProbability: Math.round(outcome.cumulativeProbability * 1000) / 10
+  }));
+  const unfinishedShare = 1 - (forecast.outcomes.length > 0
+    ? forecast.outcomes[forecast.outcomes.length - 1].cumulativeProbability
+    : 0);
+
+  return (
+    <div className="animate-fade-in">
+      <div className="scrum-card mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold mb-2">Backlog Forecast</h2>
+          <p className="text-scrum-text-secondary">
+            When the remaining work in {project?.title || "this project"} is likely to be done,
+            from {FORECAST_TRIALS.toLocaleString()} simulated futures
+          </p>
+        </div>
+        <select
+          value={velocityWindow}
+          onChange={(e) => setVelocityWindow(Number(e.target.value))}
+          className="scrum-input w-56"
+        >
+          {VELOCITY_WINDOWS.map(window => (
+            <option key={window} value={window}>Sample last {window} sprints</option>
+          ))}
+          <option value={ALL_SPRINTS}>Sample every completed sprint</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="scrum-card">
+          <div className="flex items-center gap-2 text-scrum-text-secondary text-sm mb-1">
+            <Layers className="h-4 w-4" />
+            <span>Remaining work</span>
+          </div>
+          <p className="text-2xl font-bold">{remainingPoints} SP</p>
+          <p className="text-xs text-scrum-text-secondary">
+            {remainingTasks.length} task(s) in the backlog and open sprints
+          </p>
+        </div>
+
+        {forecast.confidences.map(({ confidence, sprints, completionDate }) => (
+          <div key={confidence} className="scrum-card">
+            <div className="flex items-center gap-2 text-scrum-text-secondary text-sm mb-1">
+              <CalendarClock className="h-4 w-4" />
+              <span>{confidence}% likely by</span>
+            </div>
+            <p className="text-2xl font-bold">{completionDate ? format(completionDate, "MMM d, yyyy") : "–"}</p>
+            <p className="text-xs text-scrum-text-secondary">
+              {sprints === null ? "Not reached in the simulation" : `${sprints} sprint(s) from ${format(parseISO(forecastStart), "MMM d")}`}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {(unestimatedTasks > 0 || unfinishedShare > 0) && (
+        <div className="scrum-card mb-6 flex items-start gap-2 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-scrum-chart-scope shrink-0" />
+          <div className="space-y-1 text-scrum-text-secondary">
+            {unestimatedTasks > 0 && (
+              <p>{unestimatedTasks} remaining task(s) have no story points and are not part of the forecast.</p>
+            )}
+            {unfinishedShare > 0 && (
+              <p>
+                {Math.round(unfinishedShare * 100)}% of simulations did not finish within the simulated sprints.
+                The sampled sprints may deliver too little to forecast from.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {chartData.length > 0 && (
+        <div className="scrum-card h-[500px]">
+          <ChartContainer config={config} className="w-full h-full">
+            <ComposedChart
+              data={chartData}
+              margin={{
+                top: 20,
+                right: 30,
+                left: 20,
+                bottom: 10,
+              }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--scrum-chart-grid))" />
+              <XAxis
+                dataKey="label"
+                stroke="hsl(var(--scrum-chart-axis))"
+                tick={{ fill: "hsl(var(--scrum-chart-axis))" }}
+                axisLine={{ stroke: "hsl(var(--scrum-chart-grid))" }}
+              />
+              <YAxis
+                domain={[0, 100]}
+                unit="%"
+                label={{
+                  value: "Probability",
+                  angle: -90,
+                  position: "insideLeft",
+                  fill: "hsl(var(--scrum-chart-axis))"
+                }}
+                stroke="hsl(var(--scrum-chart-axis))"
+                tick={{ fill: "hsl(var(--scrum-chart-axis))" }}
+                axisLine={{ stroke: "hsl(var(--scrum-chart-grid))" }}
+              />
+              <Tooltip content={<ChartTooltipContent indicator="dot" />} />
+              <Legend content={<ChartLegendContent />} verticalAlign="bottom" />
+              <Bar dataKey="probability" fill="hsl(var(--scrum-chart-line-1))" radius={[4, 4, 0, 0]} />
+              <Line
+                type="monotone"
+                dataKey="cumulativeProbability"
+                stroke="hsl(var(--scrum-chart-line-2))"
+                strokeWidth={2}
+                dot={{ r: 3 }}
+              />
+            </ComposedChart>
+          </ChartContainer>
+        </div>
+      )}
+
+      <div className="scrum-card mt-6 p-4">
+        <h3 className="text-lg font-medium mb-3">How the Forecast Works</h3>
+        <ul className="list-disc pl-5 space-y-2 text-sm text-scrum-text-secondary">
+          <li>
+            Each simulation plays out future sprints one by one. Every sprint delivers the velocity of a completed sprint picked at random from the sampled history.
+          </li>
+          <li>
+            Sprints are assumed to last as long as the sampled sprints did on average, back to back
+            {activeSprint ? `, starting with ${activeSprint.title}` : ", starting today"}.
+          </li>
+          <li>
+            <strong>Bars</strong> show how likely the work finishes in exactly that sprint; the <strong>line</strong> shows how likely it is done by then.
+          </li>
+          <li>
+            Plan around the <strong>85%</strong> date rather than the 50% one: half of all simulated futures finish later than the 50% date.
+          </li>
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ForecastReport;
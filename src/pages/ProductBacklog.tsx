@@ -36,12 +36,24 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import BacklogItemForm from "./BacklogItemForm";
-import { supabase, withRetry } from "@/lib/supabase";
+import { repository } from "@/data";
+import { usePermission } from "@/hooks/use-permission";
+import { compareByRank, rankBetween } from "@/lib/rank";
+import { useEpics } from "@/hooks/use-epics";
+import { ALL_EPICS, NO_EPIC, matchesEpicFilter } from "@/lib/epics";
+import EpicBadge from "@/components/epics/EpicBadge";
+import { useLabels, useTaskLabels } from "@/hooks/use-labels";
+import { ALL_LABELS, getTaskLabelIds, getTaskLabels, matchesLabelFilter } from "@/lib/labels";
+import LabelChip from "@/components/labels/LabelChip";
+
+// Backlog items are the project's tasks that belong to no sprint, in priority (rank) order
+const fetchBacklogTasks = (projectId: string) =>
+  repository.tasks.list({ projectIds: [projectId], sprintId: null, status: 'backlog' });
 
 const ProductBacklog: React.FC = () => {
   const { projectId } = useParams<{ projectId: string }>();
-  const { getProject, getSprintsByProject, refreshProjectData } = useProjects();
-  const { user, isOwner, userRole } = useAuth();
+  const { getProject, getSprintsByProject, refreshProjectData, remoteChange, markLocalChange } = useProjects();
+  const { user } = useAuth();
   const navigate = useNavigate();
   
   const [backlogTasks, setBacklogTasks] = useState<any[]>([]);
@@ -49,6 +61,8 @@ const ProductBacklog: React.FC = () => {
   const [isAddingTask, setIsAddingTask] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [priorityFilter, setPriorityFilter] = useState<string>("all");
+  const [epicFilter, setEpicFilter] = useState<string>(ALL_EPICS);
+  const [labelFilter, setLabelFilter] = useState<string>(ALL_LABELS);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [availableSprints, setAvailableSprints] = useState<any[]>([]);
@@ -56,30 +70,22 @@ const ProductBacklog: React.FC = () => {
   const project = projectId ? getProject(projectId) : undefined;
   const allSprints = projectId ? getSprintsByProject(projectId) : [];
   
-  // Product owners and project owners can add items to backlog
-  const canAddToBacklog = isOwner || userRole === 'product_owner';
-  
-  // Scrum masters can move items from backlog to sprint
-  const canMoveToSprint = isOwner || userRole === 'scrum_master';
+  const canAddToBacklog = usePermission(projectId, 'backlog.manage');
+  const canMoveToSprint = usePermission(projectId, 'backlog.plan');
+  const { data: epics = [] } = useEpics(projectId);
+  const { data: labels = [] } = useLabels(projectId);
+  const { data: taskLabels = [] } = useTaskLabels(projectId);
   
-  // Fetch available sprints directly from Supabase
+  // Fetch available sprints directly from the data backend
   const fetchAvailableSprints = async () => {
     if (!projectId) return [];
     
     try {
-      const { data, error } = await supabase
-        .from('sprints')
-        .select('*')
-        .eq('project_id', projectId)
-        .neq('status', 'completed');
-        
-      if (error) {
-        console.error("Error fetching available sprints:", error);
-        throw error;
-      }
+      const data = (await repository.sprints.list([projectId]))
+        .filter(sprint => sprint.status !== 'completed');
       
       console.log("Available sprints:", data);
-      return data || [];
+      return data;
     } catch (error) {
       console.error("Error fetching available sprints:", error);
       return [];
@@ -99,22 +105,10 @@ const ProductBacklog: React.FC = () => {
         console.log('Fetching backlog tasks for project ID:', projectId);
         
         // Fetch backlog tasks
-        const { data, error } = await withRetry(async () => {
-          return await supabase
-            .from('tasks')
-            .select('*')
-            .eq('project_id', projectId)
-            .is('sprint_id', null)
-            .eq('status', 'backlog');
-        });
-        
-        if (error) {
-          console.error('Error fetching backlog tasks:', error);
-          throw error;
-        }
+        const data = await fetchBacklogTasks(projectId);
         
         console.log('Retrieved backlog tasks:', data);
-        setBacklogTasks(data || []);
+        setBacklogTasks(data);
         
         // Fetch available sprints
         const sprints = await fetchAvailableSprints();
@@ -144,6 +138,21 @@ const ProductBacklog: React.FC = () => {
     }
   }, [allSprints, availableSprints]); // Include availableSprints in dependencies to check for differences
   
+  // Merge backlog items added, edited, moved or deleted by teammates
+  useEffect(() => {
+    if (!remoteChange || remoteChange.table !== 'tasks') return;
+    
+    const row = remoteChange.eventType === 'DELETE' ? remoteChange.oldRow : remoteChange.newRow;
+    if (!row?.id) return;
+    
+    const isBacklogItem = remoteChange.eventType !== 'DELETE' && !row.sprint_id && row.status === 'backlog';
+    
+    setBacklogTasks(prevTasks => {
+      const others = prevTasks.filter(task => task.id !== row.id);
+      return isBacklogItem ? [...others, row].sort(compareByRank) : others;
+    });
+  }, [remoteChange]);
+  
   const handleRefresh = async () => {
     if (!projectId) return;
     
@@ -152,18 +161,7 @@ const ProductBacklog: React.FC = () => {
       await refreshProjectData(projectId);
       
       // Refetch the backlog tasks specifically
-      const { data, error } = await withRetry(async () => {
-        return await supabase
-          .from('tasks')
-          .select('*')
-          .eq('project_id', projectId)
-          .is('sprint_id', null)
-          .eq('status', 'backlog');
-      });
-      
-      if (error) throw error;
-      
-      setBacklogTasks(data || []);
+      setBacklogTasks(await fetchBacklogTasks(projectId));
       
       // Refresh available sprints
       const sprints = await fetchAvailableSprints();
@@ -190,38 +188,27 @@ const ProductBacklog: React.FC = () => {
       return;
     }
     
+    // The backlog order is the product's priority order: rank the item between its new
+    // neighbours. Indexes refer to the filtered list, which keeps the same relative order.
+    const reordered = filteredBacklogTasks.filter(task => task.id !== draggableId);
+    const rank = rankBetween(
+      reordered[destination.index - 1]?.rank,
+      reordered[destination.index]?.rank
+    );
+    
+    const previousTasks = backlogTasks;
+    setBacklogTasks(prevTasks =>
+      prevTasks.map(task => task.id === draggableId ? { ...task, rank } : task).sort(compareByRank)
+    );
+    
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .update({
-          status: destination.droppableId === "backlog" ? "backlog" : destination.droppableId
-        })
-        .eq('id', draggableId);
-      
-      if (error) {
-        console.error("Error updating task status:", error);
-        throw error;
-      }
-      
-      if (projectId && user) {
-        const { data, error } = await supabase
-          .from('tasks')
-          .select('*')
-          .eq('project_id', projectId)
-          .is('sprint_id', null)
-          .eq('status', 'backlog');
-        
-        if (error) {
-          console.error('Error refreshing backlog tasks:', error);
-          throw error;
-        }
-        
-        setBacklogTasks(data || []);
-      }
+      markLocalChange(draggableId);
       
+      await repository.tasks.update(draggableId, { rank });
     } catch (error) {
-      console.error("Error updating task status:", error);
-      toast.error("Failed to update task status");
+      console.error("Error saving backlog order:", error);
+      toast.error("Failed to save backlog order");
+      setBacklogTasks(previousTasks);
     }
   };
   
@@ -235,35 +222,17 @@ const ProductBacklog: React.FC = () => {
     }
     
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .update({
-          sprint_id: sprintId,
-          status: "todo"
-        })
-        .eq('id', taskId);
+      markLocalChange(taskId);
       
-      if (error) {
-        console.error("Error moving task to sprint:", error);
-        throw error;
-      }
+      await repository.tasks.update(taskId, {
+        sprint_id: sprintId,
+        status: "todo"
+      });
       
       toast.success("Task moved to sprint");
       
       if (projectId) {
-        const { data, error } = await supabase
-          .from('tasks')
-          .select('*')
-          .eq('project_id', projectId)
-          .is('sprint_id', null)
-          .eq('status', 'backlog');
-        
-        if (error) {
-          console.error('Error refreshing backlog tasks after move:', error);
-          throw error;
-        }
-        
-        setBacklogTasks(data || []);
+        setBacklogTasks(await fetchBacklogTasks(projectId));
       }
     } catch (error) {
       console.error("Error moving task to sprint:", error);
@@ -275,32 +244,14 @@ const ProductBacklog: React.FC = () => {
     if (!user) return;
     
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', taskId);
+      markLocalChange(taskId);
       
-      if (error) {
-        console.error("Error deleting task:", error);
-        throw error;
-      }
+      await repository.tasks.removeWhere({ ids: [taskId] });
       
       toast.success("Backlog item deleted successfully");
       
       if (projectId) {
-        const { data, error } = await supabase
-          .from('tasks')
-          .select('*')
-          .eq('project_id', projectId)
-          .is('sprint_id', null)
-          .eq('status', 'backlog');
-        
-        if (error) {
-          console.error('Error refreshing backlog tasks after delete:', error);
-          throw error;
-        }
-        
-        setBacklogTasks(data || []);
+        setBacklogTasks(await fetchBacklogTasks(projectId));
       }
     } catch (error) {
       console.error("Error deleting task:", error);
@@ -315,7 +266,9 @@ const ProductBacklog: React.FC = () => {
     )
     .filter(task => 
       priorityFilter === "all" || task.priority === priorityFilter
-    );
+    )
+    .filter(task => matchesEpicFilter(task.epic_id, epicFilter))
+    .filter(task => matchesLabelFilter(getTaskLabelIds(taskLabels, task.id), labelFilter));
   
   const getPriorityClass = (priority: string | undefined) => {
     switch (priority) {
@@ -407,6 +360,33 @@ const ProductBacklog: React.FC = () => {
             </SelectContent>
           </Select>
         </div>
+        <div className="w-full md:w-44">
+          <Select value={epicFilter} onValueChange={setEpicFilter}>
+            <SelectTrigger>
+              <SelectValue placeholder="Filter by epic" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_EPICS}>All Epics</SelectItem>
+              <SelectItem value={NO_EPIC}>No Epic</SelectItem>
+              {epics.map(epic => (
+                <SelectItem key={epic.id} value={epic.id}>{epic.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-full md:w-44">
+          <Select value={labelFilter} onValueChange={setLabelFilter}>
+            <SelectTrigger>
+              <SelectValue placeholder="Filter by label" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_LABELS}>All Labels</SelectItem>
+              {labels.map(label => (
+                <SelectItem key={label.id} value={label.id}>{label.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
       
       <DragDropContext onDragEnd={handleDragEnd}>
@@ -437,8 +417,8 @@ const ProductBacklog: React.FC = () => {
                         key={task.id}
                         draggableId={task.id}
                         index={index}
-                        // Only allow dragging for those who can move tasks
-                        isDragDisabled={!canMoveToSprint}
+                        // Only those who manage the backlog set its priority order
+                        isDragDisabled={!canAddToBacklog}
                       >
                         {(provided, snapshot) => (
                           <div
@@ -458,7 +438,15 @@ const ProductBacklog: React.FC = () => {
                               </CardHeader>
                               <CardContent className="p-4 pt-2">
                                 <p className="text-sm text-muted-foreground mb-2">{task.description || ""}</p>
-                                <Badge variant="secondary">SP: {task.story_points || 0}</Badge>
+                                <div className="flex flex-wrap items-center gap-2">
+                                  <Badge variant="secondary">SP: {task.story_points || 0}</Badge>
+                                  {task.epic_id && epics.some(epic => epic.id === task.epic_id) && (
+                                    <EpicBadge epic={epics.find(epic => epic.id === task.epic_id)!} />
+                                  )}
+                                  {getTaskLabels(labels, taskLabels, task.id).map(label => (
+                                    <LabelChip key={label.id} label={label} />
+                                  ))}
+                                </div>
                               </CardContent>
                               <CardFooter className="p-4 pt-0 flex justify-between">
                                 <div className="flex gap-1">
@@ -565,19 +553,9 @@ const ProductBacklog: React.FC = () => {
           onClose={() => {
             setEditingTask(null);
             if (projectId && user) {
-              supabase
-                .from('tasks')
-                .select('*')
-                .eq('project_id', projectId)
-                .is('sprint_id', null)
-                .eq('status', 'backlog')
-                .then(({ data, error }) => {
-                  if (error) {
-                    console.error('Error refreshing backlog tasks:', error);
-                    return;
-                  }
-                  setBacklogTasks(data || []);
-                });
+              fetchBacklogTasks(projectId)
+                .then(setBacklogTasks)
+                .catch(error => console.error('Error refreshing backlog tasks:', error));
             }
           }}
           projectId={projectId}
@@ -589,19 +567,9 @@ const ProductBacklog: React.FC = () => {
           onClose={() => {
             setIsAddingTask(false);
             if (projectId && user) {
-              supabase
-                .from('tasks')
-                .select('*')
-                .eq('project_id', projectId)
-                .is('sprint_id', null)
-                .eq('status', 'backlog')
-                .then(({ data, error }) => {
-                  if (error) {
-                    console.error('Error refreshing backlog tasks:', error);
-                    return;
-                  }
-                  setBacklogTasks(data || []);
-                });
+              fetchBacklogTasks(projectId)
+                .then(setBacklogTasks)
+                .catch(error => console.error('Error refreshing backlog tasks:', error));
             }
           }}
           projectId={projectId}
@@ -1,22 +1,31 @@
 
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { useParams } from "react-router-dom";
 import { useProjects } from "@/context/ProjectContext";
 import AddCollaboratorForm from "@/components/collaborations/AddCollaboratorForm";
 import CollaboratorsList from "@/components/collaborations/CollaboratorsList";
+import { usePermission } from "@/hooks/use-permission";
 import { Users } from "lucide-react";
 
 const ProjectCollaborators: React.FC = () => {
   const { projectId } = useParams<{ projectId: string }>();
-  const { getProject } = useProjects();
+  const { getProject, remoteChange } = useProjects();
   const [refresh, setRefresh] = useState(0);
   
   const project = getProject(projectId || "");
+  const canManageTeam = usePermission(projectId, 'team.manage');
   
   const handleCollaboratorChange = () => {
     setRefresh(prev => prev + 1);
   };
   
+  // Reload the list when collaborators are changed from another session
+  useEffect(() => {
+    if (remoteChange?.table === 'collaborators') {
+      handleCollaboratorChange();
+    }
+  }, [remoteChange]);
+  
   if (!project) {
     return (
       <div className="text-center py-8">
@@ -25,6 +34,14 @@ const ProjectCollaborators: React.FC = () => {
     );
   }
   
+  if (!canManageTeam) {
+    return (
+      <div className="text-center py-8">
+        Only the project owner can manage collaborators
+      </div>
+    );
+  }
+  
   return (
     <div className="animate-fade-up">
       <div className="flex items-center gap-3 mb-6">
@@ -1,18 +1,17 @@
 import React, { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useProjects } from "@/context/ProjectContext";
-import { useAuth } from "@/context/AuthContext";
 import SprintCard from "@/components/sprints/SprintCard";
 import NewSprintButton from "@/components/sprints/NewSprintButton";
 import { X, Edit } from "lucide-react";
 import { toast } from "sonner";
-import { fetchProjectCollaborators, fetchCollaborativeProjectSprints, supabase } from "@/lib/supabase";
-import { ProjectRole } from "@/types";
+import { repository } from "@/data";
+import { useProjectRole } from "@/hooks/use-permission";
+import { can } from "@/lib/permissions";
 
 const ProjectDetail: React.FC = () => {
   const { projectId } = useParams<{ projectId: string }>();
   const { getProject, getSprintsByProject, getSprint, updateSprint } = useProjects();
-  const { user } = useAuth();
   const navigate = useNavigate();
   
   const [editingSprint, setEditingSprint] = useState<string | null>(null);
@@ -21,14 +20,13 @@ const ProjectDetail: React.FC = () => {
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
   const [status, setStatus] = useState<"planned" | "in-progress" | "completed">("planned");
-  const [isOwner, setIsOwner] = useState(false);
-  const [userRole, setUserRole] = useState<ProjectRole | null>(null);
   const [sprints, setSprints] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   
   const project = getProject(projectId || "");
+  const role = useProjectRole(projectId);
   
-  // Fetch sprints directly from Supabase
+  // Fetch sprints directly from the data backend
   useEffect(() => {
     const fetchSprints = async () => {
       if (!projectId) {
@@ -39,16 +37,7 @@ const ProjectDetail: React.FC = () => {
       try {
         // For all projects (owned or collaborative), fetch sprints directly from the database
         console.log("Fetching sprints for project:", projectId);
-        const { data, error } = await supabase
-          .from('sprints')
-          .select('*')
-          .eq('project_id', projectId)
-          .order('created_at', { ascending: false });
-          
-        if (error) {
-          console.error("Error fetching sprints:", error);
-          throw error;
-        }
+        const data = await repository.sprints.list([projectId]);
         
         console.log("Fetched sprints:", data);
         if (data) {
@@ -67,33 +56,6 @@ const ProjectDetail: React.FC = () => {
     fetchSprints();
   }, [projectId, getSprintsByProject]);
   
-  useEffect(() => {
-    const checkProjectAccess = async () => {
-      if (!project || !user) return;
-      
-      // Check if user is owner
-      if (project.ownerId === user.id) {
-        setIsOwner(true);
-        setUserRole('scrum_master'); // Owner has scrum master privileges
-        return;
-      }
-      
-      // Otherwise check collaborator role
-      try {
-        const collaborators = await fetchProjectCollaborators(project.id);
-        const userCollaboration = collaborators.find(c => c.userId === user.id);
-        
-        if (userCollaboration) {
-          setUserRole(userCollaboration.role);
-        }
-      } catch (error) {
-        console.error("Error checking project access:", error);
-      }
-    };
-    
-    checkProjectAccess();
-  }, [project, user]);
-  
   const handleEditClick = (sprintId: string) => {
     // Find the sprint in the fetched sprints array first
     const sprintToEdit = sprints.find(s => s.id === sprintId);
@@ -150,13 +112,7 @@ const ProjectDetail: React.FC = () => {
     if (!projectId) return;
     
     try {
-      const { data, error } = await supabase
-        .from('sprints')
-        .select('*')
-        .eq('project_id', projectId)
-        .order('created_at', { ascending: false });
-        
-      if (error) throw error;
+      const data = await repository.sprints.list([projectId]);
       
       if (data) {
         setSprints(data);
@@ -166,9 +122,8 @@ const ProjectDetail: React.FC = () => {
     }
   };
   
-  // Check if user can modify sprints (scrum_master or owner)
-  const canModifySprints = isOwner || userRole === 'scrum_master';
-  const isOwnerOrAdmin = isOwner || userRole === 'scrum_master';
+  const canModifySprints = can(role, 'sprint.manage');
+  const canPlanSprints = can(role, 'backlog.plan');
   
   if (isLoading) {
     return (
@@ -227,7 +182,8 @@ const ProjectDetail: React.FC = () => {
               }}
               onEdit={canModifySprints ? () => handleEditClick(sprint.id) : undefined}
               onViewBoard={() => handleViewSprintBoard(sprint.id)}
-              isOwnerOrAdmin={isOwnerOrAdmin}
+              onPlan={canPlanSprints ? () => navigate(`/projects/${projectId}/sprint/${sprint.id}/plan`) : undefined}
+              isOwnerOrAdmin={canModifySprints}
               canEdit={canModifySprints}
             />
           ))}
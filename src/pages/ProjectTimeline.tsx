@@ -2,27 +2,28 @@
 import React, { useState, useEffect } from "react";
 import { useParams } from "react-router-dom";
 import { useProjects } from "@/context/ProjectContext";
+import { useWorkingCalendar } from "@/hooks/use-working-calendar";
+import { countWorkingDays, getNonWorkingDays } from "@/lib/calendar";
 import { format, parseISO, differenceInDays, addDays } from "date-fns";
 import { Calendar, CheckCircle, Circle, Clock, Users, ListTodo, Star } from "lucide-react";
 import { fetchCollaborativeProjectSprints, fetchCollaborativeSprintTasks } from "@/lib/supabase";
 
 const ProjectTimeline: React.FC = () => {
   const { projectId } = useParams<{ projectId: string }>();
-  const { getProject, getSprintsByProject, getTasksBySprint } = useProjects();
+  const { getProject, getSprintsByProject, getTasksBySprint, remoteChange } = useProjects();
   const [sprints, setSprints] = useState<any[]>([]);
   const [tasks, setTasks] = useState<Record<string, any[]>>({});
   const [lastRefreshTime, setLastRefreshTime] = useState<number>(Date.now());
+  const calendar = useWorkingCalendar(projectId);
   
   const project = getProject(projectId || "");
   
-  // Refresh data every 15 seconds
+  // Refresh when a teammate changes a sprint or task of this project
   useEffect(() => {
-    const interval = setInterval(() => {
-      setLastRefreshTime(Date.now());
-    }, 15000);
-    
-    return () => clearInterval(interval);
-  }, []);
+    if (remoteChange && (remoteChange.table === 'sprints' || remoteChange.table === 'tasks')) {
+      setLastRefreshTime(remoteChange.receivedAt);
+    }
+  }, [remoteChange]);
   
   useEffect(() => {
     const fetchSprints = async () => {
@@ -158,7 +159,10 @@ const ProjectTimeline: React.FC = () => {
       ) : (
         <div className="space-y-8">
           <div className="bg-scrum-card border border-scrum-border p-4 rounded-lg">
-            <h3 className="text-lg font-medium mb-4">Sprint Timeline</h3>
+            <h3 className="text-lg font-medium mb-1">Sprint Timeline</h3>
+            <p className="text-xs text-scrum-text-secondary mb-4">
+              Shaded parts of a sprint are weekends, holidays and team days off.
+            </p>
             <div className="relative overflow-x-auto">
               <div className="min-w-[768px]">
                 <div className="flex mb-8 border-b border-scrum-border pb-2">
@@ -185,6 +189,10 @@ const ProjectTimeline: React.FC = () => {
                   const offsetPercentage = (offsetDays / totalDuration) * 100;
                   const widthPercentage = (duration / totalDuration) * 100;
                   
+                  // Weekends, holidays and days off are shaded inside the bar
+                  const workingDays = countWorkingDays(normalizedSprint.startDate, normalizedSprint.endDate, calendar);
+                  const nonWorkingDays = getNonWorkingDays(normalizedSprint.startDate, normalizedSprint.endDate, calendar);
+                  
                   // Story points for this sprint
                   const totalPoints = getTotalStoryPoints(normalizedSprint.id);
                   const completedPoints = getCompletedStoryPoints(normalizedSprint.id);
@@ -202,6 +210,10 @@ const ProjectTimeline: React.FC = () => {
                             {format(new Date(normalizedSprint.startDate), "MMM d")} - {format(new Date(normalizedSprint.endDate), "MMM d, yyyy")}
                           </span>
                         </div>
+                        <div className="flex items-center text-xs text-scrum-text-secondary mb-1">
+                          <Clock className="h-3 w-3 mr-1" />
+                          <span>{workingDays} working days</span>
+                        </div>
                         <div className="flex items-center text-xs text-scrum-text-secondary mb-1">
                           <ListTodo className="h-3 w-3 mr-1" />
                           <span>
@@ -226,6 +238,17 @@ const ProjectTimeline: React.FC = () => {
                               transition: 'all 0.3s ease'
                             }}
                           ></div>
+                          {nonWorkingDays.map(day => (
+                            <div
+                              key={day}
+                              title={`${format(parseISO(day), "EEE, MMM d")}: not a working day`}
+                              className="absolute h-6 bg-scrum-background/60"
+                              style={{
+                                left: `${(differenceInDays(new Date(day), earliestDate) / totalDuration) * 100}%`,
+                                width: `${100 / totalDuration}%`
+                              }}
+                            ></div>
+                          ))}
                         </div>
                       </div>
                     </div>
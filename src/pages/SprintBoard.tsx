@@ -1,14 +1,34 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useProjects } from "@/context/ProjectContext";
 import { DragDropContext, Droppable, Draggable } from "react-beautiful-dnd";
-import { Edit, CheckCircle, AlertTriangle, User } from "lucide-react";
+import { Edit, CheckCircle, User, Columns, ClipboardList, Users } from "lucide-react";
 import { toast } from "sonner";
 import TaskCard from "@/components/tasks/TaskCard";
 import EditTaskModal from "@/components/tasks/EditTaskModal";
-import { supabase } from "@/lib/supabase";
+import ManageColumnsModal from "@/components/sprints/ManageColumnsModal";
+import CompleteSprintWizard from "@/components/sprints/CompleteSprintWizard";
+import { fetchSprintColumns } from "@/lib/supabase";
+import { can } from "@/lib/permissions";
+import { compareByRank, rankBetween } from "@/lib/rank";
+import { repository } from "@/data";
 import { useAuth } from "@/context/AuthContext";
-import { ProjectRole, Collaborator, Task } from "@/types";
+import { useProjectRole } from "@/hooks/use-permission";
+import { useWorkingCalendar } from "@/hooks/use-working-calendar";
+import { useSprintCapacity, useSprintVelocities } from "@/hooks/use-sprint-capacity";
+import { useTaskDependencies } from "@/hooks/use-task-dependencies";
+import { useChecklistItems } from "@/hooks/use-checklist-items";
+import { useEpics } from "@/hooks/use-epics";
+import { ALL_EPICS, NO_EPIC, matchesEpicFilter } from "@/lib/epics";
+import { useLabels, useTaskLabels } from "@/hooks/use-labels";
+import { ALL_LABELS, getTaskLabelIds, getTaskLabels, matchesLabelFilter } from "@/lib/labels";
+import { useTaskComments } from "@/hooks/use-task-comments";
+import { countTaskComments } from "@/lib/comments";
+import { getBlockerIds } from "@/lib/dependencies";
+import { getChecklistProgress, isChecklistBlockingDone } from "@/lib/checklist";
+import { suggestCommitment } from "@/lib/velocity";
+import { SprintCapacity } from "@/lib/capacity";
+import { Collaborator, Task, BoardColumn } from "@/types";
 import { 
   Select,
   SelectContent,
@@ -17,30 +37,83 @@ import {
   SelectValue
 } from "@/components/ui/select";
 
+type ColumnState = {[key: string]: {title: string, statusCategory: string, taskIds: string[]}};
+type BoardTask = { id: string; status: string; column_id?: string | null; rank?: string | null; created_at?: string | null };
+
+// A task belongs to its stored column as long as that column still matches its status,
+// otherwise to the first column of its status category (or the first column at all)
+const resolveTaskColumnId = (task: BoardTask, boardColumns: BoardColumn[]): string | null => {
+  const storedColumn = boardColumns.find(column => column.id === task.column_id);
+  if (storedColumn && storedColumn.statusCategory === task.status) {
+    return storedColumn.id;
+  }
+  
+  const categoryColumn = boardColumns.find(column => column.statusCategory === task.status);
+  return categoryColumn?.id || boardColumns[0]?.id || null;
+};
+
+const buildColumns = (boardColumns: BoardColumn[], tasks: BoardTask[]): ColumnState => {
+  const columns: ColumnState = {};
+  boardColumns.forEach(column => {
+    columns[column.id] = { title: column.title, statusCategory: column.statusCategory, taskIds: [] };
+  });
+  
+  // Cards keep their saved order within each column
+  [...tasks].sort(compareByRank).forEach(task => {
+    const columnId = resolveTaskColumnId(task, boardColumns);
+    if (columnId) {
+      columns[columnId].taskIds.push(task.id);
+    }
+  });
+  
+  return columns;
+};
+
 const SprintBoard: React.FC = () => {
   const { sprintId } = useParams<{ sprintId: string }>();
-  const { updateSprint, updateTask, refreshProjectData } = useProjects();
+  const { updateSprint, updateTask, getTask, refreshProjectData, remoteChange, remotelyChangedTaskIds, markLocalChange } = useProjects();
   const { user } = useAuth();
   const navigate = useNavigate();
   
   const [sprint, setSprint] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [columns, setColumns] = useState<{[key: string]: {title: string, taskIds: string[]}}>(
-    {
-      "todo": { title: "TO DO", taskIds: [] },
-      "in-progress": { title: "IN PROGRESS", taskIds: [] },
-      "done": { title: "DONE", taskIds: [] }
-    }
-  );
-  const [columnOrder, setColumnOrder] = useState<string[]>(["todo", "in-progress", "done"]);
+  const [boardColumns, setBoardColumns] = useState<BoardColumn[]>([]);
+  const [columns, setColumns] = useState<ColumnState>({});
+  const [isManagingColumns, setIsManagingColumns] = useState(false);
   const [editingTask, setEditingTask] = useState<string | null>(null);
-  const [isCompleteDialogOpen, setIsCompleteDialogOpen] = useState(false);
+  const [isCompletingSprint, setIsCompletingSprint] = useState(false);
   const [tasks, setTasks] = useState<any[]>([]);
   const [taskMap, setTaskMap] = useState<{[key: string]: any}>({});
   const [projectId, setProjectId] = useState<string | null>(null);
-  const [userRole, setUserRole] = useState<ProjectRole | null>(null);
-  const [isOwner, setIsOwner] = useState(false);
   const [isUpdatingTask, setIsUpdatingTask] = useState(false);
+  const role = useProjectRole(projectId || undefined);
+  const canManageSprint = can(role, 'sprint.manage');
+  const canMoveTasks = can(role, 'task.move');
+  const canEditTasks = can(role, 'task.edit');
+  const calendar = useWorkingCalendar(projectId || undefined);
+  const { data: velocities = [] } = useSprintVelocities(projectId || undefined);
+  const { data: dependencies = [] } = useTaskDependencies(projectId || undefined);
+  const { data: checklistItems = [] } = useChecklistItems(projectId || undefined);
+  const { data: epics = [] } = useEpics(projectId || undefined);
+  const { data: labels = [] } = useLabels(projectId || undefined);
+  const { data: taskLabels = [] } = useTaskLabels(projectId || undefined);
+  const { data: comments = [] } = useTaskComments(projectId || undefined);
+  const [epicFilter, setEpicFilter] = useState(ALL_EPICS);
+  const [labelFilter, setLabelFilter] = useState(ALL_LABELS);
+  // Drop positions are worked out on the full columns, so dragging waits until the filters are cleared
+  const isFiltered = epicFilter !== ALL_EPICS || labelFilter !== ALL_LABELS;
+  const { capacity } = useSprintCapacity(
+    projectId || undefined,
+    sprint,
+    sprint ? suggestCommitment(velocities, sprint, undefined, calendar) : null
+  );
+  
+  // Titles of the unfinished tasks blocking a task, whether they are on this board or not
+  const getOpenBlockers = (taskId: string): string[] =>
+    getBlockerIds(dependencies, taskId)
+      .map(blockerId => taskMap[blockerId] || getTask(blockerId))
+      .filter(blocker => blocker && blocker.status !== 'done')
+      .map(blocker => blocker.title);
   
   // Function to refresh board data
   const refreshBoardData = async () => {
@@ -49,16 +122,7 @@ const SprintBoard: React.FC = () => {
     try {
       console.log("Refreshing sprint board data for sprint ID:", sprintId);
         
-      const { data: sprintData, error: sprintError } = await supabase
-        .from('sprints')
-        .select('*')
-        .eq('id', sprintId)
-        .single();
-        
-      if (sprintError) {
-        console.error("Error fetching sprint:", sprintError);
-        throw sprintError;
-      }
+      const sprintData = await repository.sprints.get(sprintId);
       
       if (!sprintData) {
         console.error("Sprint not found");
@@ -69,12 +133,7 @@ const SprintBoard: React.FC = () => {
       setSprint(sprintData);
       setProjectId(sprintData.project_id);
       
-      const { data: tasksData, error: tasksError } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('sprint_id', sprintId);
-        
-      if (tasksError) throw tasksError;
+      const tasksData = await repository.tasks.list({ sprintId });
       
       console.log("Tasks data fetched:", tasksData || []);
       
@@ -87,21 +146,10 @@ const SprintBoard: React.FC = () => {
       setTaskMap(newTaskMap);
       setTasks(tasksData || []);
       
-      const initialColumns: {[key: string]: {title: string, taskIds: string[]}} = {
-        "todo": { title: "TO DO", taskIds: [] },
-        "in-progress": { title: "IN PROGRESS", taskIds: [] },
-        "done": { title: "DONE", taskIds: [] }
-      };
-      
-      tasksData?.forEach(task => {
-        if (initialColumns[task.status]) {
-          initialColumns[task.status].taskIds.push(task.id);
-        } else {
-          initialColumns.todo.taskIds.push(task.id);
-        }
-      });
-      
-      setColumns(initialColumns);
+      // The backend creates the default columns along with the sprint
+      const sprintColumns = await fetchSprintColumns(sprintId);
+      setBoardColumns(sprintColumns);
+      setColumns(buildColumns(sprintColumns, tasksData || []));
       
     } catch (error) {
       console.error('Error refreshing board data:', error);
@@ -117,16 +165,7 @@ const SprintBoard: React.FC = () => {
         setIsLoading(true);
         console.log("Fetching sprint data for sprint ID:", sprintId);
         
-        const { data: sprintData, error: sprintError } = await supabase
-          .from('sprints')
-          .select('*')
-          .eq('id', sprintId)
-          .single();
-          
-        if (sprintError) {
-          console.error("Error fetching sprint:", sprintError);
-          throw sprintError;
-        }
+        const sprintData = await repository.sprints.get(sprintId);
         
         if (!sprintData) {
           console.error("Sprint not found");
@@ -137,12 +176,7 @@ const SprintBoard: React.FC = () => {
         setSprint(sprintData);
         setProjectId(sprintData.project_id);
         
-        const { data: tasksData, error: tasksError } = await supabase
-          .from('tasks')
-          .select('*')
-          .eq('sprint_id', sprintId);
-          
-        if (tasksError) throw tasksError;
+        const tasksData = await repository.tasks.list({ sprintId });
         
         console.log("Tasks data fetched:", tasksData || []);
         
@@ -155,51 +189,9 @@ const SprintBoard: React.FC = () => {
         setTaskMap(taskMap);
         setTasks(tasksData || []);
         
-        const initialColumns: {[key: string]: {title: string, taskIds: string[]}} = {
-          "todo": { title: "TO DO", taskIds: [] },
-          "in-progress": { title: "IN PROGRESS", taskIds: [] },
-          "done": { title: "DONE", taskIds: [] }
-        };
-        
-        tasksData?.forEach(task => {
-          if (initialColumns[task.status]) {
-            initialColumns[task.status].taskIds.push(task.id);
-          } else {
-            initialColumns.todo.taskIds.push(task.id);
-          }
-        });
-        
-        setColumns(initialColumns);
-        
-        if (user) {
-          const { data: projectData, error: projectError } = await supabase
-            .from('projects')
-            .select('owner_id')
-            .eq('id', sprintData.project_id)
-            .single();
-            
-          if (projectError) {
-            console.error("Error fetching project:", projectError);
-          } else if (projectData && projectData.owner_id === user.id) {
-            console.log("User is project owner");
-            setIsOwner(true);
-            setUserRole('scrum_master');
-          } else {
-            const { data: collaboratorData, error: collaboratorError } = await supabase
-              .from('collaborators')
-              .select('role')
-              .eq('project_id', sprintData.project_id)
-              .eq('user_id', user.id)
-              .single();
-              
-            if (collaboratorError) {
-              console.error("Error checking collaborator status:", collaboratorError);
-            } else if (collaboratorData) {
-              console.log("User is a collaborator with role:", collaboratorData.role);
-              setUserRole(collaboratorData.role as ProjectRole);
-            }
-          }
-        }
+        const sprintColumns = await fetchSprintColumns(sprintId);
+        setBoardColumns(sprintColumns);
+        setColumns(buildColumns(sprintColumns, tasksData || []));
         
         setIsLoading(false);
       } catch (error) {
@@ -210,6 +202,52 @@ const SprintBoard: React.FC = () => {
     
     fetchSprintData();
   }, [sprintId, user]);
+  
+  // Read by the remote-change handler, which runs once per change rather than on every board update
+  const boardRef = useRef({ tasks, boardColumns, projectId, navigate, refreshBoardData });
+  boardRef.current = { tasks, boardColumns, projectId, navigate, refreshBoardData };
+  
+  // Merge teammates' changes to this sprint's tasks, columns and the sprint itself
+  useEffect(() => {
+    if (!remoteChange || !sprintId) return;
+    const { tasks, boardColumns, projectId, navigate, refreshBoardData } = boardRef.current;
+    
+    const row = remoteChange.eventType === 'DELETE' ? remoteChange.oldRow : remoteChange.newRow;
+    if (!row?.id) return;
+    
+    if (remoteChange.table === 'board_columns' && row.sprint_id === sprintId) {
+      refreshBoardData();
+      return;
+    }
+    
+    if (remoteChange.table === 'sprints' && row.id === sprintId) {
+      if (remoteChange.eventType === 'DELETE') {
+        toast.info("This sprint was deleted by a teammate");
+        navigate(projectId ? `/projects/${projectId}` : "/");
+      } else {
+        setSprint(remoteChange.newRow);
+      }
+      return;
+    }
+    
+    if (remoteChange.table !== 'tasks') return;
+    
+    const belongsToSprint = remoteChange.eventType !== 'DELETE' && row.sprint_id === sprintId;
+    const wasOnBoard = tasks.some(task => task.id === row.id);
+    if (!belongsToSprint && !wasOnBoard) return;
+    
+    const others = tasks.filter(task => task.id !== row.id);
+    const nextTasks = belongsToSprint ? [...others, row] : others;
+    
+    const nextTaskMap: {[key: string]: BoardTask} = {};
+    nextTasks.forEach(task => {
+      nextTaskMap[task.id] = task;
+    });
+    
+    setTasks(nextTasks);
+    setTaskMap(nextTaskMap);
+    setColumns(buildColumns(boardColumns, nextTasks));
+  }, [remoteChange, sprintId]);
 
   const handleDragEnd = async (result: any) => {
     const { destination, source, draggableId } = result;
@@ -226,6 +264,9 @@ const SprintBoard: React.FC = () => {
     const sourceColumn = columns[source.droppableId];
     const destColumn = columns[destination.droppableId];
     
+    // Rank the card between its new neighbours so the order survives a refresh
+    const getRank = (taskId?: string) => taskId ? taskMap[taskId]?.rank : null;
+    
     if (source.droppableId === destination.droppableId) {
       const newTaskIds = Array.from(sourceColumn.taskIds);
       newTaskIds.splice(source.index, 1);
@@ -240,8 +281,46 @@ const SprintBoard: React.FC = () => {
         ...columns,
         [source.droppableId]: newColumn,
       });
+      
+      const rank = rankBetween(getRank(newTaskIds[destination.index - 1]), getRank(newTaskIds[destination.index + 1]));
+      
+      try {
+        markLocalChange(draggableId);
+        
+        await repository.tasks.update(draggableId, { rank });
+        
+        setTasks(prevTasks => 
+          prevTasks.map(task => task.id === draggableId ? { ...task, rank } : task)
+        );
+        
+        setTaskMap(prevMap => ({
+          ...prevMap,
+          [draggableId]: { ...prevMap[draggableId], rank }
+        }));
+      } catch (error) {
+        console.error("Error saving task order:", error);
+        toast.error("Failed to save task order");
+        
+        setColumns({
+          ...columns,
+          [source.droppableId]: sourceColumn,
+        });
+      }
     } 
     else {
+      // A task can't be finished while the tasks blocking it are still open
+      const openBlockers = destColumn.statusCategory === 'done' ? getOpenBlockers(draggableId) : [];
+      if (openBlockers.length > 0) {
+        toast.warning(`This task is blocked by ${openBlockers.join(", ")}. Finish ${openBlockers.length === 1 ? "it" : "them"} first.`);
+        return;
+      }
+      
+      const checklistProgress = getChecklistProgress(checklistItems, draggableId);
+      if (destColumn.statusCategory === 'done' && isChecklistBlockingDone(taskMap[draggableId] || {}, checklistProgress)) {
+        toast.warning(`Complete all subtasks and checklist items first (${checklistProgress.done}/${checklistProgress.total} done).`);
+        return;
+      }
+      
       const sourceTaskIds = Array.from(sourceColumn.taskIds);
       sourceTaskIds.splice(source.index, 1);
       
@@ -260,33 +339,41 @@ const SprintBoard: React.FC = () => {
         },
       });
       
+      const rank = rankBetween(getRank(destTaskIds[destination.index - 1]), getRank(destTaskIds[destination.index + 1]));
+      const newStatus = destColumn.statusCategory;
+      // The first move into an in-progress column starts the task's cycle time
+      const startedAt = newStatus === 'in-progress' && !taskMap[draggableId]?.started_at
+        ? new Date().toISOString()
+        : undefined;
+      const startedValues = startedAt ? { started_at: startedAt } : {};
+      
       try {
-        const { error } = await supabase
-          .from('tasks')
-          .update({ status: destination.droppableId })
-          .eq('id', draggableId);
-          
-        if (error) throw error;
+        markLocalChange(draggableId);
+        
+        await repository.tasks.update(draggableId, { status: newStatus, column_id: destination.droppableId, rank, ...startedValues });
         
         // Update the task in tasks array and taskMap
         setTasks(prevTasks => 
           prevTasks.map(task => 
-            task.id === draggableId ? { ...task, status: destination.droppableId } : task
+            task.id === draggableId ? { ...task, status: newStatus, column_id: destination.droppableId, rank, ...startedValues } : task
           )
         );
         
         setTaskMap(prevMap => ({
           ...prevMap,
-          [draggableId]: { ...prevMap[draggableId], status: destination.droppableId }
+          [draggableId]: { ...prevMap[draggableId], status: newStatus, column_id: destination.droppableId, rank, ...startedValues }
         }));
         
         try {
           await updateTask(draggableId, {
-            status: destination.droppableId
+            status: newStatus,
+            columnId: destination.droppableId,
+            rank,
+            startedAt
           });
           
           // Refresh project data in context to keep everything in sync
-          if (projectId && destination.droppableId === 'done') {
+          if (projectId && newStatus === 'done') {
             await refreshProjectData(projectId);
           }
         } catch (contextError) {
@@ -361,7 +448,8 @@ const SprintBoard: React.FC = () => {
             story_points: updatedTask.story_points,
             priority: updatedTask.priority,
             completionDate: updatedTask.completion_date,
-            completion_date: updatedTask.completion_date
+            completion_date: updatedTask.completion_date,
+            column_id: updatedTask.column_id
           } : task
         );
         console.log("Updated tasks array:", updatedTasks);
@@ -382,7 +470,8 @@ const SprintBoard: React.FC = () => {
           story_points: updatedTask.story_points,
           priority: updatedTask.priority,
           completionDate: updatedTask.completion_date,
-          completion_date: updatedTask.completion_date
+          completion_date: updatedTask.completion_date,
+          column_id: updatedTask.column_id
         }
       }));
       
@@ -393,39 +482,26 @@ const SprintBoard: React.FC = () => {
         
         // Find which column currently contains the task
         let currentColumnId: string | null = null;
-        let foundInColumn = false;
         
         Object.keys(newColumns).forEach(columnId => {
           if (newColumns[columnId].taskIds.includes(updatedTask.id)) {
             currentColumnId = columnId;
-            foundInColumn = true;
           }
         });
+        
+        const targetColumnId = resolveTaskColumnId(updatedTask, boardColumns);
 
         console.log(`Task ${updatedTask.id} found in column: ${currentColumnId}, new status: ${updatedTask.status}`);
         
-        // If the task's status has changed, move it to the new column
-        if (currentColumnId && currentColumnId !== updatedTask.status) {
-          // Remove from current column
-          newColumns[currentColumnId].taskIds = newColumns[currentColumnId].taskIds.filter(
-            (id: string) => id !== updatedTask.id
-          );
-          
-          // Add to new column if it exists
-          if (newColumns[updatedTask.status]) {
-            newColumns[updatedTask.status].taskIds.push(updatedTask.id);
-          } else {
-            // Default to todo if the status doesn't match a column
-            newColumns.todo.taskIds.push(updatedTask.id);
+        // If the task's status has changed, move it to the matching column
+        if (targetColumnId && currentColumnId !== targetColumnId) {
+          if (currentColumnId) {
+            newColumns[currentColumnId].taskIds = newColumns[currentColumnId].taskIds.filter(
+              (id: string) => id !== updatedTask.id
+            );
           }
-        } 
-        // If task wasn't found in any column, add it to the appropriate column
-        else if (!foundInColumn) {
-          const targetColumn = updatedTask.status && newColumns[updatedTask.status] 
-            ? updatedTask.status 
-            : 'todo';
-            
-          newColumns[targetColumn].taskIds.push(updatedTask.id);
+          
+          newColumns[targetColumnId].taskIds.push(updatedTask.id);
         }
         
         console.log("Updated columns state:", newColumns);
@@ -445,50 +521,30 @@ const SprintBoard: React.FC = () => {
     }
   };
   
-  const handleCompleteSprint = async () => {
-    if (!isOwner && userRole !== 'scrum_master') {
-      toast.error("Only project owners and admins can complete sprints");
-      return;
-    }
-
-    if (!allTasksCompleted) {
-      setIsCompleteDialogOpen(true);
+  const handleCompleteSprint = () => {
+    if (!canManageSprint) {
+      toast.error("Only project owners and scrum masters can complete sprints");
       return;
     }
     
-    await completeSprintAction();
+    setIsCompletingSprint(true);
   };
   
-  const completeSprintAction = async () => {
-    try {
-      const { error } = await supabase
-        .from('sprints')
-        .update({ status: 'completed' })
-        .eq('id', sprint.id);
-        
-      if (error) throw error;
-      
-      setSprint({ ...sprint, status: 'completed' });
-      toast.success("Sprint marked as completed!");
-      
-      // Immediately refresh project data to update burndown charts and timelines
-      if (projectId) {
-        await refreshProjectData(projectId);
-      }
-    } catch (error) {
-      console.error("Error completing sprint:", error);
-      toast.error("Failed to complete sprint");
+  const handleSprintCompleted = async (startedSprintId?: string) => {
+    setIsCompletingSprint(false);
+    
+    // Immediately refresh project data to update burndown charts and timelines
+    if (projectId) {
+      await refreshProjectData(projectId);
     }
-  };
-  
-  const confirmCompleteSprint = async () => {
-    try {
-      await completeSprintAction();
-      setIsCompleteDialogOpen(false);
-    } catch (error) {
-      console.error("Error completing sprint:", error);
-      toast.error("Failed to complete sprint");
+    
+    if (startedSprintId && projectId) {
+      navigate(`/projects/${projectId}/sprint/${startedSprintId}`);
+      return;
     }
+    
+    // Carried-over tasks have left this board
+    await refreshBoardData();
   };
   
   if (isLoading) {
@@ -517,30 +573,74 @@ const SprintBoard: React.FC = () => {
   }
 
   const allTasksCompleted = tasks.length > 0 && tasks.every(task => task.status === "done");
+  
+  // The board can only be reshaped while the sprint is open
+  const canManageColumns = can(role, 'board.configure') && sprint.status !== "completed";
 
   return (
     <div className="container mx-auto pb-20 px-4">
       <SprintHeader 
         sprint={sprint}
+        capacity={capacity}
         onCompleteSprint={handleCompleteSprint}
         allTasksCompleted={allTasksCompleted}
-        canComplete={isOwner || userRole === 'scrum_master'}
+        canComplete={canManageSprint}
+        onPlanSprint={can(role, 'backlog.plan') && projectId ? () => navigate(`/projects/${projectId}/sprint/${sprint.id}/plan`) : undefined}
       />
       
       <div className="flex items-center justify-between mb-4 mt-8">
         <h3 className="text-lg font-medium">Sprint Board</h3>
+        <div className="flex items-center gap-2">
+          {isFiltered && (
+            <span className="text-xs text-scrum-text-secondary">Clear the filters to move tasks</span>
+          )}
+          <select
+            value={epicFilter}
+            onChange={(e) => setEpicFilter(e.target.value)}
+            className="scrum-input w-44"
+          >
+            <option value={ALL_EPICS}>All Epics</option>
+            <option value={NO_EPIC}>No Epic</option>
+            {epics.map(epic => (
+              <option key={epic.id} value={epic.id}>{epic.title}</option>
+            ))}
+          </select>
+          <select
+            value={labelFilter}
+            onChange={(e) => setLabelFilter(e.target.value)}
+            className="scrum-input w-44"
+          >
+            <option value={ALL_LABELS}>All Labels</option>
+            {labels.map(label => (
+              <option key={label.id} value={label.id}>{label.name}</option>
+            ))}
+          </select>
+          {canManageColumns && (
+            <button
+              onClick={() => setIsManagingColumns(true)}
+              className="scrum-button-secondary flex items-center gap-1"
+            >
+              <Columns className="h-4 w-4" />
+              <span>Manage Columns</span>
+            </button>
+          )}
+        </div>
       </div>
       
       <DragDropContext onDragEnd={handleDragEnd}>
         <div className="flex gap-4 pb-4 overflow-x-auto">
-          {columnOrder.map((columnId) => {
+          {boardColumns.map(({ id: columnId }) => {
             const column = columns[columnId];
             
             if (!column) return null;
             
             const columnTasks = column.taskIds
               .map(taskId => taskMap[taskId] || tasks.find(task => task.id === taskId))
-              .filter(Boolean);
+              .filter(task =>
+                task &&
+                matchesEpicFilter(task.epic_id, epicFilter) &&
+                matchesLabelFilter(getTaskLabelIds(taskLabels, task.id), labelFilter)
+              );
             
             return (
               <div key={columnId} className="min-w-[270px] max-w-[270px] flex-shrink-0">
@@ -550,7 +650,7 @@ const SprintBoard: React.FC = () => {
                     <div className="text-xs text-scrum-text-secondary">{columnTasks.length}</div>
                   </div>
                   
-                  <Droppable droppableId={columnId} isDropDisabled={sprint.status === "completed" || userRole === 'product_owner'}>
+                  <Droppable droppableId={columnId} isDropDisabled={sprint.status === "completed" || !canMoveTasks || isFiltered}>
                     {(provided, snapshot) => (
                       <div
                         ref={provided.innerRef}
@@ -563,7 +663,7 @@ const SprintBoard: React.FC = () => {
                               key={task.id}
                               draggableId={task.id}
                               index={index}
-                              isDragDisabled={sprint.status === "completed" || userRole === 'product_owner' || isUpdatingTask}
+                              isDragDisabled={sprint.status === "completed" || !canMoveTasks || isUpdatingTask || isFiltered}
                             >
                               {(provided, snapshot) => (
                                 <div
@@ -574,9 +674,15 @@ const SprintBoard: React.FC = () => {
                                 >
                                   <TaskCard
                                     task={task}
-                                    onEdit={(isOwner || userRole === 'scrum_master' || userRole === 'team_member') ? () => setEditingTask(task.id) : undefined}
+                                    onEdit={canEditTasks ? () => setEditingTask(task.id) : undefined}
                                     isSprintCompleted={sprint.status === "completed"}
                                     onTaskDeleted={handleTaskDeleted}
+                                    isHighlighted={remotelyChangedTaskIds.includes(task.id)}
+                                    openBlockers={getOpenBlockers(task.id)}
+                                    checklistProgress={getChecklistProgress(checklistItems, task.id)}
+                                    epic={epics.find(epic => epic.id === task.epic_id)}
+                                    labels={getTaskLabels(labels, taskLabels, task.id)}
+                                    commentCount={countTaskComments(comments, task.id)}
                                   />
                                 </div>
                               )}
@@ -611,35 +717,26 @@ const SprintBoard: React.FC = () => {
         />
       )}
       
-      {isCompleteDialogOpen && (
-        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 animate-fade-in">
-          <div className="bg-scrum-card border border-scrum-border rounded-lg p-6 w-full max-w-md animate-fade-up">
-            <div className="mb-6 flex items-start gap-3">
-              <AlertTriangle className="text-yellow-500 h-5 w-5 mt-0.5" />
-              <div>
-                <h3 className="text-lg font-semibold mb-2">Complete Sprint</h3>
-                <p className="text-scrum-text-secondary">
-                  Not all tasks are in the "DONE" column. Do you still want to complete this sprint?
-                </p>
-              </div>
-            </div>
-            
-            <div className="flex justify-end gap-3">
-              <button
-                onClick={() => setIsCompleteDialogOpen(false)}
-                className="scrum-button-secondary"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={confirmCompleteSprint}
-                className="scrum-button-warning"
-              >
-                Complete Anyway
-              </button>
-            </div>
-          </div>
-        </div>
+      {isManagingColumns && user && (
+        <ManageColumnsModal
+          sprintId={sprint.id}
+          userId={user.id}
+          columns={boardColumns}
+          taskIdsByColumn={Object.fromEntries(
+            Object.entries(columns).map(([columnId, column]) => [columnId, column.taskIds])
+          )}
+          onClose={() => setIsManagingColumns(false)}
+          onColumnsChanged={refreshBoardData}
+        />
+      )}
+      
+      {isCompletingSprint && (
+        <CompleteSprintWizard
+          sprint={sprint}
+          tasks={tasks}
+          onClose={() => setIsCompletingSprint(false)}
+          onCompleted={handleSprintCompleted}
+        />
       )}
     </div>
   );
@@ -655,16 +752,20 @@ interface SprintHeaderProps {
     end_date: string;
     status: 'planned' | 'in-progress' | 'completed';
   };
+  capacity: SprintCapacity;
   onCompleteSprint: () => void;
   allTasksCompleted: boolean;
   canComplete: boolean;
+  onPlanSprint?: () => void;
 }
 
 const SprintHeader: React.FC<SprintHeaderProps> = ({ 
   sprint, 
+  capacity,
   onCompleteSprint,
   allTasksCompleted,
-  canComplete
+  canComplete,
+  onPlanSprint
 }) => {
   const formatDateRange = (start: string, end: string) => {
     const startDate = new Date(start);
@@ -680,9 +781,28 @@ const SprintHeader: React.FC<SprintHeaderProps> = ({
         <div className="text-sm text-scrum-text-secondary">
           {formatDateRange(sprint.start_date, sprint.end_date)}
         </div>
+        {capacity.fullDays > 0 && (
+          <div className="flex items-center gap-1 text-xs text-scrum-text-secondary mt-1">
+            <Users className="h-3 w-3" />
+            <span>
+              Capacity {capacity.hours} h
+              {capacity.points !== null && ` · about ${capacity.points} SP`}
+              {capacity.availableDays < capacity.fullDays && ` · ${Math.round(capacity.availableDays * 10) / 10} of ${capacity.fullDays} person-days available`}
+            </span>
+          </div>
+        )}
       </div>
       
-      <div>
+      <div className="flex items-center gap-2">
+        {sprint.status !== "completed" && onPlanSprint && (
+          <button
+            onClick={onPlanSprint}
+            className="scrum-button-secondary flex items-center gap-1"
+          >
+            <ClipboardList className="h-4 w-4" />
+            <span>Plan Sprint</span>
+          </button>
+        )}
         {sprint.status !== "completed" && canComplete && (
           <button
             onClick={onCompleteSprint}
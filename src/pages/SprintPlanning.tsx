@@ -0,0 +1,432 @@
+import React, { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { DragDropContext, Droppable, Draggable, DropResult } from "react-beautiful-dnd";
+import { format, parseISO } from "date-fns";
+import { ArrowLeft, Package, ClipboardList, Users, TrendingUp, Target, CalendarOff } from "lucide-react";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { useProjects } from "@/context/ProjectContext";
+import { usePermission } from "@/hooks/use-permission";
+import { useWorkingCalendar } from "@/hooks/use-working-calendar";
+import { useSprintCapacity } from "@/hooks/use-sprint-capacity";
+import { projectQueryKeys } from "@/hooks/use-project-queries";
+import { repository, SprintRow, SprintCompletionRow, TaskRow } from "@/data";
+import { compareByRank, rankBetween } from "@/lib/rank";
+import { MemberCapacity } from "@/lib/capacity";
+import {
+  getSprintVelocities,
+  suggestCommitment,
+  averageVelocity,
+  DEFAULT_VELOCITY_WINDOW,
+  VELOCITY_WINDOWS
+} from "@/lib/velocity";
+
+type PlanningList = "backlog" | "sprint";
+
+const sumPoints = (tasks: TaskRow[]) => tasks.reduce((sum, task) => sum + (task.story_points || 0), 0);
+
+// Person-days can be fractional when people are allocated part time
+const formatDays = (days: number) => (Math.round(days * 10) / 10).toString();
+
+const getPriorityClass = (priority: string | null) => {
+  switch (priority) {
+    case "high":
+      return "bg-red-500 text-white";
+    case "medium":
+      return "bg-amber-500 text-white";
+    case "low":
+      return "bg-green-500 text-white";
+    default:
+      return "bg-gray-500 text-white";
+  }
+};
+
+const SprintPlanning: React.FC = () => {
+  const { projectId, sprintId } = useParams<{ projectId: string; sprintId: string }>();
+  const { getProject, remoteChange, markLocalChange, refreshProjectData } = useProjects();
+  const navigate = useNavigate();
+
+  const [sprint, setSprint] = useState<SprintRow | null>(null);
+  const [sprints, setSprints] = useState<SprintRow[]>([]);
+  const [completions, setCompletions] = useState<SprintCompletionRow[]>([]);
+  const [tasks, setTasks] = useState<TaskRow[]>([]);
+  const [velocityWindow, setVelocityWindow] = useState(DEFAULT_VELOCITY_WINDOW);
+  const [isLoading, setIsLoading] = useState(true);
+  // List the task being dragged comes from, so each list knows whether it may take the drop
+  const [dragSource, setDragSource] = useState<PlanningList | null>(null);
+
+  const project = getProject(projectId || "");
+  const canPlan = usePermission(projectId, 'backlog.plan');
+  const canManageBacklog = usePermission(projectId, 'backlog.manage');
+  const canManageSprint = usePermission(projectId, 'sprint.manage');
+  const calendar = useWorkingCalendar(projectId);
+  const queryClient = useQueryClient();
+
+  const velocities = getSprintVelocities(sprints, completions, tasks);
+  const velocity = averageVelocity(velocities, velocityWindow);
+  const suggestedPoints = sprint ? suggestCommitment(velocities, sprint, velocityWindow, calendar) : null;
+  const { workingDays, members, capacity } = useSprintCapacity(projectId, sprint, suggestedPoints);
+
+  useEffect(() => {
+    const fetchPlanningData = async () => {
+      if (!projectId || !sprintId) return;
+
+      try {
+        setIsLoading(true);
+
+        const [sprintRows, completionRows, taskRows] = await Promise.all([
+          repository.sprints.list([projectId]),
+          repository.sprintCompletions.list([projectId]),
+          repository.tasks.list({ projectIds: [projectId] })
+        ]);
+
+        setSprints(sprintRows);
+        setSprint(sprintRows.find(s => s.id === sprintId) || null);
+        setCompletions(completionRows);
+        setTasks(taskRows);
+      } catch (error) {
+        console.error("Error fetching planning data:", error);
+        toast.error("Failed to load sprint planning");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchPlanningData();
+  }, [projectId, sprintId]);
+
+  // Pick up backlog and sprint changes made by teammates
+  useEffect(() => {
+    if (remoteChange?.table !== 'tasks' || !projectId) return;
+
+    repository.tasks.list({ projectIds: [projectId] })
+      .then(setTasks)
+      .catch(error => console.error("Error refreshing planning tasks:", error));
+  }, [remoteChange, projectId]);
+
+  const backlogTasks = tasks
+    .filter(task => !task.sprint_id && task.status === "backlog")
+    .sort(compareByRank);
+  const sprintTasks = tasks
+    .filter(task => task.sprint_id === sprintId)
+    .sort(compareByRank);
+
+  const isSprintOpen = sprint?.status !== "completed";
+  // Reordering the backlog sets product priority, which is the product owner's call;
+  // moving work into or out of the sprint and ordering it there is planning
+  const canMove = (from: PlanningList, to: PlanningList) =>
+    isSprintOpen && (from === "backlog" && to === "backlog" ? canManageBacklog : canPlan);
+  const canDragFrom = (list: PlanningList) =>
+    canMove(list, "backlog") || canMove(list, "sprint");
+  const canEditAvailability = canManageSprint && isSprintOpen;
+
+  const handleAvailabilityChange = async (
+    member: MemberCapacity,
+    values: { days_off?: number; allocation?: number }
+  ) => {
+    if (!projectId || !sprintId) return;
+
+    try {
+      await repository.availability.save({
+        sprint_id: sprintId,
+        project_id: projectId,
+        user_id: member.userId,
+        days_off: member.daysOff,
+        allocation: member.allocation,
+        ...values
+      });
+      await queryClient.invalidateQueries({ queryKey: projectQueryKeys.availability(sprintId) });
+    } catch (error) {
+      console.error("Error saving availability:", error);
+      toast.error(`Failed to save ${member.username}'s availability`);
+    }
+  };
+
+  const handleDragEnd = async (result: DropResult) => {
+    const { destination, source, draggableId } = result;
+    setDragSource(null);
+
+    if (!destination || !sprintId) return;
+
+    const from = source.droppableId as PlanningList;
+    const to = destination.droppableId as PlanningList;
+
+    if (from === to && destination.index === source.index) return;
+    if (!canMove(from, to)) return;
+
+    const targetList = (to === "backlog" ? backlogTasks : sprintTasks).filter(task => task.id !== draggableId);
+    const rank = rankBetween(targetList[destination.index - 1]?.rank, targetList[destination.index]?.rank);
+
+    const values = from === to
+      ? { rank }
+      : to === "sprint"
+        ? { sprint_id: sprintId, status: "todo", column_id: null, rank }
+        : { sprint_id: null, status: "backlog", column_id: null, rank };
+
+    const previousTasks = tasks;
+    setTasks(prev => prev.map(task => task.id === draggableId ? { ...task, ...values } : task));
+
+    try {
+      markLocalChange(draggableId);
+      await repository.tasks.update(draggableId, values);
+
+      if (from !== to && projectId) {
+        await refreshProjectData(projectId);
+      }
+    } catch (error) {
+      console.error("Error planning task:", error);
+      toast.error("Failed to move task");
+      setTasks(previousTasks);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-pulse">Loading sprint planning...</div>
+      </div>
+    );
+  }
+
+  if (!project || !sprint) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-bold mb-4">Sprint not found</h2>
+        <button
+          onClick={() => navigate(projectId ? `/projects/${projectId}` : "/")}
+          className="scrum-button"
+        >
+          Go Back
+        </button>
+      </div>
+    );
+  }
+
+  const plannedPoints = sumPoints(sprintTasks);
+  const isOverCommitted = capacity.points !== null && plannedPoints > capacity.points;
+  const isTeamReduced = capacity.availableDays < capacity.fullDays;
+
+  const renderTaskList = (list: PlanningList, listTasks: TaskRow[]) => (
+    <Droppable droppableId={list} isDropDisabled={!dragSource || !canMove(dragSource, list)}>
+      {(provided, snapshot) => (
+        <div
+          ref={provided.innerRef}
+          {...provided.droppableProps}
+          className={`p-2 flex-1 min-h-[400px] overflow-y-auto ${snapshot.isDraggingOver ? "bg-scrum-accent/10" : ""}`}
+        >
+          {listTasks.length === 0 && (
+            <p className="text-center text-sm text-scrum-text-secondary py-8">
+              {list === "backlog" ? "The backlog is empty" : "Drag backlog items here to plan them into the sprint"}
+            </p>
+          )}
+          {listTasks.map((task, index) => (
+            <Draggable key={task.id} draggableId={task.id} index={index} isDragDisabled={!canDragFrom(list)}>
+              {(provided, snapshot) => (
+                <div
+                  ref={provided.innerRef}
+                  {...provided.draggableProps}
+                  {...provided.dragHandleProps}
+                  className={`mb-2 p-3 bg-scrum border border-scrum-border rounded-md ${snapshot.isDragging ? "shadow-lg opacity-90" : ""}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="text-sm font-medium">{task.title}</p>
+                    <span className="text-xs whitespace-nowrap text-scrum-text-secondary">{task.story_points || 0} SP</span>
+                  </div>
+                  <div className="flex items-center gap-2 mt-2">
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${getPriorityClass(task.priority)}`}>
+                      {task.priority || "none"}
+                    </span>
+                    {task.assign_to && (
+                      <span className="text-xs text-scrum-text-secondary">{task.assign_to}</span>
+                    )}
+                  </div>
+                </div>
+              )}
+            </Draggable>
+          ))}
+          {provided.placeholder}
+        </div>
+      )}
+    </Droppable>
+  );
+
+  return (
+    <div className="pb-20">
+      <button
+        onClick={() => navigate(`/projects/${projectId}/sprint/${sprint.id}`)}
+        className="flex items-center gap-1 text-scrum-text-secondary hover:text-white transition-colors mb-4"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        <span>Back to Sprint Board</span>
+      </button>
+
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold">Plan {sprint.title}</h2>
+          <p className="text-sm text-scrum-text-secondary">
+            {format(parseISO(sprint.start_date), "MMM d, yyyy")} - {format(parseISO(sprint.end_date), "MMM d, yyyy")}
+          </p>
+        </div>
+        {!isSprintOpen && (
+          <span className="bg-success text-white text-xs px-2 py-1 rounded-full">Completed</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="bg-scrum-card border border-scrum-border rounded-lg p-4">
+          <div className="flex items-center gap-2 text-scrum-text-secondary text-sm mb-1">
+            <Users className="h-4 w-4" />
+            <span>Team capacity</span>
+          </div>
+          <p className="text-2xl font-bold">{capacity.hours} h</p>
+          <p className="text-xs text-scrum-text-secondary">
+            {formatDays(capacity.availableDays)} of {capacity.fullDays} person-days
+            ({members.length} {members.length === 1 ? "person" : "people"} × {workingDays} working days)
+          </p>
+        </div>
+
+        <div className="bg-scrum-card border border-scrum-border rounded-lg p-4">
+          <div className="flex items-center justify-between text-scrum-text-secondary text-sm mb-1">
+            <span className="flex items-center gap-2">
+              <TrendingUp className="h-4 w-4" />
+              <span>Average velocity</span>
+            </span>
+            <select
+              value={velocityWindow}
+              onChange={(e) => setVelocityWindow(Number(e.target.value))}
+              className="scrum-input text-xs py-0.5 px-1"
+            >
+              {VELOCITY_WINDOWS.map(window => (
+                <option key={window} value={window}>Last {window} sprints</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-2xl font-bold">{velocity === null ? "–" : `${Math.round(velocity)} SP`}</p>
+          <p className="text-xs text-scrum-text-secondary">
+            {velocity === null
+              ? "No completed sprints yet"
+              : `Over ${Math.min(velocityWindow, velocities.length)} completed sprint(s)`}
+          </p>
+        </div>
+
+        <div className={`bg-scrum-card border rounded-lg p-4 ${isOverCommitted ? "border-yellow-500" : "border-scrum-border"}`}>
+          <div className="flex items-center gap-2 text-scrum-text-secondary text-sm mb-1">
+            <Target className="h-4 w-4" />
+            <span>Planned / suggested</span>
+          </div>
+          <p className="text-2xl font-bold">
+            {plannedPoints} / {capacity.points === null ? "–" : capacity.points} SP
+          </p>
+          <p className={`text-xs ${isOverCommitted ? "text-yellow-500" : "text-scrum-text-secondary"}`}>
+            {capacity.points === null
+              ? "Complete a sprint to get a suggested commitment"
+              : isOverCommitted
+                ? `${plannedPoints - capacity.points} SP over the suggested commitment`
+                : isTeamReduced
+                  ? `Suggested from velocity, adjusted for working days and ${suggestedPoints - capacity.points} SP of time off`
+                  : "Suggested from velocity, adjusted for this sprint's working days"}
+          </p>
+        </div>
+      </div>
+
+      {members.length > 0 && (
+        <div className="bg-scrum-card border border-scrum-border rounded-lg p-4 mb-6">
+          <h3 className="font-medium flex items-center gap-2 mb-3">
+            <CalendarOff className="h-4 w-4" />
+            <span>Team availability</span>
+          </h3>
+          <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-4 gap-y-2 items-center text-sm">
+            <span className="text-xs text-scrum-text-secondary">Member</span>
+            <span className="text-xs text-scrum-text-secondary">Days off</span>
+            <span className="text-xs text-scrum-text-secondary">Allocation</span>
+            <span className="text-xs text-scrum-text-secondary text-right">Available</span>
+            {members.map(member => (
+              <React.Fragment key={member.userId}>
+                <span className="truncate">{member.username}</span>
+                <input
+                  // Remount when the saved value changes so the field shows it
+                  key={`days-off-${member.daysOff}`}
+                  type="number"
+                  min={0}
+                  max={workingDays}
+                  defaultValue={member.daysOff}
+                  disabled={!canEditAvailability}
+                  onBlur={(e) => {
+                    const daysOff = Math.min(Math.max(Math.round(Number(e.target.value) || 0), 0), workingDays);
+                    if (daysOff !== member.daysOff) handleAvailabilityChange(member, { days_off: daysOff });
+                  }}
+                  className="scrum-input w-20 py-1"
+                />
+                <div className="flex items-center gap-1">
+                  <input
+                    key={`allocation-${member.allocation}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={10}
+                    defaultValue={member.allocation}
+                    disabled={!canEditAvailability}
+                    onBlur={(e) => {
+                      const allocation = Math.min(Math.max(Math.round(Number(e.target.value) || 0), 0), 100);
+                      if (allocation !== member.allocation) handleAvailabilityChange(member, { allocation });
+                    }}
+                    className="scrum-input w-20 py-1"
+                  />
+                  <span className="text-scrum-text-secondary">%</span>
+                </div>
+                <span className="text-right whitespace-nowrap">{formatDays(member.availableDays)} days</span>
+              </React.Fragment>
+            ))}
+          </div>
+          <p className="text-xs text-scrum-text-secondary mt-3">
+            Days off are working days away during the sprint; allocation is the share of the remaining days spent on this project.
+            {!canEditAvailability && " Only project owners and scrum masters can change availability while the sprint is open."}
+          </p>
+        </div>
+      )}
+
+      {!canPlan && (
+        <p className="text-sm text-scrum-text-secondary mb-4">
+          {canManageBacklog
+            ? "Only project owners and scrum masters can plan sprints. You can still reorder the backlog."
+            : "Only project owners and scrum masters can plan sprints. You are viewing the plan read-only."}
+        </p>
+      )}
+
+      <DragDropContext
+        onDragStart={start => setDragSource(start.source.droppableId as PlanningList)}
+        onDragEnd={handleDragEnd}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-scrum-card border border-scrum-border rounded-md flex flex-col">
+            <div className="flex items-center justify-between p-3 border-b border-scrum-border">
+              <h3 className="font-medium flex items-center gap-2">
+                <Package className="h-4 w-4" />
+                <span>Product Backlog</span>
+              </h3>
+              <span className="text-xs text-scrum-text-secondary">
+                {backlogTasks.length} items · {sumPoints(backlogTasks)} SP
+              </span>
+            </div>
+            {renderTaskList("backlog", backlogTasks)}
+          </div>
+
+          <div className="bg-scrum-card border border-scrum-border rounded-md flex flex-col">
+            <div className="flex items-center justify-between p-3 border-b border-scrum-border">
+              <h3 className="font-medium flex items-center gap-2">
+                <ClipboardList className="h-4 w-4" />
+                <span>{sprint.title}</span>
+              </h3>
+              <span className="text-xs text-scrum-text-secondary">
+                {sprintTasks.length} tasks · {plannedPoints} SP
+              </span>
+            </div>
+            {renderTaskList("sprint", sprintTasks)}
+          </div>
+        </div>
+      </DragDropContext>
+    </div>
+  );
+};
+
+export default SprintPlanning;
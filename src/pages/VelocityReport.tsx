@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from "react";
+import { useParams } from "react-router-dom";
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from "recharts";
+import { format, parseISO } from "date-fns";
+import { TrendingUp, Activity, Target } from "lucide-react";
+import { toast } from "sonner";
+import { useProjects } from "@/context/ProjectContext";
+import { repository, SprintRow, SprintCompletionRow, TaskRow } from "@/data";
+import {
+  getSprintVelocities,
+  getRollingVelocities,
+  averageVelocity,
+  velocityStandardDeviation,
+  DEFAULT_VELOCITY_WINDOW,
+  VELOCITY_WINDOWS
+} from "@/lib/velocity";
+import { ChartContainer, ChartTooltipContent, ChartLegendContent } from "@/components/ui/chart";
+
+const config = {
+  committedPoints: { color: "hsl(var(--scrum-chart-line-1))", label: "Committed" },
+  deliveredPoints: { color: "hsl(var(--scrum-chart-line-2))", label: "Completed" },
+  rollingAverage: { color: "hsl(var(--scrum-chart-scope))", label: "Rolling Average" }
+};
+
+const VelocityReport: React.FC = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const { getProject, remoteChange } = useProjects();
+  const [sprints, setSprints] = useState<SprintRow[]>([]);
+  const [completions, setCompletions] = useState<SprintCompletionRow[]>([]);
+  const [tasks, setTasks] = useState<TaskRow[]>([]);
+  const [velocityWindow, setVelocityWindow] = useState(DEFAULT_VELOCITY_WINDOW);
+  const [isLoading, setIsLoading] = useState(true);
+  const [lastRefreshTime, setLastRefreshTime] = useState<number>(Date.now());
+
+  const project = getProject(projectId || "");
+
+  // Completing a sprint changes its status, so sprint and task changes both refresh the report
+  useEffect(() => {
+    if (remoteChange && (remoteChange.table === "sprints" || remoteChange.table === "tasks")) {
+      setLastRefreshTime(remoteChange.receivedAt);
+    }
+  }, [remoteChange]);
+
+  useEffect(() => {
+    const fetchVelocityData = async () => {
+      if (!projectId) return;
+
+      try {
+        const [sprintRows, completionRows, taskRows] = await Promise.all([
+          repository.sprints.list([projectId]),
+          repository.sprintCompletions.list([projectId]),
+          repository.tasks.list({ projectIds: [projectId] })
+        ]);
+
+        setSprints(sprintRows);
+        setCompletions(completionRows);
+        setTasks(taskRows);
+      } catch (error) {
+        console.error("Error fetching velocity data:", error);
+        toast.error("Failed to load the velocity report");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchVelocityData();
+  }, [projectId, lastRefreshTime]);
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-pulse">Loading velocity report...</div>
+      </div>
+    );
+  }
+
+  const velocities = getRollingVelocities(getSprintVelocities(sprints, completions, tasks), velocityWindow)
+    .map(velocity => ({ ...velocity, rollingAverage: Math.round(velocity.rollingAverage * 10) / 10 }));
+
+  if (velocities.length === 0) {
+    return (
+      <div className="text-center py-12 bg-scrum-card border border-scrum-border rounded-lg animate-fade-in">
+        <h2 className="text-xl font-bold mb-4">Velocity Report</h2>
+        <p className="text-scrum-text-secondary mb-4">
+          No completed sprints yet. Velocity shows up here once the first sprint is completed.
+        </p>
+      </div>
+    );
+  }
+
+  const average = averageVelocity(velocities, velocityWindow);
+  const deviation = velocityStandardDeviation(velocities, velocityWindow);
+  const sprintsInWindow = Math.min(velocityWindow, velocities.length);
+
+  return (
+    <div className="animate-fade-in">
+      <div className="scrum-card mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold mb-2">Velocity Report</h2>
+          <p className="text-scrum-text-secondary">
+            Committed and completed story points of every completed sprint in {project?.title || "this project"}
+          </p>
+        </div>
+        <select
+          value={velocityWindow}
+          onChange={(e) => setVelocityWindow(Number(e.target.value))}
+          className="scrum-input w-48"
+        >
+          {VELOCITY_WINDOWS.map(window => (
+            <option key={window} value={window}>Last {window} sprints</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="scrum-card">
+          <div className="flex items-center gap-2 text-scrum-text-secondary text-sm mb-1">
+            <TrendingUp className="h-4 w-4" />
+            <span>Average velocity</span>
+          </div>
+          <p className="text-2xl font-bold">{Math.round(average)} SP</p>
+          <p className="text-xs text-scrum-text-secondary">Over the last {sprintsInWindow} completed sprint(s)</p>
+        </div>
+
+        <div className="scrum-card">
+          <div className="flex items-center gap-2 text-scrum-text-secondary text-sm mb-1">
+            <Activity className="h-4 w-4" />
+            <span>Standard deviation</span>
+          </div>
+          <p className="text-2xl font-bold">{deviation === null ? "–" : `${deviation.toFixed(1)} SP`}</p>
+          <p className="text-xs text-scrum-text-secondary">
+            {deviation === null ? "Needs at least two completed sprints" : "How much velocity varies from sprint to sprint"}
+          </p>
+        </div>
+
+        <div className="scrum-card">
+          <div className="flex items-center gap-2 text-scrum-text-secondary text-sm mb-1">
+            <Target className="h-4 w-4" />
+            <span>Likely range next sprint</span>
+          </div>
+          <p className="text-2xl font-bold">
+            {deviation === null
+              ? "–"
+              : `${Math.max(0, Math.round(average - deviation))} – ${Math.round(average + deviation)} SP`}
+          </p>
+          <p className="text-xs text-scrum-text-secondary">Average velocity plus or minus one standard deviation</p>
+        </div>
+      </div>
+
+      <div className="scrum-card h-[500px]">
+        <ChartContainer config={config} className="w-full h-full">
+          <ComposedChart
+            data={velocities}
+            margin={{
+              top: 20,
+              right: 30,
+              left: 20,
+              bottom: 10,
+            }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--scrum-chart-grid))" />
+            <XAxis
+              dataKey="title"
+              stroke="hsl(var(--scrum-chart-axis))"
+              tick={{ fill: "hsl(var(--scrum-chart-axis))" }}
+              axisLine={{ stroke: "hsl(var(--scrum-chart-grid))" }}
+            />
+            <YAxis
+              label={{
+                value: "Story Points",
+                angle: -90,
+                position: "insideLeft",
+                fill: "hsl(var(--scrum-chart-axis))"
+              }}
+              stroke="hsl(var(--scrum-chart-axis))"
+              tick={{ fill: "hsl(var(--scrum-chart-axis))" }}
+              axisLine={{ stroke: "hsl(var(--scrum-chart-grid))" }}
+            />
+            <Tooltip content={<ChartTooltipContent indicator="dot" />} />
+            <Legend content={<ChartLegendContent />} verticalAlign="bottom" />
+            <Bar dataKey="committedPoints" fill="hsl(var(--scrum-chart-line-1))" radius={[4, 4, 0, 0]} />
+            <Bar dataKey="deliveredPoints" fill="hsl(var(--scrum-chart-line-2))" radius={[4, 4, 0, 0]} />
+            <Line
+              type="monotone"
+              dataKey="rollingAverage"
+              stroke="hsl(var(--scrum-chart-scope))"
+              strokeWidth={2}
+              dot={{ r: 4 }}
+            />
+          </ComposedChart>
+        </ChartContainer>
+      </div>
+
+      <div className="scrum-card mt-6 p-4 overflow-x-auto">
+        <h3 className="text-lg font-medium mb-3">Completed Sprints</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-scrum-text-secondary border-b border-scrum-border">
+              <th className="py-2 pr-4 font-medium">Sprint</th>
+              <th className="py-2 pr-4 font-medium">Dates</th>
+              <th className="py-2 pr-4 font-medium text-right">Committed</th>
+              <th className="py-2 pr-4 font-medium text-right">Completed</th>
+              <th className="py-2 pr-4 font-medium text-right">Completed %</th>
+              <th className="py-2 font-medium text-right">Rolling average</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...velocities].reverse().map(velocity => (
+              <tr key={velocity.sprintId} className="border-b border-scrum-border last:border-0">
+                <td className="py-2 pr-4">{velocity.title}</td>
+                <td className="py-2 pr-4 text-scrum-text-secondary">
+                  {format(parseISO(velocity.startDate), "MMM d")} - {format(parseISO(velocity.endDate), "MMM d, yyyy")}
+                </td>
+                <td className="py-2 pr-4 text-right">{velocity.committedPoints} SP</td>
+                <td className="py-2 pr-4 text-right">{velocity.deliveredPoints} SP</td>
+                <td className="py-2 pr-4 text-right">
+                  {velocity.committedPoints > 0
+                    ? `${Math.round((velocity.deliveredPoints / velocity.committedPoints) * 100)}%`
+                    : "–"}
+                </td>
+                <td className="py-2 text-right">{velocity.rollingAverage} SP</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="scrum-card mt-6 p-4">
+        <h3 className="text-lg font-medium mb-3">How to Read the Velocity Report</h3>
+        <ul className="list-disc pl-5 space-y-2 text-sm text-scrum-text-secondary">
+          <li>
+            <strong>Committed</strong>: Story points in the sprint when it was completed, before unfinished work was carried over.
+          </li>
+          <li>
+            <strong>Completed</strong>: Story points of the tasks that were done when the sprint was completed. This is the sprint's velocity.
+          </li>
+          <li>
+            <strong>Rolling Average</strong>: Average velocity of each sprint and the ones before it, over the selected number of sprints.
+          </li>
+          <li>
+            A <strong>low standard deviation</strong> means velocity is predictable. Use the likely range when deciding how much to commit to in sprint planning.
+          </li>
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default VelocityReport;
@@ -10,12 +10,15 @@ export interface Project {
   title: string;
   description: string;
   endGoal?: string;
+  workingDays?: number[]; // ISO weekdays the team works, see lib/calendar.ts
   createdAt: string;
   updatedAt: string;
   ownerId?: string;
   ownerName?: string;
   ownerEmail?: string;
   isCollaboration?: boolean;
+  // The signed-in user's role, set for projects shared with them
+  role?: ProjectRole;
 }
 
 export interface Sprint {
@@ -41,16 +44,50 @@ export interface Task {
   updatedAt: string;
   projectId?: string;
   completionDate?: string; // This field tracks when a task was completed
+  startedAt?: string; // When the task first moved to in-progress, for cycle time
+  columnId?: string; // Board column the task sits in, if the sprint has custom columns
+  rank?: string; // Position in its board column or the backlog, see lib/rank.ts
+  checklistBlocksDone?: boolean; // Keep the task out of done until its checklist is complete
+  epicId?: string | null; // Epic the task belongs to, if any
   // Database field name versions
   story_points?: number;
   assign_to?: string;
   completion_date?: string; // Database field name version
+  column_id?: string;
 }
 
+// Every board column maps onto one of these so burndown and completion logic keep working
+export type TaskStatusCategory = 'todo' | 'in-progress' | 'done';
+
+export interface BoardColumn {
+  id: string;
+  sprintId: string;
+  title: string;
+  orderIndex: number;
+  statusCategory: TaskStatusCategory;
+}
+
+// What a task_events row records: the task's creation, or a change to one of these fields
+export type TaskEventField = 'created' | 'status' | 'column' | 'sprint' | 'assignee';
+
+export interface TaskEvent {
+  id: string;
+  taskId: string;
+  projectId: string;
+  field: TaskEventField;
+  fromValue?: string;
+  toValue?: string;
+  changedBy?: string;
+  changedAt: string;
+}
+
+// One day of a sprint's burndown, as captured by the backend at the end of that day
 export interface BurndownData {
   date: string;
   ideal: number;
   actual: number;
+  scope: number;
+  completed: number;
 }
 
 export type ProjectRole = 'product_owner' | 'team_member' | 'scrum_master';
@@ -69,3 +106,24 @@ export interface CollaborativeProject extends Project {
   ownerName: string;
   isCollaboration: boolean;
 }
+
+export type RealtimeTable = 'tasks' | 'sprints' | 'board_columns' | 'collaborators' | 'task_dependencies' | 'task_checklist_items' | 'epics' | 'labels' | 'task_labels' | 'task_comments';
+
+// Raw database row as delivered by Realtime (snake_case columns)
+export interface RemoteRow {
+  id?: string;
+  project_id?: string;
+  sprint_id?: string | null;
+  title?: string;
+  status?: string;
+  [column: string]: unknown;
+}
+
+// A row change pushed by Supabase Realtime for the project that is currently open
+export interface RemoteChange {
+  table: RealtimeTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  newRow: RemoteRow;
+  oldRow: RemoteRow;
+  receivedAt: number;
+}
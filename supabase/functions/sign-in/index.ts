@@ -0,0 +1,52 @@
+// Signs in by username. Supabase Auth only knows emails, so the username is resolved here
+// with the service role and the password checked on the server; the caller gets the
+// session back, never the email, and a wrong username looks the same as a wrong password.
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS"
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" }
+  });
+
+const invalidCredentials = () => json({ error: "Invalid credentials" }, 401);
+
+Deno.serve(async (request) => {
+  if (request.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  const { username, password } = await request.json().catch(() => ({}));
+  if (typeof username !== "string" || typeof password !== "string" || !username || !password) {
+    return invalidCredentials();
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const admin = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+    auth: { persistSession: false }
+  });
+
+  const { data: profile, error: lookupError } = await admin
+    .from("users")
+    .select("email")
+    .eq("username", username)
+    .maybeSingle();
+  if (lookupError) return json({ error: "Sign in failed" }, 500);
+  if (!profile) return invalidCredentials();
+
+  const auth = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    auth: { persistSession: false }
+  });
+  const { data, error } = await auth.auth.signInWithPassword({ email: profile.email, password });
+  if (error || !data.session) return invalidCredentials();
+
+  return json({
+    access_token: data.session.access_token,
+    refresh_token: data.session.refresh_token
+  });
+});
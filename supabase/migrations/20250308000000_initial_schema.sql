@@ -0,0 +1,155 @@
+-- Baseline of the hosted schema (as described by src/integrations/supabase/types.ts),
+-- so `supabase db reset` can build a local stack from scratch.
+
+create extension if not exists pgcrypto;
+
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'project_role') then
+    create type public.project_role as enum ('product_owner', 'team_member', 'scrum_master');
+  end if;
+  if not exists (select 1 from pg_type where typname = 'project_role_new') then
+    create type public.project_role_new as enum ('product_owner', 'worker', 'scrum_master');
+  end if;
+end
+$$;
+
+create table if not exists public.users (
+  id uuid primary key default gen_random_uuid(),
+  username text not null unique,
+  email text not null unique,
+  password text not null,
+  created_at timestamptz default now()
+);
+
+create table if not exists public.projects (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  description text,
+  end_goal text,
+  owner_id uuid not null references public.users (id),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists public.sprints (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  description text,
+  goal text,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  user_id uuid not null references public.users (id),
+  start_date date not null,
+  end_date date not null,
+  status text not null default 'planned',
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists public.board_columns (
+  id uuid primary key default gen_random_uuid(),
+  sprint_id uuid not null references public.sprints (id) on delete cascade,
+  user_id uuid not null references public.users (id),
+  title text not null,
+  order_index integer not null,
+  created_at timestamptz default now()
+);
+
+create table if not exists public.tasks (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  description text,
+  status text not null default 'todo',
+  priority text,
+  story_points integer,
+  assign_to text,
+  completion_date date,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  sprint_id uuid references public.sprints (id) on delete cascade,
+  column_id uuid references public.board_columns (id),
+  user_id uuid not null references public.users (id),
+  created_at timestamptz default now()
+);
+
+create table if not exists public.collaborators (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  role public.project_role not null default 'team_member',
+  created_at timestamptz default now(),
+  unique (project_id, user_id)
+);
+
+create table if not exists public.burndown_data (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  user_id uuid not null,
+  date date not null,
+  ideal_points integer not null default 0,
+  actual_points integer not null default 0,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (project_id, user_id, date)
+);
+
+create table if not exists public.chat_messages (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  user_id uuid not null,
+  username text not null,
+  message text not null,
+  created_at timestamptz not null default now()
+);
+
+create or replace function public.get_user_id_from_email(user_email text)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id from public.users where email = user_email;
+$$;
+
+create or replace function public.user_can_access_project(project_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.projects p where p.id = user_can_access_project.project_id);
+$$;
+
+create or replace function public.user_has_project_access(
+  project_id uuid,
+  required_role public.project_role default null
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.collaborators c
+    where c.project_id = user_has_project_access.project_id
+      and (required_role is null or c.role = required_role)
+  );
+$$;
+
+create or replace function public.insert_chat_message(
+  p_project_id uuid,
+  p_user_id uuid,
+  p_username text,
+  p_message text
+)
+returns uuid
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.chat_messages (project_id, user_id, username, message)
+  values (p_project_id, p_user_id, p_username, p_message)
+  returning id;
+$$;
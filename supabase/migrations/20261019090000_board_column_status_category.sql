@@ -0,0 +1,47 @@
+-- Map every board column onto a status category so that custom columns
+-- ("Code Review", "QA", ...) still count towards burndown and sprint completion.
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public'
+      and table_name = 'board_columns'
+      and column_name = 'status_category'
+  ) then
+    alter table public.board_columns
+      add column status_category text not null default 'todo';
+
+    -- Existing boards were created with the "TO DO", "IN PROGRESS" and "DONE" columns.
+    -- Map those by title; any other custom column starts as To Do and can be changed
+    -- under Manage Columns.
+    update public.board_columns
+    set status_category = case
+      when lower(trim(title)) in ('done', 'completed', 'complete') then 'done'
+      when lower(trim(title)) in ('in progress', 'in-progress', 'doing') then 'in-progress'
+      else 'todo'
+    end;
+  end if;
+end
+$$;
+
+alter table public.board_columns
+  drop constraint if exists board_columns_status_category_check;
+
+alter table public.board_columns
+  add constraint board_columns_status_category_check
+  check (status_category in ('todo', 'in-progress', 'done'));
+
+-- Deleting a column must never orphan its tasks; the client moves them to a
+-- fallback column first, this is only a safety net.
+alter table public.tasks
+  drop constraint if exists tasks_column_id_fkey;
+
+alter table public.tasks
+  add constraint tasks_column_id_fkey
+  foreign key (column_id) references public.board_columns (id) on delete set null;
+
+create index if not exists board_columns_sprint_id_order_idx
+  on public.board_columns (sprint_id, order_index);
+
+create index if not exists tasks_column_id_idx
+  on public.tasks (column_id);
@@ -0,0 +1,30 @@
+-- Broadcast row changes on the tables the board, backlog and timeline render,
+-- so every open client can merge teammates' edits without polling.
+do $$
+declare
+  table_name text;
+begin
+  if not exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    create publication supabase_realtime;
+  end if;
+
+  foreach table_name in array array['tasks', 'sprints', 'board_columns', 'collaborators']
+  loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = table_name
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', table_name);
+    end if;
+  end loop;
+end
+$$;
+
+-- DELETE events only carry the primary key unless the full old row is logged;
+-- clients need project_id/sprint_id to know which board a deleted row belonged to.
+alter table public.tasks replica identity full;
+alter table public.sprints replica identity full;
+alter table public.board_columns replica identity full;
+alter table public.collaborators replica identity full;
@@ -0,0 +1,26 @@
+-- Offline edits are replayed against the server later; updated_at tells the client
+-- whether somebody else changed the row in the meantime.
+alter table public.tasks
+  add column if not exists updated_at timestamptz default now();
+
+update public.tasks set updated_at = coalesce(created_at, now()) where updated_at is null;
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_set_updated_at on public.tasks;
+create trigger tasks_set_updated_at
+  before update on public.tasks
+  for each row execute function public.set_updated_at();
+
+drop trigger if exists sprints_set_updated_at on public.sprints;
+create trigger sprints_set_updated_at
+  before update on public.sprints
+  for each row execute function public.set_updated_at();
@@ -0,0 +1,298 @@
+-- Move sign-in to Supabase Auth. public.users stays as the profile table (username,
+-- email) keyed by the auth user id, so every existing foreign key keeps working.
+
+-- 1. One-time migration of legacy accounts: copy each user into auth.users with the
+--    same id and a bcrypt hash of the stored password, so people sign in exactly as before.
+insert into auth.users (
+  instance_id,
+  id,
+  aud,
+  role,
+  email,
+  encrypted_password,
+  email_confirmed_at,
+  raw_app_meta_data,
+  raw_user_meta_data,
+  created_at,
+  updated_at,
+  confirmation_token,
+  recovery_token,
+  email_change_token_new,
+  email_change
+)
+select
+  '00000000-0000-0000-0000-000000000000',
+  u.id,
+  'authenticated',
+  'authenticated',
+  lower(u.email),
+  crypt(u.password, gen_salt('bf')),
+  now(),
+  '{"provider": "email", "providers": ["email"]}'::jsonb,
+  jsonb_build_object('username', u.username),
+  coalesce(u.created_at, now()),
+  now(),
+  '',
+  '',
+  '',
+  ''
+from public.users u
+where u.password is not null
+  and not exists (
+    select 1 from auth.users a
+    where a.id = u.id or lower(a.email) = lower(u.email)
+  );
+
+insert into auth.identities (
+  id,
+  user_id,
+  provider_id,
+  identity_data,
+  provider,
+  last_sign_in_at,
+  created_at,
+  updated_at
+)
+select
+  gen_random_uuid(),
+  u.id,
+  u.id::text,
+  jsonb_build_object('sub', u.id::text, 'email', lower(u.email), 'email_verified', true),
+  'email',
+  now(),
+  now(),
+  now()
+from public.users u
+where exists (select 1 from auth.users a where a.id = u.id)
+  and not exists (
+    select 1 from auth.identities i
+    where i.user_id = u.id and i.provider = 'email'
+  );
+
+-- 2. Plaintext passwords are gone for good; profiles now belong to auth users.
+alter table public.users drop column if exists password;
+
+alter table public.users alter column id drop default;
+
+alter table public.users
+  drop constraint if exists users_id_fkey;
+
+alter table public.users
+  add constraint users_id_fkey
+  foreign key (id) references auth.users (id) on delete cascade;
+
+-- 3. Keep profiles in step with auth: create one on sign-up, follow confirmed email changes.
+create or replace function public.handle_auth_user_created()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.users (id, username, email)
+  values (
+    new.id,
+    coalesce(new.raw_user_meta_data ->> 'username', split_part(new.email, '@', 1)),
+    new.email
+  )
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_auth_user_created();
+
+create or replace function public.handle_auth_user_email_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.users set email = new.email where id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_email_changed on auth.users;
+create trigger on_auth_user_email_changed
+  after update of email on auth.users
+  for each row
+  when (old.email is distinct from new.email)
+  execute function public.handle_auth_user_email_changed();
+
+-- 4. Lookups needed before a session exists (sign in by username, registration checks).
+create or replace function public.get_login_email(login text)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select email from public.users
+  where username = login or lower(email) = lower(login)
+  limit 1;
+$$;
+
+create or replace function public.is_login_taken(
+  field text,
+  value text,
+  exclude_user_id uuid default null
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.users u
+    where ((field = 'email' and lower(u.email) = lower(value))
+        or (field = 'username' and u.username = value))
+      and u.id is distinct from exclude_user_id
+  );
+$$;
+
+grant execute on function public.get_login_email(text) to anon, authenticated;
+grant execute on function public.is_login_taken(text, text, uuid) to anon, authenticated;
+
+-- 5. Access checks key off the session, never off a user id sent by the client.
+create or replace function public.user_can_access_project(project_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.projects p
+    where p.id = user_can_access_project.project_id
+      and p.owner_id = auth.uid()
+  ) or exists (
+    select 1 from public.collaborators c
+    where c.project_id = user_can_access_project.project_id
+      and c.user_id = auth.uid()
+  );
+$$;
+
+create or replace function public.user_has_project_access(
+  project_id uuid,
+  required_role public.project_role default null
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.collaborators c
+    where c.project_id = user_has_project_access.project_id
+      and c.user_id = auth.uid()
+      and (required_role is null or c.role = required_role)
+  );
+$$;
+
+create or replace function public.user_owns_project(project_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.projects p
+    where p.id = user_owns_project.project_id
+      and p.owner_id = auth.uid()
+  );
+$$;
+
+create or replace function public.sprint_project_id(sprint_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select project_id from public.sprints where id = sprint_project_id.sprint_id;
+$$;
+
+-- The chat feature is gone from the app; its insert function trusted the user id sent by
+-- the client, so it goes too rather than staying callable.
+drop function if exists public.insert_chat_message(uuid, uuid, text, text);
+
+-- 6. Row level security. Members (owner or collaborator) work inside a project;
+--    only the owner changes the project itself and its team.
+alter table public.users enable row level security;
+alter table public.projects enable row level security;
+alter table public.sprints enable row level security;
+alter table public.board_columns enable row level security;
+alter table public.tasks enable row level security;
+alter table public.collaborators enable row level security;
+alter table public.burndown_data enable row level security;
+alter table public.chat_messages enable row level security;
+
+drop policy if exists "Profiles are visible to signed-in users" on public.users;
+create policy "Profiles are visible to signed-in users" on public.users
+  for select to authenticated using (true);
+
+drop policy if exists "Users update their own profile" on public.users;
+create policy "Users update their own profile" on public.users
+  for update to authenticated using (id = auth.uid()) with check (id = auth.uid());
+
+drop policy if exists "Members read projects" on public.projects;
+create policy "Members read projects" on public.projects
+  for select to authenticated using (public.user_can_access_project(id));
+
+drop policy if exists "Users create their own projects" on public.projects;
+create policy "Users create their own projects" on public.projects
+  for insert to authenticated with check (owner_id = auth.uid());
+
+drop policy if exists "Owners update projects" on public.projects;
+create policy "Owners update projects" on public.projects
+  for update to authenticated using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+
+drop policy if exists "Owners delete projects" on public.projects;
+create policy "Owners delete projects" on public.projects
+  for delete to authenticated using (owner_id = auth.uid());
+
+drop policy if exists "Members manage sprints" on public.sprints;
+create policy "Members manage sprints" on public.sprints
+  for all to authenticated
+  using (public.user_can_access_project(project_id))
+  with check (public.user_can_access_project(project_id));
+
+drop policy if exists "Members manage board columns" on public.board_columns;
+create policy "Members manage board columns" on public.board_columns
+  for all to authenticated
+  using (public.user_can_access_project(public.sprint_project_id(sprint_id)))
+  with check (public.user_can_access_project(public.sprint_project_id(sprint_id)));
+
+drop policy if exists "Members manage tasks" on public.tasks;
+create policy "Members manage tasks" on public.tasks
+  for all to authenticated
+  using (public.user_can_access_project(project_id))
+  with check (public.user_can_access_project(project_id));
+
+drop policy if exists "Members read the team" on public.collaborators;
+create policy "Members read the team" on public.collaborators
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+drop policy if exists "Owners manage the team" on public.collaborators;
+create policy "Owners manage the team" on public.collaborators
+  for all to authenticated
+  using (public.user_owns_project(project_id))
+  with check (public.user_owns_project(project_id));
+
+drop policy if exists "Users manage their burndown data" on public.burndown_data;
+create policy "Users manage their burndown data" on public.burndown_data
+  for all to authenticated
+  using (user_id = auth.uid() and public.user_can_access_project(project_id))
+  with check (user_id = auth.uid() and public.user_can_access_project(project_id));
+
+drop policy if exists "Members read chat" on public.chat_messages;
+create policy "Members read chat" on public.chat_messages
+  for select to authenticated using (public.user_can_access_project(project_id));
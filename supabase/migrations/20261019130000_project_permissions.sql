@@ -0,0 +1,227 @@
+-- One permission matrix for the whole app. src/lib/permissions.ts holds the same
+-- table for the UI; keep the two in step.
+
+-- 1. The matrix: which project role may perform which action. The owner is not a
+--    collaborator row, so it gets a role name of its own here.
+create table if not exists public.project_permissions (
+  action text not null,
+  role text not null check (role in ('owner', 'product_owner', 'team_member', 'scrum_master')),
+  primary key (action, role)
+);
+
+truncate public.project_permissions;
+
+insert into public.project_permissions (action, role) values
+  ('project.edit', 'owner'),
+  ('project.edit', 'scrum_master'),
+  ('project.delete', 'owner'),
+  ('team.manage', 'owner'),
+  ('backlog.view', 'owner'),
+  ('backlog.view', 'scrum_master'),
+  ('backlog.view', 'team_member'),
+  ('backlog.view', 'product_owner'),
+  ('backlog.manage', 'owner'),
+  ('backlog.manage', 'product_owner'),
+  ('backlog.plan', 'owner'),
+  ('backlog.plan', 'scrum_master'),
+  ('sprint.manage', 'owner'),
+  ('sprint.manage', 'scrum_master'),
+  ('board.configure', 'owner'),
+  ('board.configure', 'scrum_master'),
+  ('task.move', 'owner'),
+  ('task.move', 'scrum_master'),
+  ('task.move', 'team_member'),
+  ('task.edit', 'owner'),
+  ('task.edit', 'scrum_master'),
+  ('task.edit', 'team_member');
+
+alter table public.project_permissions enable row level security;
+
+drop policy if exists "Permissions are visible to signed-in users" on public.project_permissions;
+create policy "Permissions are visible to signed-in users" on public.project_permissions
+  for select to authenticated using (true);
+
+-- 2. The session user's role in a project ('owner', a collaborator role, or null)
+create or replace function public.user_project_role(project_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (
+      select 1 from public.projects p
+      where p.id = user_project_role.project_id
+        and p.owner_id = auth.uid()
+    ) then 'owner'
+    else (
+      select c.role::text from public.collaborators c
+      where c.project_id = user_project_role.project_id
+        and c.user_id = auth.uid()
+      limit 1
+    )
+  end;
+$$;
+
+create or replace function public.user_can(project_id uuid, action text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.project_permissions pp
+    where pp.action = user_can.action
+      and pp.role = public.user_project_role(user_can.project_id)
+  );
+$$;
+
+-- The owner passes any role check, like in the UI
+create or replace function public.user_has_project_access(
+  project_id uuid,
+  required_role public.project_role default null
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.user_owns_project(user_has_project_access.project_id) or exists (
+    select 1 from public.collaborators c
+    where c.project_id = user_has_project_access.project_id
+      and c.user_id = auth.uid()
+      and (required_role is null or c.role = required_role)
+  );
+$$;
+
+-- 3. Board columns used to be created by whoever opened a new board first. Only
+--    roles with board.configure may write them now, so create the defaults with the sprint.
+create or replace function public.create_default_board_columns()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.board_columns (sprint_id, user_id, title, order_index, status_category)
+  values
+    (new.id, new.user_id, 'TO DO', 0, 'todo'),
+    (new.id, new.user_id, 'IN PROGRESS', 1, 'in-progress'),
+    (new.id, new.user_id, 'DONE', 2, 'done');
+  return new;
+end;
+$$;
+
+drop trigger if exists on_sprint_created on public.sprints;
+create trigger on_sprint_created
+  after insert on public.sprints
+  for each row execute function public.create_default_board_columns();
+
+insert into public.board_columns (sprint_id, user_id, title, order_index, status_category)
+select s.id, s.user_id, d.title, d.order_index, d.status_category
+from public.sprints s
+cross join (values
+  ('TO DO', 0, 'todo'),
+  ('IN PROGRESS', 1, 'in-progress'),
+  ('DONE', 2, 'done')
+) as d (title, order_index, status_category)
+where not exists (
+  select 1 from public.board_columns bc where bc.sprint_id = s.id
+);
+
+-- 4. Row level security follows the matrix instead of plain membership.
+drop policy if exists "Owners update projects" on public.projects;
+drop policy if exists "Editors update projects" on public.projects;
+create policy "Editors update projects" on public.projects
+  for update to authenticated
+  using (public.user_can(id, 'project.edit'))
+  with check (public.user_can(id, 'project.edit'));
+
+drop policy if exists "Owners delete projects" on public.projects;
+create policy "Owners delete projects" on public.projects
+  for delete to authenticated using (public.user_can(id, 'project.delete'));
+
+drop policy if exists "Owners manage the team" on public.collaborators;
+create policy "Owners manage the team" on public.collaborators
+  for all to authenticated
+  using (public.user_can(project_id, 'team.manage'))
+  with check (public.user_can(project_id, 'team.manage'));
+
+drop policy if exists "Members manage sprints" on public.sprints;
+drop policy if exists "Members read sprints" on public.sprints;
+create policy "Members read sprints" on public.sprints
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+drop policy if exists "Sprint managers manage sprints" on public.sprints;
+create policy "Sprint managers manage sprints" on public.sprints
+  for all to authenticated
+  using (public.user_can(project_id, 'sprint.manage'))
+  with check (public.user_can(project_id, 'sprint.manage'));
+
+drop policy if exists "Members manage board columns" on public.board_columns;
+drop policy if exists "Members read board columns" on public.board_columns;
+create policy "Members read board columns" on public.board_columns
+  for select to authenticated
+  using (public.user_can_access_project(public.sprint_project_id(sprint_id)));
+
+drop policy if exists "Board configurators manage board columns" on public.board_columns;
+create policy "Board configurators manage board columns" on public.board_columns
+  for all to authenticated
+  using (public.user_can(public.sprint_project_id(sprint_id), 'board.configure'))
+  with check (public.user_can(public.sprint_project_id(sprint_id), 'board.configure'));
+
+-- Backlog items (no sprint) belong to the product owner; planning moves them into a
+-- sprint; sprint tasks are worked on by the team.
+drop policy if exists "Members manage tasks" on public.tasks;
+drop policy if exists "Members read tasks" on public.tasks;
+create policy "Members read tasks" on public.tasks
+  for select to authenticated using (public.user_can(project_id, 'backlog.view'));
+
+drop policy if exists "Members create tasks" on public.tasks;
+create policy "Members create tasks" on public.tasks
+  for insert to authenticated
+  with check (
+    case when sprint_id is null
+      then public.user_can(project_id, 'backlog.manage')
+      else public.user_can(project_id, 'backlog.plan')
+        or public.user_can(project_id, 'sprint.manage')
+    end
+  );
+
+drop policy if exists "Members update tasks" on public.tasks;
+create policy "Members update tasks" on public.tasks
+  for update to authenticated
+  using (
+    case when sprint_id is null
+      then public.user_can(project_id, 'backlog.manage')
+        or public.user_can(project_id, 'backlog.plan')
+      else public.user_can(project_id, 'task.move')
+        or public.user_can(project_id, 'task.edit')
+        or public.user_can(project_id, 'sprint.manage')
+    end
+  )
+  with check (
+    case when sprint_id is null
+      then public.user_can(project_id, 'backlog.manage')
+        or public.user_can(project_id, 'sprint.manage')
+      else public.user_can(project_id, 'task.move')
+        or public.user_can(project_id, 'task.edit')
+        or public.user_can(project_id, 'backlog.plan')
+    end
+  );
+
+drop policy if exists "Members delete tasks" on public.tasks;
+create policy "Members delete tasks" on public.tasks
+  for delete to authenticated
+  using (
+    case when sprint_id is null
+      then public.user_can(project_id, 'backlog.manage')
+      else public.user_can(project_id, 'sprint.manage')
+    end
+  );
+
+grant execute on function public.user_project_role(uuid) to authenticated;
+grant execute on function public.user_can(uuid, text) to authenticated;
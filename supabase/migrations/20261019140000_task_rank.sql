@@ -0,0 +1,71 @@
+-- Persistent ordering of tasks in board columns and the backlog. Ranks are fractional
+-- base-36 strings (see src/lib/rank.ts): moving a card gives it a rank between its
+-- new neighbours, so no other row is renumbered. "C" collation keeps the database's
+-- ordering identical to the app's plain string comparison.
+alter table public.tasks
+  add column if not exists rank text collate "C";
+
+-- Existing tasks keep the order they were created in, one sequence per project.
+-- Every rank ends in a non-zero digit so there is always room before it.
+update public.tasks t
+set rank = ranked.rank
+from (
+  select id, lpad(row_number() over (partition by project_id order by created_at, id)::text, 6, '0') || 'i' as rank
+  from public.tasks
+) ranked
+where t.id = ranked.id
+  and t.rank is null;
+
+create index if not exists tasks_project_rank_idx on public.tasks (project_id, rank);
+
+-- The rank right after the given one; the same as rankBetween(last, null) in the app
+create or replace function public.next_task_rank(last text)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+  digits constant text := '0123456789abcdefghijklmnopqrstuvwxyz';
+  prefix text := '';
+  digit integer;
+begin
+  if last is null or last = '' then
+    return 'i';
+  end if;
+
+  loop
+    digit := strpos(digits, substr(last, 1, 1)) - 1;
+    if digit < length(digits) - 1 then
+      return prefix || substr(digits, digit + 2, 1);
+    end if;
+
+    prefix := prefix || 'z';
+    last := substr(last, 2);
+    if last = '' then
+      return prefix || 'i';
+    end if;
+  end loop;
+end;
+$$;
+
+-- New tasks go to the bottom of their list unless the client ranked them already
+create or replace function public.set_task_rank()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.rank is null then
+    new.rank := public.next_task_rank(
+      (select max(t.rank) from public.tasks t where t.project_id = new.project_id)
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_task_rank on public.tasks;
+create trigger set_task_rank
+  before insert on public.tasks
+  for each row execute function public.set_task_rank();
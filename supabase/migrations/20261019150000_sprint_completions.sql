@@ -0,0 +1,33 @@
+-- What a sprint committed to and what it delivered, recorded when it is completed.
+-- Counts are taken before unfinished work is carried over, so they stay true to the
+-- sprint even after its tasks move on to the backlog or the next sprint.
+create table if not exists public.sprint_completions (
+  id uuid primary key default gen_random_uuid(),
+  sprint_id uuid not null unique references public.sprints (id) on delete cascade,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  committed_points integer not null default 0,
+  delivered_points integer not null default 0,
+  committed_tasks integer not null default 0,
+  delivered_tasks integer not null default 0,
+  carried_over_tasks integer not null default 0,
+  -- Sprint the unfinished work went to; null when it went back to the backlog
+  next_sprint_id uuid references public.sprints (id) on delete set null,
+  completed_by uuid references public.users (id) on delete set null,
+  completed_at timestamp with time zone not null default now()
+);
+
+create index if not exists sprint_completions_project_id_idx on public.sprint_completions (project_id);
+
+alter table public.sprint_completions enable row level security;
+
+drop policy if exists "Members read sprint completions" on public.sprint_completions;
+create policy "Members read sprint completions" on public.sprint_completions
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+drop policy if exists "Sprint managers record sprint completions" on public.sprint_completions;
+create policy "Sprint managers record sprint completions" on public.sprint_completions
+  for insert to authenticated
+  with check (
+    public.user_can(project_id, 'sprint.manage')
+    and project_id = public.sprint_project_id(sprint_id)
+  );
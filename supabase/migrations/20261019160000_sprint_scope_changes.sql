@@ -0,0 +1,91 @@
+-- Every change to how many points a sprint holds: tasks moved in or out, created in or
+-- deleted from it, and re-estimated while in it. The burndown replays these to work out
+-- what the sprint committed to at its start and to explain jumps in the line afterwards.
+create table if not exists public.sprint_scope_changes (
+  id uuid primary key default gen_random_uuid(),
+  sprint_id uuid not null references public.sprints (id) on delete cascade,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  -- No foreign key: the change stays on record after the task is deleted
+  task_id uuid not null,
+  task_title text,
+  change_type text not null check (change_type in ('added', 'removed', 're-estimated')),
+  points_delta integer not null,
+  changed_by uuid default auth.uid() references public.users (id) on delete set null,
+  changed_at timestamp with time zone not null default now()
+);
+
+create index if not exists sprint_scope_changes_sprint_id_idx on public.sprint_scope_changes (sprint_id, changed_at);
+
+alter table public.sprint_scope_changes enable row level security;
+
+-- Rows are only ever written by the trigger below
+drop policy if exists "Members read sprint scope changes" on public.sprint_scope_changes;
+create policy "Members read sprint scope changes" on public.sprint_scope_changes
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+create or replace function public.record_sprint_scope_change(
+  sprint_id uuid,
+  task public.tasks,
+  change_type text,
+  points_delta integer
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Changes without points do not move the burndown. Tasks deleted along with their
+  -- sprint have nothing left to record against.
+  if coalesce(points_delta, 0) = 0
+    or not exists (select 1 from public.sprints s where s.id = record_sprint_scope_change.sprint_id) then
+    return;
+  end if;
+
+  insert into public.sprint_scope_changes (sprint_id, project_id, task_id, task_title, change_type, points_delta)
+  values (record_sprint_scope_change.sprint_id, task.project_id, task.id, task.title,
+          record_sprint_scope_change.change_type, record_sprint_scope_change.points_delta);
+end;
+$$;
+
+create or replace function public.track_sprint_scope()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.sprint_id is not null then
+      perform public.record_sprint_scope_change(new.sprint_id, new, 'added', new.story_points);
+    end if;
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    if old.sprint_id is not null then
+      perform public.record_sprint_scope_change(old.sprint_id, old, 'removed', -old.story_points);
+    end if;
+    return old;
+  end if;
+
+  if old.sprint_id is distinct from new.sprint_id then
+    if old.sprint_id is not null then
+      perform public.record_sprint_scope_change(old.sprint_id, old, 'removed', -old.story_points);
+    end if;
+    if new.sprint_id is not null then
+      perform public.record_sprint_scope_change(new.sprint_id, new, 'added', new.story_points);
+    end if;
+  elsif new.sprint_id is not null and old.story_points is distinct from new.story_points then
+    perform public.record_sprint_scope_change(
+      new.sprint_id, new, 're-estimated', coalesce(new.story_points, 0) - coalesce(old.story_points, 0)
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists track_sprint_scope on public.tasks;
+create trigger track_sprint_scope
+  after insert or update of sprint_id, story_points or delete on public.tasks
+  for each row execute function public.track_sprint_scope();
@@ -0,0 +1,69 @@
+-- History of every task: when it was created and each time its status, board column,
+-- sprint or assignee changed, with who made the change. Rows are written by the trigger
+-- below, so moves made from any client (or directly in the database) are all recorded.
+-- Tasks created before this migration have no history before it ran.
+create table if not exists public.task_events (
+  id uuid primary key default gen_random_uuid(),
+  -- No foreign key: the history stays on record after the task is deleted
+  task_id uuid not null,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  field text not null check (field in ('created', 'status', 'column', 'sprint', 'assignee')),
+  -- Column and sprint changes hold ids, assignee changes hold usernames.
+  -- "created" events hold the status the task started in.
+  from_value text,
+  to_value text,
+  changed_by uuid default auth.uid() references public.users (id) on delete set null,
+  changed_at timestamp with time zone not null default now()
+);
+
+create index if not exists task_events_task_id_idx on public.task_events (task_id, changed_at);
+create index if not exists task_events_project_id_idx on public.task_events (project_id, changed_at);
+
+alter table public.task_events enable row level security;
+
+-- Rows are only ever written by the trigger below
+drop policy if exists "Members read task events" on public.task_events;
+create policy "Members read task events" on public.task_events
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+create or replace function public.record_task_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.task_events (task_id, project_id, field, to_value)
+    values (new.id, new.project_id, 'created', new.status);
+    return new;
+  end if;
+
+  if old.status is distinct from new.status then
+    insert into public.task_events (task_id, project_id, field, from_value, to_value)
+    values (new.id, new.project_id, 'status', old.status, new.status);
+  end if;
+
+  if old.column_id is distinct from new.column_id then
+    insert into public.task_events (task_id, project_id, field, from_value, to_value)
+    values (new.id, new.project_id, 'column', old.column_id::text, new.column_id::text);
+  end if;
+
+  if old.sprint_id is distinct from new.sprint_id then
+    insert into public.task_events (task_id, project_id, field, from_value, to_value)
+    values (new.id, new.project_id, 'sprint', old.sprint_id::text, new.sprint_id::text);
+  end if;
+
+  if old.assign_to is distinct from new.assign_to then
+    insert into public.task_events (task_id, project_id, field, from_value, to_value)
+    values (new.id, new.project_id, 'assignee', old.assign_to, new.assign_to);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists record_task_events on public.tasks;
+create trigger record_task_events
+  after insert or update of status, column_id, sprint_id, assign_to on public.tasks
+  for each row execute function public.record_task_events();
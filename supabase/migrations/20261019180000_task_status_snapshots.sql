@@ -0,0 +1,106 @@
+-- How many tasks (and points) sat in each status at the end of each day, per sprint and
+-- for the backlog (sprint_id null). The cumulative flow diagram stacks these per day.
+-- Today's rows are rewritten by the trigger below whenever a task changes, so each day
+-- keeps its last state; a day without rows for a sprint means nothing changed in it.
+create table if not exists public.task_status_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  sprint_id uuid references public.sprints (id) on delete cascade,
+  snapshot_date date not null default current_date,
+  status text not null,
+  task_count integer not null default 0,
+  points integer not null default 0
+);
+
+create unique index if not exists task_status_snapshots_key on public.task_status_snapshots (
+  project_id,
+  coalesce(sprint_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  snapshot_date,
+  status
+);
+
+create index if not exists task_status_snapshots_project_date_idx on public.task_status_snapshots (project_id, snapshot_date);
+
+alter table public.task_status_snapshots enable row level security;
+
+-- Rows are only ever written by the functions below
+drop policy if exists "Members read task status snapshots" on public.task_status_snapshots;
+create policy "Members read task status snapshots" on public.task_status_snapshots
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+-- Rewrites one sprint's (or the backlog's) snapshot for the given day. Every standard
+-- status gets a row, zero or not, so a day's rows always describe the whole sprint.
+create or replace function public.capture_task_status_snapshot(
+  target_project_id uuid,
+  target_sprint_id uuid,
+  target_date date default current_date
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Nothing to capture for a sprint or project that is being deleted
+  if not exists (select 1 from public.projects p where p.id = target_project_id)
+    or (target_sprint_id is not null and not exists (select 1 from public.sprints s where s.id = target_sprint_id)) then
+    return;
+  end if;
+
+  delete from public.task_status_snapshots
+  where project_id = target_project_id
+    and sprint_id is not distinct from target_sprint_id
+    and snapshot_date = target_date;
+
+  insert into public.task_status_snapshots (project_id, sprint_id, snapshot_date, status, task_count, points)
+  select target_project_id, target_sprint_id, target_date, statuses.status,
+         count(t.id), coalesce(sum(t.story_points), 0)
+  from (
+    select unnest(array['backlog', 'todo', 'in-progress', 'done']) as status
+    union
+    select distinct t.status from public.tasks t
+    where t.project_id = target_project_id and t.sprint_id is not distinct from target_sprint_id
+  ) statuses
+  left join public.tasks t
+    on t.project_id = target_project_id
+    and t.sprint_id is not distinct from target_sprint_id
+    and t.status = statuses.status
+  group by statuses.status;
+end;
+$$;
+
+create or replace function public.track_task_status_snapshots()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.capture_task_status_snapshot(old.project_id, old.sprint_id);
+  end if;
+
+  if tg_op = 'INSERT'
+    or (tg_op = 'UPDATE' and (old.project_id, old.sprint_id) is distinct from (new.project_id, new.sprint_id)) then
+    perform public.capture_task_status_snapshot(new.project_id, new.sprint_id);
+  end if;
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists track_task_status_snapshots on public.tasks;
+create trigger track_task_status_snapshots
+  after insert or update of status, story_points, sprint_id or delete on public.tasks
+  for each row execute function public.track_task_status_snapshots();
+
+-- Start every existing sprint and backlog off with today's state
+do $$
+declare
+  task_group record;
+begin
+  for task_group in select distinct project_id, sprint_id from public.tasks loop
+    perform public.capture_task_status_snapshot(task_group.project_id, task_group.sprint_id);
+  end loop;
+end;
+$$;
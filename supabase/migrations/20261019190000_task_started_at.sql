@@ -0,0 +1,16 @@
+-- When work on a task first started: the first time it entered an "in-progress" column.
+-- Set by the app alongside completion_date; cycle time runs from here to completion.
+alter table public.tasks
+  add column if not exists started_at timestamp with time zone;
+
+-- Tasks moved since task_events was introduced already have their start on record
+update public.tasks t
+set started_at = first_start.changed_at
+from (
+  select task_id, min(changed_at) as changed_at
+  from public.task_events
+  where field = 'status' and to_value = 'in-progress'
+  group by task_id
+) first_start
+where t.id = first_start.task_id
+  and t.started_at is null;
@@ -0,0 +1,133 @@
+-- Burndown snapshots used to be written by whoever opened the burndown chart, keyed by
+-- their own user id, so every viewer had a different (and possibly stale) series. They are
+-- now captured by the database once a day per sprint and shared by every project member;
+-- clients only read them.
+--
+-- The old per-user rows were computed from whatever each browser had loaded and cannot be
+-- merged into one series, so they are dropped.
+delete from public.burndown_data;
+
+drop policy if exists "Users manage their burndown data" on public.burndown_data;
+
+alter table public.burndown_data drop constraint if exists burndown_data_project_id_user_id_date_key;
+alter table public.burndown_data drop column if exists user_id;
+
+alter table public.burndown_data
+  add column if not exists sprint_id uuid not null references public.sprints (id) on delete cascade,
+  -- Points in the sprint at the end of the day
+  add column if not exists scope_points integer not null default 0,
+  -- Points done by the end of the day; actual_points holds what was left to do
+  add column if not exists completed_points integer not null default 0;
+
+create unique index if not exists burndown_data_sprint_date_key on public.burndown_data (sprint_id, date);
+
+drop policy if exists "Members read burndown data" on public.burndown_data;
+create policy "Members read burndown data" on public.burndown_data
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+-- Records one sprint's burndown for the given day. The ideal line burns down the points the
+-- sprint was committed to at its start: its current points minus every scope change made
+-- after the start date, the same way the burndown chart works it out.
+create or replace function public.capture_burndown_snapshot(
+  target_sprint_id uuid,
+  target_date date default current_date
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  sprint record;
+  current_points integer;
+  done_points integer;
+  committed_points integer;
+  sprint_days integer;
+begin
+  select * into sprint from public.sprints s where s.id = target_sprint_id;
+  if not found then
+    return;
+  end if;
+
+  select coalesce(sum(t.story_points), 0), coalesce(sum(t.story_points) filter (where t.status = 'done'), 0)
+  into current_points, done_points
+  from public.tasks t
+  where t.sprint_id = sprint.id;
+
+  select current_points - coalesce(sum(c.points_delta), 0)
+  into committed_points
+  from public.sprint_scope_changes c
+  where c.sprint_id = sprint.id and c.changed_at::date > sprint.start_date;
+
+  sprint_days := sprint.end_date - sprint.start_date;
+
+  insert into public.burndown_data (
+    project_id, sprint_id, date, ideal_points, actual_points, scope_points, completed_points
+  )
+  values (
+    sprint.project_id,
+    sprint.id,
+    target_date,
+    case
+      when sprint_days > 0 then greatest(round(committed_points * (1 - (target_date - sprint.start_date)::numeric / sprint_days)), 0)
+      else 0
+    end,
+    greatest(current_points - done_points, 0),
+    current_points,
+    done_points
+  )
+  on conflict (sprint_id, date) do update set
+    ideal_points = excluded.ideal_points,
+    actual_points = excluded.actual_points,
+    scope_points = excluded.scope_points,
+    completed_points = excluded.completed_points,
+    updated_at = now();
+end;
+$$;
+
+-- Captures every sprint running on the given day. Completed sprints are skipped: their
+-- unfinished tasks have been carried over and would show up as burned down.
+-- Returns how many sprints were captured.
+create or replace function public.capture_burndown_snapshots(target_date date default current_date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  sprint record;
+  captured integer := 0;
+begin
+  for sprint in
+    select s.id from public.sprints s
+    where s.status <> 'completed'
+      and s.start_date <= target_date
+      and s.end_date >= target_date
+  loop
+    perform public.capture_burndown_snapshot(sprint.id, target_date);
+    captured := captured + 1;
+  end loop;
+
+  return captured;
+end;
+$$;
+
+-- Only the database writes snapshots
+revoke execute on function public.capture_burndown_snapshot(uuid, date) from public, anon, authenticated;
+revoke execute on function public.capture_burndown_snapshots(date) from public, anon, authenticated;
+
+-- Capture at the end of every day (UTC) where pg_cron is available, as it is on hosted
+-- Supabase and the local stack. Elsewhere, run `select public.capture_burndown_snapshots();`
+-- from any scheduler.
+do $$
+begin
+  if exists (select 1 from pg_available_extensions where name = 'pg_cron') then
+    create extension if not exists pg_cron;
+    perform cron.unschedule(jobid) from cron.job where jobname = 'capture-burndown-snapshots';
+    perform cron.schedule('capture-burndown-snapshots', '55 23 * * *', 'select public.capture_burndown_snapshots()');
+  end if;
+end;
+$$;
+
+-- Start every running sprint off with today's state
+select public.capture_burndown_snapshots();
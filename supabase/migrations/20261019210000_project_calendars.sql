@@ -0,0 +1,119 @@
+-- Which days a project's team works. working_days holds ISO weekdays (1 = Monday,
+-- 7 = Sunday); project_days_off lists the dates nobody works on top of that, such as
+-- public holidays or a team offsite. Burndown ideal lines, sprint length checks and the
+-- timeline only count working days.
+alter table public.projects
+  add column if not exists working_days smallint[] not null default '{1,2,3,4,5}';
+
+create table if not exists public.project_days_off (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  date date not null,
+  kind text not null default 'holiday' check (kind in ('holiday', 'team')),
+  label text,
+  created_at timestamp with time zone not null default now(),
+  unique (project_id, date)
+);
+
+alter table public.project_days_off enable row level security;
+
+drop policy if exists "Members read days off" on public.project_days_off;
+create policy "Members read days off" on public.project_days_off
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+drop policy if exists "Editors manage days off" on public.project_days_off;
+create policy "Editors manage days off" on public.project_days_off
+  for all to authenticated
+  using (public.user_can(project_id, 'project.edit'))
+  with check (public.user_can(project_id, 'project.edit'));
+
+create or replace function public.is_project_working_day(target_project_id uuid, day date)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select extract(isodow from day)::smallint = any (p.working_days)
+    and not exists (
+      select 1 from public.project_days_off o
+      where o.project_id = p.id and o.date = day
+    )
+  from public.projects p
+  where p.id = target_project_id;
+$$;
+
+-- Working days after from_date up to and including to_date
+create or replace function public.count_project_working_days(target_project_id uuid, from_date date, to_date date)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(*)::integer
+  from generate_series(from_date + 1, to_date, interval '1 day') as day
+  where public.is_project_working_day(target_project_id, day::date);
+$$;
+
+-- Same snapshot as before, but the ideal line only burns down on working days
+create or replace function public.capture_burndown_snapshot(
+  target_sprint_id uuid,
+  target_date date default current_date
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  sprint record;
+  current_points integer;
+  done_points integer;
+  committed_points integer;
+  sprint_days integer;
+  elapsed_days integer;
+begin
+  select * into sprint from public.sprints s where s.id = target_sprint_id;
+  if not found then
+    return;
+  end if;
+
+  select coalesce(sum(t.story_points), 0), coalesce(sum(t.story_points) filter (where t.status = 'done'), 0)
+  into current_points, done_points
+  from public.tasks t
+  where t.sprint_id = sprint.id;
+
+  select current_points - coalesce(sum(c.points_delta), 0)
+  into committed_points
+  from public.sprint_scope_changes c
+  where c.sprint_id = sprint.id and c.changed_at::date > sprint.start_date;
+
+  sprint_days := public.count_project_working_days(sprint.project_id, sprint.start_date, sprint.end_date);
+  elapsed_days := public.count_project_working_days(sprint.project_id, sprint.start_date, least(target_date, sprint.end_date));
+
+  insert into public.burndown_data (
+    project_id, sprint_id, date, ideal_points, actual_points, scope_points, completed_points
+  )
+  values (
+    sprint.project_id,
+    sprint.id,
+    target_date,
+    case
+      when sprint_days > 0 then greatest(round(committed_points * (1 - elapsed_days::numeric / sprint_days)), 0)
+      else 0
+    end,
+    greatest(current_points - done_points, 0),
+    current_points,
+    done_points
+  )
+  on conflict (sprint_id, date) do update set
+    ideal_points = excluded.ideal_points,
+    actual_points = excluded.actual_points,
+    scope_points = excluded.scope_points,
+    completed_points = excluded.completed_points,
+    updated_at = now();
+end;
+$$;
+
+revoke execute on function public.capture_burndown_snapshot(uuid, date) from public, anon, authenticated;
@@ -0,0 +1,35 @@
+-- How much of a sprint each team member is around for. Members without a row are
+-- available full time; days_off counts the working days they are away during the
+-- sprint and allocation the share of the remaining days they spend on this project.
+create table if not exists public.sprint_availability (
+  id uuid primary key default gen_random_uuid(),
+  sprint_id uuid not null references public.sprints (id) on delete cascade,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  days_off smallint not null default 0 check (days_off >= 0),
+  allocation smallint not null default 100 check (allocation between 0 and 100),
+  updated_at timestamp with time zone not null default now(),
+  unique (sprint_id, user_id)
+);
+
+create index if not exists sprint_availability_project_id_idx on public.sprint_availability (project_id);
+
+drop trigger if exists sprint_availability_set_updated_at on public.sprint_availability;
+create trigger sprint_availability_set_updated_at
+  before update on public.sprint_availability
+  for each row execute function public.set_updated_at();
+
+alter table public.sprint_availability enable row level security;
+
+drop policy if exists "Members read sprint availability" on public.sprint_availability;
+create policy "Members read sprint availability" on public.sprint_availability
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+drop policy if exists "Sprint managers manage sprint availability" on public.sprint_availability;
+create policy "Sprint managers manage sprint availability" on public.sprint_availability
+  for all to authenticated
+  using (public.user_can(project_id, 'sprint.manage'))
+  with check (
+    public.user_can(project_id, 'sprint.manage')
+    and project_id = public.sprint_project_id(sprint_id)
+  );
@@ -0,0 +1,84 @@
+-- "Blocks / blocked by" links between tasks of a project, across sprints and the backlog.
+-- A task should not be finished while any task blocking it is still open; the board warns
+-- about it. Links that would make a task (indirectly) block itself are rejected.
+create table if not exists public.task_dependencies (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  blocking_task_id uuid not null references public.tasks (id) on delete cascade,
+  blocked_task_id uuid not null references public.tasks (id) on delete cascade,
+  created_by uuid default auth.uid() references public.users (id) on delete set null,
+  created_at timestamp with time zone not null default now(),
+  unique (blocking_task_id, blocked_task_id),
+  check (blocking_task_id <> blocked_task_id)
+);
+
+create index if not exists task_dependencies_project_id_idx on public.task_dependencies (project_id);
+create index if not exists task_dependencies_blocked_task_id_idx on public.task_dependencies (blocked_task_id);
+
+alter table public.task_dependencies enable row level security;
+
+drop policy if exists "Members read task dependencies" on public.task_dependencies;
+create policy "Members read task dependencies" on public.task_dependencies
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+drop policy if exists "Task editors manage task dependencies" on public.task_dependencies;
+create policy "Task editors manage task dependencies" on public.task_dependencies
+  for all to authenticated
+  using (public.user_can(project_id, 'task.edit'))
+  with check (public.user_can(project_id, 'task.edit'));
+
+-- Both tasks must belong to the dependency's project, and the blocked task must not
+-- already block the blocking one, directly or through other tasks
+create or replace function public.check_task_dependency()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1 from public.tasks t
+    where t.id in (new.blocking_task_id, new.blocked_task_id)
+      and t.project_id <> new.project_id
+  ) then
+    raise exception 'Dependent tasks must belong to the same project';
+  end if;
+
+  if exists (
+    with recursive downstream (task_id) as (
+      select d.blocked_task_id from public.task_dependencies d
+      where d.blocking_task_id = new.blocked_task_id
+      union
+      select d.blocked_task_id from public.task_dependencies d
+      join downstream on d.blocking_task_id = downstream.task_id
+    )
+    select 1 from downstream where task_id = new.blocking_task_id
+  ) then
+    raise exception 'Circular task dependency'
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists task_dependencies_check on public.task_dependencies;
+create trigger task_dependencies_check
+  before insert or update on public.task_dependencies
+  for each row execute function public.check_task_dependency();
+
+-- Boards show blocked badges live, like the rest of the task data
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'task_dependencies'
+  ) then
+    alter publication supabase_realtime add table public.task_dependencies;
+  end if;
+end
+$$;
+
+alter table public.task_dependencies replica identity full;
@@ -0,0 +1,59 @@
+-- Subtasks and checklist items inside a task. Subtasks are small pieces of work with an
+-- assignee of their own; checklist items are plain to-dos. Both are ticked off with
+-- is_done and count towards the progress shown on the task card.
+create table if not exists public.task_checklist_items (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  kind text not null default 'checklist' check (kind in ('subtask', 'checklist')),
+  title text not null,
+  -- Username, like tasks.assign_to; only used by subtasks
+  assign_to text,
+  is_done boolean not null default false,
+  order_index integer not null default 0,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+create index if not exists task_checklist_items_task_id_idx on public.task_checklist_items (task_id, order_index);
+create index if not exists task_checklist_items_project_id_idx on public.task_checklist_items (project_id);
+
+drop trigger if exists task_checklist_items_set_updated_at on public.task_checklist_items;
+create trigger task_checklist_items_set_updated_at
+  before update on public.task_checklist_items
+  for each row execute function public.set_updated_at();
+
+alter table public.task_checklist_items enable row level security;
+
+drop policy if exists "Members read checklist items" on public.task_checklist_items;
+create policy "Members read checklist items" on public.task_checklist_items
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+drop policy if exists "Task editors manage checklist items" on public.task_checklist_items;
+create policy "Task editors manage checklist items" on public.task_checklist_items
+  for all to authenticated
+  using (public.user_can(project_id, 'task.edit'))
+  with check (
+    public.user_can(project_id, 'task.edit')
+    and project_id = (select t.project_id from public.tasks t where t.id = task_id)
+  );
+
+-- When set, the board won't move the task to done until all its items are ticked off
+alter table public.tasks
+  add column if not exists checklist_blocks_done boolean not null default false;
+
+-- Task cards show checklist progress live
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'task_checklist_items'
+  ) then
+    alter publication supabase_realtime add table public.task_checklist_items;
+  end if;
+end
+$$;
+
+alter table public.task_checklist_items replica identity full;
@@ -0,0 +1,78 @@
+-- Epics group related backlog items and sprint tasks of a project into a larger piece of
+-- work with an optional target date. A task belongs to at most one epic; deleting the
+-- epic leaves its tasks in place without one.
+create table if not exists public.epics (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  title text not null,
+  description text,
+  -- Hex color the epic's badges are drawn in
+  color text not null default '#6366f1' check (color ~ '^#[0-9a-fA-F]{6}$'),
+  target_date date,
+  created_by uuid default auth.uid() references public.users (id) on delete set null,
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+create index if not exists epics_project_id_idx on public.epics (project_id);
+
+drop trigger if exists epics_set_updated_at on public.epics;
+create trigger epics_set_updated_at
+  before update on public.epics
+  for each row execute function public.set_updated_at();
+
+alter table public.epics enable row level security;
+
+drop policy if exists "Members read epics" on public.epics;
+create policy "Members read epics" on public.epics
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+-- Epics shape the backlog, so they are managed by whoever manages it
+drop policy if exists "Backlog managers manage epics" on public.epics;
+create policy "Backlog managers manage epics" on public.epics
+  for all to authenticated
+  using (public.user_can(project_id, 'backlog.manage'))
+  with check (public.user_can(project_id, 'backlog.manage'));
+
+alter table public.tasks
+  add column if not exists epic_id uuid references public.epics (id) on delete set null;
+
+create index if not exists tasks_epic_id_idx on public.tasks (epic_id);
+
+-- A task can only join an epic of its own project
+create or replace function public.check_task_epic()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.epic_id is not null and not exists (
+    select 1 from public.epics e where e.id = new.epic_id and e.project_id = new.project_id
+  ) then
+    raise exception 'Epic belongs to another project';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_check_epic on public.tasks;
+create trigger tasks_check_epic
+  before insert or update of epic_id, project_id on public.tasks
+  for each row execute function public.check_task_epic();
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'epics'
+  ) then
+    alter publication supabase_realtime add table public.epics;
+  end if;
+end
+$$;
+
+alter table public.epics replica identity full;
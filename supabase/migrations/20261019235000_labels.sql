@@ -0,0 +1,96 @@
+-- Labels are colored tags a project defines once and attaches to any of its tasks, in
+-- the backlog or in sprints, to filter them by. A task can carry several labels.
+create table if not exists public.labels (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid not null references public.projects (id) on delete cascade,
+  name text not null,
+  -- Hex color the label's chips are drawn in
+  color text not null default '#64748b' check (color ~ '^#[0-9a-fA-F]{6}$'),
+  created_at timestamp with time zone not null default now(),
+  unique (project_id, name)
+);
+
+alter table public.labels enable row level security;
+
+drop policy if exists "Members read labels" on public.labels;
+create policy "Members read labels" on public.labels
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+-- The set of labels is part of the project's setup
+drop policy if exists "Project editors manage labels" on public.labels;
+create policy "Project editors manage labels" on public.labels
+  for all to authenticated
+  using (public.user_can(project_id, 'project.edit'))
+  with check (public.user_can(project_id, 'project.edit'));
+
+create table if not exists public.task_labels (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  label_id uuid not null references public.labels (id) on delete cascade,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  created_at timestamp with time zone not null default now(),
+  unique (task_id, label_id)
+);
+
+create index if not exists task_labels_project_id_idx on public.task_labels (project_id);
+create index if not exists task_labels_label_id_idx on public.task_labels (label_id);
+
+alter table public.task_labels enable row level security;
+
+drop policy if exists "Members read task labels" on public.task_labels;
+create policy "Members read task labels" on public.task_labels
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+-- Labels are set wherever tasks are edited: backlog items by backlog managers, sprint
+-- tasks by task editors
+drop policy if exists "Task editors manage task labels" on public.task_labels;
+create policy "Task editors manage task labels" on public.task_labels
+  for all to authenticated
+  using (public.user_can(project_id, 'task.edit') or public.user_can(project_id, 'backlog.manage'))
+  with check (public.user_can(project_id, 'task.edit') or public.user_can(project_id, 'backlog.manage'));
+
+-- The task and the label must both belong to the row's project
+create or replace function public.check_task_label()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.tasks t where t.id = new.task_id and t.project_id = new.project_id
+  ) or not exists (
+    select 1 from public.labels l where l.id = new.label_id and l.project_id = new.project_id
+  ) then
+    raise exception 'Label belongs to another project';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists task_labels_check on public.task_labels;
+create trigger task_labels_check
+  before insert or update on public.task_labels
+  for each row execute function public.check_task_label();
+
+-- Task cards show label chips live
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array['labels', 'task_labels'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = table_name
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', table_name);
+    end if;
+  end loop;
+end
+$$;
+
+alter table public.labels replica identity full;
+alter table public.task_labels replica identity full;
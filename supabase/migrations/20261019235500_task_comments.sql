@@ -0,0 +1,100 @@
+-- Discussion on a task: markdown comments by project members, with replies one level
+-- deep under a top-level comment. Authors can edit and delete their own comments;
+-- deleting a comment deletes its replies. @username mentions stay plain text in body.
+create table if not exists public.task_comments (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  project_id uuid not null references public.projects (id) on delete cascade,
+  -- The comment this one replies to; null for a top-level comment
+  parent_id uuid references public.task_comments (id) on delete cascade,
+  user_id uuid not null default auth.uid() references public.users (id) on delete cascade,
+  body text not null check (length(trim(body)) > 0),
+  created_at timestamp with time zone not null default now(),
+  updated_at timestamp with time zone not null default now()
+);
+
+create index if not exists task_comments_task_id_idx on public.task_comments (task_id, created_at);
+create index if not exists task_comments_project_id_idx on public.task_comments (project_id);
+
+drop trigger if exists task_comments_set_updated_at on public.task_comments;
+create trigger task_comments_set_updated_at
+  before update on public.task_comments
+  for each row execute function public.set_updated_at();
+
+alter table public.task_comments enable row level security;
+
+drop policy if exists "Members read task comments" on public.task_comments;
+create policy "Members read task comments" on public.task_comments
+  for select to authenticated using (public.user_can_access_project(project_id));
+
+-- Every member may join the discussion, but only under their own name
+drop policy if exists "Members add task comments" on public.task_comments;
+create policy "Members add task comments" on public.task_comments
+  for insert to authenticated
+  with check (public.user_can_access_project(project_id) and user_id = auth.uid());
+
+drop policy if exists "Authors edit their task comments" on public.task_comments;
+create policy "Authors edit their task comments" on public.task_comments
+  for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Authors delete their task comments" on public.task_comments;
+create policy "Authors delete their task comments" on public.task_comments
+  for delete to authenticated using (user_id = auth.uid());
+
+-- The comment must be on a task of its project, and a reply must answer a top-level
+-- comment on the same task. Edits can't move a comment elsewhere.
+create or replace function public.check_task_comment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and (
+    new.task_id <> old.task_id
+    or new.project_id <> old.project_id
+    or new.parent_id is distinct from old.parent_id
+    or new.user_id <> old.user_id
+  ) then
+    raise exception 'Only the text of a comment can be changed';
+  end if;
+
+  if not exists (
+    select 1 from public.tasks t where t.id = new.task_id and t.project_id = new.project_id
+  ) then
+    raise exception 'Task belongs to another project';
+  end if;
+
+  if new.parent_id is not null and not exists (
+    select 1 from public.task_comments c
+    where c.id = new.parent_id and c.task_id = new.task_id and c.parent_id is null
+  ) then
+    raise exception 'Replies must answer a top-level comment on the same task';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists task_comments_check on public.task_comments;
+create trigger task_comments_check
+  before insert or update on public.task_comments
+  for each row execute function public.check_task_comment();
+
+-- Comment threads and counts on task cards update live
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'task_comments'
+  ) then
+    alter publication supabase_realtime add table public.task_comments;
+  end if;
+end
+$$;
+
+alter table public.task_comments replica identity full;
@@ -0,0 +1,55 @@
+-- get_login_email handed any account's email to anyone without a session. Username
+-- sign-in now goes through the sign-in edge function, which looks the email up with the
+-- service role and never returns it.
+drop function if exists public.get_login_email(text);
+
+-- The profile email mirrors auth.users and is only written by the auth triggers, which
+-- run as the table owner. Signed-in users may change their username and nothing else.
+revoke update on public.users from anon, authenticated;
+grant update (username) on public.users to authenticated;
+
+-- Profiles, and the emails on them, are visible to their owner and to the people they
+-- share a project with; that covers project owners, teams and comment authors.
+create or replace function public.shares_project_with(other_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select other_user_id = auth.uid() or exists (
+    select 1 from (
+      select p.id as project_id, p.owner_id as user_id from public.projects p
+      union all
+      select c.project_id, c.user_id from public.collaborators c
+    ) member
+    where member.user_id = other_user_id
+      and public.user_can_access_project(member.project_id)
+  );
+$$;
+
+drop policy if exists "Profiles are visible to signed-in users" on public.users;
+drop policy if exists "Users see themselves and their teammates" on public.users;
+create policy "Users see themselves and their teammates" on public.users
+  for select to authenticated using (public.shares_project_with(id));
+
+-- Adding someone to a team starts from their exact username or email. Only the id and
+-- username come back; the email only when it is what the caller typed.
+create or replace function public.find_user_by_login(login text)
+returns table (id uuid, username text, email text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    u.id,
+    u.username,
+    case when lower(u.email) = lower(login) then u.email end
+  from public.users u
+  where u.username = login or lower(u.email) = lower(login)
+  limit 1;
+$$;
+
+revoke execute on function public.find_user_by_login(text) from public, anon;
+grant execute on function public.find_user_by_login(text) to authenticated;
@@ -0,0 +1,111 @@
+-- Completing a sprint touches several tables: the record of what it committed to and
+-- delivered, its unfinished tasks, its status and the next sprint's. Doing it in one
+-- function keeps it a single transaction, so a failure leaves the sprint as it was and
+-- completing it again just works.
+create or replace function public.complete_sprint(
+  p_sprint_id uuid,
+  -- Destination per unfinished task id: 'backlog' or another sprint's id. Unfinished
+  -- tasks left out stay in the sprint.
+  p_destinations jsonb default '{}'::jsonb,
+  -- Planned sprint to start once this one is completed
+  p_start_sprint_id uuid default null
+)
+returns public.sprint_completions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  completed_sprint public.sprints;
+  completion public.sprint_completions;
+begin
+  select * into completed_sprint from public.sprints where id = p_sprint_id for update;
+
+  if not found or not public.user_can(completed_sprint.project_id, 'sprint.manage') then
+    raise exception 'Sprint not found';
+  end if;
+
+  if completed_sprint.status = 'completed' then
+    raise exception 'Sprint is already completed';
+  end if;
+
+  if exists (
+    select 1 from jsonb_each_text(p_destinations) d
+    where d.value <> 'backlog' and not exists (
+      select 1 from public.sprints s
+      where s.id::text = d.value
+        and s.project_id = completed_sprint.project_id
+        and s.id <> p_sprint_id
+    )
+  ) or (p_start_sprint_id is not null and not exists (
+    select 1 from public.sprints s
+    where s.id = p_start_sprint_id
+      and s.project_id = completed_sprint.project_id
+      and s.id <> p_sprint_id
+  )) then
+    raise exception 'Unfinished work can only go to the backlog or another sprint of the project';
+  end if;
+
+  -- Count before anything moves, so the record reflects the sprint as it ended. The
+  -- commitment is worked out like the burndown's: the points in the sprint now minus the
+  -- scope changes made after its start date.
+  insert into public.sprint_completions (
+    sprint_id,
+    project_id,
+    committed_points,
+    delivered_points,
+    committed_tasks,
+    delivered_tasks,
+    carried_over_tasks,
+    next_sprint_id,
+    completed_by
+  )
+  select
+    p_sprint_id,
+    completed_sprint.project_id,
+    coalesce(sum(t.story_points), 0) - (
+      select coalesce(sum(c.points_delta), 0)
+      from public.sprint_scope_changes c
+      where c.sprint_id = p_sprint_id and c.changed_at::date > completed_sprint.start_date
+    ),
+    coalesce(sum(t.story_points) filter (where t.status = 'done'), 0),
+    count(*),
+    count(*) filter (where t.status = 'done'),
+    count(*) filter (where t.status <> 'done' and p_destinations ? t.id::text),
+    coalesce(p_start_sprint_id, (
+      select d.value::uuid from jsonb_each_text(p_destinations) d
+      where d.value <> 'backlog'
+      limit 1
+    )),
+    auth.uid()
+  from public.tasks t
+  where t.sprint_id = p_sprint_id
+  returning * into completion;
+
+  -- Carried-over tasks start again from the first column of the board they land on
+  update public.tasks t
+  set sprint_id = null, status = 'backlog', column_id = null
+  where t.sprint_id = p_sprint_id
+    and t.status <> 'done'
+    and p_destinations ->> t.id::text = 'backlog';
+
+  update public.tasks t
+  set sprint_id = (p_destinations ->> t.id::text)::uuid, status = 'todo', column_id = null
+  where t.sprint_id = p_sprint_id
+    and t.status <> 'done'
+    and p_destinations ->> t.id::text <> 'backlog';
+
+  update public.sprints set status = 'completed' where id = p_sprint_id;
+
+  if p_start_sprint_id is not null then
+    update public.sprints set status = 'in-progress' where id = p_start_sprint_id;
+  end if;
+
+  return completion;
+end;
+$$;
+
+grant execute on function public.complete_sprint(uuid, jsonb, uuid) to authenticated;
+
+-- Completions are only recorded by complete_sprint now
+drop policy if exists "Sprint managers record sprint completions" on public.sprint_completions;
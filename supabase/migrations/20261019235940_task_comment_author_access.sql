@@ -0,0 +1,12 @@
+-- Authors keep their comments only while they can still open the project: someone who
+-- left the team can no longer edit or delete what they wrote there.
+drop policy if exists "Authors edit their task comments" on public.task_comments;
+create policy "Authors edit their task comments" on public.task_comments
+  for update to authenticated
+  using (public.user_can_access_project(project_id) and user_id = auth.uid())
+  with check (public.user_can_access_project(project_id) and user_id = auth.uid());
+
+drop policy if exists "Authors delete their task comments" on public.task_comments;
+create policy "Authors delete their task comments" on public.task_comments
+  for delete to authenticated
+  using (public.user_can_access_project(project_id) and user_id = auth.uid());
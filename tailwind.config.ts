@@ -1,4 +1,5 @@
 import type { Config } from "tailwindcss";
+import typography from "@tailwindcss/typography";
 
 export default {
 	darkMode: ["class"],
@@ -72,7 +73,8 @@ export default {
 						axis: 'hsl(var(--scrum-chart-axis))',
 						line1: 'hsl(var(--scrum-chart-line-1))',
 						line2: 'hsl(var(--scrum-chart-line-2))',
-						reference: 'hsl(var(--scrum-chart-reference))'
+						reference: 'hsl(var(--scrum-chart-reference))',
+						scope: 'hsl(var(--scrum-chart-scope))'
 					}
 				}
 			},
@@ -121,5 +123,5 @@ export default {
 			}
 		}
 	},
-	plugins: [require("tailwindcss-animate")],
+	plugins: [require("tailwindcss-animate"), typography],
 } satisfies Config;